@@ -1,16 +1,8 @@
 /** @type {import('next-sitemap').IConfig} */
 module.exports = {
   siteUrl: process.env.SITE_URL || 'https://techblit.com',
-  generateRobotsTxt: true,
+  // robots.txt is served from site settings by app/robots.txt
+  generateRobotsTxt: false,
   generateIndexSitemap: false,
   exclude: ['/admin/*', '/api/*'],
-  robotsTxtOptions: {
-    policies: [
-      {
-        userAgent: '*',
-        allow: '/',
-        disallow: ['/admin/', '/api/'],
-      },
-    ],
-  },
 };
@@ -9,6 +9,8 @@ import CategoryPill from '@/components/homepage/atoms/CategoryPill'
 import ArticleSidebar from '@/components/article/ArticleSidebar'
 import ArticleRelatedPosts from '@/components/article/ArticleRelatedPosts'
 import { generatePostSEO, generateStructuredData, type BlogPostSEO } from '@/lib/seo'
+import { serializeJsonLd } from '@/lib/structuredData'
+import { reportStructuredDataIssues } from '@/lib/structuredDataValidation'
 import { getAuthorUrl } from '@/lib/authorUtils'
 import { formatDateShort } from '@/lib/dateUtils'
 import { getImageUrlFromData } from '@/lib/imageHelpers'
@@ -168,7 +170,10 @@ export default async function BlogPostPage({
     ? FOUNDERS_CTA_CATEGORIES.includes(primaryCategory)
     : false
 
-  const structuredDataSchemas = generateStructuredData(post as BlogPostSEO)
+  const structuredData = generateStructuredData(post as BlogPostSEO)
+  if (process.env.NODE_ENV === 'development') {
+    reportStructuredDataIssues(structuredData, `/${post.slug}`)
+  }
   const articleUrl = `https://www.techblit.com/${post.slug}`
   const imageUrl = getImageUrl(post.featuredImage)
   const dateLabel = formatDateShort(post.publishedAt || post.createdAt)
@@ -186,13 +191,10 @@ export default async function BlogPostPage({
 
   return (
     <div className="min-h-screen bg-white dark:bg-gray-950 overflow-x-hidden">
-      {structuredDataSchemas.map((schema, index) => (
-        <script
-          key={index}
-          type="application/ld+json"
-          dangerouslySetInnerHTML={{ __html: JSON.stringify(schema) }}
-        />
-      ))}
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(structuredData) }}
+      />
 
       <Navigation />
 
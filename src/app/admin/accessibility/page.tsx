@@ -0,0 +1,204 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import apiService from '@/lib/apiService';
+import AdminLayout from '@/components/admin/AdminLayout';
+import { withAuth } from '@/contexts/AuthContext';
+import { describeApiError } from '@/lib/api/errors';
+import {
+  auditAccessibility,
+  summarizeAccessibility,
+  ACCESSIBILITY_RULE_LABELS,
+  AccessibilityIssue,
+  AccessibilityRule,
+} from '@/lib/accessibilityAudit';
+import { Alert, Badge, Button, Select, Spinner } from '@/components/ui';
+
+type Row = {
+  slug: string;
+  title: string;
+  issues: AccessibilityIssue[];
+  counts: Record<AccessibilityRule, number>;
+};
+
+const RULES = Object.keys(ACCESSIBILITY_RULE_LABELS) as AccessibilityRule[];
+
+function AccessibilityReportPage() {
+  const [rows, setRows] = useState<Row[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rule, setRule] = useState<'all' | AccessibilityRule>('all');
+  const [showClean, setShowClean] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const posts = await apiService.getEveryPost({ status: 'published' }, { signal: controller.signal });
+        setRows(
+          posts.map((post) => {
+            const issues = auditAccessibility(post.contentHtml);
+            return { slug: post.slug, title: post.title, issues, counts: summarizeAccessibility(issues) };
+          })
+        );
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Error running accessibility report:', err);
+        setError(describeApiError(err, 'Failed to load published posts.'));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+    load();
+    return () => controller.abort();
+  }, [reloadKey]);
+
+  const totals = useMemo(() => {
+    const all = summarizeAccessibility(rows.flatMap((row) => row.issues));
+    return { ...all, posts: rows.filter((row) => row.issues.length > 0).length };
+  }, [rows]);
+
+  const visibleRows = rows
+    .map((row) => ({ row, count: rule === 'all' ? row.issues.length : row.counts[rule] }))
+    .filter(({ count }) => showClean || count > 0)
+    .sort((a, b) => b.count - a.count || a.row.title.localeCompare(b.row.title));
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Accessibility Report</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Every published post checked for missing alt text, heading order, link text, table headers and color
+              contrast.
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => setReloadKey((key) => key + 1)} disabled={loading}>
+            Re-run
+          </Button>
+        </div>
+
+        {error && <Alert variant="danger">{error}</Alert>}
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Spinner size="lg" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-6">
+              <div className="bg-white shadow rounded-lg p-4">
+                <p className="text-xs font-medium text-gray-500 uppercase">Posts with issues</p>
+                <p className="mt-1 text-2xl font-semibold text-gray-900">
+                  {totals.posts}
+                  <span className="text-sm font-normal text-gray-500"> / {rows.length}</span>
+                </p>
+              </div>
+              {RULES.map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setRule(rule === key ? 'all' : key)}
+                  className={`bg-white shadow rounded-lg p-4 text-left ${rule === key ? 'ring-2 ring-blue-500' : ''}`}
+                >
+                  <p className="text-xs font-medium text-gray-500 uppercase">{ACCESSIBILITY_RULE_LABELS[key]}</p>
+                  <p className="mt-1 text-2xl font-semibold text-gray-900">{totals[key]}</p>
+                </button>
+              ))}
+            </div>
+
+            <div className="bg-white shadow rounded-lg p-4 flex flex-col sm:flex-row gap-4 sm:items-center">
+              <Select
+                value={rule}
+                onChange={(e) => setRule(e.target.value as 'all' | AccessibilityRule)}
+                options={[
+                  { value: 'all', label: 'All checks' },
+                  ...RULES.map((key) => ({ value: key, label: ACCESSIBILITY_RULE_LABELS[key] })),
+                ]}
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={showClean} onChange={(e) => setShowClean(e.target.checked)} />
+                Show posts without issues
+              </label>
+            </div>
+
+            <div className="bg-white shadow overflow-hidden sm:rounded-md">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Post</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Issues</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {visibleRows.map(({ row, count }) => (
+                    <tr key={row.slug} className="align-top">
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        <button
+                          type="button"
+                          onClick={() => setExpanded(expanded === row.slug ? null : row.slug)}
+                          className="text-left font-medium hover:text-blue-700"
+                        >
+                          {row.title}
+                        </button>
+                        {expanded === row.slug && (
+                          <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                            {row.issues
+                              .filter((issue) => rule === 'all' || issue.rule === rule)
+                              .map((issue) => (
+                                <li key={`${issue.rule}:${issue.target.tag}:${issue.target.index}`}>
+                                  <span className={issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}>
+                                    {issue.message}
+                                  </span>
+                                  {issue.excerpt && <span className="text-gray-400"> — {issue.excerpt}</span>}
+                                </li>
+                              ))}
+                          </ul>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {count === 0 ? (
+                          <Badge variant="success">Clean</Badge>
+                        ) : (
+                          <div className="flex flex-wrap gap-1">
+                            {RULES.filter((key) => row.counts[key] > 0 && (rule === 'all' || rule === key)).map((key) => (
+                              <Badge key={key} variant={key === 'image-alt' ? 'danger' : 'warning'}>
+                                {ACCESSIBILITY_RULE_LABELS[key]}: {row.counts[key]}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right text-sm">
+                        <Link
+                          href={`/admin/posts/${row.slug}/edit`}
+                          className="text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          Fix
+                        </Link>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {visibleRows.length === 0 && (
+                <p className="text-center py-12 text-gray-500">
+                  {rows.length === 0 ? 'No published posts yet.' : 'No issues found.'}
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default withAuth(AccessibilityReportPage, 'create_post');
@@ -0,0 +1,365 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import apiService from '@/lib/apiService';
+import AdminLayout from '@/components/admin/AdminLayout';
+import { withAuth } from '@/contexts/AuthContext';
+import { PostStatus, POST_STATUSES, getStatusLabel, getStatusBadgeClasses } from '@/types/admin';
+import { ArrowDownTrayIcon, ArrowPathIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { Alert, Badge, Button, Input, Select, Spinner } from '@/components/ui';
+import { describeApiError } from '@/lib/api/errors';
+import { formatDateShort } from '@/lib/dateUtils';
+import { toCsv, downloadCsv } from '@/lib/csv';
+import {
+  auditPostContent,
+  CONTENT_ISSUE_LABELS,
+  ContentAuditRow,
+  ContentIssueKind,
+} from '@/lib/contentAudit';
+
+type SortKey = 'title' | 'issues' | 'seoScore' | 'wordCount' | 'updatedAt';
+type GroupBy = 'none' | 'author' | 'category';
+
+const ISSUE_KINDS = Object.keys(CONTENT_ISSUE_LABELS) as ContentIssueKind[];
+const ROWS_PER_STEP = 100;
+
+const SORT_VALUE: Record<SortKey, (row: ContentAuditRow) => number | string> = {
+  title: (row) => row.title.toLowerCase(),
+  issues: (row) => row.issues.length,
+  seoScore: (row) => row.seoScore,
+  wordCount: (row) => row.wordCount,
+  updatedAt: (row) => row.updatedAt?.getTime() ?? 0,
+};
+
+function ContentAuditPage() {
+  const [rows, setRows] = useState<ContentAuditRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<PostStatus | 'all'>('all');
+  const [issueFilter, setIssueFilter] = useState<ContentIssueKind | 'any' | 'all'>('any');
+  const [authorFilter, setAuthorFilter] = useState('all');
+  const [categoryFilter, setCategoryFilter] = useState('all');
+  const [groupBy, setGroupBy] = useState<GroupBy>('none');
+  const [sort, setSort] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({ key: 'issues', direction: 'desc' });
+  const [visibleCount, setVisibleCount] = useState(ROWS_PER_STEP);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const posts = await apiService.getEveryPost(undefined, { signal: controller.signal });
+        setRows(posts.map((post) => auditPostContent(post)));
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Error running content audit:', err);
+        setError(describeApiError(err, 'Failed to load posts for the audit.'));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+    load();
+    return () => controller.abort();
+  }, [reloadKey]);
+
+  const authors = useMemo(() => Array.from(new Set(rows.map((row) => row.author))).sort(), [rows]);
+  const categories = useMemo(() => Array.from(new Set(rows.map((row) => row.category))).sort(), [rows]);
+
+  const issueCounts = useMemo(() => {
+    const counts = Object.fromEntries(ISSUE_KINDS.map((kind) => [kind, 0])) as Record<ContentIssueKind, number>;
+    for (const row of rows) {
+      for (const kind of new Set(row.issues.map((issue) => issue.kind))) counts[kind]++;
+    }
+    return counts;
+  }, [rows]);
+
+  const filteredRows = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const { key, direction } = sort;
+    const sign = direction === 'asc' ? 1 : -1;
+    return rows
+      .filter((row) => {
+        if (statusFilter !== 'all' && row.status !== statusFilter) return false;
+        if (authorFilter !== 'all' && row.author !== authorFilter) return false;
+        if (categoryFilter !== 'all' && row.category !== categoryFilter) return false;
+        if (issueFilter === 'any' && row.issues.length === 0) return false;
+        if (issueFilter !== 'any' && issueFilter !== 'all' && !row.issues.some((issue) => issue.kind === issueFilter)) {
+          return false;
+        }
+        return !term || row.title.toLowerCase().includes(term) || row.slug.includes(term);
+      })
+      .sort((a, b) => {
+        const left = SORT_VALUE[key](a);
+        const right = SORT_VALUE[key](b);
+        return (left < right ? -1 : left > right ? 1 : 0) * sign;
+      });
+  }, [rows, search, statusFilter, authorFilter, categoryFilter, issueFilter, sort]);
+
+  const groups = useMemo(() => {
+    if (groupBy === 'none') return [{ name: null, rows: filteredRows }];
+    const byName = new Map<string, ContentAuditRow[]>();
+    for (const row of filteredRows) {
+      const name = groupBy === 'author' ? row.author : row.category;
+      byName.set(name, [...(byName.get(name) ?? []), row]);
+    }
+    return Array.from(byName, ([name, groupRows]) => ({ name, rows: groupRows })).sort(
+      (a, b) => b.rows.length - a.rows.length || a.name.localeCompare(b.name)
+    );
+  }, [filteredRows, groupBy]);
+
+  // Only the first `visibleCount` rows render, across groups
+  const visibleGroups = useMemo(() => {
+    let remaining = visibleCount;
+    return groups
+      .map((group) => {
+        const shown = group.rows.slice(0, Math.max(0, remaining));
+        remaining -= shown.length;
+        return { ...group, shown };
+      })
+      .filter((group) => group.shown.length > 0);
+  }, [groups, visibleCount]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort((prev) =>
+      prev.key === key
+        ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+        : { key, direction: key === 'title' ? 'asc' : 'desc' }
+    );
+  };
+
+  const handleExport = () => {
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://www.techblit.com';
+    const csv = toCsv([
+      ['Title', 'Slug', 'Status', 'Author', 'Category', 'Updated', 'Words', 'SEO score', 'Issues', 'Details', 'Edit URL'],
+      ...filteredRows.map((row) => [
+        row.title,
+        row.slug,
+        getStatusLabel(row.status),
+        row.author,
+        row.category,
+        row.updatedAt,
+        row.wordCount,
+        row.seoScore,
+        row.issues.map((issue) => CONTENT_ISSUE_LABELS[issue.kind]).join('; '),
+        row.issues.map((issue) => issue.message).join('; '),
+        `${siteUrl}/admin/posts/${row.slug}/edit`,
+      ]),
+    ]);
+    downloadCsv(`content-audit-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+  };
+
+  const sortHeader = (key: SortKey, label: string, align: 'left' | 'right' = 'left') => (
+    <th className={`px-4 py-3 ${align === 'right' ? 'text-right' : 'text-left'} text-xs font-medium text-gray-500 uppercase`}>
+      <button type="button" onClick={() => toggleSort(key)} className="uppercase hover:text-gray-900">
+        {label}
+        {sort.key === key ? (sort.direction === 'asc' ? ' ▲' : ' ▼') : ''}
+      </button>
+    </th>
+  );
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Content Audit</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              SEO and content checks across every post: thin content, missing metadata, canonicals and noindex.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setReloadKey((key) => key + 1)}
+              disabled={loading}
+              leftIcon={<ArrowPathIcon className="h-4 w-4" />}
+            >
+              Re-run
+            </Button>
+            <Button
+              onClick={handleExport}
+              disabled={loading || filteredRows.length === 0}
+              leftIcon={<ArrowDownTrayIcon className="h-4 w-4" />}
+            >
+              Export CSV
+            </Button>
+          </div>
+        </div>
+
+        {error && <Alert variant="danger">{error}</Alert>}
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Spinner size="lg" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4 xl:grid-cols-7">
+              {ISSUE_KINDS.map((kind) => (
+                <button
+                  key={kind}
+                  type="button"
+                  onClick={() => setIssueFilter(issueFilter === kind ? 'any' : kind)}
+                  className={`bg-white shadow rounded-lg p-4 text-left ${issueFilter === kind ? 'ring-2 ring-blue-500' : ''}`}
+                >
+                  <p className="text-xs font-medium text-gray-500 uppercase">{CONTENT_ISSUE_LABELS[kind]}</p>
+                  <p className="mt-1 text-2xl font-semibold text-gray-900">{issueCounts[kind]}</p>
+                </button>
+              ))}
+            </div>
+
+            <div className="bg-white shadow rounded-lg p-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-6 lg:items-end">
+              <div className="lg:col-span-2">
+                <Input
+                  label="Search"
+                  placeholder="Title or slug…"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  leftIcon={<MagnifyingGlassIcon className="h-5 w-5" />}
+                />
+              </div>
+              <Select
+                label="Issue"
+                value={issueFilter}
+                onChange={(e) => setIssueFilter(e.target.value as ContentIssueKind | 'any' | 'all')}
+                options={[
+                  { value: 'any', label: 'Any issue' },
+                  { value: 'all', label: 'All posts' },
+                  ...ISSUE_KINDS.map((kind) => ({ value: kind, label: CONTENT_ISSUE_LABELS[kind] })),
+                ]}
+              />
+              <Select
+                label="Status"
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as PostStatus | 'all')}
+                options={[
+                  { value: 'all', label: 'All statuses' },
+                  ...POST_STATUSES.map((status) => ({ value: status, label: getStatusLabel(status) })),
+                ]}
+              />
+              <Select
+                label="Author"
+                value={authorFilter}
+                onChange={(e) => setAuthorFilter(e.target.value)}
+                options={[{ value: 'all', label: 'All authors' }, ...authors.map((name) => ({ value: name, label: name }))]}
+              />
+              <Select
+                label="Category"
+                value={categoryFilter}
+                onChange={(e) => setCategoryFilter(e.target.value)}
+                options={[
+                  { value: 'all', label: 'All categories' },
+                  ...categories.map((name) => ({ value: name, label: name })),
+                ]}
+              />
+              <Select
+                label="Group by"
+                value={groupBy}
+                onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+                options={[
+                  { value: 'none', label: 'No grouping' },
+                  { value: 'author', label: 'Author' },
+                  { value: 'category', label: 'Category' },
+                ]}
+              />
+            </div>
+
+            <p className="text-sm text-gray-500">
+              {filteredRows.length} of {rows.length} posts
+            </p>
+
+            <div className="bg-white shadow overflow-x-auto sm:rounded-md">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {sortHeader('title', 'Post')}
+                    {sortHeader('issues', 'Issues')}
+                    {sortHeader('seoScore', 'SEO', 'right')}
+                    {sortHeader('wordCount', 'Words', 'right')}
+                    {sortHeader('updatedAt', 'Updated', 'right')}
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                {visibleGroups.map((group) => (
+                    <tbody key={group.name ?? 'all'} className="divide-y divide-gray-200">
+                      {group.name !== null && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={6} className="px-4 py-2 text-sm font-semibold text-gray-700">
+                            {group.name}
+                            <span className="ml-2 font-normal text-gray-500">
+                              {group.rows.length} post{group.rows.length === 1 ? '' : 's'},{' '}
+                              {group.rows.reduce((sum, row) => sum + row.issues.length, 0)} issues
+                            </span>
+                          </td>
+                        </tr>
+                      )}
+                      {group.shown.map((row) => (
+                        <tr key={row.slug} className="align-top">
+                          <td className="px-4 py-3 text-sm">
+                            <p className="font-medium text-gray-900">{row.title}</p>
+                            <p className="mt-0.5 text-xs text-gray-500">
+                              <span className={`mr-2 rounded px-1.5 py-0.5 ${getStatusBadgeClasses(row.status)}`}>
+                                {getStatusLabel(row.status)}
+                              </span>
+                              {row.author} · {row.category}
+                            </p>
+                          </td>
+                          <td className="px-4 py-3">
+                            {row.issues.length === 0 ? (
+                              <Badge variant="success">No issues</Badge>
+                            ) : (
+                              <div className="flex flex-wrap gap-1">
+                                {row.issues.map((issue) => (
+                                  <span key={issue.kind} title={issue.message}>
+                                    <Badge variant={issue.severity === 'error' ? 'danger' : 'warning'}>
+                                      {CONTENT_ISSUE_LABELS[issue.kind]}
+                                    </Badge>
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-right text-sm text-gray-700">{row.seoScore}</td>
+                          <td className="px-4 py-3 text-right text-sm text-gray-700">{row.wordCount}</td>
+                          <td className="px-4 py-3 text-right text-sm text-gray-500 whitespace-nowrap">
+                            {row.updatedAt ? formatDateShort(row.updatedAt) : '—'}
+                          </td>
+                          <td className="px-4 py-3 text-right text-sm">
+                            <Link
+                              href={`/admin/posts/${row.slug}/edit`}
+                              className="text-blue-600 hover:text-blue-800 font-medium"
+                            >
+                              Edit
+                            </Link>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                ))}
+              </table>
+              {filteredRows.length === 0 && (
+                <p className="text-center py-12 text-gray-500">
+                  {rows.length === 0 ? 'No posts yet.' : 'No posts match these filters.'}
+                </p>
+              )}
+            </div>
+
+            {filteredRows.length > visibleCount && (
+              <div className="text-center">
+                <Button variant="ghost" onClick={() => setVisibleCount((count) => count + ROWS_PER_STEP)}>
+                  Show more ({filteredRows.length - visibleCount} remaining)
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default withAuth(ContentAuditPage, 'create_post');
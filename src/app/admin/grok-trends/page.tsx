@@ -13,6 +13,8 @@ import {
   getGrokStatusBadgeVariant,
   getGrokStatusLabel
 } from '@/types/admin';
+import type { GrokAutoDraftConfig, GrokStats } from '@/lib/api/schemas';
+import { NotFoundError } from '@/lib/api/errors';
 import {
   Card,
   CardContent,
@@ -58,14 +60,6 @@ const CATEGORY_ICONS: Record<string, React.ComponentType<{ className?: string }>
   'Emerging Technologies': CpuChipIcon
 };
 
-interface StoryStats {
-  total: number;
-  new: number;
-  draft_created: number;
-  published: number;
-  archived: number;
-}
-
 // Custom Dropdown Component
 interface CustomDropdownProps {
   value: string;
@@ -402,17 +396,17 @@ function GrokTrendsPage() {
   const [showPublishModal, setShowPublishModal] = useState(false);
   const [showPreviewModal, setShowPreviewModal] = useState(false);
   const [previewStory, setPreviewStory] = useState<GrokStory | null>(null);
-  const [stats, setStats] = useState<StoryStats>({
+  const [stats, setStats] = useState<GrokStats>({
     total: 0,
     new: 0,
     draft_created: 0,
     published: 0,
     archived: 0
   });
-  const [autoDraftConfig, setAutoDraftConfig] = useState({
+  const [autoDraftConfig, setAutoDraftConfig] = useState<GrokAutoDraftConfig>({
     enabled: false,
     engagementThreshold: 5000,
-    categories: [] as string[]
+    categories: []
   });
   const [savingConfig, setSavingConfig] = useState(false);
   const [showAutoDraftSettings, setShowAutoDraftSettings] = useState(false);
@@ -444,21 +438,11 @@ function GrokTrendsPage() {
 
   const fetchAutoDraftConfig = async () => {
     try {
-      const config = await apiService.getAutoDraftConfig() as any;
-      if (config) {
-        setAutoDraftConfig({
-          enabled: config.enabled || false,
-          engagementThreshold: config.engagementThreshold || 5000,
-          categories: config.categories || []
-        });
-      }
-    } catch (error: any) {
-      // Handle 404 gracefully - config might not exist yet, use defaults
-      const errorMessage = error?.message || String(error || '');
-      if (errorMessage.includes('404') || errorMessage.includes('not found')) {
-        // Config doesn't exist yet, use defaults (already set in state)
-        // Silently continue with default values
-      } else {
+      const config = await apiService.getAutoDraftConfig();
+      setAutoDraftConfig(config);
+    } catch (error) {
+      // Config might not exist yet - keep the defaults already set in state
+      if (!(error instanceof NotFoundError)) {
         console.error('Error fetching auto-draft config:', error);
       }
     }
@@ -487,18 +471,7 @@ function GrokTrendsPage() {
         fetchData.category = fetchCategory;
       }
       
-      const result = await apiService.fetchGrokStories(fetchData) as any;
-      
-      // Extract result data
-      let fetchResult = result;
-      if (result && typeof result === 'object' && 'data' in result) {
-        fetchResult = result.data;
-      }
-      
-      const fetched = fetchResult?.fetched || 0;
-      const stored = fetchResult?.stored || 0;
-      const skipped = fetchResult?.skipped || 0;
-      const draftsGenerated = fetchResult?.draftsGenerated || 0;
+      const { fetched, stored, skipped, draftsGenerated } = await apiService.fetchGrokStories(fetchData);
       
       // Show success message
       alert(
@@ -535,34 +508,12 @@ function GrokTrendsPage() {
         return;
       }
       
-      // Fetch stories from API
-      const response = await apiService.getGrokStories({
+      // Fetch stories from API (validated and normalized by the grok schemas)
+      const storiesData = await apiService.getGrokStories({
         status: selectedStatus !== 'all' ? selectedStatus : undefined,
         category: selectedCategory !== 'all' ? selectedCategory : undefined,
         limit: 100
       });
-
-      // Ensure we have an array - handle both direct array and wrapped responses
-      let storiesData: GrokStory[] = [];
-      if (Array.isArray(response)) {
-        storiesData = response;
-      } else if (response && typeof response === 'object') {
-        // Try to extract array from various possible response structures
-        const responseObj = response as Record<string, any>;
-        if (Array.isArray(responseObj.data)) {
-          storiesData = responseObj.data;
-        } else if (Array.isArray(responseObj.stories)) {
-          storiesData = responseObj.stories;
-        } else if (responseObj.data && typeof responseObj.data === 'object' && Array.isArray(responseObj.data.stories)) {
-          storiesData = responseObj.data.stories;
-        } else {
-          console.warn('Unexpected API response format:', response);
-          storiesData = [];
-        }
-      } else {
-        console.warn('Unexpected API response type:', typeof response, response);
-        storiesData = [];
-      }
       
       // Log for debugging
       if (process.env.NODE_ENV === 'development') {
@@ -572,23 +523,7 @@ function GrokTrendsPage() {
       setStories(storiesData);
 
       // Fetch stats from API
-      const statsResponse = await apiService.getGrokStats() as any;
-      
-      // Handle stats response - ensure we extract the data correctly
-      let statsResult = statsResponse;
-      if (statsResponse && typeof statsResponse === 'object' && 'data' in statsResponse) {
-        statsResult = statsResponse.data;
-      }
-      
-      const statsData: StoryStats = {
-        total: statsResult?.total || 0,
-        new: statsResult?.new || 0,
-        draft_created: statsResult?.draft_created || 0,
-        published: statsResult?.published || 0,
-        archived: statsResult?.archived || 0
-      };
-
-      setStats(statsData);
+      setStats(await apiService.getGrokStats());
     } catch (error: any) {
       console.error('Error fetching stories:', error);
       // Set empty state on error
@@ -628,9 +563,9 @@ function GrokTrendsPage() {
       setCreatingDraft(story.id);
       
       // Call backend to generate AI-powered draft
-      const draftData = await apiService.generateGrokDraft(story.id) as any;
+      const draftData = await apiService.generateGrokDraft(story.id);
       
-      if (!draftData || !draftData.title || !draftData.content) {
+      if (!draftData.title || !draftData.content) {
         throw new Error('Failed to generate draft - missing required fields');
       }
       
@@ -718,7 +653,7 @@ function GrokTrendsPage() {
       postData.category = mapGrokCategoryToPostCategory(story.category);
       
       // Call publish endpoint
-      const result = await apiService.publishGrokStory(story.id, postData) as any;
+      const result = await apiService.publishGrokStory(story.id, postData);
       
       // Show success message
       alert(`✅ Story published successfully!\n\nPost: ${result.title || story.title}\nURL: /${result.slug || 'post-slug'}`);
@@ -0,0 +1,299 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import apiService from '@/lib/apiService';
+import AdminLayout from '@/components/admin/AdminLayout';
+import { withAuth } from '@/contexts/AuthContext';
+import { LINK_CHECK_STATES, LinkCheckResult, LinkCheckState, PostLinkReport } from '@/types/admin';
+import { ArrowDownTrayIcon, ArrowPathIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { Alert, Badge, Button, Input, Select, Spinner } from '@/components/ui';
+import { LINK_STATE_BADGES } from '@/components/editor/LinkCheckPanel';
+import { describeApiError } from '@/lib/api/errors';
+import { formatDateTime } from '@/lib/dateUtils';
+import { toCsv, downloadCsv } from '@/lib/csv';
+import { extractLinks, requestLinkChecks } from '@/lib/linkChecker';
+
+type StateFilter = LinkCheckState | 'problems';
+
+interface LinkRow {
+  report: PostLinkReport;
+  link: LinkCheckResult;
+}
+
+const ROWS_PER_STEP = 100;
+
+const STATE_ORDER: Record<LinkCheckState, number> = { broken: 0, redirect: 1, error: 2, ok: 3 };
+
+function LinkCheckerPage() {
+  const [reports, setReports] = useState<PostLinkReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [stateFilter, setStateFilter] = useState<StateFilter>('problems');
+  const [search, setSearch] = useState('');
+  const [visibleCount, setVisibleCount] = useState(ROWS_PER_STEP);
+  const [progress, setProgress] = useState<{ done: number; total: number; current: string } | null>(null);
+  const cancelRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setReports(await apiService.getLinkReports({ signal: controller.signal }));
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Error loading link reports:', err);
+        setError(describeApiError(err, 'Failed to load link reports.'));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+    load();
+    return () => {
+      controller.abort();
+      cancelRef.current?.abort();
+    };
+  }, []);
+
+  const stateCounts = useMemo(() => {
+    const counts = Object.fromEntries(LINK_CHECK_STATES.map((state) => [state, 0])) as Record<LinkCheckState, number>;
+    for (const report of reports) {
+      for (const link of report.links) counts[link.state]++;
+    }
+    return counts;
+  }, [reports]);
+
+  const rows = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const result: LinkRow[] = [];
+    for (const report of reports) {
+      for (const link of report.links) {
+        if (stateFilter === 'problems' ? link.state === 'ok' : link.state !== stateFilter) continue;
+        if (term && !link.url.toLowerCase().includes(term) && !report.postTitle.toLowerCase().includes(term)) continue;
+        result.push({ report, link });
+      }
+    }
+    return result.sort(
+      (a, b) => STATE_ORDER[a.link.state] - STATE_ORDER[b.link.state] || a.report.postTitle.localeCompare(b.report.postTitle)
+    );
+  }, [reports, stateFilter, search]);
+
+  const lastRun = reports.reduce<Date | null>(
+    (latest, report) => (!latest || report.checkedAt > latest ? report.checkedAt : latest),
+    null
+  );
+
+  const handleCheckAll = async () => {
+    const controller = new AbortController();
+    cancelRef.current = controller;
+    setError(null);
+    try {
+      const posts = await apiService.getEveryPost({ status: 'published' }, { signal: controller.signal });
+      // Links shared between posts are only checked once per run
+      const checked = new Map<string, LinkCheckResult>();
+      for (const [index, post] of posts.entries()) {
+        if (controller.signal.aborted) break;
+        setProgress({ done: index, total: posts.length, current: post.title });
+        if (!post.id) continue;
+        const links = extractLinks(post.contentHtml || '');
+        const fresh = await requestLinkChecks(
+          links.filter((url) => !checked.has(url)),
+          { signal: controller.signal }
+        );
+        for (const result of fresh) checked.set(result.url, result);
+        const report = await apiService.saveLinkReport({
+          postId: post.id,
+          postSlug: post.slug,
+          postTitle: post.title,
+          links: links.map((url) => checked.get(url)!),
+          checkedAt: new Date(),
+        });
+        setReports((prev) => [report, ...prev.filter((existing) => existing.postId !== report.postId)]);
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Error checking links:', err);
+      setError(describeApiError(err, 'Link check stopped before finishing.'));
+    } finally {
+      if (cancelRef.current === controller) cancelRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleExport = () => {
+    const csv = toCsv([
+      ['Post', 'Slug', 'URL', 'State', 'Status', 'Final URL', 'Redirects', 'Error', 'Checked'],
+      ...rows.map(({ report, link }) => [
+        report.postTitle,
+        report.postSlug,
+        link.url,
+        LINK_STATE_BADGES[link.state].label,
+        link.status ?? '',
+        link.finalUrl,
+        link.redirects.length,
+        link.error ?? '',
+        link.checkedAt,
+      ]),
+    ]);
+    downloadCsv(`link-check-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Link Checker</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Broken and redirecting links in post bodies.
+              {lastRun && ` Last checked ${formatDateTime(lastRun)}.`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {progress ? (
+              <Button variant="outline" onClick={() => cancelRef.current?.abort()}>
+                Stop
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={handleCheckAll}
+                disabled={loading}
+                leftIcon={<ArrowPathIcon className="h-4 w-4" />}
+              >
+                Check all published posts
+              </Button>
+            )}
+            <Button
+              onClick={handleExport}
+              disabled={rows.length === 0}
+              leftIcon={<ArrowDownTrayIcon className="h-4 w-4" />}
+            >
+              Export CSV
+            </Button>
+          </div>
+        </div>
+
+        {error && <Alert variant="danger">{error}</Alert>}
+
+        {progress && (
+          <Alert variant="info">
+            Checking post {progress.done + 1} of {progress.total}: {progress.current}
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Spinner size="lg" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              {LINK_CHECK_STATES.map((state) => (
+                <button
+                  key={state}
+                  type="button"
+                  onClick={() => setStateFilter(stateFilter === state ? 'problems' : state)}
+                  className={`bg-white shadow rounded-lg p-4 text-left ${stateFilter === state ? 'ring-2 ring-blue-500' : ''}`}
+                >
+                  <p className="text-xs font-medium text-gray-500 uppercase">{LINK_STATE_BADGES[state].label}</p>
+                  <p className="mt-1 text-2xl font-semibold text-gray-900">{stateCounts[state]}</p>
+                </button>
+              ))}
+            </div>
+
+            <div className="bg-white shadow rounded-lg p-4 grid gap-4 sm:grid-cols-3 sm:items-end">
+              <div className="sm:col-span-2">
+                <Input
+                  label="Search"
+                  placeholder="URL or post title…"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  leftIcon={<MagnifyingGlassIcon className="h-5 w-5" />}
+                />
+              </div>
+              <Select
+                label="State"
+                value={stateFilter}
+                onChange={(e) => setStateFilter(e.target.value as StateFilter)}
+                options={[
+                  { value: 'problems', label: 'All problems' },
+                  ...LINK_CHECK_STATES.map((state) => ({ value: state, label: LINK_STATE_BADGES[state].label })),
+                ]}
+              />
+            </div>
+
+            <div className="bg-white shadow overflow-x-auto sm:rounded-md">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Link</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">State</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Post</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Checked</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {rows.slice(0, visibleCount).map(({ report, link }) => (
+                    <tr key={`${report.postId}:${link.url}`} className="align-top">
+                      <td className="px-4 py-3 text-sm max-w-md">
+                        <a
+                          href={link.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="break-all text-blue-600 hover:underline"
+                        >
+                          {link.url}
+                        </a>
+                        {link.state === 'redirect' && (
+                          <p className="mt-0.5 break-all text-xs text-gray-500">→ {link.finalUrl}</p>
+                        )}
+                        {link.error && <p className="mt-0.5 text-xs text-gray-500">{link.error}</p>}
+                      </td>
+                      <td className="px-4 py-3">
+                        <Badge variant={LINK_STATE_BADGES[link.state].variant}>
+                          {LINK_STATE_BADGES[link.state].label}
+                          {link.status ? ` ${link.status}` : ''}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">{report.postTitle}</td>
+                      <td className="px-4 py-3 text-right text-sm text-gray-500 whitespace-nowrap">
+                        {formatDateTime(link.checkedAt)}
+                      </td>
+                      <td className="px-4 py-3 text-right text-sm">
+                        <Link
+                          href={`/admin/posts/${report.postSlug}/edit`}
+                          className="text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          Edit
+                        </Link>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {rows.length === 0 && (
+                <p className="text-center py-12 text-gray-500">
+                  {reports.length === 0 ? 'No posts have been checked yet.' : 'No links match these filters.'}
+                </p>
+              )}
+            </div>
+
+            {rows.length > visibleCount && (
+              <div className="text-center">
+                <Button variant="ghost" onClick={() => setVisibleCount((count) => count + ROWS_PER_STEP)}>
+                  Show more ({rows.length - visibleCount} remaining)
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default withAuth(LinkCheckerPage, 'create_post');
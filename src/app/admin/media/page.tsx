@@ -1,149 +1,283 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
-import apiService from '@/lib/apiService';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import apiService, { MediaMetadataUpdate, MediaQuery } from '@/lib/apiService';
 import AdminLayout from '@/components/admin/AdminLayout';
-import { withAuth, useAuth } from '@/contexts/AuthContext';
-import { Media } from '@/types/admin';
-import { normalizeUploadImageFile } from '@/lib/imageUpload';
-import { 
+import MediaDetailsPanel, { formatFileSize } from '@/components/admin/MediaDetailsPanel';
+import { withAuth } from '@/contexts/AuthContext';
+import { Media, MediaFilterOptions } from '@/types/admin';
+import {
+  prepareImageForUpload,
+  isAllowedFeaturedImageFile,
+  ACCEPTED_IMAGE_INPUT,
+  UNSUPPORTED_IMAGE_MESSAGE,
+} from '@/lib/imageUpload';
+import { ImageOutputType } from '@/lib/imagePipeline';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { findMediaUsage } from '@/lib/mediaUsage';
+import { useMediaUsage } from '@/hooks/useMediaUsage';
+import {
   PhotoIcon,
   PlusIcon,
-  TrashIcon,
   MagnifyingGlassIcon,
-  CloudArrowUpIcon
+  CloudArrowUpIcon,
+  FolderIcon,
+  ExclamationTriangleIcon
 } from '@heroicons/react/24/outline';
-import { Input, Button, Card, CardContent, Alert, Spinner } from '@/components/ui';
+import { Input, Button, Select, Alert, Spinner, Modal } from '@/components/ui';
+import { describeApiError } from '@/lib/api/errors';
+
+const PAGE_SIZE = 48;
+
+// Images are processed on the worker pool; this caps uploads in flight
+const UPLOAD_CONCURRENCY = 3;
+
+interface UploadItem {
+  name: string;
+  status: 'queued' | 'processing' | 'uploading' | 'done' | 'failed';
+  progress: number;
+  error?: string;
+}
+
+const UPLOAD_STATUS_LABELS: Record<UploadItem['status'], string> = {
+  queued: 'Waiting',
+  processing: 'Optimizing',
+  uploading: 'Uploading',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+type MediaFilters = Omit<MediaQuery, 'cursor' | 'limit' | 'q'>;
+
+// WebP decodes everywhere; AVIF is smaller but slower to encode. Browsers
+// that can't encode AVIF fall back to WebP.
+const OUTPUT_TYPE_OPTIONS: Array<{ value: ImageOutputType; label: string }> = [
+  { value: 'image/webp', label: 'WebP' },
+  { value: 'image/avif', label: 'AVIF (smaller)' },
+];
+
+const MIN_WIDTH_OPTIONS = [
+  { value: '', label: 'Any size' },
+  { value: '800', label: '800px wide or more' },
+  { value: '1200', label: '1200px wide or more' },
+  { value: '1920', label: '1920px wide or more' },
+];
 
 function MediaLibrary() {
-  const { user } = useAuth();
   const [media, setMedia] = useState<Media[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState<number | undefined>(undefined);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
   const [uploading, setUploading] = useState(false);
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
+  const [outputType, setOutputType] = useState<ImageOutputType>('image/webp');
+  const [dragActive, setDragActive] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filteredMedia, setFilteredMedia] = useState<Media[]>([]);
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [filters, setFilters] = useState<MediaFilters>({});
+  const [filterOptions, setFilterOptions] = useState<MediaFilterOptions | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Media | null>(null);
+  const [deleting, setDeleting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const usage = useMediaUsage();
 
-  const getImageDimensions = (file: File): Promise<{ width: number; height: number }> => {
-    return new Promise((resolve) => {
-      const img = new Image();
-      img.onload = () => {
-        resolve({ width: img.width, height: img.height });
-      };
-      img.onerror = () => {
-        resolve({ width: 0, height: 0 });
-      };
-      img.src = URL.createObjectURL(file);
-    });
-  };
+  useEffect(() => {
+    const t = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 400);
+    return () => clearTimeout(t);
+  }, [searchTerm]);
+
+  const query = useMemo<MediaQuery>(
+    () => ({ ...filters, q: debouncedSearch || undefined, limit: PAGE_SIZE }),
+    [filters, debouncedSearch]
+  );
 
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchMedia = async () => {
+      setLoading(true);
+      setLoadError(null);
       try {
-        const mediaData = await apiService.getMedia();
-        setMedia(mediaData as Media[]);
-        setFilteredMedia(mediaData as Media[]);
+        const page = await apiService.getMediaPage(query, {
+          signal: controller.signal,
+          onRevalidate: (fresh) => {
+            setMedia(fresh.items);
+            setNextCursor(fresh.nextCursor);
+            setTotal(fresh.total);
+          },
+        });
+        setMedia(page.items);
+        setNextCursor(page.nextCursor);
+        setTotal(page.total);
       } catch (error) {
+        if (controller.signal.aborted) return;
         console.error('Error fetching media:', error);
+        setLoadError(describeApiError(error, 'Failed to load media.'));
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
 
     fetchMedia();
-  }, []);
+    return () => controller.abort();
+  }, [query, reloadKey]);
 
   useEffect(() => {
-    let filtered = media;
+    apiService.getMediaFilterOptions()
+      .then(setFilterOptions)
+      .catch((error) => console.warn('Media filter options unavailable:', error));
+  }, [reloadKey]);
 
-    if (searchTerm) {
-      filtered = filtered.filter(item => 
-        item.fileName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        item.alt.toLowerCase().includes(searchTerm.toLowerCase())
-      );
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await apiService.getMediaPage({ ...query, cursor: nextCursor });
+      setMedia((prev) => [...prev, ...page.items.filter((item) => !prev.some((existing) => existing.id === item.id))]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more media:', error);
+      setLoadError(describeApiError(error, 'Failed to load more media.'));
+    } finally {
+      setLoadingMore(false);
     }
+  };
 
-    setFilteredMedia(filtered);
-  }, [media, searchTerm]);
+  const updateUpload = (index: number, update: Partial<UploadItem>) =>
+    setUploads((prev) => prev.map((item, i) => (i === index ? { ...item, ...update } : item)));
 
-  const handleFileUpload = async (files: FileList | null) => {
-    if (!files || files.length === 0) return;
+  const handleFileUpload = async (files: FileList | File[] | null) => {
+    if (!files || files.length === 0 || uploading) return;
+
+    const accepted = Array.from(files).filter(isAllowedFeaturedImageFile);
+    if (accepted.length < files.length) {
+      alert(`${files.length - accepted.length} file(s) skipped. ${UNSUPPORTED_IMAGE_MESSAGE}`);
+    }
+    if (accepted.length === 0) return;
 
     setUploading(true);
-    try {
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        
-        // Upload via API
-        const normalizedFile = await normalizeUploadImageFile(file)
-        await apiService.uploadMedia(normalizedFile);
+    setUploads(accepted.map((file) => ({ name: file.name, status: 'queued', progress: 0 })));
+
+    // Every file is handed to the pipeline at once (the worker pool and the
+    // HEIC converter bound the work); uploads then start in order as their
+    // file is ready
+    const prepared = accepted.map((file, index) =>
+      prepareImageForUpload(file, {
+        type: outputType,
+        onProgress: ({ stage, progress }) => {
+          if (stage !== 'queued') updateUpload(index, { status: 'processing', progress });
+        },
+      })
+    );
+    prepared.forEach((promise) => promise.catch(() => undefined));
+
+    const results = await mapWithConcurrency(accepted, UPLOAD_CONCURRENCY, async (_file, index) => {
+      try {
+        const file = await prepared[index];
+        updateUpload(index, { status: 'uploading', progress: 1 });
+        await apiService.uploadMedia(file);
+        updateUpload(index, { status: 'done' });
+      } catch (error) {
+        updateUpload(index, { status: 'failed', error: describeApiError(error, 'Upload failed') });
+        throw error;
       }
-      
-      // Refresh media list
-      const mediaData = await apiService.getMedia();
-      setMedia(mediaData as Media[]);
-      setFilteredMedia(mediaData as Media[]);
-    } catch (error) {
-      console.error('Error uploading files:', error);
-      alert('Failed to upload files');
-    } finally {
-      setUploading(false);
+    });
+
+    const failed = results.filter((result) => result.status === 'rejected').length;
+    if (failed < accepted.length) {
+      setReloadKey((k) => k + 1);
+    }
+    if (failed === 0) {
+      setUploads([]);
     }
+    setUploading(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    handleFileUpload(e.dataTransfer.files);
   };
 
-  const handleDeleteMedia = async (mediaId: string, storagePath: string) => {
-    if (!confirm('Are you sure you want to delete this media file?')) {
-      return;
+  const handleSaveMetadata = async (mediaId: string, update: MediaMetadataUpdate) => {
+    try {
+      const saved = await apiService.updateMedia(mediaId, update);
+      setMedia((prev) => prev.map((item) => (item.id === mediaId ? saved : item)));
+    } catch (error) {
+      console.error('Error updating media:', error);
+      throw new Error(describeApiError(error, 'Failed to save media details.'));
     }
+  };
 
+  const handleDeleteMedia = async (mediaId: string) => {
+    setDeleting(true);
     try {
       // Delete via API (handles storage and database)
       await apiService.deleteMedia(mediaId);
-      
+
       // Update local state
       setMedia(prev => prev.filter(item => item.id !== mediaId));
-      setFilteredMedia(prev => prev.filter(item => item.id !== mediaId));
+      setSelectedId((current) => (current === mediaId ? null : current));
+      setPendingDelete(null);
     } catch (error) {
       console.error('Error deleting media:', error);
-      alert('Failed to delete media file');
+      alert(describeApiError(error, 'Failed to delete media file'));
+    } finally {
+      setDeleting(false);
     }
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  const setFilter = <K extends keyof MediaFilters>(key: K, value: MediaFilters[K] | '') => {
+    setFilters((prev) => ({ ...prev, [key]: value === '' ? undefined : value }));
   };
 
-  if (loading) {
-    return (
-      <AdminLayout>
-        <div className="flex items-center justify-center h-64">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-        </div>
-      </AdminLayout>
-    );
-  }
+  const hasFilters = Boolean(debouncedSearch) || Object.values(filters).some((value) => value !== undefined);
+  const selected = media.find((item) => item.id === selectedId) ?? null;
+  const usageOf = (item: Media) => (usage.index ? findMediaUsage(usage.index, item) : null);
+  const pendingDeleteUsage = pendingDelete ? usageOf(pendingDelete) : null;
+  const uploaderNames = new Map(filterOptions?.uploaders.map((uploader) => [uploader.uid, uploader.name]));
+  const missingAlt = media.filter((item) => !item.alt.trim()).length;
 
   return (
     <AdminLayout>
-      <div className="space-y-6">
+      <div
+        className={`space-y-6 rounded-lg ${dragActive ? 'ring-2 ring-blue-400 ring-offset-4' : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragActive(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragActive(false);
+        }}
+        onDrop={handleDrop}
+      >
         {/* Header */}
         <div className="sm:flex sm:items-center sm:justify-between">
           <div>
             <h1 className="text-2xl font-bold text-gray-900">Media Library</h1>
             <p className="mt-1 text-sm text-gray-500">
-              Manage images and media files
+              Manage images, their credits and where they are used. Drop files anywhere to upload.
             </p>
           </div>
-          <div className="mt-4 sm:mt-0">
+          <div className="mt-4 sm:mt-0 flex items-center gap-3">
+            <div className="w-40">
+              <Select
+                aria-label="Upload format"
+                value={outputType}
+                onChange={(e) => setOutputType(e.target.value as ImageOutputType)}
+                options={OUTPUT_TYPE_OPTIONS}
+                disabled={uploading}
+              />
+            </div>
             <input
               ref={fileInputRef}
               type="file"
               multiple
-              accept="image/jpeg,image/png,image/webp"
+              accept={ACCEPTED_IMAGE_INPUT}
               onChange={(e) => handleFileUpload(e.target.files)}
               className="hidden"
             />
@@ -155,7 +289,7 @@ function MediaLibrary() {
               {uploading ? (
                 <>
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                  Uploading...
+                  Uploading {uploads.filter((item) => item.status === 'done' || item.status === 'failed').length}/{uploads.length}
                 </>
               ) : (
                 <>
@@ -167,78 +301,238 @@ function MediaLibrary() {
           </div>
         </div>
 
-        {/* Search */}
-        <div className="bg-white shadow rounded-lg p-6">
+        {uploads.length > 0 && (
+          <div className="bg-white shadow rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-sm font-medium text-gray-900">Uploads</h2>
+              {!uploading && (
+                <Button variant="ghost" size="sm" onClick={() => setUploads([])}>
+                  Dismiss
+                </Button>
+              )}
+            </div>
+            <ul className="space-y-2 max-h-64 overflow-y-auto">
+              {uploads.map((item, index) => (
+                <li key={index} className="text-sm">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="truncate text-gray-700">{item.name}</span>
+                    <span className={`shrink-0 text-xs ${item.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                      {item.status === 'processing'
+                        ? `${UPLOAD_STATUS_LABELS.processing} ${Math.round(item.progress * 100)}%`
+                        : item.error || UPLOAD_STATUS_LABELS[item.status]}
+                    </span>
+                  </div>
+                  {(item.status === 'processing' || item.status === 'uploading') && (
+                    <div className="mt-1 h-1 overflow-hidden rounded-full bg-gray-200">
+                      <div
+                        className={`h-full bg-blue-600 transition-[width] duration-200 ${item.status === 'uploading' ? 'animate-pulse' : ''}`}
+                        style={{ width: `${Math.round(item.progress * 100)}%` }}
+                      />
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {loadError && (
+          <Alert variant="danger" className="flex items-center justify-between">
+            <span className="text-sm">{loadError}</span>
+            <Button variant="outline" size="sm" onClick={() => setReloadKey((k) => k + 1)}>
+              Retry
+            </Button>
+          </Alert>
+        )}
+
+        {usage.error && (
+          <Alert variant="warning" className="flex items-center justify-between">
+            <span className="text-sm">{usage.error} Deleting will not warn about media that is in use.</span>
+            <Button variant="outline" size="sm" onClick={usage.refresh}>
+              Retry
+            </Button>
+          </Alert>
+        )}
+
+        {/* Search & filters */}
+        <div className="bg-white shadow rounded-lg p-6 space-y-4">
           <div className="max-w-md">
             <Input
               label="Search Media"
               type="text"
-              placeholder="Search by filename or alt text..."
+              placeholder="Search by filename, alt text, caption or credit..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               leftIcon={<MagnifyingGlassIcon />}
               variant="filled"
             />
           </div>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <Select
+              label="Folder"
+              value={filters.folder ?? ''}
+              onChange={(e) => setFilter('folder', e.target.value)}
+              options={[{ value: '', label: 'All folders' }, ...(filterOptions?.folders ?? []).map((folder) => ({ value: folder, label: folder }))]}
+            />
+            <Select
+              label="Tag"
+              value={filters.tag ?? ''}
+              onChange={(e) => setFilter('tag', e.target.value)}
+              options={[{ value: '', label: 'All tags' }, ...(filterOptions?.tags ?? []).map((tag) => ({ value: tag, label: tag }))]}
+            />
+            <Select
+              label="Uploaded by"
+              value={filters.uploadedBy ?? ''}
+              onChange={(e) => setFilter('uploadedBy', e.target.value)}
+              options={[
+                { value: '', label: 'Anyone' },
+                ...(filterOptions?.uploaders ?? []).map((uploader) => ({ value: uploader.uid, label: uploader.name || uploader.uid })),
+              ]}
+            />
+            <Select
+              label="Type"
+              value={filters.mimeType ?? ''}
+              onChange={(e) => setFilter('mimeType', e.target.value)}
+              options={[
+                { value: '', label: 'All types' },
+                ...(filterOptions?.mimeTypes ?? []).map((mimeType) => ({ value: mimeType, label: mimeType })),
+              ]}
+            />
+            <Input
+              label="Uploaded from"
+              type="date"
+              value={filters.from ?? ''}
+              onChange={(e) => setFilter('from', e.target.value)}
+              size="sm"
+            />
+            <Input
+              label="Uploaded to"
+              type="date"
+              value={filters.to ?? ''}
+              onChange={(e) => setFilter('to', e.target.value)}
+              size="sm"
+            />
+            <Select
+              label="Dimensions"
+              value={filters.minWidth ? String(filters.minWidth) : ''}
+              onChange={(e) => setFilter('minWidth', e.target.value ? Number(e.target.value) : '')}
+              options={MIN_WIDTH_OPTIONS}
+            />
+            {hasFilters && (
+              <div className="flex items-end">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setFilters({});
+                    setSearchTerm('');
+                  }}
+                >
+                  Clear filters
+                </Button>
+              </div>
+            )}
+          </div>
         </div>
 
-        {/* Media Grid */}
-        <div className="bg-white shadow rounded-lg p-6">
-          {filteredMedia.length === 0 ? (
-            <div className="text-center py-12">
-              <PhotoIcon className="mx-auto h-12 w-12 text-gray-400" />
-              <h3 className="mt-2 text-sm font-medium text-gray-900">No media files</h3>
-              <p className="mt-1 text-sm text-gray-500">
-                {searchTerm 
-                  ? 'No media files match your search.'
-                  : 'Get started by uploading some images.'
-                }
-              </p>
-              <div className="mt-6">
-                <button
-                  onClick={() => fileInputRef.current?.click()}
-                  className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                >
-                  <PlusIcon className="h-4 w-4 mr-2" />
-                  Upload Media
-                </button>
+        <div className="lg:grid lg:grid-cols-[minmax(0,1fr)_360px] lg:gap-6 space-y-6 lg:space-y-0">
+          {/* Media Grid */}
+          <div className="bg-white shadow rounded-lg p-6">
+            {loading ? (
+              <div className="flex items-center justify-center h-64">
+                <Spinner size="lg" />
               </div>
-            </div>
-          ) : (
-            <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-              {filteredMedia.map((item) => (
-                <div key={item.id} className="group relative">
-                  <div className="aspect-w-16 aspect-h-9 bg-gray-200 rounded-lg overflow-hidden">
-                    <img
-                      src={item.url}
-                      alt={item.alt}
-                      className="w-full h-full object-cover group-hover:opacity-75"
-                    />
-                  </div>
-                  <div className="mt-2">
-                    <p className="text-sm font-medium text-gray-900 truncate">
-                      {item.fileName}
-                    </p>
-                    <p className="text-xs text-gray-500">
-                      {formatFileSize(item.fileSize)} • {item.mimeType}
-                    </p>
-                    {item.alt && (
-                      <p className="text-xs text-gray-400 mt-1 truncate">
-                        Alt: {item.alt}
-                      </p>
-                    )}
-                  </div>
-                  <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                    <button
-                      onClick={() => handleDeleteMedia(item.id, item.storagePath)}
-                      className="bg-red-600 text-white p-1 rounded-full hover:bg-red-700"
-                      title="Delete"
-                    >
-                      <TrashIcon className="h-4 w-4" />
-                    </button>
-                  </div>
+            ) : media.length === 0 ? (
+              <div className="text-center py-12">
+                <PhotoIcon className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">No media files</h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  {hasFilters
+                    ? 'No media files match your search.'
+                    : 'Get started by uploading some images.'
+                  }
+                </p>
+                <div className="mt-6">
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    <PlusIcon className="h-4 w-4 mr-2" />
+                    Upload Media
+                  </button>
                 </div>
-              ))}
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 xl:grid-cols-4">
+                  {media.map((item) => {
+                    const itemUsage = usageOf(item);
+                    return (
+                      <button
+                        key={item.id}
+                        type="button"
+                        onClick={() => setSelectedId(item.id)}
+                        className={`group text-left rounded-lg p-1 ${item.id === selectedId ? 'ring-2 ring-blue-500' : 'hover:bg-gray-50'}`}
+                      >
+                        <div className="relative aspect-video bg-gray-200 rounded-md overflow-hidden">
+                          {/* eslint-disable-next-line @next/next/no-img-element */}
+                          <img
+                            src={item.sizes.thumbnail || item.url}
+                            alt={item.alt}
+                            loading="lazy"
+                            className="w-full h-full object-cover group-hover:opacity-75"
+                          />
+                          {!item.alt.trim() && (
+                            <span className="absolute left-1 top-1 rounded bg-yellow-100 px-1.5 py-0.5 text-[10px] font-medium text-yellow-800">
+                              No alt
+                            </span>
+                          )}
+                          {itemUsage && itemUsage.length > 0 && (
+                            <span className="absolute right-1 top-1 rounded bg-white/90 px-1.5 py-0.5 text-[10px] font-medium text-gray-700">
+                              {itemUsage.length} {itemUsage.length === 1 ? 'post' : 'posts'}
+                            </span>
+                          )}
+                        </div>
+                        <p className="mt-2 text-sm font-medium text-gray-900 truncate">
+                          {item.fileName}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {item.width && item.height ? `${item.width}×${item.height} • ` : ''}{formatFileSize(item.fileSize)}
+                        </p>
+                        {item.folder && (
+                          <p className="mt-0.5 flex items-center gap-1 text-xs text-gray-400 truncate">
+                            <FolderIcon className="h-3 w-3 shrink-0" /> {item.folder}
+                          </p>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+                {nextCursor && (
+                  <div className="mt-6 text-center">
+                    <Button variant="outline" onClick={loadMore} loading={loadingMore}>
+                      Load more
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          {selected ? (
+            <MediaDetailsPanel
+              key={selected.id}
+              media={selected}
+              usage={usageOf(selected)}
+              folders={filterOptions?.folders ?? []}
+              uploaderName={uploaderNames.get(selected.uploadedBy)}
+              onSave={(update) => handleSaveMetadata(selected.id, update)}
+              onDelete={() => setPendingDelete(selected)}
+              onClose={() => setSelectedId(null)}
+            />
+          ) : (
+            <div className="hidden lg:flex bg-white shadow rounded-lg p-6 items-center justify-center text-sm text-gray-500">
+              Select an image to edit its details
             </div>
           )}
         </div>
@@ -248,24 +542,73 @@ function MediaLibrary() {
           <h3 className="text-lg font-medium text-gray-900 mb-4">Media Statistics</h3>
           <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
             <div className="bg-gray-50 rounded-lg p-4">
-              <div className="text-2xl font-bold text-gray-900">{media.length}</div>
-              <div className="text-sm text-gray-500">Total Files</div>
+              <div className="text-2xl font-bold text-gray-900">{total ?? media.length}</div>
+              <div className="text-sm text-gray-500">{hasFilters ? 'Matching Files' : 'Total Files'}</div>
             </div>
             <div className="bg-gray-50 rounded-lg p-4">
               <div className="text-2xl font-bold text-gray-900">
                 {formatFileSize(media.reduce((sum, item) => sum + item.fileSize, 0))}
               </div>
-              <div className="text-sm text-gray-500">Total Size</div>
+              <div className="text-sm text-gray-500">Size of Loaded Files</div>
             </div>
             <div className="bg-gray-50 rounded-lg p-4">
-              <div className="text-2xl font-bold text-gray-900">
-                {media.filter(item => item.mimeType.startsWith('image/')).length}
-              </div>
-              <div className="text-sm text-gray-500">Images</div>
+              <div className="text-2xl font-bold text-gray-900">{missingAlt}</div>
+              <div className="text-sm text-gray-500">Loaded Files Missing Alt Text</div>
             </div>
           </div>
         </div>
       </div>
+
+      <Modal
+        isOpen={pendingDelete !== null}
+        onClose={() => !deleting && setPendingDelete(null)}
+        title="Delete media file"
+      >
+        {pendingDelete && (
+          <div className="space-y-4">
+            {pendingDeleteUsage === null && !usage.error ? (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <Spinner size="sm" /> Checking which posts use this file…
+              </div>
+            ) : pendingDeleteUsage && pendingDeleteUsage.length > 0 ? (
+              <Alert variant="warning">
+                <div className="flex gap-2">
+                  <ExclamationTriangleIcon className="h-5 w-5 shrink-0" />
+                  <div className="text-sm">
+                    <p className="font-medium">
+                      {pendingDelete.fileName} is used in {pendingDeleteUsage.length}{' '}
+                      {pendingDeleteUsage.length === 1 ? 'post' : 'posts'}:
+                    </p>
+                    <ul className="mt-1 list-disc pl-5">
+                      {pendingDeleteUsage.map((entry) => (
+                        <li key={entry.postId}>{entry.title || entry.slug}</li>
+                      ))}
+                    </ul>
+                    <p className="mt-2">Deleting it will leave broken images in these posts.</p>
+                  </div>
+                </div>
+              </Alert>
+            ) : (
+              <p className="text-sm text-gray-600">
+                Delete {pendingDelete.fileName}? This cannot be undone.
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setPendingDelete(null)} disabled={deleting}>
+                Cancel
+              </Button>
+              <Button
+                variant="danger"
+                onClick={() => handleDeleteMedia(pendingDelete.id)}
+                loading={deleting}
+                disabled={pendingDeleteUsage === null && !usage.error}
+              >
+                {pendingDeleteUsage && pendingDeleteUsage.length > 0 ? 'Delete anyway' : 'Delete'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
     </AdminLayout>
   );
 }
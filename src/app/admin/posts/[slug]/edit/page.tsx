@@ -1,12 +1,12 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import apiService from '@/lib/apiService';
 import AdminLayout from '@/components/admin/AdminLayout';
 import { withAuth, useAuth } from '@/contexts/AuthContext';
 
-import { Post, PostStatus, PERMISSIONS, hasPermission } from '@/types/admin';
+import { LinkCheckResult, Post, PostRevision, PostStatus, PERMISSIONS, hasPermission } from '@/types/admin';
 import { 
   DocumentTextIcon,
   EyeIcon,
@@ -17,7 +17,8 @@ import {
   PaperAirplaneIcon,
   CalendarIcon,
   TagIcon,
-  FolderIcon
+  ArchiveBoxIcon,
+  ArrowUturnLeftIcon
 } from '@heroicons/react/24/outline';
 import {
   Button,
@@ -34,19 +35,53 @@ import {
 import { SocialPostDialog } from '@/components/social/SocialPostDialog';
 import dynamic from 'next/dynamic';
 import SEOSuggestions from '@/components/editor/SEOSuggestions';
+import AccessibilityAudit from '@/components/editor/AccessibilityAudit';
+import LinkCheckPanel from '@/components/editor/LinkCheckPanel';
 import CanonicalUrlManager from '@/components/editor/CanonicalUrlManager';
 import Scheduling from '@/components/editor/Scheduling';
 import Preview from '@/components/editor/Preview';
 import FeaturedImageUpload from '@/components/editor/FeaturedImageUpload';
 import { uploadImageToCloudinary } from '@/lib/imageUpload';
-import { normalizeFeaturedImageForSave, extractPublicId, FeaturedImageRef, getInlineImageUrl, getCoverUrl } from '@/lib/imageHelpers';
+import { normalizeFeaturedImageForSave, FeaturedImageRef, getCoverUrl } from '@/lib/imageHelpers';
 import { revalidatePost } from '@/app/actions/revalidate';
+import {
+  applyTransition,
+  getAvailableTransitions,
+  getMissingFields,
+  WorkflowAction,
+  WorkflowError,
+} from '@/lib/workflow';
+import { ReviewUpdate, stripReviewAnchors } from '@/lib/review';
+import ReviewPanel from '@/components/editor/ReviewPanel';
+import RevisionsPanel from '@/components/editor/RevisionsPanel';
+import { recordRevision } from '@/lib/revisions';
+import { useSiteSettings } from '@/hooks/useSiteSettings';
+import { useCollaboration } from '@/hooks/useCollaboration';
+import { ConflictError, describeApiError } from '@/lib/api/errors';
+import type { PostUpdateResult } from '@/lib/api/schemas';
+import { usePostLock } from '@/hooks/usePostLock';
+import { useInternalLinkSuggestions } from '@/hooks/useInternalLinkSuggestions';
+import { mergePost, PostMergeResult } from '@/lib/postMerge';
+import MergeConflictDialog from '@/components/editor/MergeConflictDialog';
 
 const RichTextEditor = dynamic(
   () => import('@/components/editor/RichTextEditor'),
   { ssr: false, loading: () => <Spinner /> }
 );
 
+const PRIMARY_ACTIONS: WorkflowAction[] = ['publish', 'schedule'];
+
+const ACTION_ICONS: Record<WorkflowAction, React.ReactNode> = {
+  submit_for_review: <EyeIcon />,
+  request_changes: <ArrowUturnLeftIcon />,
+  publish: <PaperAirplaneIcon />,
+  schedule: <CalendarIcon />,
+  unschedule: <ClockIcon />,
+  unpublish: <ArrowUturnLeftIcon />,
+  archive: <ArchiveBoxIcon />,
+  restore: <ArrowUturnLeftIcon />,
+};
+
 function EditPostEditor() {
   const router = useRouter();
   const params = useParams();
@@ -63,14 +98,6 @@ function EditPostEditor() {
       file.name.split('.')[0] || 'Featured image'
     );
   };
-
-  const handleRichTextImageUpload = async (file: File): Promise<string> => {
-    if (!user?.uid) {
-      throw new Error('User not authenticated');
-    }
-    const result = await uploadImageToCloudinary(file, 'posts');
-    return getInlineImageUrl({ public_id: result.public_id }) || result.url;
-  };
   
   const [post, setPost] = useState<Partial<Post>>({
     title: '',
@@ -88,6 +115,116 @@ function EditPostEditor() {
   });
   const [status, setStatus] = useState<PostStatus>('draft');
   const [error, setError] = useState<string | null>(null);
+  const [workflowErrors, setWorkflowErrors] = useState<string[]>([]);
+  const [linkResults, setLinkResults] = useState<LinkCheckResult[]>([]);
+  const { suggestions: internalLinkSuggestions } = useInternalLinkSuggestions(post.contentHtml || '', {
+    currentSlug: post.slug,
+  });
+
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [pendingAnchor, setPendingAnchor] = useState<{ threadId: string; quote: string } | null>(null);
+  const [revisionsKey, setRevisionsKey] = useState(0);
+  const { requiredApprovals } = useSiteSettings();
+  const collaboration = useCollaboration(post.id);
+  const { lockedBy, takeOver } = usePostLock(post.id);
+  // Last version known to be on the server; the base of a three-way merge
+  const basePostRef = useRef<Partial<Post> | null>(null);
+  const [merge, setMerge] = useState<{ result: PostMergeResult; theirs: Post } | null>(null);
+  const [mergeApplied, setMergeApplied] = useState(false);
+  // Peers in the live session already see each other's edits
+  const lockHolderIsPeer = Boolean(lockedBy && collaboration.peers.some(peer => peer.id === lockedBy.uid));
+
+  const availableTransitions = getAvailableTransitions({ ...post, status }, user);
+  const reviewThreads = post.review?.threads || [];
+  const showReview = Boolean(post.id) && (status === 'in_review' || reviewThreads.length > 0);
+
+  /**
+   * The `updatedAt` to build the next save on, always the server's: from the
+   * update response, or by reading the post back. A queued offline update
+   * keeps the loaded one; replay moves later queued updates of the post on
+   * to the version each earlier one produced.
+   */
+  const serverUpdatedAt = async (result: PostUpdateResult | undefined): Promise<Date | undefined> => {
+    if (!result) return post.updatedAt;
+    if (result.updatedAt) return result.updatedAt;
+    try {
+      const latest = await apiService.getPostById(post.id!, { useCache: false });
+      return latest?.updatedAt ?? post.updatedAt;
+    } catch (refetchError) {
+      console.warn('Could not read back the saved post:', refetchError);
+      return post.updatedAt;
+    }
+  };
+
+  /**
+   * Persist a review change (comment, resolution, decision) immediately,
+   * together with the current body so new comment anchors are kept
+   */
+  const handleReviewUpdate = async (update: ReviewUpdate, options?: { requestChanges?: boolean }) => {
+    if (!user || !post.id) return;
+
+    let next: Partial<Post> = { ...post, ...update };
+    let nextStatus = status;
+    if (options?.requestChanges && availableTransitions.some(t => t.action === 'request_changes')) {
+      const transition = applyTransition({ ...next, status }, 'request_changes', user);
+      next = { ...next, ...transition };
+      nextStatus = transition.status;
+    }
+
+    try {
+      const result = await apiService.updatePost(post.id, {
+        content: post.contentHtml,
+        contentHtml: post.contentHtml,
+        review: next.review,
+        history: next.history,
+        status: nextStatus,
+      }, { baseUpdatedAt: post.updatedAt });
+      setPost({ ...next, updatedAt: await serverUpdatedAt(result) });
+      setStatus(nextStatus);
+      if (pendingAnchor && update.review.threads.some(thread => thread.id === pendingAnchor.threadId)) {
+        setPendingAnchor(null);
+      }
+    } catch (reviewError) {
+      console.error('Error saving review:', reviewError);
+      alert(describeApiError(reviewError, 'Failed to save review. Please try again.'));
+    }
+  };
+
+  /**
+   * Load a stored revision into the editor and save it right away. The
+   * restore is recorded as a new revision; older revisions stay untouched.
+   */
+  const handleRestoreRevision = async (revision: PostRevision) => {
+    if (!user || !post.id) return;
+
+    const restored: Partial<Post> = {
+      ...post,
+      ...revision.snapshot,
+      history: [
+        ...(post.history || []),
+        { action: 'revision.restore', by: user.uid, at: new Date(), note: `Restored revision ${revision.id}` },
+      ],
+    };
+
+    try {
+      const result = await apiService.updatePost(post.id, {
+        title: restored.title,
+        excerpt: restored.excerpt,
+        content: restored.contentHtml,
+        contentHtml: restored.contentHtml,
+        metaTitle: restored.metaTitle,
+        metaDescription: restored.metaDescription,
+        featuredImage: restored.featuredImage,
+        history: restored.history,
+      }, { baseUpdatedAt: post.updatedAt });
+      setPost({ ...restored, updatedAt: await serverUpdatedAt(result) });
+      await recordRevision(post.id, restored, 'restore', { restoredFrom: revision.id });
+      setRevisionsKey(key => key + 1);
+    } catch (restoreError) {
+      console.error('Error restoring revision:', restoreError);
+      alert(describeApiError(restoreError, 'Failed to restore revision. Please try again.'));
+    }
+  };
 
   useEffect(() => {
     const fetchPost = async () => {
@@ -124,6 +261,7 @@ function EditPostEditor() {
         }
         
         setPost(postData);
+        basePostRef.current = postData;
         setStatus(postData.status || 'draft');
       } catch (error) {
         console.error('Error fetching post:', error);
@@ -136,29 +274,79 @@ function EditPostEditor() {
     fetchPost();
   }, [params.slug, user]);
 
-  const handleSave = async (action: 'save' | 'publish' | 'schedule' | 'in_review') => {
-    if (!post.title || !post.contentHtml) {
-      alert('Please fill in the title and content');
-      return;
+  /**
+   * A save was rejected because the post changed on the server since it was
+   * loaded: merge the other editor's version with ours instead of overwriting
+   */
+  const openMerge = async () => {
+    if (!post.id) return;
+    try {
+      const theirs = await apiService.getPostById(post.id, { useCache: false });
+      if (!theirs) {
+        setError('This post was deleted by someone else.');
+        return;
+      }
+      const result = mergePost(basePostRef.current || theirs, post, theirs);
+      if (result.conflicts.length === 0) {
+        applyMerge(result.merged, theirs);
+      } else {
+        setMerge({ result, theirs });
+      }
+    } catch (mergeError) {
+      console.error('Error loading the latest version for merge:', mergeError);
+      setError(describeApiError(mergeError, 'Someone else saved this post. Reload to see their changes.'));
+    }
+  };
+
+  const applyMerge = (resolved: Partial<Post>, theirs: Post) => {
+    // Saving again now builds on their version
+    basePostRef.current = theirs;
+    setPost(prev => ({ ...prev, ...resolved, updatedAt: theirs.updatedAt }));
+    setStatus(theirs.status || status);
+    setMerge(null);
+    setMergeApplied(true);
+  };
+
+  /**
+   * Save the post. With an action, the workflow transition is validated and
+   * applied; without one the post keeps its current status, which must
+   * still satisfy that status's required fields.
+   */
+  const handleSave = async (action?: WorkflowAction) => {
+    if (!user) return;
+
+    let workflowUpdate: ReturnType<typeof applyTransition> | null = null;
+    if (action) {
+      try {
+        workflowUpdate = applyTransition({ ...post, status }, action, user, { requiredApprovals });
+      } catch (validationError) {
+        if (!(validationError instanceof WorkflowError)) throw validationError;
+        setWorkflowErrors(validationError.problems);
+        return;
+      }
+    } else {
+      const missing = Object.values(getMissingFields(post, status)).filter(Boolean) as string[];
+      if (missing.length > 0) {
+        setWorkflowErrors(missing);
+        return;
+      }
     }
 
     setSaving(true);
     setError(null);
+    setWorkflowErrors([]);
 
     try {
-      const now = new Date();
-      let finalStatus = action === 'publish' ? 'published' : 
-                       action === 'schedule' ? 'scheduled' : 
-                       action === 'in_review' ? 'in_review' : 'draft';
-      
-      if (action === 'publish' && post.scheduledAt && post.scheduledAt > now) {
-        finalStatus = 'scheduled';
-      }
+      const finalStatus = workflowUpdate?.status ?? status;
+      // Review comment anchors never go live
+      const contentHtml = finalStatus === 'published' || finalStatus === 'scheduled'
+        ? stripReviewAnchors(post.contentHtml || '')
+        : post.contentHtml;
 
       const updateData: any = {
         title: post.title,
-        content: post.contentHtml,
-        contentHtml: post.contentHtml,
+        content: contentHtml,
+        contentHtml,
         excerpt: post.excerpt,
         tags: post.tags || [],
         categories: post.category ? [post.category] : [],
@@ -167,7 +355,10 @@ function EditPostEditor() {
         metaTitle: post.metaTitle,
         metaDescription: post.metaDescription,
         canonical: post.canonical,
+        focusKeyphrase: post.focusKeyphrase,
         scheduledAt: post.scheduledAt ? post.scheduledAt.toISOString() : undefined,
+        history: workflowUpdate?.history,
+        publishedAt: workflowUpdate?.publishedAt?.toISOString(),
       };
 
       // Remove undefined values
@@ -177,25 +368,42 @@ function EditPostEditor() {
         }
       });
 
-      const result = await apiService.updatePost(post.id!, updateData) as { slug?: string; previousSlug?: string } | undefined;
+      // While offline the update is queued and result is undefined
+      const result = await apiService.updatePost(post.id!, updateData, {
+        baseUpdatedAt: post.updatedAt,
+      });
       // Clear ISR cache so the live article (and feature section) show immediately; use API slug(s) when available
       const slugToRevalidate = result?.slug ?? post.slug;
-      if (slugToRevalidate) {
+      if (slugToRevalidate && navigator.onLine) {
         await revalidatePost(slugToRevalidate);
       }
       if (result?.previousSlug && result.previousSlug !== slugToRevalidate) {
         await revalidatePost(result.previousSlug);
       }
 
+      const updatedAt = await serverUpdatedAt(result);
+      setPost(prev => ({ ...prev, ...workflowUpdate, contentHtml, updatedAt }));
+      basePostRef.current = { ...post, ...workflowUpdate, contentHtml, updatedAt };
+      setMergeApplied(false);
+      await recordRevision(post.id!, { ...post, contentHtml }, finalStatus === 'published' && status !== 'published' ? 'publish' : 'manual');
+      setRevisionsKey(key => key + 1);
+      if (workflowUpdate) {
+        setStatus(workflowUpdate.status);
+      }
+
       // If it published immediately (not scheduled for later), offer to
       // post to social before navigating away.
-      if (finalStatus === 'published' && post.id) {
+      if (action === 'publish' && post.id) {
         setJustPublishedId(post.id);
         return;
       }
 
       router.push('/admin/posts');
     } catch (error) {
+      if (error instanceof ConflictError) {
+        await openMerge();
+        return;
+      }
       console.error('Error saving post:', error);
       setError('Failed to save post');
     } finally {
@@ -271,44 +479,64 @@ function EditPostEditor() {
             <div className="flex items-center space-x-3">
               <Button
                 variant="outline"
-                onClick={() => handleSave('save')}
+                onClick={() => handleSave()}
                 leftIcon={<BookmarkIcon />}
                 loading={saving}
               >
-                Save Draft
+                {status === 'draft' ? 'Save Draft' : 'Save'}
               </Button>
               
-              {status === 'draft' && (
+              {availableTransitions.map((transition) => (
                 <Button
-                  variant="secondary"
-                  onClick={() => handleSave('in_review')}
-                  leftIcon={<EyeIcon />}
+                  key={transition.action}
+                  variant={PRIMARY_ACTIONS.includes(transition.action) ? 'primary' : 'secondary'}
+                  onClick={() => handleSave(transition.action)}
+                  leftIcon={ACTION_ICONS[transition.action]}
                   loading={saving}
                 >
-                  Request Review
+                  {transition.label}
                 </Button>
-              )}
-              
-              {status !== 'published' && (
-                <Button
-                  variant="primary"
-                  onClick={() => handleSave('publish')}
-                  leftIcon={<PaperAirplaneIcon />}
-                  loading={saving}
-                >
-                  Publish
-                </Button>
-              )}
+              ))}
             </div>
           </div>
         </div>
 
+        {workflowErrors.length > 0 && (
+          <Alert variant="warning" className="mb-6">
+            <p className="font-medium">Fix the following before continuing:</p>
+            <ul className="mt-1 list-disc list-inside text-sm">
+              {workflowErrors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          </Alert>
+        )}
+
         {error && (
           <Alert variant="danger" className="mb-6">
             {error}
           </Alert>
         )}
 
+        {lockedBy && !lockHolderIsPeer && (
+          <Alert variant="warning" className="mb-6">
+            <div className="flex items-center justify-between gap-4">
+              <span>
+                <strong>{lockedBy.name}</strong> is editing this post. Saving now may conflict with their changes.
+              </span>
+              <Button size="sm" variant="outline" onClick={takeOver}>
+                Take over
+              </Button>
+            </div>
+          </Alert>
+        )}
+
+        {mergeApplied && (
+          <Alert variant="info" className="mb-6">
+            Your changes were merged with the latest saved version. Review the post and save again.
+          </Alert>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
@@ -361,6 +589,7 @@ function EditPostEditor() {
                     Rich text editor with full formatting support
                   </div>
                 </div>
+                {collaboration.ready ? (
                 <RichTextEditor
                   content={post.contentHtml || ''}
                   onChange={(content) => setPost(prev => ({ ...prev, contentHtml: content }))}
@@ -368,8 +597,29 @@ function EditPostEditor() {
                   showToolbar={true}
                   showCharacterCount={true}
                   maxLength={10000}
-                  onImageUpload={handleRichTextImageUpload}
+                  linkHealth={linkResults}
+                  internalLinkSuggestions={internalLinkSuggestions}
+                  review={showReview ? {
+                    onCreateThread: (anchor) => {
+                      setPendingAnchor(anchor);
+                      setActiveThreadId(anchor.threadId);
+                    },
+                    onSelectThread: setActiveThreadId,
+                    activeThreadId,
+                    threadIds: [
+                      ...reviewThreads.map(thread => thread.id),
+                      ...(pendingAnchor ? [pendingAnchor.threadId] : []),
+                    ],
+                    resolvedThreadIds: reviewThreads.filter(thread => thread.resolved).map(thread => thread.id),
+                  } : undefined}
+                  collaboration={collaboration}
                 />
+                ) : (
+                  <div className="flex items-center justify-center gap-2 py-12 text-sm text-gray-500">
+                    <Spinner size="sm" />
+                    Joining live editing session…
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -425,6 +675,23 @@ function EditPostEditor() {
               tags={post.tags || []}
               category={post.category || ''}
               canonical={post.canonical}
+              focusKeyphrase={post.focusKeyphrase || ''}
+              onFocusKeyphraseChange={(focusKeyphrase) => setPost(prev => ({ ...prev, focusKeyphrase }))}
+            />
+
+            {/* Accessibility */}
+            <AccessibilityAudit
+              content={post.contentHtml || ''}
+              onChange={(contentHtml) => setPost(prev => ({ ...prev, contentHtml }))}
+            />
+
+            {/* Links */}
+            <LinkCheckPanel
+              post={{ id: post.id, slug: post.slug || '', title: post.title || '' }}
+              content={post.contentHtml || ''}
+              onContentChange={(contentHtml) => setPost(prev => ({ ...prev, contentHtml }))}
+              results={linkResults}
+              onResultsChange={setLinkResults}
             />
 
             {/* Canonical URL Management */}
@@ -434,6 +701,30 @@ function EditPostEditor() {
               slug={post.slug || ''}
             />
 
+            {/* Review */}
+            {showReview && user && (
+              <ReviewPanel
+                post={{ ...post, status }}
+                user={user}
+                requiredApprovals={requiredApprovals}
+                activeThreadId={activeThreadId}
+                onSelectThread={setActiveThreadId}
+                pendingAnchor={pendingAnchor}
+                onDiscardAnchor={() => setPendingAnchor(null)}
+                onUpdate={handleReviewUpdate}
+              />
+            )}
+
+            {/* Revisions */}
+            {post.id && (
+              <RevisionsPanel
+                postId={post.id}
+                currentPost={post}
+                onRestore={handleRestoreRevision}
+                refreshKey={revisionsKey}
+              />
+            )}
+
             {/* Featured Image */}
             <Card>
               <CardContent className="p-6">
@@ -478,6 +769,15 @@ function EditPostEditor() {
         </Modal>
       )}
 
+      {merge && (
+        <MergeConflictDialog
+          result={merge.result}
+          theirs={merge.theirs}
+          onResolve={(resolved) => applyMerge(resolved, merge.theirs)}
+          onCancel={() => setMerge(null)}
+        />
+      )}
+
       {justPublishedId && showSocialDialog && (
         <SocialPostDialog
           isOpen
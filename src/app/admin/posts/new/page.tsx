@@ -5,7 +5,7 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import apiService from '@/lib/apiService';
 import AdminLayout from '@/components/admin/AdminLayout';
 import { withAuth, useAuth } from '@/contexts/AuthContext';
-import { Post, PostStatus } from '@/types/admin';
+import { LinkCheckResult, Post } from '@/types/admin';
 import { 
   DocumentTextIcon,
   EyeIcon,
@@ -24,14 +24,21 @@ import { Input, Textarea, Button, Card, CardContent, Dropdown, TagInput, Spinner
 import { SocialPostDialog } from '@/components/social/SocialPostDialog';
 import dynamic from 'next/dynamic';
 import { uploadImageToCloudinary } from '@/lib/imageUpload';
-import { normalizeFeaturedImageForSave, extractPublicId, FeaturedImageRef, getInlineImageUrl, getCoverUrl } from '@/lib/imageHelpers';
+import { normalizeFeaturedImageForSave, FeaturedImageRef, getCoverUrl } from '@/lib/imageHelpers';
 import SEOSuggestions from '@/components/editor/SEOSuggestions';
+import AccessibilityAudit from '@/components/editor/AccessibilityAudit';
+import LinkCheckPanel from '@/components/editor/LinkCheckPanel';
 import CanonicalUrlManager from '@/components/editor/CanonicalUrlManager';
 import Scheduling from '@/components/editor/Scheduling';
 import Preview from '@/components/editor/Preview';
 import FeaturedImageUpload from '@/components/editor/FeaturedImageUpload';
 import { useAutoSave, useAutoSaveIndicator } from '@/hooks/useAutoSave';
+import { useCollaboration } from '@/hooks/useCollaboration';
 import { CATEGORY_OPTIONS } from '@/lib/categories';
+import { useSiteSettings } from '@/hooks/useSiteSettings';
+import { useInternalLinkSuggestions } from '@/hooks/useInternalLinkSuggestions';
+import { recordRevision } from '@/lib/revisions';
+import { applyTransition, getAvailableTransitions, getMissingFields, WorkflowAction, WorkflowError } from '@/lib/workflow';
 
 const RichTextEditor = dynamic(
   () => import('@/components/editor/RichTextEditor'),
@@ -44,19 +51,12 @@ function NewPostEditor() {
   const { user } = useAuth();
   const [loading, setLoading] = useState(false);
   const [postId, setPostId] = useState<string | null>(null);
+  const [linkResults, setLinkResults] = useState<LinkCheckResult[]>([]);
   const [justPublishedId, setJustPublishedId] = useState<string | null>(null);
   const [showSocialDialog, setShowSocialDialog] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isPrefilled, setIsPrefilled] = useState(false);
 
-  const handleImageUpload = async (file: File) => {
-    if (!user?.uid) {
-      throw new Error('User not authenticated');
-    }
-    const result = await uploadImageToCloudinary(file, 'posts');
-    return getInlineImageUrl({ public_id: result.public_id }) || result.url;
-  };
-
   const handleFeaturedImageUpload = async (file: File): Promise<FeaturedImageRef> => {
     const result = await uploadImageToCloudinary(file, 'posts');
     return normalizeFeaturedImageForSave(
@@ -120,6 +120,12 @@ function NewPostEditor() {
       twitterCard: 'summary_large_image',
     },
   });
+  const { suggestions: internalLinkSuggestions } = useInternalLinkSuggestions(post.contentHtml || '', {
+    currentSlug: post.slug,
+  });
+
+  const availableTransitions = getAvailableTransitions(post, user);
+  const { requiredApprovals } = useSiteSettings();
 
   // Update post state when prefilled data is loaded
   useEffect(() => {
@@ -151,6 +157,9 @@ function NewPostEditor() {
     }
   }, [prefilledData]);
 
+  // Once the draft exists, others opening it edit the same shared body
+  const collaboration = useCollaboration(postId);
+
   // Auto-save functionality
   const autoSaveState = useAutoSave(postId, post, {
     interval: 30000, // 30 seconds
@@ -164,7 +173,9 @@ function NewPostEditor() {
     },
     onError: (error) => {
       console.error('Auto-save failed:', error);
-    }
+    },
+    recordRevisions: true,
+    collaboration: { session: collaboration.session, sharedFields: ['content', 'contentHtml'] },
   });
 
   const autoSaveIndicator = useAutoSaveIndicator(autoSaveState);
@@ -191,37 +202,44 @@ function NewPostEditor() {
     }));
   };
 
-  const handleSave = async (status: PostStatus | 'in_review') => {
+  /**
+   * Save the post, optionally applying a workflow transition. Without an
+   * action the post is saved in its current status (a draft until it has
+   * been submitted).
+   */
+  const handleSave = async (action?: WorkflowAction) => {
+    if (!user) return;
+
     // Clear previous errors
     setErrors({});
-    
-    // Validate required fields
-    const newErrors: Record<string, string> = {};
-    
-    if (!post.title) newErrors.title = 'Title is required';
-    if (!post.slug) newErrors.slug = 'Slug is required';
-    if (!post.excerpt) newErrors.excerpt = 'Excerpt is required';
-    if (!post.contentHtml) newErrors.content = 'Content is required';
-    
-    // Check for featured image in both possible structures
-    const hasFeaturedImage = Boolean(extractPublicId(post.featuredImage));
-    if (!hasFeaturedImage) newErrors.featuredImage = 'Featured image is required';
-    
-    if (Object.keys(newErrors).length > 0) {
-      setErrors(newErrors);
+
+    const currentStatus = post.status || 'draft';
+    let workflowUpdate: ReturnType<typeof applyTransition> | null = null;
+    let fieldErrors: Record<string, string> = {};
+    if (action) {
+      try {
+        workflowUpdate = applyTransition({ ...post, status: currentStatus }, action, user, { requiredApprovals });
+      } catch (validationError) {
+        if (!(validationError instanceof WorkflowError)) throw validationError;
+        fieldErrors = validationError.fieldErrors as Record<string, string>;
+        if (Object.keys(fieldErrors).length === 0) {
+          alert(validationError.message);
+          return;
+        }
+      }
+    } else {
+      fieldErrors = getMissingFields(post, currentStatus) as Record<string, string>;
+    }
+
+    if (Object.keys(fieldErrors).length > 0) {
+      setErrors(fieldErrors);
       alert('Please fill in all required fields');
       return;
     }
 
     setLoading(true);
     try {
-      const now = new Date();
-      
-      // Determine final status based on scheduling
-      let finalStatus = status;
-      if (status === 'published' && post.scheduledAt && post.scheduledAt > now) {
-        finalStatus = 'scheduled';
-      }
+      const finalStatus = workflowUpdate?.status ?? currentStatus;
 
       const postData = {
         title: post.title!,
@@ -235,11 +253,22 @@ function NewPostEditor() {
         metaTitle: post.metaTitle,
         metaDescription: post.metaDescription,
         canonical: post.canonical,
+        focusKeyphrase: post.focusKeyphrase,
         scheduledAt: post.scheduledAt,
+        history: workflowUpdate?.history,
       };
 
-      const result = await apiService.createPost(postData);
-      setPostId(result.id);
+      // The first save creates the post; later saves (e.g. submitting a
+      // saved draft for review) update it
+      const savedId = postId ?? (await apiService.createPost(postData)).id;
+      if (postId) {
+        await apiService.updatePost(postId, postData);
+      }
+      setPostId(savedId);
+      await recordRevision(savedId, post, finalStatus === 'published' ? 'publish' : 'manual');
+      if (workflowUpdate) {
+        setPost(prev => ({ ...prev, ...workflowUpdate }));
+      }
 
       // If this is a draft save, stay on the page for auto-save
       if (finalStatus === 'draft') {
@@ -249,8 +278,8 @@ function NewPostEditor() {
 
       // If it published immediately (not scheduled for later), offer to
       // post to social before navigating away.
-      if (finalStatus === 'published' && result.id) {
-        setJustPublishedId(result.id);
+      if (finalStatus === 'published') {
+        setJustPublishedId(savedId);
         return;
       }
 
@@ -312,29 +341,24 @@ function NewPostEditor() {
               status={post.status}
             />
             <Button
-              onClick={() => handleSave('draft')}
+              onClick={() => handleSave()}
               loading={loading}
               variant="outline"
               leftIcon={<ClockIcon />}
             >
-              Save Draft
-            </Button>
-            <Button
-              onClick={() => handleSave('in_review')}
-              loading={loading}
-              variant="secondary"
-              leftIcon={<EyeIcon />}
-            >
-              Request Review
-            </Button>
-            <Button
-              onClick={() => handleSave('published')}
-              loading={loading}
-              variant="primary"
-              leftIcon={<CheckCircleIcon />}
-            >
-              {post.scheduledAt && post.scheduledAt > new Date() ? 'Schedule' : 'Publish'}
+              {post.status === 'draft' ? 'Save Draft' : 'Save'}
             </Button>
+            {availableTransitions.map((transition) => (
+              <Button
+                key={transition.action}
+                onClick={() => handleSave(transition.action)}
+                loading={loading}
+                variant={transition.action === 'publish' || transition.action === 'schedule' ? 'primary' : 'secondary'}
+                leftIcon={transition.action === 'submit_for_review' ? <EyeIcon /> : transition.action === 'schedule' ? <CalendarIcon /> : <CheckCircleIcon />}
+              >
+                {transition.label}
+              </Button>
+            ))}
           </div>
         </div>
 
@@ -415,7 +439,9 @@ function NewPostEditor() {
           showToolbar={true}
           showCharacterCount={true}
           maxLength={10000}
-          onImageUpload={handleImageUpload}
+          linkHealth={linkResults}
+          internalLinkSuggestions={internalLinkSuggestions}
+          collaboration={collaboration}
         />
                 </div>
               </CardContent>
@@ -489,6 +515,31 @@ function NewPostEditor() {
                   tags={post.tags || []}
                   category={post.category || ''}
                   canonical={post.canonical}
+                  focusKeyphrase={post.focusKeyphrase || ''}
+                  onFocusKeyphraseChange={(focusKeyphrase) => setPost(prev => ({ ...prev, focusKeyphrase }))}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Accessibility */}
+            <Card>
+              <CardContent className="p-6">
+                <AccessibilityAudit
+                  content={post.contentHtml || ''}
+                  onChange={(contentHtml) => setPost(prev => ({ ...prev, contentHtml }))}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Links */}
+            <Card>
+              <CardContent className="p-6">
+                <LinkCheckPanel
+                  post={{ id: postId ?? undefined, slug: post.slug || '', title: post.title || '' }}
+                  content={post.contentHtml || ''}
+                  onContentChange={(contentHtml) => setPost(prev => ({ ...prev, contentHtml }))}
+                  results={linkResults}
+                  onResultsChange={setLinkResults}
                 />
               </CardContent>
             </Card>
@@ -2,9 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import apiService from '@/lib/apiService';
+import apiService, { AdminPostsPage } from '@/lib/apiService';
 import AdminLayout from '@/components/admin/AdminLayout';
-import { withAuth } from '@/contexts/AuthContext';
+import { withAuth, useAuth } from '@/contexts/AuthContext';
 import { Post, PostStatus, getStatusColor, getStatusLabel, getStatusBadgeClasses, getStatusIconClasses } from '@/types/admin';
 import {
   DocumentTextIcon,
@@ -18,14 +18,22 @@ import {
   NewspaperIcon,
   ShareIcon,
 } from '@heroicons/react/24/outline';
-import { Input, Dropdown, Button, Card, CardContent, Badge } from '@/components/ui';
-import { parseDate, formatDateShort } from '@/lib/dateUtils';
+import { Input, Dropdown, Button, Card, CardContent, Alert } from '@/components/ui';
+import { formatDateShort } from '@/lib/dateUtils';
 import { getImageUrlFromData } from '@/lib/imageHelpers';
 import { SocialPostDialog } from '@/components/social/SocialPostDialog';
+import { describeApiError } from '@/lib/api/errors';
+import { applyTransition, getAvailableTransitions, WorkflowAction, WorkflowError } from '@/lib/workflow';
+import { revalidatePost } from '@/app/actions/revalidate';
+import { useSiteSettings } from '@/hooks/useSiteSettings';
 
 function PostsManager() {
+  const { user } = useAuth();
+  const { requiredApprovals } = useSiteSettings();
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(false);
   const pageSize = 25;
@@ -33,57 +41,51 @@ function PostsManager() {
   const [statusFilter, setStatusFilter] = useState<PostStatus | 'all'>('all');
   const [filteredPosts, setFilteredPosts] = useState<Post[]>([]);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [transitioning, setTransitioning] = useState<string | null>(null);
   const [generatingImage, setGeneratingImage] = useState<string | null>(null);
   const [generatingBreakingNews, setGeneratingBreakingNews] = useState<string | null>(null);
   const [socialDialogPost, setSocialDialogPost] = useState<Post | null>(null);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchPosts = async () => {
       setLoading(true);
-      try {
-        const offset = (page - 1) * pageSize;
-        const result = await apiService.getAllPosts({ limit: pageSize, offset });
-
-        const formattedPosts: Post[] = result.posts.map((post: any) => {
-          // Parse socialMediaImage if it exists
-          let socialMediaImage = undefined;
-          if (post.socialMediaImage) {
-            socialMediaImage = {
-              url: post.socialMediaImage.url,
-              public_id: post.socialMediaImage.public_id,
-              width: post.socialMediaImage.width,
-              height: post.socialMediaImage.height,
-              generatedAt: post.socialMediaImage.generatedAt 
-                ? (post.socialMediaImage.generatedAt.toDate ? post.socialMediaImage.generatedAt.toDate() : new Date(post.socialMediaImage.generatedAt))
-                : undefined
-            };
-          }
-          
-          return {
-            id: post.id,
-            ...post,
-            author: post.author || { name: 'Unknown Author', uid: 'unknown' },
-            title: post.title || 'Untitled Post',
-            slug: post.slug || post.id,
-            excerpt: post.excerpt || 'No excerpt available',
-            status: post.status || 'draft',
-            updatedAt: parseDate(post.updatedAt) || new Date(),
-            socialMediaImage: socialMediaImage,
-          };
-        });
-        
+      setLoadError(null);
+      const applyResult = (result: AdminPostsPage) => {
+        // Dates and missing fields are already normalized by the posts schema
+        const formattedPosts: Post[] = result.posts.map((post) => ({
+          ...post,
+          title: post.title || 'Untitled Post',
+          slug: post.slug || post.id || '',
+          excerpt: post.excerpt || 'No excerpt available',
+        }));
+
         setPosts(formattedPosts);
         setFilteredPosts(formattedPosts);
         setHasMore(result.hasMore);
+      };
+
+      try {
+        const offset = (page - 1) * pageSize;
+        // A cached page renders immediately; onRevalidate swaps in fresh data
+        const result = await apiService.getAllPosts(
+          { limit: pageSize, offset },
+          { signal: controller.signal, onRevalidate: applyResult }
+        );
+        applyResult(result);
       } catch (error) {
+        if (controller.signal.aborted) return;
         console.error('Error fetching posts:', error);
+        setLoadError(describeApiError(error, 'Failed to load posts.'));
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
 
     fetchPosts();
-  }, [page]);
+    return () => controller.abort();
+  }, [page, reloadKey]);
 
   useEffect(() => {
     let filtered = posts;
@@ -118,12 +120,47 @@ function PostsManager() {
       setFilteredPosts(prev => prev.filter(post => post.id !== postId));
     } catch (error) {
       console.error('Error deleting post:', error);
-      alert('Failed to delete post. Please try again.');
+      alert(describeApiError(error, 'Failed to delete post. Please try again.'));
     } finally {
       setDeleting(null);
     }
   };
 
+  const handleTransition = async (post: Post, action: WorkflowAction) => {
+    if (!user || !post.id) return;
+
+    let update: ReturnType<typeof applyTransition>;
+    try {
+      update = applyTransition(post, action, user, { requiredApprovals });
+    } catch (error) {
+      if (error instanceof WorkflowError) {
+        alert(`${error.problems.join('\n')}\n\nOpen the post in the editor to fix this.`);
+        return;
+      }
+      throw error;
+    }
+
+    setTransitioning(post.id);
+    try {
+      await apiService.updatePost(post.id, {
+        status: update.status,
+        history: update.history,
+        publishedAt: update.publishedAt?.toISOString(),
+      }, { baseUpdatedAt: post.updatedAt });
+      if (post.slug && (update.status === 'published' || post.status === 'published')) {
+        await revalidatePost(post.slug);
+      }
+      const applyUpdate = (prev: Post[]) => prev.map(p => (p.id === post.id ? { ...p, ...update } : p));
+      setPosts(applyUpdate);
+      setFilteredPosts(applyUpdate);
+    } catch (error) {
+      console.error('Error updating post status:', error);
+      alert(describeApiError(error, 'Failed to update post status. Please try again.'));
+    } finally {
+      setTransitioning(null);
+    }
+  };
+
   const handleDownloadSocialImage = async (post: Post) => {
     if (!post.id) {
       alert('Post ID is required.');
@@ -276,6 +313,15 @@ function PostsManager() {
           </div>
         </div>
 
+        {loadError && (
+          <Alert variant="danger" className="flex items-center justify-between">
+            <span className="text-sm">{loadError}</span>
+            <Button variant="outline" size="sm" onClick={() => setReloadKey((k) => k + 1)}>
+              Retry
+            </Button>
+          </Alert>
+        )}
+
         {/* Filters */}
         <Card>
           <CardContent className="p-6">
@@ -349,6 +395,20 @@ function PostsManager() {
                       </div>
                     </div>
                     <div className="flex-shrink-0 flex items-center space-x-2">
+                      {getAvailableTransitions(post, user).length > 0 && (
+                        <Dropdown
+                          size="sm"
+                          className="w-40"
+                          placeholder="Change status"
+                          value=""
+                          disabled={transitioning === post.id}
+                          options={getAvailableTransitions(post, user).map(transition => ({
+                            value: transition.action,
+                            label: transition.label,
+                          }))}
+                          onChange={(action) => handleTransition(post, action as WorkflowAction)}
+                        />
+                      )}
                       <Link
                         href={`/${post.slug}`}
                         target="_blank"
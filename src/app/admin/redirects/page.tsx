@@ -1,19 +1,85 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import apiService from '@/lib/apiService';
 import AdminLayout from '@/components/admin/AdminLayout';
 import { withAuth, useAuth } from '@/contexts/AuthContext';
-import { Redirect, RedirectType } from '@/types/admin';
+import { Redirect, RedirectMatch, RedirectType } from '@/types/admin';
 import { 
   ArrowPathIcon,
   PlusIcon,
   TrashIcon,
   PencilIcon,
   CheckCircleIcon,
-  XCircleIcon
+  XCircleIcon,
+  ExclamationTriangleIcon,
+  CursorArrowRaysIcon,
 } from '@heroicons/react/24/outline';
-import { Input, Textarea, Dropdown, Checkbox, Button, Card, CardContent } from '@/components/ui';
+import { Input, Textarea, Dropdown, Checkbox, Button, Card, CardContent, Alert, Badge, Select } from '@/components/ui';
+import { describeApiError } from '@/lib/api/errors';
+import { formatDateTime } from '@/lib/dateUtils';
+import {
+  MAX_REGEX_RULES,
+  RedirectRule,
+  RedirectTrace,
+  buildRedirectTable,
+  redirectConflicts,
+  resolveRedirect,
+  traceRedirects,
+  validateRedirectRule,
+} from '@/lib/redirects';
+
+type RedirectSort = 'created' | 'hits' | 'lastHit';
+
+const NEW_RULE_ID = '__new';
+
+const EMPTY_FORM = {
+  from: '',
+  to: '',
+  type: 301 as RedirectType,
+  match: 'exact' as RedirectMatch,
+  preserveQuery: true,
+  active: true,
+  notes: '',
+};
+
+const MATCH_HELP: Record<RedirectMatch, { from: string; to: string; help: string }> = {
+  exact: { from: '/old-url', to: '/new-url or https://example.com', help: 'Matches this one path' },
+  pattern: {
+    from: '/old/:slug or /archive/*',
+    to: '/:slug or /posts/*',
+    help: ':name matches one path segment and * the rest; use them in the destination',
+  },
+  regex: {
+    from: '^/(\\d{4})/(\\d{2})/(.+)$',
+    to: '/$3',
+    help: 'A JavaScript regular expression against the path; use $1 or $<name> in the destination',
+  },
+};
+
+const describeTrace = (trace: RedirectTrace) => trace.hops.join(' → ');
+
+/** Problems with a rule, including the cap on active regex rules */
+function ruleErrors(rule: Pick<Redirect, 'from' | 'to' | 'match' | 'active'>, redirects: Redirect[], ruleId: string | null): string[] {
+  const regexRulesFull = rule.match === 'regex' && rule.active &&
+    redirects.filter((other) => other.id !== ruleId && other.active && other.match === 'regex').length >= MAX_REGEX_RULES;
+  return [
+    ...validateRedirectRule(rule),
+    ...(regexRulesFull ? [`Only ${MAX_REGEX_RULES} regular expression rules can be active; use a pattern instead`] : []),
+  ];
+}
+
+/** Refuse loops and confirm chains before a rule goes live; true to go ahead */
+function confirmConflicts(conflicts: RedirectTrace[]): boolean {
+  const loops = conflicts.filter((trace) => trace.loop);
+  if (loops.length > 0) {
+    alert(`This rule would create a redirect loop:\n${loops.map(describeTrace).join('\n')}`);
+    return false;
+  }
+  return conflicts.length === 0 || confirm(
+    `This rule makes visitors follow more than one redirect:\n${conflicts.map(describeTrace).join('\n')}\n\nSave anyway?`
+  );
+}
 
 function RedirectManager() {
   const { user } = useAuth();
@@ -21,27 +87,70 @@ function RedirectManager() {
   const [loading, setLoading] = useState(true);
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [formData, setFormData] = useState({
-    from: '',
-    to: '',
-    type: 301 as RedirectType,
-    active: true,
-    notes: '',
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [sort, setSort] = useState<RedirectSort>('created');
+  const [testPath, setTestPath] = useState('');
+
+  // Chains and loops the rule in the form would take part in, checked as it is typed
+  const candidateId = editingId || NEW_RULE_ID;
+  const formErrors = formData.from || formData.to ? ruleErrors(formData, redirects, editingId) : [];
+  const conflicts = useMemo(() => {
+    if (!showAddForm || validateRedirectRule(formData).length > 0) return [];
+    const candidate: RedirectRule = { id: candidateId, ...formData };
+    return redirectConflicts(candidate, redirects);
+  }, [showAddForm, formData, candidateId, redirects]);
+  const loops = conflicts.filter((trace) => trace.loop);
+  const ownChain = conflicts.find((trace) => trace.rule.id === candidateId && !trace.loop);
+
+  const traces = useMemo(() => traceRedirects(redirects), [redirects]);
+  const problemsById = useMemo(() => {
+    const problems = new Map<string, 'chain' | 'loop'>();
+    for (const trace of traces) {
+      if (trace.loop) problems.set(trace.rule.id, 'loop');
+      else if (trace.rules.length > 1 && !problems.has(trace.rule.id)) problems.set(trace.rule.id, 'chain');
+    }
+    return problems;
+  }, [traces]);
+
+  const testResult = useMemo(() => {
+    if (!testPath.trim()) return null;
+    let url: URL;
+    try {
+      url = new URL(testPath.trim(), 'https://www.techblit.com');
+    } catch {
+      return null;
+    }
+    return resolveRedirect(buildRedirectTable(redirects), url.pathname, url.search);
+  }, [testPath, redirects]);
+
+  const sortedRedirects = useMemo(() => {
+    if (sort === 'hits') return [...redirects].sort((a, b) => b.hits - a.hits);
+    if (sort === 'lastHit') {
+      return [...redirects].sort((a, b) => (b.lastHitAt?.getTime() ?? 0) - (a.lastHitAt?.getTime() ?? 0));
+    }
+    return redirects;
+  }, [redirects, sort]);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchRedirects = async () => {
       try {
-        const redirectsData = await apiService.getRedirects();
-        setRedirects(redirectsData as Redirect[]);
+        const redirectsData = await apiService.getRedirects({
+          signal: controller.signal,
+          onRevalidate: setRedirects,
+        });
+        setRedirects(redirectsData);
       } catch (error) {
+        if (controller.signal.aborted) return;
         console.error('Error fetching redirects:', error);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
 
     fetchRedirects();
+    return () => controller.abort();
   }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -51,6 +160,13 @@ function RedirectManager() {
       alert('Please fill in all required fields');
       return;
     }
+    if (formErrors.length > 0) {
+      alert(formErrors.join('\n'));
+      return;
+    }
+    if (!confirmConflicts(conflicts)) {
+      return;
+    }
 
     try {
       if (editingId) {
@@ -65,22 +181,16 @@ function RedirectManager() {
       } else {
         // Add new redirect
         const result = await apiService.createRedirect(formData);
-        setRedirects(prev => [...prev, { id: result.id, ...formData, createdBy: user?.uid || 'unknown', createdAt: new Date() }]);
+        setRedirects(prev => [...prev, { id: result.id, ...formData, createdBy: user?.uid || 'unknown', createdAt: new Date(), hits: 0 }]);
       }
       
       // Reset form
-      setFormData({
-        from: '',
-        to: '',
-        type: 301,
-        active: true,
-        notes: '',
-      });
+      setFormData(EMPTY_FORM);
       setShowAddForm(false);
       setEditingId(null);
     } catch (error) {
       console.error('Error saving redirect:', error);
-      alert('Failed to save redirect');
+      alert(describeApiError(error, 'Failed to save redirect'));
     }
   };
 
@@ -89,6 +199,8 @@ function RedirectManager() {
       from: redirect.from,
       to: redirect.to,
       type: redirect.type,
+      match: redirect.match,
+      preserveQuery: redirect.preserveQuery,
       active: redirect.active,
       notes: redirect.notes || '',
     });
@@ -106,11 +218,25 @@ function RedirectManager() {
       setRedirects(prev => prev.filter(redirect => redirect.id !== redirectId));
     } catch (error) {
       console.error('Error deleting redirect:', error);
-      alert('Failed to delete redirect');
+      alert(describeApiError(error, 'Failed to delete redirect'));
     }
   };
 
   const handleToggleActive = async (redirectId: string, currentActive: boolean) => {
+    const redirect = redirects.find((rule) => rule.id === redirectId);
+    if (!currentActive && redirect) {
+      // Switching a rule on puts it live, so it gets the checks a save does
+      const candidate = { ...redirect, active: true };
+      const errors = ruleErrors(candidate, redirects, redirectId);
+      if (errors.length > 0) {
+        alert(errors.join('\n'));
+        return;
+      }
+      if (!confirmConflicts(redirectConflicts(candidate, redirects))) {
+        return;
+      }
+    }
+
     try {
       await apiService.updateRedirect(redirectId, { active: !currentActive });
       
@@ -121,7 +247,7 @@ function RedirectManager() {
       ));
     } catch (error) {
       console.error('Error updating redirect:', error);
-      alert('Failed to update redirect');
+      alert(describeApiError(error, 'Failed to update redirect'));
     }
   };
 
@@ -151,13 +277,7 @@ function RedirectManager() {
               onClick={() => {
                 setShowAddForm(true);
                 setEditingId(null);
-                setFormData({
-                  from: '',
-                  to: '',
-                  type: 301,
-                  active: true,
-                  notes: '',
-                });
+                setFormData(EMPTY_FORM);
               }}
               variant="primary"
               leftIcon={<PlusIcon className="h-4 w-4" />}
@@ -175,24 +295,74 @@ function RedirectManager() {
                 {editingId ? 'Edit Redirect' : 'Add New Redirect'}
               </h3>
               <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                  <Dropdown
+                    label="Match"
+                    value={formData.match}
+                    onChange={(value) => setFormData(prev => ({ ...prev, match: value as RedirectMatch }))}
+                    options={[
+                      { value: 'exact', label: 'Exact path', description: 'One URL to another' },
+                      { value: 'pattern', label: 'Pattern', description: '/old/:slug → /:slug, /archive/* → /posts/*' },
+                      { value: 'regex', label: 'Regular expression', description: 'Full control, with $1 in the destination' },
+                    ]}
+                    helperText={MATCH_HELP[formData.match].help}
+                  />
                   <Input
                     label="From URL"
-                    placeholder="/old-url"
+                    placeholder={MATCH_HELP[formData.match].from}
                     value={formData.from}
                     onChange={(e) => setFormData(prev => ({ ...prev, from: e.target.value }))}
                     isRequired
                     helperText="The URL path to redirect from"
+                    className={formData.match === 'exact' ? undefined : 'font-mono'}
                   />
                   <Input
                     label="To URL"
-                    placeholder="/new-url or https://example.com"
+                    placeholder={MATCH_HELP[formData.match].to}
                     value={formData.to}
                     onChange={(e) => setFormData(prev => ({ ...prev, to: e.target.value }))}
                     isRequired
                     helperText="The destination URL to redirect to"
+                    className={formData.match === 'exact' ? undefined : 'font-mono'}
                   />
                 </div>
+
+                {formErrors.length > 0 && (
+                  <Alert variant="danger">
+                    <ul className="list-disc pl-5">
+                      {formErrors.map((error) => <li key={error}>{error}</li>)}
+                    </ul>
+                  </Alert>
+                )}
+
+                {loops.length > 0 && (
+                  <Alert variant="danger">
+                    <p className="font-medium">This rule creates a redirect loop and can&apos;t be saved:</p>
+                    {loops.map((trace) => (
+                      <p key={trace.rule.id} className="font-mono text-xs mt-1">{describeTrace(trace)}</p>
+                    ))}
+                  </Alert>
+                )}
+
+                {loops.length === 0 && conflicts.length > 0 && (
+                  <Alert variant="warning">
+                    <p className="font-medium">Visitors would follow more than one redirect:</p>
+                    {conflicts.map((trace) => (
+                      <p key={trace.rule.id} className="font-mono text-xs mt-1">{describeTrace(trace)}</p>
+                    ))}
+                    {ownChain && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="mt-2"
+                        onClick={() => setFormData(prev => ({ ...prev, to: ownChain.final }))}
+                      >
+                        Redirect straight to {ownChain.final}
+                      </Button>
+                    )}
+                  </Alert>
+                )}
                 
                 <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                   <Dropdown
@@ -205,12 +375,18 @@ function RedirectManager() {
                     ]}
                     helperText="Choose the appropriate redirect type"
                   />
-                  <div className="flex items-center pt-6">
+                  <div className="flex flex-col justify-center gap-2 pt-6">
                     <Checkbox
                       label="Active"
                       checked={formData.active}
                       onChange={(e) => setFormData(prev => ({ ...prev, active: e.target.checked }))}
                     />
+                    <Checkbox
+                      label="Keep query string"
+                      checked={formData.preserveQuery}
+                      onChange={(e) => setFormData(prev => ({ ...prev, preserveQuery: e.target.checked }))}
+                      helperText="/old?utm_source=x goes to /new?utm_source=x"
+                    />
                   </div>
                 </div>
                 
@@ -237,6 +413,7 @@ function RedirectManager() {
                   <Button
                     type="submit"
                     variant="primary"
+                    disabled={formErrors.length > 0 || loops.length > 0}
                   >
                     {editingId ? 'Update Redirect' : 'Add Redirect'}
                   </Button>
@@ -246,8 +423,57 @@ function RedirectManager() {
           </Card>
         )}
 
+        {/* URL Tester */}
+        <Card>
+          <CardContent className="p-6">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 sm:items-start">
+              <Input
+                label="Test a URL"
+                placeholder="/old/my-post?utm_source=newsletter"
+                value={testPath}
+                onChange={(e) => setTestPath(e.target.value)}
+                leftIcon={<CursorArrowRaysIcon className="h-4 w-4" />}
+                helperText="Checks the path against every active rule, in the order the site applies them"
+              />
+              {testResult !== null && (
+                <div className="sm:pt-6 text-sm">
+                  {testResult ? (
+                    <>
+                      <p className="text-gray-900">
+                        <Badge variant="info" size="sm">{testResult.status}</Badge>
+                        <span className="ml-2 font-mono break-all">{testResult.location}</span>
+                      </p>
+                      <p className="mt-1 text-gray-500">
+                        Matched <span className="font-mono">{testResult.rule.from}</span>
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-gray-500">No redirect — the page is served as is.</p>
+                  )}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Redirects Table */}
         <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          {redirects.length > 0 && (
+            <div className="flex justify-end px-4 py-3 border-b border-gray-200 sm:px-6">
+              <div className="w-48">
+                <Select
+                  aria-label="Sort redirects"
+                  value={sort}
+                  onChange={(e) => setSort(e.target.value as RedirectSort)}
+                  options={[
+                    { value: 'created', label: 'Newest first' },
+                    { value: 'hits', label: 'Most hits' },
+                    { value: 'lastHit', label: 'Recently hit' },
+                  ]}
+                />
+              </div>
+            </div>
+          )}
           {redirects.length === 0 ? (
             <div className="text-center py-12">
               <ArrowPathIcon className="mx-auto h-12 w-12 text-gray-400" />
@@ -258,7 +484,7 @@ function RedirectManager() {
             </div>
           ) : (
             <ul className="divide-y divide-gray-200">
-              {redirects.map((redirect) => (
+              {sortedRedirects.map((redirect) => (
                 <li key={redirect.id}>
                   <div className="px-4 py-4 sm:px-6">
                     <div className="flex items-center justify-between">
@@ -274,11 +500,29 @@ function RedirectManager() {
                             <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                               {redirect.type}
                             </span>
+                            {redirect.match !== 'exact' && (
+                              <Badge size="sm" className="ml-2">{redirect.match}</Badge>
+                            )}
+                            {problemsById.get(redirect.id) && (
+                              <Badge
+                                variant={problemsById.get(redirect.id) === 'loop' ? 'danger' : 'warning'}
+                                size="sm"
+                                className="ml-2"
+                              >
+                                <ExclamationTriangleIcon className="h-3 w-3 mr-1" />
+                                {problemsById.get(redirect.id) === 'loop' ? 'Loop' : 'Chain'}
+                              </Badge>
+                            )}
                           </div>
                           <div className="mt-1 flex items-center text-sm text-gray-500">
                             <ArrowPathIcon className="h-4 w-4 mr-1" />
                             <p>{redirect.to}</p>
                           </div>
+                          <div className="mt-1 text-xs text-gray-500">
+                            {redirect.hits.toLocaleString()} {redirect.hits === 1 ? 'hit' : 'hits'}
+                            {' · '}
+                            {redirect.lastHitAt ? `last ${formatDateTime(redirect.lastHitAt)}` : 'never hit'}
+                          </div>
                           {redirect.notes && (
                             <div className="mt-1 text-xs text-gray-400">
                               {redirect.notes}
@@ -328,7 +572,7 @@ function RedirectManager() {
         </div>
 
         {/* Stats */}
-        <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
+        <div className="grid grid-cols-1 gap-5 sm:grid-cols-4">
           <div className="bg-white overflow-hidden shadow rounded-lg">
             <div className="p-5">
               <div className="flex items-center">
@@ -394,6 +638,28 @@ function RedirectManager() {
               </div>
             </div>
           </div>
+
+          <div className="bg-white overflow-hidden shadow rounded-lg">
+            <div className="p-5">
+              <div className="flex items-center">
+                <div className="flex-shrink-0">
+                  <div className="p-3 rounded-md bg-purple-500">
+                    <CursorArrowRaysIcon className="h-6 w-6 text-white" />
+                  </div>
+                </div>
+                <div className="ml-5 w-0 flex-1">
+                  <dl>
+                    <dt className="text-sm font-medium text-gray-500 truncate">
+                      Total Hits
+                    </dt>
+                    <dd className="text-lg font-medium text-gray-900">
+                      {redirects.reduce((total, r) => total + r.hits, 0).toLocaleString()}
+                    </dd>
+                  </dl>
+                </div>
+              </div>
+            </div>
+          </div>
         </div>
       </div>
     </AdminLayout>
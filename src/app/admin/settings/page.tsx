@@ -17,13 +17,14 @@ import {
   LinkIcon,
   PhotoIcon,
   DocumentTextIcon,
-  EyeIcon,
   DocumentIcon,
   CloudIcon,
   ExclamationCircleIcon
 } from '@heroicons/react/24/outline';
 import { Input, Textarea, Button, Card, CardContent, Dropdown, Alert, Spinner, Checkbox } from '@/components/ui';
 import HomepageSettingsPanel from '@/components/admin/HomepageSettingsPanel';
+import RobotsTxtEditor from '@/components/admin/RobotsTxtEditor';
+import { hasRobotsErrors, parseRobotsTxt } from '@/lib/robots';
 
 function SettingsManager() {
   const [settings, setSettings] = useState<SiteSettings>({
@@ -72,6 +73,11 @@ function SettingsManager() {
   }, []);
 
   const handleSave = async () => {
+    if (settings.customRobotsTxt && hasRobotsErrors(parseRobotsTxt(settings.customRobotsTxt))) {
+      setMessage('Failed to save settings: robots.txt has errors');
+      return;
+    }
+
     setSaving(true);
     setMessage('');
     
@@ -368,87 +374,36 @@ function SettingsManager() {
         <Card>
           <CardContent className="p-6">
             <h3 className="text-lg font-medium text-gray-900 mb-4">Robots.txt Management</h3>
-            <div className="space-y-6">
-              <div className="flex justify-between items-center">
-                <div>
-                  <h4 className="text-sm font-medium text-gray-900">Custom Robots.txt</h4>
-                  <p className="text-sm text-gray-500">
-                    Customize your robots.txt file to control search engine crawling
-                  </p>
-                </div>
-                <Button
-                  onClick={() => {
-                    // Reset to default robots.txt
-                    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://www.techblit.com';
-                    const defaultRobots = `User-agent: *
-Allow: /
-Disallow: /admin/
-Disallow: /api/
-Disallow: /preview/
+            <RobotsTxtEditor
+              value={settings.customRobotsTxt || ''}
+              onChange={(value) => handleInputChange('customRobotsTxt', value)}
+              siteUrl={process.env.NEXT_PUBLIC_SITE_URL || 'https://www.techblit.com'}
+            />
+          </CardContent>
+        </Card>
 
-Host: ${siteUrl}
+        {/* Homepage Curation */}
+        <HomepageSettingsPanel />
 
-Sitemap: ${siteUrl}/sitemap.xml`;
-                    handleInputChange('customRobotsTxt', defaultRobots);
-                  }}
-                  variant="secondary"
-                  size="sm"
-                >
-                  Reset to Default
-                </Button>
-              </div>
-              
-              <Textarea
-                label="Robots.txt Content"
-                value={settings.customRobotsTxt || ''}
-                onChange={(e) => handleInputChange('customRobotsTxt', e.target.value)}
+        {/* Editorial Review */}
+        <Card>
+          <CardContent className="p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Editorial Review</h3>
+            <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+              <Input
+                label="Required Approvals"
+                type="number"
+                min={0}
+                max={10}
+                value={settings.requiredApprovals ?? 0}
+                onChange={(e) => handleInputChange('requiredApprovals', Math.max(0, parseInt(e.target.value, 10) || 0))}
                 variant="filled"
-                rows={8}
-                helperText="Enter your custom robots.txt content. Leave empty to use default."
-                placeholder="User-agent: *&#10;Allow: /&#10;Disallow: /admin/&#10;&#10;Sitemap: https://www.techblit.com/sitemap.xml"
+                helperText="Reviewer approvals a post needs before it can be published or scheduled. 0 disables the requirement."
               />
-              
-              <div className="flex space-x-4">
-                <Button
-                  onClick={() => {
-                    // Preview robots.txt
-                    const previewWindow = window.open('', '_blank');
-                    if (previewWindow) {
-                      previewWindow.document.write(`
-                        <html>
-                          <head><title>Robots.txt Preview</title></head>
-                          <body>
-                            <h1>Robots.txt Preview</h1>
-                            <pre style="background: #f5f5f5; padding: 20px; border-radius: 8px; white-space: pre-wrap;">${settings.customRobotsTxt || 'No custom robots.txt set'}</pre>
-                          </body>
-                        </html>
-                      `);
-                    }
-                  }}
-                  variant="secondary"
-                  leftIcon={<EyeIcon />}
-                >
-                  Preview
-                </Button>
-                
-                <Button
-                  onClick={() => {
-                    // Test robots.txt
-                    window.open('/robots.txt', '_blank');
-                  }}
-                  variant="secondary"
-                  leftIcon={<DocumentIcon />}
-                >
-                  View Live
-                </Button>
-              </div>
             </div>
           </CardContent>
         </Card>
 
-        {/* Homepage Curation */}
-        <HomepageSettingsPanel />
-
         {/* Maintenance Mode */}
         <Card>
           <CardContent className="p-6">
@@ -35,11 +35,7 @@ function UserManager() {
   useEffect(() => {
     const fetchUsers = async () => {
       try {
-        const usersData = await apiService.getUsers({ limit: 100 });
-        const formattedUsers = usersData.map((user: any) => ({
-          uid: user.uid || user.id,
-          ...user
-        } as User));
+        const formattedUsers = await apiService.getUsers({ limit: 100 });
         
         setUsers(formattedUsers);
         setFilteredUsers(formattedUsers);
@@ -174,11 +170,7 @@ function UserManager() {
       alert('Invitation sent successfully!');
       
       // Refresh users list
-      const usersData = await apiService.getUsers({ limit: 100 });
-      const formattedUsers = usersData.map((user: any) => ({
-        uid: user.uid || user.id,
-        ...user
-      } as User));
+      const formattedUsers = await apiService.getUsers({ limit: 100 });
       setUsers(formattedUsers);
       setFilteredUsers(formattedUsers);
     } catch (error) {
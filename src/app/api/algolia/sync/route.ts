@@ -22,6 +22,7 @@ interface BlogPost {
     alt: string;
   };
   tags?: string[];
+  focusKeyphrase?: string;
   status?: string;
 }
 
@@ -67,6 +68,7 @@ export async function GET(request: NextRequest) {
         publishedAt: timestamp,
         featuredImage: getImageUrlFromData(post.featuredImage, { preset: 'cover' }) || '',
         tags: post.tags || [],
+        focusKeyphrase: post.focusKeyphrase || '',
       };
     });
 
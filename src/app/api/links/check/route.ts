@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LinkChecker } from '@/lib/linkChecker';
+import { createPublicFetch } from '@/lib/publicFetch';
+import { requireAdminUser } from '@/lib/routeAuth';
+import { PERMISSIONS } from '@/types/admin';
+
+// Use Node.js runtime for outbound requests
+export const runtime = 'nodejs';
+// Checking a post's links can take a while on slow hosts
+export const maxDuration = 60;
+
+/** Links per request; clients send longer lists in batches */
+const MAX_URLS = 100;
+
+/** Time a request may spend checking, leaving room under maxDuration */
+const CHECK_BUDGET_MS = 45_000;
+
+// One checker per server instance, so concurrent requests share its
+// concurrency limit and per-host spacing
+const checker = new LinkChecker({ fetch: createPublicFetch() });
+
+/**
+ * POST /api/links/check  { urls: string[] }
+ * Header: Authorization: Bearer <Firebase ID token> of a user who can edit posts
+ *
+ * Checks each URL and returns status, redirect chain and final URL. Hosts
+ * that are or resolve to private network addresses are refused, on every
+ * redirect hop, so the route can't be used to probe internal services.
+ * URLs there was no time for are listed in `deferred` for the client to
+ * send again.
+ */
+export async function POST(request: NextRequest) {
+  const user = await requireAdminUser(request, [PERMISSIONS.EDIT_OWN_POST, PERMISSIONS.EDIT_ANY_POST]);
+  if (user instanceof NextResponse) return user;
+
+  let urls: unknown;
+  try {
+    ({ urls } = await request.json());
+  } catch {
+    return NextResponse.json({ message: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  if (!Array.isArray(urls) || !urls.every((url) => typeof url === 'string')) {
+    return NextResponse.json({ message: 'urls must be an array of strings' }, { status: 400 });
+  }
+  if (urls.length > MAX_URLS) {
+    return NextResponse.json({ message: `At most ${MAX_URLS} urls per request` }, { status: 413 });
+  }
+
+  try {
+    const results = await checker.checkAll(urls as string[], { deadline: Date.now() + CHECK_BUDGET_MS });
+    const checked = new Set(results.map((result) => result.url));
+    const deferred = Array.from(new Set(urls as string[])).filter((url) => !checked.has(url));
+    return NextResponse.json({ success: true, data: results, deferred });
+  } catch (error) {
+    console.error('Error checking links:', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EmbedAttributes } from '@/lib/embeds';
+
+// Use Node.js runtime for external API calls
+export const runtime = 'nodejs';
+
+/**
+ * oEmbed endpoints for providers without a built-in embed node. Only these
+ * hosts are ever fetched, so the route can't be used to reach arbitrary URLs.
+ */
+const OEMBED_ENDPOINTS: Array<{ hosts: string[]; endpoint: string }> = [
+  { hosts: ['vimeo.com', 'player.vimeo.com'], endpoint: 'https://vimeo.com/api/oembed.json' },
+  { hosts: ['soundcloud.com'], endpoint: 'https://soundcloud.com/oembed' },
+  { hosts: ['dailymotion.com', 'dai.ly'], endpoint: 'https://www.dailymotion.com/services/oembed' },
+  { hosts: ['loom.com'], endpoint: 'https://www.loom.com/v1/oembed' },
+  { hosts: ['codepen.io'], endpoint: 'https://codepen.io/api/oembed' },
+  { hosts: ['giphy.com'], endpoint: 'https://giphy.com/services/oembed' },
+  { hosts: ['flickr.com', 'flic.kr'], endpoint: 'https://www.flickr.com/services/oembed/' },
+  { hosts: ['slideshare.net'], endpoint: 'https://www.slideshare.net/api/oembed/2' },
+  { hosts: ['speakerdeck.com'], endpoint: 'https://speakerdeck.com/oembed.json' },
+  { hosts: ['reddit.com'], endpoint: 'https://www.reddit.com/oembed' },
+];
+
+const FETCH_TIMEOUT_MS = 5000;
+
+function findEndpoint(url: URL): string | null {
+  const host = url.hostname.replace(/^www\./, '');
+  return OEMBED_ENDPOINTS.find((entry) => entry.hosts.includes(host))?.endpoint ?? null;
+}
+
+function httpsOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value.startsWith('https://') ? value : null;
+}
+
+/**
+ * GET /api/oembed?url=https://vimeo.com/…
+ *
+ * Resolves a URL to embed attributes for the editor's generic embed node.
+ * Provider HTML is never stored: only the iframe src (when it is https), the
+ * title and the thumbnail are kept, and the article renders its own iframe.
+ */
+export async function GET(request: NextRequest) {
+  const urlParam = request.nextUrl.searchParams.get('url');
+
+  let url: URL;
+  try {
+    url = new URL(urlParam || '');
+  } catch {
+    return NextResponse.json({ message: 'A valid url parameter is required' }, { status: 400 });
+  }
+
+  const endpoint = findEndpoint(url);
+  if (!endpoint || !/^https?:$/.test(url.protocol)) {
+    return NextResponse.json({ message: 'This site is not supported for embedding' }, { status: 422 });
+  }
+
+  try {
+    const response = await fetch(`${endpoint}?format=json&url=${encodeURIComponent(url.toString())}`, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      next: { revalidate: 86400 },
+    });
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { message: `The provider could not embed this URL (status ${response.status})` },
+        { status: 502 }
+      );
+    }
+
+    const data = await response.json() as Record<string, unknown>;
+    const html = typeof data.html === 'string' ? data.html : '';
+    const iframeSrc = html.match(/<iframe[^>]*\ssrc="([^"]+)"/i)?.[1]?.replace(/&amp;/g, '&');
+
+    const attributes: EmbedAttributes = {
+      provider: 'oembed',
+      id: url.hostname.replace(/^www\./, ''),
+      url: url.toString(),
+      start: null,
+      caption: null,
+      title: typeof data.title === 'string' ? data.title.slice(0, 300) : null,
+      thumbnail: httpsOrNull(data.thumbnail_url),
+      embedSrc: httpsOrNull(iframeSrc),
+    };
+
+    return NextResponse.json({ success: true, data: attributes });
+  } catch (error) {
+    console.error('Error resolving oEmbed:', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
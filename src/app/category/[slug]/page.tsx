@@ -116,7 +116,7 @@ export async function generateMetadata({ params }: { params: Promise<{ slug: str
     };
   }
 
-  return generateCategorySEO(category.label, category.description);
+  return generateCategorySEO(category.label, category.description, category.slug);
 }
 
 // Main category page component
@@ -0,0 +1,56 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { buildFeed, FEED_CONTENT_TYPES, FeedContentMode, parseFeedPath, renderFeed } from '@/lib/feeds';
+
+// Use Node.js runtime for hashing
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const CACHE_CONTROL = 'public, max-age=600, s-maxage=600';
+
+/**
+ * GET /feeds/{rss.xml|atom.xml|feed.json}
+ * GET /feeds/{category|author|tag}/{value}/{rss.xml|atom.xml|feed.json}
+ *
+ * `?mode=excerpt` leaves out full post bodies. Responses carry an ETag and
+ * Last-Modified so aggregators can poll with conditional requests.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+  const { path } = await params;
+  const target = parseFeedPath(path);
+  if (!target) {
+    return new NextResponse('Not found', { status: 404 });
+  }
+  const mode: FeedContentMode = request.nextUrl.searchParams.get('mode') === 'excerpt' ? 'excerpt' : 'full';
+
+  try {
+    const feed = await buildFeed(target.scope);
+    const body = renderFeed(feed, target.format, mode);
+    const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+    const lastModified = feed.updated.toUTCString();
+    const headers = {
+      'Content-Type': FEED_CONTENT_TYPES[target.format],
+      'Cache-Control': CACHE_CONTROL,
+      ETag: etag,
+      'Last-Modified': lastModified,
+    };
+
+    // If-None-Match wins over If-Modified-Since when both are sent
+    const ifNoneMatch = request.headers.get('if-none-match');
+    const ifModifiedSince = request.headers.get('if-modified-since');
+    const notModified = ifNoneMatch
+      ? ifNoneMatch.split(',').some((value) => value.trim().replace(/^W\//, '') === etag || value.trim() === '*')
+      : !!ifModifiedSince && Math.floor(feed.updated.getTime() / 1000) <= Math.floor(Date.parse(ifModifiedSince) / 1000);
+    if (notModified) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(body, { status: 200, headers });
+  } catch (error) {
+    console.error('Error generating feed:', error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
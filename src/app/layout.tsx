@@ -5,6 +5,7 @@ import { Analytics } from '@vercel/analytics/react';
 import { SpeedInsights } from "@vercel/speed-insights/next";
 import "./globals.css";
 import { ThemeProvider } from "@/contexts/ThemeContext";
+import { organizationNode, serializeJsonLd, structuredDataGraph } from "@/lib/structuredData";
 
 // Optimize font loading
 const inter = Inter({
@@ -74,24 +75,7 @@ export default function RootLayout({
 }: Readonly<{
   children: React.ReactNode;
 }>) {
-  const organizationSchema = {
-    '@context': 'https://schema.org',
-    '@type': 'Organization',
-    name: 'TechBlit',
-    url: SITE_URL,
-    logo: `${SITE_URL}/favicon.png`,
-    description: "Igniting Africa's Tech Conversation",
-    sameAs: [
-      'https://twitter.com/techblit',
-      'https://facebook.com/techblit',
-      'https://linkedin.com/company/techblit',
-    ],
-    contactPoint: {
-      '@type': 'ContactPoint',
-      contactType: 'Editorial',
-      email: 'hello@techblit.com',
-    },
-  };
+  const organizationSchema = structuredDataGraph([organizationNode()]);
 
   const themeInitScript = `
 (function () {
@@ -127,7 +111,7 @@ export default function RootLayout({
         </Script>
         <script
           type="application/ld+json"
-          dangerouslySetInnerHTML={{ __html: JSON.stringify(organizationSchema) }}
+          dangerouslySetInnerHTML={{ __html: serializeJsonLd(organizationSchema) }}
         />
         <ThemeProvider>
           {children}
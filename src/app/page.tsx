@@ -17,6 +17,7 @@ import FooterNewsletter from '@/components/homepage/sections/FooterNewsletter'
 import HomepageEmptyState from '@/components/homepage/sections/HomepageEmptyState'
 import { getHomepageData } from '@/lib/homepageData'
 import { generateHomepageSEO } from '@/lib/seo'
+import { organizationNode, serializeJsonLd, structuredDataGraph, websiteNode } from '@/lib/structuredData'
 import { Metadata } from 'next'
 
 export const revalidate = 3600
@@ -29,35 +30,13 @@ export default async function Home() {
   const data = await getHomepageData()
   const hasStories = Boolean(data.hotNow)
 
-  const structuredData = {
-    '@context': 'https://schema.org',
-    '@type': 'WebSite',
-    name: 'TechBlit',
-    description: "Igniting Africa's Tech Conversation",
-    url: 'https://www.techblit.com',
-    publisher: {
-      '@type': 'Organization',
-      name: 'TechBlit',
-      logo: {
-        '@type': 'ImageObject',
-        url: 'https://www.techblit.com/favicon.png',
-      },
-    },
-    potentialAction: {
-      '@type': 'SearchAction',
-      target: {
-        '@type': 'EntryPoint',
-        urlTemplate: 'https://www.techblit.com/search?q={search_term_string}',
-      },
-      'query-input': 'required name=search_term_string',
-    },
-  }
+  const structuredData = structuredDataGraph([organizationNode(), websiteNode()])
 
   return (
     <HomepageShell>
       <script
         type="application/ld+json"
-        dangerouslySetInnerHTML={{ __html: JSON.stringify(structuredData) }}
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(structuredData) }}
       />
       <Navigation />
       <BreakingTicker posts={data.breaking} />
@@ -6,6 +6,8 @@ import Navigation from '@/components/ui/Navigation';
 import Footer from '@/components/ui/Footer';
 import Link from 'next/link';
 import { ProcessedImage } from '@/lib/imageProcessing';
+import { renderEmbeds } from '@/lib/embeds';
+import { renderContentBlocks } from '@/lib/contentBlocks';
 
 interface BlogPost {
   id: string;
@@ -289,7 +291,7 @@ export default function PreviewPage() {
               <div 
                 className="prose prose-lg max-w-none preview-content"
                 style={{ color: '#000000 !important' }}
-                dangerouslySetInnerHTML={{ __html: post.contentHtml }}
+                dangerouslySetInnerHTML={{ __html: renderContentBlocks(renderEmbeds(post.contentHtml)) }}
               />
             ) : (
               <div className="whitespace-pre-wrap text-gray-700 leading-relaxed">
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { fetchCustomRobotsTxt, generateRobotsTxt } from '@/lib/robots';
+import { getSiteUrl } from '@/lib/sitemap';
+
+export const revalidate = 300;
+
+/**
+ * robots.txt from site settings (Settings → Robots.txt), or the default
+ * rules when no custom file is set or the settings can't be read.
+ */
+export async function GET() {
+  const custom = await fetchCustomRobotsTxt();
+  const body = custom ?? generateRobotsTxt(getSiteUrl());
+  const maxAge = custom ? 3600 : 300;
+
+  return new NextResponse(body.endsWith('\n') ? body : `${body}\n`, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': `public, max-age=${maxAge}, s-maxage=${maxAge}`,
+    },
+  });
+}
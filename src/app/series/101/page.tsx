@@ -4,6 +4,8 @@ import VideoCard from '@/components/homepage/cards/VideoCard'
 import SectionContainer from '@/components/homepage/layout/SectionContainer'
 import { getHomepageData } from '@/lib/homepageData'
 import { ATN_FULL_NAME, ATN_LABEL, ATN_PLAYLIST_URL } from '@/lib/atn'
+import { generateVideoSeriesStructuredData } from '@/lib/seo'
+import { serializeJsonLd } from '@/lib/structuredData'
 import { Metadata } from 'next'
 
 export const revalidate = 3600
@@ -26,9 +28,14 @@ export default async function Series101Page() {
     ...(series101.featured ? [series101.featured] : []),
     ...series101.episodes,
   ]
+  const structuredData = generateVideoSeriesStructuredData(allEpisodes)
 
   return (
     <div className="min-h-screen bg-white dark:bg-gray-950">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(structuredData) }}
+      />
       <Navigation />
 
       <SectionContainer className="pt-8">
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseSitemapFileName, streamSitemap } from '@/lib/sitemap';
+
+// Force Node.js runtime for heavy operations (not Edge)
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /sitemaps/pages.xml, /sitemaps/posts-1.xml, /sitemaps/news.xml, ...
+ *
+ * Files listed in the sitemap index, streamed as they are generated.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ file: string }> }) {
+  const { file: name } = await params;
+  const file = parseSitemapFileName(name);
+  if (!file) {
+    return new NextResponse('Not found', { status: 404 });
+  }
+
+  // News changes by the minute; everything else hourly
+  const maxAge = file === 'news' ? 600 : 3600;
+  return new NextResponse(streamSitemap(file), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Cache-Control': `public, max-age=${maxAge}, s-maxage=${maxAge}`,
+    },
+  });
+}
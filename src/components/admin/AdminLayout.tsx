@@ -4,6 +4,7 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
 import { hasPermission } from '@/types/admin';
+import OfflineSyncBanner from './OfflineSyncBanner';
 import { 
   HomeIcon, 
   DocumentTextIcon, 
@@ -17,7 +18,10 @@ import {
   XMarkIcon,
   SparklesIcon,
   EnvelopeIcon,
-  UserGroupIcon
+  UserGroupIcon,
+  ShieldCheckIcon,
+  ClipboardDocumentCheckIcon,
+  LinkIcon
 } from '@heroicons/react/24/outline';
 
 interface AdminLayoutProps {
@@ -38,6 +42,9 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
     { name: 'Dashboard', href: '/admin', icon: HomeIcon, permission: null },
     { name: 'Posts', href: '/admin/posts', icon: DocumentTextIcon, permission: 'create_post' },
     { name: 'Grok Trends', href: '/admin/grok-trends', icon: SparklesIcon, permission: 'create_post' },
+    { name: 'Content Audit', href: '/admin/content-audit', icon: ClipboardDocumentCheckIcon, permission: 'create_post' },
+    { name: 'Accessibility', href: '/admin/accessibility', icon: ShieldCheckIcon, permission: 'create_post' },
+    { name: 'Link Checker', href: '/admin/links', icon: LinkIcon, permission: 'create_post' },
     { name: 'Media', href: '/admin/media', icon: PhotoIcon, permission: 'upload_media' },
     { name: 'Redirects', href: '/admin/redirects', icon: ArrowPathIcon, permission: 'manage_redirects' },
     { name: 'Users', href: '/admin/users', icon: UsersIcon, permission: 'manage_users' },
@@ -189,6 +196,7 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
         <main className="flex-1">
           <div className="py-6">
             <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+              <OfflineSyncBanner />
               {children}
             </div>
           </div>
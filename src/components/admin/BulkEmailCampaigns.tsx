@@ -16,31 +16,13 @@ import {
   ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
 import { formatDateShort } from '@/lib/dateUtils';
-
-interface Campaign {
-  campaignId: string;
-  subject: string;
-  recipientCount: number;
-  status: 'queued' | 'sending' | 'completed' | 'failed';
-  progress: number;
-  sent: number;
-  failed: number;
-  createdBy: {
-    uid: string;
-    name: string;
-    email?: string;
-  };
-  createdAt: string;
-  startedAt?: string;
-  completedAt?: string;
-  error?: string;
-}
+import type { BulkEmailCampaign as Campaign, BulkEmailStatus } from '@/lib/api/schemas';
 
 export default function BulkEmailCampaigns() {
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [statusFilter, setStatusFilter] = useState<'all' | 'queued' | 'sending' | 'completed' | 'failed'>('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | BulkEmailStatus>('all');
   const [selectedCampaign, setSelectedCampaign] = useState<Campaign | null>(null);
   const [pollingCampaigns, setPollingCampaigns] = useState<Set<string>>(new Set());
   const [resending, setResending] = useState<string | null>(null);
@@ -77,13 +59,11 @@ export default function BulkEmailCampaigns() {
     try {
       setLoading(true);
       setError(null);
-      const params: any = { limit: 50 };
-      if (statusFilter !== 'all') {
-        params.status = statusFilter;
-      }
-      const result: any = await apiService.getBulkEmailCampaigns(params);
-      const campaignsData = result.data?.campaigns || result.campaigns || result;
-      setCampaigns(Array.isArray(campaignsData) ? campaignsData : []);
+      const campaignsData = await apiService.getBulkEmailCampaigns({
+        limit: 50,
+        status: statusFilter !== 'all' ? statusFilter : undefined,
+      });
+      setCampaigns(campaignsData);
     } catch (err: any) {
       setError(err.message || 'Failed to fetch campaigns');
       console.error('Error fetching campaigns:', err);
@@ -94,8 +74,7 @@ export default function BulkEmailCampaigns() {
 
   const fetchCampaignStatus = async (campaignId: string) => {
     try {
-      const result: any = await apiService.getBulkEmailCampaign(campaignId);
-      const campaignData = result.data || result;
+      const campaignData = await apiService.getBulkEmailCampaign(campaignId);
       
       setCampaigns((prev) =>
         prev.map((c) =>
@@ -139,8 +118,7 @@ export default function BulkEmailCampaigns() {
 
     setResending(campaignId);
     try {
-      const result: any = await apiService.resendBulkEmailCampaign(campaignId);
-      const newCampaignId = result.data?.campaignId || result.campaignId;
+      const { campaignId: newCampaignId } = await apiService.resendBulkEmailCampaign(campaignId);
       
       alert(`Campaign re-send initiated! New campaign ID: ${newCampaignId}. Refreshing campaigns list...`);
       await fetchCampaigns();
@@ -158,8 +136,7 @@ export default function BulkEmailCampaigns() {
 
     setRetrying(campaignId);
     try {
-      const result: any = await apiService.retryFailedBulkEmails(campaignId);
-      const newCampaignId = result.data?.campaignId || result.campaignId;
+      const { campaignId: newCampaignId } = await apiService.retryFailedBulkEmails(campaignId);
       
       alert(`Failed emails retry initiated! New campaign ID: ${newCampaignId}. Refreshing campaigns list...`);
       await fetchCampaigns();
@@ -198,7 +175,7 @@ export default function BulkEmailCampaigns() {
           <Dropdown
             label="Filter by Status"
             value={statusFilter}
-            onChange={(value) => setStatusFilter(value as any)}
+            onChange={(value) => setStatusFilter(value as 'all' | BulkEmailStatus)}
             options={[
               { value: 'all', label: 'All Campaigns' },
               { value: 'queued', label: 'Queued' },
@@ -297,11 +274,11 @@ export default function BulkEmailCampaigns() {
                     <div className="mt-4 flex items-center space-x-4 text-sm text-gray-500">
                       <span>Created by {campaign.createdBy?.name || 'Unknown'}</span>
                       <span>•</span>
-                      <span>{formatDateShort(new Date(campaign.createdAt))}</span>
+                      <span>{formatDateShort(campaign.createdAt)}</span>
                       {campaign.completedAt && (
                         <>
                           <span>•</span>
-                          <span>Completed {formatDateShort(new Date(campaign.completedAt))}</span>
+                          <span>Completed {formatDateShort(campaign.completedAt)}</span>
                         </>
                       )}
                     </div>
@@ -416,7 +393,7 @@ export default function BulkEmailCampaigns() {
                 <div>
                   <p className="text-sm font-medium text-gray-700">Created</p>
                   <p className="text-gray-900">
-                    {formatDateShort(new Date(selectedCampaign.createdAt))}
+                    {formatDateShort(selectedCampaign.createdAt)}
                   </p>
                 </div>
 
@@ -424,7 +401,7 @@ export default function BulkEmailCampaigns() {
                   <div>
                     <p className="text-sm font-medium text-gray-700">Started</p>
                     <p className="text-gray-900">
-                      {formatDateShort(new Date(selectedCampaign.startedAt))}
+                      {formatDateShort(selectedCampaign.startedAt)}
                     </p>
                   </div>
                 )}
@@ -433,7 +410,7 @@ export default function BulkEmailCampaigns() {
                   <div>
                     <p className="text-sm font-medium text-gray-700">Completed</p>
                     <p className="text-gray-900">
-                      {formatDateShort(new Date(selectedCampaign.completedAt))}
+                      {formatDateShort(selectedCampaign.completedAt)}
                     </p>
                   </div>
                 )}
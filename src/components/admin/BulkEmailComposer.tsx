@@ -30,7 +30,7 @@ export default function BulkEmailComposer() {
   const [previewData, setPreviewData] = useState<{
     subject: string;
     htmlContent: string;
-    textContent: string;
+    textContent?: string;
   } | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -150,14 +150,14 @@ export default function BulkEmailComposer() {
     setError(null);
 
     try {
-      const result: any = await apiService.previewBulkEmail({
+      const preview = await apiService.previewBulkEmail({
         subject,
         htmlContent,
         textContent: textContent || undefined,
         sampleName: 'John Doe',
       });
 
-      setPreviewData(result.data || result);
+      setPreviewData(preview);
       setShowPreview(true);
     } catch (err: any) {
       setError(err.message || 'Failed to generate preview');
@@ -209,8 +209,7 @@ export default function BulkEmailComposer() {
         payload.recipients = recipients;
       }
 
-      const result: any = await apiService.createBulkEmailCampaign(payload);
-      const campaignId = result.data?.campaignId || result.campaignId;
+      const { campaignId } = await apiService.createBulkEmailCampaign(payload);
 
       setSuccess(
         `Campaign created successfully! Campaign ID: ${campaignId}. Emails are being sent asynchronously.`
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { XMarkIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Media, getStatusBadgeClasses, getStatusLabel } from '@/types/admin';
+import { MediaMetadataUpdate } from '@/lib/apiService';
+import { MediaUsage } from '@/lib/mediaUsage';
+import { formatDateTime } from '@/lib/dateUtils';
+import { Button, Input, Textarea, TagInput, Spinner } from '@/components/ui';
+
+interface MediaDetailsPanelProps {
+  media: Media;
+  /** Posts using the asset; null while usage is still being checked */
+  usage: MediaUsage[] | null;
+  folders: string[];
+  uploaderName?: string;
+  onSave: (update: MediaMetadataUpdate) => Promise<void>;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (!bytes) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
+function metadataOf(media: Media): Required<MediaMetadataUpdate> {
+  return {
+    alt: media.alt,
+    caption: media.caption ?? '',
+    credit: media.credit ?? '',
+    license: media.license ?? '',
+    tags: media.tags,
+    folder: media.folder ?? '',
+  };
+}
+
+/**
+ * Side panel for one asset: editable metadata, file facts and the posts
+ * that use it. Remount (key by id) to show another asset.
+ */
+export default function MediaDetailsPanel({
+  media,
+  usage,
+  folders,
+  uploaderName,
+  onSave,
+  onDelete,
+  onClose,
+}: MediaDetailsPanelProps) {
+  const [draft, setDraft] = useState(() => metadataOf(media));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(metadataOf(media));
+
+  const update = <K extends keyof MediaMetadataUpdate>(key: K, value: Required<MediaMetadataUpdate>[K]) =>
+    setDraft((prev) => ({ ...prev, [key]: value }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        ...draft,
+        alt: draft.alt.trim(),
+        folder: draft.folder.trim(),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save media details.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <aside className="bg-white shadow rounded-lg p-5 space-y-5">
+      <div className="flex items-start justify-between gap-3">
+        <h2 className="text-sm font-semibold text-gray-900 break-all">{media.fileName}</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close details">
+          <XMarkIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="bg-gray-100 rounded-lg overflow-hidden">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={media.url} alt={media.alt} className="w-full max-h-64 object-contain" />
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-xs">
+        <dt className="text-gray-500">Dimensions</dt>
+        <dd className="text-gray-900">{media.width && media.height ? `${media.width} × ${media.height}` : '—'}</dd>
+        <dt className="text-gray-500">Size</dt>
+        <dd className="text-gray-900">{formatFileSize(media.fileSize)}</dd>
+        <dt className="text-gray-500">Type</dt>
+        <dd className="text-gray-900">{media.mimeType || '—'}</dd>
+        <dt className="text-gray-500">Uploaded</dt>
+        <dd className="text-gray-900">{formatDateTime(media.createdAt)}</dd>
+        <dt className="text-gray-500">Uploaded by</dt>
+        <dd className="text-gray-900">{uploaderName || media.uploadedBy || '—'}</dd>
+      </dl>
+
+      <div className="space-y-4">
+        <Input
+          label="Alt text"
+          value={draft.alt}
+          onChange={(e) => update('alt', e.target.value)}
+          helperText={draft.alt.trim() ? undefined : 'Describe the image for screen readers and search engines.'}
+          size="sm"
+        />
+        <Textarea
+          label="Caption"
+          value={draft.caption}
+          onChange={(e) => update('caption', e.target.value)}
+          rows={2}
+          size="sm"
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <Input label="Credit" value={draft.credit} onChange={(e) => update('credit', e.target.value)} size="sm" />
+          <Input
+            label="License"
+            value={draft.license}
+            onChange={(e) => update('license', e.target.value)}
+            placeholder="e.g. CC BY 4.0"
+            size="sm"
+          />
+        </div>
+        <Input
+          label="Folder"
+          value={draft.folder}
+          onChange={(e) => update('folder', e.target.value)}
+          list="media-folders"
+          placeholder="e.g. events/2024"
+          size="sm"
+        />
+        <datalist id="media-folders">
+          {folders.map((folder) => (
+            <option key={folder} value={folder} />
+          ))}
+        </datalist>
+        <TagInput label="Tags" value={draft.tags} onChange={(tags) => update('tags', tags)} placeholder="Add tags..." />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSave} disabled={!dirty} loading={saving}>
+          Save details
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setDraft(metadataOf(media))} disabled={!dirty || saving}>
+          Reset
+        </Button>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Used in</h3>
+        {usage === null ? (
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            <Spinner size="sm" /> Checking posts…
+          </div>
+        ) : usage.length === 0 ? (
+          <p className="text-xs text-gray-500">Not used in any post.</p>
+        ) : (
+          <ul className="space-y-2">
+            {usage.map((entry) => (
+              <li key={entry.postId} className="flex items-center justify-between gap-2 text-sm">
+                <Link href={`/admin/posts/${entry.slug}/edit`} className="truncate text-blue-600 hover:text-blue-800">
+                  {entry.title || entry.slug}
+                </Link>
+                <span className="flex shrink-0 items-center gap-1">
+                  <span className="text-xs text-gray-500">
+                    {entry.placements.map((placement) => (placement === 'featured' ? 'Featured' : 'Inline')).join(', ')}
+                  </span>
+                  <span className={`rounded-full px-2 py-0.5 text-xs ${getStatusBadgeClasses(entry.status)}`}>
+                    {getStatusLabel(entry.status)}
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="border-t border-gray-200 pt-4">
+        <Button size="sm" variant="danger" leftIcon={<TrashIcon className="h-4 w-4" />} onClick={onDelete}>
+          Delete
+        </Button>
+      </div>
+    </aside>
+  );
+}
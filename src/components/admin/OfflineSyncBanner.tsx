@@ -0,0 +1,69 @@
+'use client';
+
+import { Alert, Button } from '@/components/ui';
+import { SignalSlashIcon, ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+
+/**
+ * Shows offline state, queued edits, and replay conflicts above admin pages
+ */
+export default function OfflineSyncBanner() {
+  const { isOnline, syncing, pending, needsAttention, replay, resolve } = useOfflineSync();
+
+  if (isOnline && pending.length === 0 && needsAttention.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 space-y-3">
+      {(!isOnline || pending.length > 0) && (
+        <Alert variant={isOnline ? 'info' : 'warning'}>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center">
+              {isOnline ? (
+                <ArrowPathIcon className={`h-5 w-5 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+              ) : (
+                <SignalSlashIcon className="h-5 w-5 mr-2" />
+              )}
+              <span className="text-sm">
+                {!isOnline && "You're offline. Showing saved data; changes will sync when you reconnect. "}
+                {pending.length > 0 && `${pending.length} change${pending.length === 1 ? '' : 's'} waiting to sync.`}
+              </span>
+            </div>
+            {isOnline && pending.length > 0 && (
+              <Button size="sm" variant="outline" onClick={replay} disabled={syncing}>
+                Sync now
+              </Button>
+            )}
+          </div>
+        </Alert>
+      )}
+
+      {needsAttention.map((entry) => (
+        <Alert key={entry.id} variant="danger">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-start">
+              <ExclamationTriangleIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+              <div className="text-sm">
+                <p className="font-medium">{entry.label}</p>
+                <p>
+                  {entry.status === 'conflict'
+                    ? 'Someone else changed this while you were offline. Overwrite their changes or discard yours?'
+                    : entry.error || 'This change could not be saved.'}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <Button size="sm" variant="danger" onClick={() => resolve(entry.id, 'overwrite')} disabled={syncing}>
+                {entry.status === 'conflict' ? 'Overwrite' : 'Retry'}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => resolve(entry.id, 'discard')} disabled={syncing}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        </Alert>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { DocumentIcon, ShieldCheckIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { Alert, Badge, Button, Checkbox, Input, Select, Textarea } from '@/components/ui';
+import {
+  AI_CRAWLERS,
+  CrawlerPreset,
+  RobotsRule,
+  SEARCH_CRAWLERS,
+  SEO_CRAWLERS,
+  blockedUserAgents,
+  formatRobotsGroup,
+  generateRobotsTxt,
+  parseRobotsTxt,
+  removeRobotsAgent,
+  testRobotsUrl,
+  upsertRobotsGroup,
+} from '@/lib/robots';
+
+interface RobotsTxtEditorProps {
+  /** SiteSettings.customRobotsTxt; empty means the default rules are served */
+  value: string;
+  onChange: (value: string) => void;
+  siteUrl: string;
+}
+
+type RuleMode = 'block' | 'allow' | 'paths';
+
+const CUSTOM_AGENT = '__custom';
+
+const AGENT_OPTIONS = [
+  { value: '*', label: 'All crawlers (*)' },
+  ...[...SEARCH_CRAWLERS, ...AI_CRAWLERS, ...SEO_CRAWLERS].map((crawler) => ({
+    value: crawler.token,
+    label: `${crawler.label} — ${crawler.operator}`,
+  })),
+  { value: CUSTOM_AGENT, label: 'Other…' },
+];
+
+const MODE_OPTIONS = [
+  { value: 'block', label: 'Block the whole site' },
+  { value: 'allow', label: 'Allow the whole site' },
+  { value: 'paths', label: 'Allow or block specific paths' },
+];
+
+const splitPaths = (text: string) =>
+  text.split('\n').map((line) => line.trim()).filter(Boolean).map((path) => (path.startsWith('/') || path.startsWith('*') ? path : `/${path}`));
+
+/**
+ * Robots.txt editor for the settings page: the file itself with line-level
+ * validation, one-click blocking for AI and SEO crawlers, a builder for
+ * per-agent groups and a tester that shows which rule decides a URL.
+ * Agents blocked from the whole site are also refused by the middleware.
+ */
+export default function RobotsTxtEditor({ value, onChange, siteUrl }: RobotsTxtEditorProps) {
+  const defaultRobots = useMemo(() => generateRobotsTxt(siteUrl), [siteUrl]);
+  // Builders edit what is actually served, which is the default until a custom file exists
+  const effective = value.trim() ? value : defaultRobots;
+  const parsed = useMemo(() => parseRobotsTxt(effective), [effective]);
+  const blocked = useMemo(() => new Set(blockedUserAgents(parsed)), [parsed]);
+
+  const [agentChoice, setAgentChoice] = useState('*');
+  const [customAgent, setCustomAgent] = useState('');
+  const [mode, setMode] = useState<RuleMode>('paths');
+  const [disallowPaths, setDisallowPaths] = useState('');
+  const [allowPaths, setAllowPaths] = useState('');
+  const [crawlDelay, setCrawlDelay] = useState('');
+
+  const [testAgent, setTestAgent] = useState('Googlebot');
+  const [testUrl, setTestUrl] = useState('/');
+
+  const builderAgent = agentChoice === CUSTOM_AGENT ? customAgent.trim() : agentChoice;
+  const builderRules: Array<Pick<RobotsRule, 'type' | 'path'>> =
+    mode === 'block'
+      ? [{ type: 'disallow', path: '/' }]
+      : mode === 'allow'
+        ? [{ type: 'allow', path: '/' }]
+        : [
+            ...splitPaths(disallowPaths).map((path) => ({ type: 'disallow' as const, path })),
+            ...splitPaths(allowPaths).map((path) => ({ type: 'allow' as const, path })),
+          ];
+  const delay = crawlDelay.trim() ? Number(crawlDelay) : undefined;
+  const builderText = builderAgent
+    ? formatRobotsGroup([builderAgent], builderRules, delay !== undefined && Number.isFinite(delay) ? delay : undefined)
+    : '';
+
+  const verdict = testAgent.trim() && testUrl.trim() ? testRobotsUrl(parsed, testAgent.trim(), testUrl.trim()) : null;
+  const testAgentBlocked = Array.from(blocked).some((agent) => testAgent.toLowerCase().includes(agent));
+
+  const setCrawlerBlocked = (crawler: CrawlerPreset, block: boolean) => {
+    onChange(
+      block
+        ? upsertRobotsGroup(effective, crawler.token, formatRobotsGroup([crawler.token], [{ type: 'disallow', path: '/' }]))
+        : removeRobotsAgent(effective, crawler.token)
+    );
+  };
+
+  const blockAll = (crawlers: CrawlerPreset[]) => {
+    let next = effective;
+    for (const crawler of crawlers) {
+      if (!blocked.has(crawler.token.toLowerCase())) {
+        next = upsertRobotsGroup(next, crawler.token, formatRobotsGroup([crawler.token], [{ type: 'disallow', path: '/' }]));
+      }
+    }
+    onChange(next);
+  };
+
+  const errors = parsed.issues.filter((issue) => issue.severity === 'error');
+
+  const renderCrawlerToggles = (title: string, description: string, crawlers: CrawlerPreset[]) => (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <div>
+          <h4 className="text-sm font-medium text-gray-900">{title}</h4>
+          <p className="text-xs text-gray-500">{description}</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => blockAll(crawlers)}>
+          Block all
+        </Button>
+      </div>
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-2 lg:grid-cols-3">
+        {crawlers.map((crawler) => (
+          <Checkbox
+            key={crawler.token}
+            id={`robots-block-${crawler.token}`}
+            checked={blocked.has(crawler.token.toLowerCase())}
+            onChange={(e) => setCrawlerBlocked(crawler, e.target.checked)}
+            label={`Block ${crawler.label}`}
+            helperText={crawler.operator}
+          />
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h4 className="text-sm font-medium text-gray-900">Robots.txt</h4>
+          <p className="text-sm text-gray-500">
+            {value.trim()
+              ? 'Served at /robots.txt. Crawlers blocked from the whole site also get a 403 from the site itself.'
+              : 'No custom file yet: the default rules below are served. Any change saves a custom file.'}
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <Button onClick={() => onChange(defaultRobots)} variant="secondary" size="sm">
+            Reset to Default
+          </Button>
+          <Button
+            onClick={() => window.open('/robots.txt', '_blank')}
+            variant="secondary"
+            size="sm"
+            leftIcon={<DocumentIcon />}
+          >
+            View Live
+          </Button>
+        </div>
+      </div>
+
+      <Textarea
+        label="Robots.txt Content"
+        value={effective}
+        onChange={(e) => onChange(e.target.value)}
+        variant="filled"
+        rows={14}
+        className="font-mono text-xs"
+        error={errors.length ? `${errors.length} error${errors.length === 1 ? '' : 's'} — fix before saving` : undefined}
+        spellCheck={false}
+      />
+
+      {parsed.issues.length === 0 ? (
+        <Alert variant="success">
+          {parsed.groups.length} group{parsed.groups.length === 1 ? '' : 's'}, {parsed.sitemaps.length} sitemap
+          {parsed.sitemaps.length === 1 ? '' : 's'}. No problems found.
+        </Alert>
+      ) : (
+        <ul className="space-y-1">
+          {parsed.issues.map((issue, index) => (
+            <li key={`${issue.line}-${index}`} className="flex items-start gap-2 text-sm">
+              <Badge variant={issue.severity === 'error' ? 'danger' : 'warning'} size="sm">
+                {issue.line ? `Line ${issue.line}` : 'File'}
+              </Badge>
+              <span className="text-gray-700">{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {renderCrawlerToggles(
+        'AI crawlers',
+        'Bots that collect content for model training and AI answers. Blocking them does not affect search rankings.',
+        AI_CRAWLERS
+      )}
+
+      {renderCrawlerToggles(
+        'SEO tool crawlers',
+        'Backlink and keyword tools that crawl heavily and send no readers.',
+        SEO_CRAWLERS
+      )}
+
+      {/* Rule builder */}
+      <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+        <h4 className="text-sm font-medium text-gray-900">Add rules for a crawler</h4>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <Select
+            label="Crawler"
+            value={agentChoice}
+            onChange={(e) => setAgentChoice(e.target.value)}
+            options={AGENT_OPTIONS}
+          />
+          {agentChoice === CUSTOM_AGENT ? (
+            <Input
+              label="User-agent"
+              value={customAgent}
+              onChange={(e) => setCustomAgent(e.target.value)}
+              placeholder="ExampleBot"
+            />
+          ) : (
+            <Select
+              label="Rule"
+              value={mode}
+              onChange={(e) => setMode(e.target.value as RuleMode)}
+              options={MODE_OPTIONS}
+            />
+          )}
+        </div>
+        {agentChoice === CUSTOM_AGENT && (
+          <Select
+            label="Rule"
+            value={mode}
+            onChange={(e) => setMode(e.target.value as RuleMode)}
+            options={MODE_OPTIONS}
+          />
+        )}
+        {mode === 'paths' && (
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <Textarea
+              label="Disallow"
+              value={disallowPaths}
+              onChange={(e) => setDisallowPaths(e.target.value)}
+              rows={3}
+              className="font-mono text-xs"
+              placeholder={'/drafts/\n/*?utm_'}
+              helperText="One path per line. * matches anything, $ ends the path."
+            />
+            <Textarea
+              label="Allow"
+              value={allowPaths}
+              onChange={(e) => setAllowPaths(e.target.value)}
+              rows={3}
+              className="font-mono text-xs"
+              placeholder="/drafts/public/"
+              helperText="Exceptions to the disallowed paths; the longest match wins."
+            />
+          </div>
+        )}
+        <Input
+          label="Crawl-delay (seconds, optional)"
+          type="number"
+          min={0}
+          value={crawlDelay}
+          onChange={(e) => setCrawlDelay(e.target.value)}
+          helperText="Honoured by Bing and Yandex; Google ignores it."
+        />
+        {builderText && (
+          <pre className="bg-gray-50 border border-gray-200 rounded p-3 text-xs font-mono whitespace-pre-wrap">
+            {builderText}
+          </pre>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          leftIcon={<PlusIcon />}
+          disabled={!builderAgent || builderRules.length === 0}
+          onClick={() => onChange(upsertRobotsGroup(effective, builderAgent, builderText))}
+        >
+          {parsed.groups.some((group) => group.userAgents.length === 1 && group.userAgents[0].toLowerCase() === builderAgent.toLowerCase())
+            ? `Replace rules for ${builderAgent}`
+            : 'Add to robots.txt'}
+        </Button>
+      </div>
+
+      {/* URL tester */}
+      <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+        <h4 className="text-sm font-medium text-gray-900">Test a URL</h4>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <Input
+            label="User-agent"
+            value={testAgent}
+            onChange={(e) => setTestAgent(e.target.value)}
+            placeholder="Googlebot"
+            list="robots-test-agents"
+          />
+          <datalist id="robots-test-agents">
+            {[...SEARCH_CRAWLERS, ...AI_CRAWLERS, ...SEO_CRAWLERS].map((crawler) => (
+              <option key={crawler.token} value={crawler.token} />
+            ))}
+          </datalist>
+          <Input
+            label="URL or path"
+            value={testUrl}
+            onChange={(e) => setTestUrl(e.target.value)}
+            placeholder={`${siteUrl}/some-post`}
+            leftIcon={<ShieldCheckIcon />}
+          />
+        </div>
+        {verdict && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant={verdict.allowed ? 'success' : 'danger'}>{verdict.allowed ? 'Allowed' : 'Blocked'}</Badge>
+            <span className="text-gray-700">
+              {verdict.group === null
+                ? 'No group applies to this crawler, so everything is allowed.'
+                : verdict.rule
+                  ? `User-agent: ${verdict.group} — line ${verdict.rule.line}: ${verdict.rule.type === 'allow' ? 'Allow' : 'Disallow'}: ${verdict.rule.path}`
+                  : `User-agent: ${verdict.group} — no rule matches, allowed by default.`}
+            </span>
+            {testAgentBlocked && (
+              <Badge variant="warning">Refused with 403 by the site</Badge>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  ShieldCheckIcon,
+  WrenchScrewdriverIcon,
+} from '@heroicons/react/24/outline';
+import apiService from '@/lib/apiService';
+import { Media } from '@/types/admin';
+import { describeApiError } from '@/lib/api/errors';
+import { normalizeToPublicId } from '@/lib/cloudinaryUtils';
+import {
+  auditAccessibility,
+  applyAccessibilityFix,
+  suggestAltFromSource,
+  ACCESSIBILITY_RULE_LABELS,
+  AccessibilityIssue,
+} from '@/lib/accessibilityAudit';
+import { Button } from '@/components/ui';
+
+interface AccessibilityAuditProps {
+  content: string;
+  onChange: (content: string) => void;
+}
+
+const FIX_LABELS = {
+  'set-heading-level': 'Fix level',
+  'add-table-headers': 'Use first row as headers',
+  'remove-color': 'Remove color',
+} as const;
+
+const issueKey = (issue: AccessibilityIssue) => `${issue.rule}:${issue.target.tag}:${issue.target.index}`;
+
+/** Library entry for an inline image, by media id or Cloudinary public_id */
+async function findMediaForImage(image: NonNullable<AccessibilityIssue['image']>): Promise<Media | null> {
+  if (image.mediaId) {
+    try {
+      return await apiService.getMediaItem(image.mediaId);
+    } catch {
+      // Deleted or legacy id; fall back to the URL
+    }
+  }
+
+  const publicId = normalizeToPublicId(image.src);
+  if (!publicId) return null;
+  const page = await apiService.getMediaPage({ q: publicId.split('/').pop(), mimeType: 'image/*', limit: 20 });
+  return (
+    page.items.find(
+      (item) => normalizeToPublicId(item.url) === publicId || normalizeToPublicId(item.storagePath) === publicId
+    ) ?? null
+  );
+}
+
+/**
+ * Accessibility checks for the post body with one-click fixes. Alt text is
+ * filled from the image's media library entry when it has one.
+ */
+export default function AccessibilityAudit({ content, onChange }: AccessibilityAuditProps) {
+  const issues = useMemo(() => auditAccessibility(content), [content]);
+  const [altDraft, setAltDraft] = useState<{ key: string; value: string } | null>(null);
+  const [lookingUp, setLookingUp] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fixable = issues.filter((issue) => issue.fix);
+
+  const applyFix = (issue: AccessibilityIssue) => {
+    if (issue.fix) onChange(applyAccessibilityFix(content, issue, issue.fix));
+  };
+
+  // Fixes shift tag positions, so re-audit after each one
+  const applyAllFixes = () => {
+    let html = content;
+    for (let remaining = fixable.length * 2; remaining > 0; remaining--) {
+      const next = auditAccessibility(html).find((issue) => issue.fix);
+      if (!next?.fix) break;
+      const updated = applyAccessibilityFix(html, next, next.fix);
+      if (updated === html) break;
+      html = updated;
+    }
+    onChange(html);
+  };
+
+  const applyAlt = (issue: AccessibilityIssue, alt: string) => {
+    if (!alt.trim()) return;
+    onChange(applyAccessibilityFix(content, issue, { type: 'set-alt', alt }));
+    setAltDraft(null);
+  };
+
+  const fillAltFromLibrary = async (issue: AccessibilityIssue) => {
+    if (!issue.image) return;
+    const key = issueKey(issue);
+    setLookingUp(key);
+    setError(null);
+    try {
+      const media = await findMediaForImage(issue.image);
+      if (media?.alt.trim()) {
+        applyAlt(issue, media.alt);
+      } else {
+        // Nothing in the library; start from the caption or file name
+        setAltDraft({ key, value: media?.caption || suggestAltFromSource(issue.image.src) });
+      }
+    } catch (err) {
+      console.error('Error looking up media for alt text:', err);
+      setError(describeApiError(err, 'Could not look up the image in the media library.'));
+      setAltDraft({ key, value: suggestAltFromSource(issue.image.src) });
+    } finally {
+      setLookingUp(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <ShieldCheckIcon className="h-5 w-5 mr-2" />
+          Accessibility
+        </h3>
+        <div className="flex gap-2 text-sm">
+          <span className="text-yellow-600">{issues.filter((issue) => issue.severity === 'warning').length} ⚠</span>
+          <span className="text-red-600">{issues.filter((issue) => issue.severity === 'error').length} ✗</span>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {issues.length === 0 ? (
+        <div className="p-3 rounded-lg border text-green-700 bg-green-50 border-green-200 flex items-start">
+          <CheckCircleIcon className="h-5 w-5 text-green-500" />
+          <p className="ml-2 text-sm">No accessibility issues found</p>
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {issues.map((issue) => {
+            const key = issueKey(issue);
+            const draft = altDraft?.key === key ? altDraft : null;
+            return (
+              <div
+                key={key}
+                className={`p-3 rounded-lg border ${
+                  issue.severity === 'error'
+                    ? 'text-red-700 bg-red-50 border-red-200'
+                    : 'text-yellow-700 bg-yellow-50 border-yellow-200'
+                }`}
+              >
+                <div className="flex items-start">
+                  <ExclamationTriangleIcon
+                    className={`h-5 w-5 flex-shrink-0 ${issue.severity === 'error' ? 'text-red-500' : 'text-yellow-500'}`}
+                  />
+                  <div className="ml-2 min-w-0 flex-1">
+                    <p className="text-sm">{issue.message}</p>
+                    {issue.excerpt && <p className="truncate text-xs opacity-75">{issue.excerpt}</p>}
+                  </div>
+                </div>
+
+                {issue.fix && issue.fix.type !== 'set-alt' && (
+                  <div className="mt-2 flex justify-end">
+                    <Button size="sm" variant="outline" onClick={() => applyFix(issue)}>
+                      {FIX_LABELS[issue.fix.type]}
+                    </Button>
+                  </div>
+                )}
+
+                {issue.image && !draft && (
+                  <div className="mt-2 flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setAltDraft({ key, value: suggestAltFromSource(issue.image!.src) })}
+                    >
+                      Write alt text
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      loading={lookingUp === key}
+                      onClick={() => fillAltFromLibrary(issue)}
+                    >
+                      Fill from library
+                    </Button>
+                  </div>
+                )}
+
+                {draft && (
+                  <form
+                    className="mt-2 flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      applyAlt(issue, draft.value);
+                    }}
+                  >
+                    <input
+                      autoFocus
+                      value={draft.value}
+                      onChange={(e) => setAltDraft({ key, value: e.target.value })}
+                      placeholder="Describe the image"
+                      className="min-w-0 flex-1 rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-900"
+                    />
+                    <Button size="sm" type="submit" disabled={!draft.value.trim()}>
+                      Apply
+                    </Button>
+                  </form>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {fixable.length > 1 && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={applyAllFixes}
+          leftIcon={<WrenchScrewdriverIcon className="h-4 w-4" />}
+          className="w-full"
+        >
+          Apply {fixable.length} automatic fixes
+        </Button>
+      )}
+
+      <div className="text-xs text-gray-500 pt-2 border-t">
+        <p>
+          Checks: {Object.values(ACCESSIBILITY_RULE_LABELS).join(', ').toLowerCase()}.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { CollaborationPeer } from '@/lib/collaboration';
+import { CollaborationState } from '@/hooks/useCollaboration';
+
+interface CollaborationPresenceProps {
+  peers: CollaborationPeer[];
+  status: CollaborationState;
+}
+
+const STATUS_LABELS: Record<CollaborationState, { label: string; dot: string }> = {
+  connecting: { label: 'Connecting…', dot: 'bg-yellow-400' },
+  connected: { label: 'Live', dot: 'bg-green-500' },
+  disconnected: { label: 'Reconnecting…', dot: 'bg-yellow-400' },
+  unavailable: { label: 'Offline', dot: 'bg-gray-400' },
+  disabled: { label: 'Live editing is off — save often, others may be editing too', dot: 'bg-gray-300' },
+};
+
+function initials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]!.toUpperCase())
+    .join('');
+}
+
+/**
+ * Avatars of the other people in the document and who is typing
+ */
+export default function CollaborationPresence({ peers, status }: CollaborationPresenceProps) {
+  // One avatar per person even if they have the post open in several tabs
+  const people = Array.from(
+    peers
+      .reduce((byId, peer) => {
+        const existing = byId.get(peer.id);
+        byId.set(peer.id, existing ? { ...existing, isEditing: existing.isEditing || peer.isEditing } : peer);
+        return byId;
+      }, new Map<string, CollaborationPeer>())
+      .values()
+  );
+  const editing = people.filter((peer) => peer.isEditing).map((peer) => peer.name);
+  const { label, dot } = STATUS_LABELS[status];
+
+  return (
+    <div className="flex items-center justify-between gap-3 border-b border-gray-200 bg-white px-3 py-2 text-xs text-gray-600">
+      <div className="flex items-center gap-2">
+        <span className={`h-2 w-2 rounded-full ${dot}`} />
+        <span>{label}</span>
+        {editing.length > 0 && (
+          <span className="text-gray-500">
+            · {editing.length === 1 ? `${editing[0]} is editing` : `${editing.slice(0, -1).join(', ')} and ${editing[editing.length - 1]} are editing`}
+          </span>
+        )}
+      </div>
+      <div className="flex -space-x-2">
+        {people.map((peer) => (
+          <span
+            key={peer.id}
+            title={peer.name}
+            className="relative inline-flex h-7 w-7 items-center justify-center overflow-hidden rounded-full border-2 text-[10px] font-semibold text-white"
+            style={{ backgroundColor: peer.color, borderColor: peer.isEditing ? peer.color : '#fff' }}
+          >
+            {peer.avatar ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={peer.avatar} alt={peer.name} className="h-full w-full object-cover" />
+            ) : (
+              initials(peer.name)
+            )}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
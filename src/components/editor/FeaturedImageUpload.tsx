@@ -1,10 +1,20 @@
 'use client'
 
-import { useState, useRef, useCallback } from 'react'
-import { PhotoIcon, XMarkIcon, CloudArrowUpIcon } from '@heroicons/react/24/outline'
+import { useState, useRef, useCallback, useEffect } from 'react'
+import { PhotoIcon, XMarkIcon, CloudArrowUpIcon, RectangleStackIcon, ViewfinderCircleIcon } from '@heroicons/react/24/outline'
 import { Button } from '@/components/ui'
-import { isAllowedFeaturedImageFile } from '@/lib/imageUpload'
-import { FeaturedImageRef, getCoverUrl, extractPublicId } from '@/lib/imageHelpers'
+import {
+  isAllowedFeaturedImageFile,
+  prepareImageForUpload,
+  ACCEPTED_IMAGE_INPUT,
+  UNSUPPORTED_IMAGE_MESSAGE,
+} from '@/lib/imageUpload'
+import { ImagePipelineProgress } from '@/lib/imagePipeline'
+import { createBlurPlaceholder } from '@/lib/imageProcessing'
+import { getCloudinaryUrl } from '@/lib/cloudinaryUtils'
+import { FeaturedImageRef, getCoverUrl, extractPublicId, normalizeFeaturedImageForSave } from '@/lib/imageHelpers'
+import MediaPickerModal, { MediaSelection } from './MediaPickerModal'
+import ImageArtDirectionModal from './ImageArtDirectionModal'
 
 interface RecommendedImage {
   url: string
@@ -31,26 +41,40 @@ export default function FeaturedImageUpload({
 }: FeaturedImageUploadProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [isUploading, setIsUploading] = useState(false)
+  const [progress, setProgress] = useState<ImagePipelineProgress | null>(null)
+  const [showLibrary, setShowLibrary] = useState(false)
+  const [showFraming, setShowFraming] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  // Latest value, for async work that finishes after the editor moved on
+  const valueRef = useRef(value)
+
+  useEffect(() => {
+    valueRef.current = value
+  }, [value])
 
   const previewUrl = getCoverUrl(value)
 
   const handleFileUpload = useCallback(async (file: File) => {
     if (!isAllowedFeaturedImageFile(file)) {
-      alert('Please use a JPG, PNG, or WebP image (max 5MB). SVG and GIF are not supported.')
+      alert(UNSUPPORTED_IMAGE_MESSAGE)
       return
     }
 
     setIsUploading(true)
     try {
-      const result = await onUpload(file)
-      onChange(result)
+      // Prepare here for progress; the upload helpers skip already-prepared files
+      const prepared = await prepareImageForUpload(file, { onProgress: setProgress })
+      setProgress(null)
+      const result = await onUpload(prepared)
+      const placeholder = await createBlurPlaceholder(prepared).catch(() => undefined)
+      onChange({ ...result, placeholder })
     } catch (uploadError) {
       console.error('Error uploading image:', uploadError)
       const message = uploadError instanceof Error ? uploadError.message : 'Failed to upload image. Please try again.'
       alert(message)
     } finally {
       setIsUploading(false)
+      setProgress(null)
     }
   }, [onUpload, onChange])
 
@@ -77,7 +101,7 @@ export default function FeaturedImageUpload({
     }
 
     if (files.some((file) => file.type.startsWith('image/'))) {
-      alert('Please use a JPG, PNG, or WebP image (max 5MB). SVG and GIF are not supported.')
+      alert(UNSUPPORTED_IMAGE_MESSAGE)
     }
   }, [handleFileUpload])
 
@@ -99,8 +123,35 @@ export default function FeaturedImageUpload({
     fileInputRef.current?.click()
   }, [])
 
+  const handleLibrarySelect = useCallback((selection: MediaSelection) => {
+    // Featured images are stored as Cloudinary references only
+    if (!selection.publicId) {
+      alert('This asset is not hosted on Cloudinary and cannot be used as the featured image.')
+      return
+    }
+    const image = normalizeFeaturedImageForSave(
+      { public_id: selection.publicId, width: selection.width, height: selection.height },
+      selection.alt || 'Featured image'
+    )
+    onChange(image)
+    // Library assets have no local file; derive the placeholder from a small rendition
+    const smallUrl = getCloudinaryUrl(selection.publicId, { width: 64, format: 'jpg' })
+    if (smallUrl) {
+      createBlurPlaceholder(smallUrl)
+        .then((placeholder) => {
+          // Merge into the current value, unless another image was picked meanwhile
+          const current = valueRef.current as FeaturedImageRef | undefined
+          if (!current || extractPublicId(current) !== selection.publicId) return
+          onChange({ ...current, placeholder })
+        })
+        .catch((placeholderError) => console.warn('Could not create image placeholder:', placeholderError))
+    }
+  }, [onChange])
+
   const imageRef = value as FeaturedImageRef | undefined
   const altText = imageRef?.alt || 'Featured image'
+  const publicId = extractPublicId(value)
+  const framingCount = Object.keys(imageRef?.crops ?? {}).length
 
   return (
     <div className="space-y-4">
@@ -147,12 +198,34 @@ export default function FeaturedImageUpload({
                 <CloudArrowUpIcon className="h-4 w-4 mr-1" />
                 Replace Image
               </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setShowLibrary(true)}
+                className="ml-2 opacity-0 group-hover:opacity-100 transition-opacity bg-white"
+              >
+                <RectangleStackIcon className="h-4 w-4 mr-1" />
+                Choose from Library
+              </Button>
             </div>
           </div>
-          {extractPublicId(value) && (
-            <div className="mt-2 text-xs text-gray-500">
-              {imageRef?.width && imageRef?.height && `${imageRef.width} × ${imageRef.height}`}
-              {imageRef?.alt && ` • ${imageRef.alt}`}
+          {publicId && (
+            <div className="mt-2 flex items-center justify-between gap-2 text-xs text-gray-500">
+              <span>
+                {imageRef?.width && imageRef?.height && `${imageRef.width} × ${imageRef.height}`}
+                {imageRef?.alt && ` • ${imageRef.alt}`}
+              </span>
+              <button
+                type="button"
+                onClick={() => setShowFraming(true)}
+                className="flex shrink-0 items-center gap-1 text-blue-600 hover:text-blue-700"
+              >
+                <ViewfinderCircleIcon className="h-4 w-4" />
+                {imageRef?.focalPoint || framingCount > 0
+                  ? `Framing set${framingCount > 0 ? ` (${framingCount} crop${framingCount === 1 ? '' : 's'})` : ''}`
+                  : 'Set focal point & crops'}
+              </button>
             </div>
           )}
         </div>
@@ -205,7 +278,7 @@ export default function FeaturedImageUpload({
             <input
               ref={fileInputRef}
               type="file"
-              accept="image/jpeg,image/png,image/webp"
+              accept={ACCEPTED_IMAGE_INPUT}
               onChange={handleFileSelect}
               className="hidden"
             />
@@ -213,7 +286,17 @@ export default function FeaturedImageUpload({
             {isUploading ? (
               <div className="space-y-4">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
-                <div className="text-sm text-gray-600">Uploading image...</div>
+                <div className="text-sm text-gray-600">
+                  {progress ? `Optimizing image… ${Math.round(progress.progress * 100)}%` : 'Uploading image...'}
+                </div>
+                {progress && (
+                  <div className="mx-auto h-1.5 w-48 overflow-hidden rounded-full bg-gray-200">
+                    <div
+                      className="h-full bg-blue-600 transition-[width] duration-200"
+                      style={{ width: `${Math.round(progress.progress * 100)}%` }}
+                    />
+                  </div>
+                )}
               </div>
             ) : (
               <div className="space-y-4">
@@ -231,9 +314,17 @@ export default function FeaturedImageUpload({
                     >
                       browse files
                     </button>
+                    {' '}or{' '}
+                    <button
+                      type="button"
+                      onClick={() => setShowLibrary(true)}
+                      className="text-blue-600 hover:text-blue-700 underline"
+                    >
+                      choose from the library
+                    </button>
                   </div>
                   <div className="text-xs text-gray-400">
-                    JPG, PNG, or WebP up to 5MB
+                    JPG, PNG, WebP or HEIC · location data is removed
                   </div>
                 </div>
               </div>
@@ -245,6 +336,28 @@ export default function FeaturedImageUpload({
       <div className="text-xs text-gray-500">
         <strong>Tip:</strong> Use a high-quality image (1200×630px recommended) for best results across all platforms.
       </div>
+
+      {showFraming && publicId && (
+        <ImageArtDirectionModal
+          isOpen
+          onClose={() => setShowFraming(false)}
+          publicId={publicId}
+          value={{ focalPoint: imageRef?.focalPoint, crops: imageRef?.crops }}
+          width={imageRef?.width}
+          height={imageRef?.height}
+          onSave={(framing) => onChange({ ...imageRef, ...framing })}
+        />
+      )}
+
+      {showLibrary && (
+        <MediaPickerModal
+          isOpen
+          onClose={() => setShowLibrary(false)}
+          onSelect={handleLibrarySelect}
+          title="Choose featured image"
+          confirmLabel="Use as featured image"
+        />
+      )}
     </div>
   )
 }
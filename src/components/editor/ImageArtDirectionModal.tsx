@@ -0,0 +1,278 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { Button, Modal } from '@/components/ui';
+import {
+  getCloudinaryUrl,
+  focalPointCrop,
+  IMAGE_ASPECTS,
+  ImageAspect,
+  ImageCrop,
+  ImageFocalPoint,
+} from '@/lib/cloudinaryUtils';
+import { FeaturedImageRef } from '@/lib/imageHelpers';
+
+type ArtDirection = Pick<FeaturedImageRef, 'focalPoint' | 'crops'>;
+
+interface ImageArtDirectionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  publicId: string;
+  value: ArtDirection;
+  /** Original pixel size, used until the source image has loaded */
+  width?: number;
+  height?: number;
+  onSave: (value: ArtDirection) => void;
+}
+
+const ASPECT_USAGE: Record<ImageAspect, string> = {
+  '16:9': 'Homepage lead and cards',
+  '1:1': 'Square thumbnails',
+  '1.91:1': 'Social previews',
+  '4:5': 'Portrait cards',
+};
+
+const ASPECTS = Object.keys(IMAGE_ASPECTS) as ImageAspect[];
+const CENTER: ImageFocalPoint = { x: 0.5, y: 0.5 };
+const MIN_SCALE = 0.2;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/** CSS background that shows `crop` of the image filling its box */
+function cropBackground(src: string, crop: ImageCrop): React.CSSProperties {
+  const position = (offset: number, size: number) => (size >= 1 ? 0 : (offset / (1 - size)) * 100);
+  return {
+    backgroundImage: `url("${src}")`,
+    backgroundSize: `${100 / crop.width}% ${100 / crop.height}%`,
+    backgroundPosition: `${position(crop.x, crop.width)}% ${position(crop.y, crop.height)}%`,
+  };
+}
+
+/**
+ * Set where the subject of a featured image is, and optionally crop it by
+ * hand for each aspect ratio it is shown at. Previews use CSS so changes
+ * show immediately; the stored fractions become Cloudinary crops at render.
+ */
+export default function ImageArtDirectionModal({
+  isOpen,
+  onClose,
+  publicId,
+  value,
+  width,
+  height,
+  onSave,
+}: ImageArtDirectionModalProps) {
+  const [focalPoint, setFocalPoint] = useState<ImageFocalPoint | undefined>(value.focalPoint);
+  const [crops, setCrops] = useState<Partial<Record<ImageAspect, ImageCrop>>>(value.crops ?? {});
+  const [mode, setMode] = useState<'focal' | ImageAspect>('focal');
+  const [natural, setNatural] = useState(() => ({ width: width || 16, height: height || 9 }));
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ pointerX: number; pointerY: number; crop: ImageCrop } | null>(null);
+
+  const src = getCloudinaryUrl(publicId, { width: 1000 }) || '';
+
+  const effectiveCrop = (aspect: ImageAspect): ImageCrop =>
+    crops[aspect] ?? focalPointCrop(focalPoint ?? CENTER, IMAGE_ASPECTS[aspect], natural.width, natural.height);
+
+  const maxCrop = (aspect: ImageAspect) =>
+    focalPointCrop(CENTER, IMAGE_ASPECTS[aspect], natural.width, natural.height);
+
+  const activeAspect = mode === 'focal' ? null : mode;
+  const manualCrop = activeAspect ? crops[activeAspect] : undefined;
+
+  const setCrop = (aspect: ImageAspect, crop: ImageCrop | null) =>
+    setCrops((prev) => {
+      const next = { ...prev };
+      if (crop) next[aspect] = crop;
+      else delete next[aspect];
+      return next;
+    });
+
+  const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (mode !== 'focal') return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setFocalPoint({
+      x: Number(clamp((e.clientX - rect.left) / rect.width, 0, 1).toFixed(4)),
+      y: Number(clamp((e.clientY - rect.top) / rect.height, 0, 1).toFixed(4)),
+    });
+  };
+
+  const handleCropPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!manualCrop) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, crop: manualCrop };
+  };
+
+  const handleCropPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    const container = containerRef.current;
+    if (!start || !container || !activeAspect) return;
+    const rect = container.getBoundingClientRect();
+    const { crop } = start;
+    setCrop(activeAspect, {
+      ...crop,
+      x: clamp(crop.x + (e.clientX - start.pointerX) / rect.width, 0, 1 - crop.width),
+      y: clamp(crop.y + (e.clientY - start.pointerY) / rect.height, 0, 1 - crop.height),
+    });
+  };
+
+  const handleCropPointerUp = () => {
+    dragStart.current = null;
+  };
+
+  const handleScaleChange = (aspect: ImageAspect, scale: number) => {
+    const current = effectiveCrop(aspect);
+    const max = maxCrop(aspect);
+    const cropWidth = max.width * scale;
+    const cropHeight = max.height * scale;
+    const centerX = current.x + current.width / 2;
+    const centerY = current.y + current.height / 2;
+    setCrop(aspect, {
+      x: clamp(centerX - cropWidth / 2, 0, 1 - cropWidth),
+      y: clamp(centerY - cropHeight / 2, 0, 1 - cropHeight),
+      width: cropWidth,
+      height: cropHeight,
+    });
+  };
+
+  const handleSave = () => {
+    onSave({
+      focalPoint,
+      crops: Object.keys(crops).length > 0 ? crops : undefined,
+    });
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Focal point & crops" className="max-w-4xl">
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant={mode === 'focal' ? 'primary' : 'outline'} onClick={() => setMode('focal')}>
+            Focal point
+          </Button>
+          {ASPECTS.map((aspect) => (
+            <Button
+              key={aspect}
+              size="sm"
+              variant={mode === aspect ? 'primary' : 'outline'}
+              onClick={() => setMode(aspect)}
+            >
+              {aspect}
+              {crops[aspect] ? ' ✂' : ''}
+            </Button>
+          ))}
+        </div>
+
+        <p className="text-sm text-gray-600">
+          {mode === 'focal'
+            ? 'Click the subject of the image. Every crop keeps this point in frame unless you crop it by hand.'
+            : `${ASPECT_USAGE[mode]}. ${manualCrop ? 'Drag the frame to move it and use the slider to resize it.' : 'Cropped around the focal point. Switch to a manual crop to frame it yourself.'}`}
+        </p>
+
+        <div className="grid gap-4 md:grid-cols-[minmax(0,1fr)_220px]">
+          <div
+            ref={containerRef}
+            onClick={handleImageClick}
+            className={`relative select-none overflow-hidden rounded-lg bg-gray-100 ${mode === 'focal' ? 'cursor-crosshair' : ''}`}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={src}
+              alt=""
+              draggable={false}
+              onLoad={(e) => setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              className="block w-full"
+            />
+
+            {mode === 'focal' && focalPoint && (
+              <span
+                className="pointer-events-none absolute h-6 w-6 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow-[0_0_0_2px_rgba(37,99,235,0.9)]"
+                style={{ left: `${focalPoint.x * 100}%`, top: `${focalPoint.y * 100}%` }}
+              />
+            )}
+
+            {activeAspect && (() => {
+              const crop = effectiveCrop(activeAspect);
+              return (
+                <div
+                  onPointerDown={handleCropPointerDown}
+                  onPointerMove={handleCropPointerMove}
+                  onPointerUp={handleCropPointerUp}
+                  onPointerCancel={handleCropPointerUp}
+                  className={`absolute border-2 ${manualCrop ? 'cursor-move border-blue-500' : 'border-dashed border-white'} shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]`}
+                  style={{
+                    left: `${crop.x * 100}%`,
+                    top: `${crop.y * 100}%`,
+                    width: `${crop.width * 100}%`,
+                    height: `${crop.height * 100}%`,
+                  }}
+                />
+              );
+            })()}
+          </div>
+
+          <div className="space-y-3">
+            {activeAspect ? (
+              <>
+                {manualCrop ? (
+                  <>
+                    <label className="block text-xs font-medium text-gray-700">
+                      Size
+                      <input
+                        type="range"
+                        min={MIN_SCALE}
+                        max={1}
+                        step={0.01}
+                        value={manualCrop.width / maxCrop(activeAspect).width}
+                        onChange={(e) => handleScaleChange(activeAspect, Number(e.target.value))}
+                        className="mt-1 w-full"
+                      />
+                    </label>
+                    <Button size="sm" variant="outline" onClick={() => setCrop(activeAspect, null)}>
+                      Use focal point instead
+                    </Button>
+                  </>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => setCrop(activeAspect, effectiveCrop(activeAspect))}>
+                    Crop manually
+                  </Button>
+                )}
+              </>
+            ) : (
+              focalPoint && (
+                <Button size="sm" variant="outline" onClick={() => setFocalPoint(undefined)}>
+                  Clear focal point
+                </Button>
+              )
+            )}
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-gray-700">Previews</p>
+              {ASPECTS.map((aspect) => (
+                <button
+                  key={aspect}
+                  type="button"
+                  onClick={() => setMode(aspect)}
+                  className="block w-full text-left"
+                >
+                  <div
+                    className={`w-full rounded bg-gray-100 bg-no-repeat ${mode === aspect ? 'ring-2 ring-blue-500' : ''}`}
+                    style={{ aspectRatio: IMAGE_ASPECTS[aspect], ...cropBackground(src, effectiveCrop(aspect)) }}
+                  />
+                  <span className="text-xs text-gray-500">{aspect}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-gray-200 pt-4">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save framing</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { LinkIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import apiService from '@/lib/apiService';
+import { describeApiError } from '@/lib/api/errors';
+import { formatDateTime } from '@/lib/dateUtils';
+import {
+  extractLinks,
+  replaceLinkHref,
+  requestLinkChecks,
+  shouldSuggestFinalUrl,
+} from '@/lib/linkChecker';
+import { LinkCheckResult, LinkCheckState } from '@/types/admin';
+import { Badge, Button } from '@/components/ui';
+
+interface LinkCheckPanelProps {
+  /** Saved posts keep their last report; new posts only check in place */
+  post: { id?: string; slug: string; title: string };
+  content: string;
+  onContentChange: (content: string) => void;
+  results: LinkCheckResult[];
+  onResultsChange: (results: LinkCheckResult[]) => void;
+}
+
+export const LINK_STATE_BADGES: Record<LinkCheckState, { label: string; variant: 'success' | 'warning' | 'danger' | 'default' }> = {
+  ok: { label: 'OK', variant: 'success' },
+  redirect: { label: 'Redirect', variant: 'warning' },
+  broken: { label: 'Broken', variant: 'danger' },
+  error: { label: 'Unchecked', variant: 'default' },
+};
+
+const STATE_ORDER: Record<LinkCheckState, number> = { broken: 0, redirect: 1, error: 2, ok: 3 };
+
+/**
+ * Checks the outbound links in the body and lists broken and redirecting
+ * ones. Redirects can be replaced with their final URL in one click.
+ */
+export default function LinkCheckPanel({ post, content, onContentChange, results, onResultsChange }: LinkCheckPanelProps) {
+  const [checking, setChecking] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const links = useMemo(() => extractLinks(content), [content]);
+
+  // Results for links that are still in the body, problems first
+  const current = useMemo(() => {
+    const present = new Set(links);
+    return results
+      .filter((result) => present.has(result.url))
+      .sort((a, b) => STATE_ORDER[a.state] - STATE_ORDER[b.state] || a.url.localeCompare(b.url));
+  }, [links, results]);
+
+  const unchecked = links.filter((url) => !results.some((result) => result.url === url)).length;
+  const redirects = current.filter(shouldSuggestFinalUrl);
+  const lastChecked = current.reduce<Date | null>(
+    (latest, result) => (!latest || result.checkedAt > latest ? result.checkedAt : latest),
+    null
+  );
+
+  const postId = post.id;
+  useEffect(() => {
+    if (!postId) return;
+    const controller = new AbortController();
+    apiService
+      .getLinkReport(postId, { signal: controller.signal })
+      .then((report) => {
+        if (report) onResultsChange(report.links);
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) console.warn('Link report unavailable:', err);
+      });
+    return () => controller.abort();
+    // Load once per post; the parent owns the results afterwards
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [postId]);
+
+  const handleCheck = async () => {
+    if (links.length === 0) return;
+    setChecking(true);
+    setError(null);
+    setProgress({ done: 0, total: links.length });
+    try {
+      const checked = await requestLinkChecks(links, {
+        onProgress: (done) => setProgress({ done, total: links.length }),
+      });
+      onResultsChange(checked);
+      if (postId) {
+        await apiService
+          .saveLinkReport({ postId, postSlug: post.slug, postTitle: post.title, links: checked, checkedAt: new Date() })
+          .catch((err) => console.warn('Could not save link report:', err));
+      }
+    } catch (err) {
+      console.error('Error checking links:', err);
+      setError(describeApiError(err, 'Failed to check links.'));
+    } finally {
+      setChecking(false);
+      setProgress(null);
+    }
+  };
+
+  const adoptFinalUrls = (targets: LinkCheckResult[]) => {
+    let html = content;
+    for (const result of targets) html = replaceLinkHref(html, result.url, result.finalUrl);
+    onContentChange(html);
+    const replaced = new Set(targets.map((result) => result.url));
+    onResultsChange(
+      results.map((result) =>
+        replaced.has(result.url)
+          ? { ...result, url: result.finalUrl, state: 'ok', redirects: [] }
+          : result
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <LinkIcon className="h-5 w-5 mr-2" />
+          Links
+        </h3>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleCheck}
+          loading={checking}
+          disabled={links.length === 0}
+          leftIcon={<ArrowPathIcon className="h-4 w-4" />}
+        >
+          {current.length > 0 ? 'Re-check' : 'Check links'}
+        </Button>
+      </div>
+
+      {progress && (
+        <p className="text-xs text-gray-500">
+          Checking {progress.done}/{progress.total} links…
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {links.length === 0 ? (
+        <p className="text-sm text-gray-500">No links in the post yet.</p>
+      ) : current.length === 0 ? (
+        <p className="text-sm text-gray-500">{links.length} link(s) not checked yet.</p>
+      ) : (
+        <>
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {current.map((result) => (
+              <div key={result.url} className="rounded-lg border border-gray-200 p-2 text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <a
+                    href={result.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="min-w-0 break-all text-blue-600 hover:underline"
+                  >
+                    {result.url}
+                  </a>
+                  <Badge variant={LINK_STATE_BADGES[result.state].variant} size="sm">
+                    {LINK_STATE_BADGES[result.state].label}
+                    {result.status ? ` ${result.status}` : ''}
+                  </Badge>
+                </div>
+                {result.error && <p className="mt-1 text-xs text-gray-500">{result.error}</p>}
+                {shouldSuggestFinalUrl(result) && (
+                  <div className="mt-1 flex items-center justify-between gap-2 text-xs text-gray-600">
+                    <span className="min-w-0 break-all">
+                      → {result.finalUrl} ({result.redirects.length} hop{result.redirects.length === 1 ? '' : 's'})
+                    </span>
+                    <Button size="sm" variant="ghost" onClick={() => adoptFinalUrls([result])}>
+                      Use final URL
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {redirects.length > 1 && (
+            <Button size="sm" variant="outline" className="w-full" onClick={() => adoptFinalUrls(redirects)}>
+              Replace {redirects.length} redirects with final URLs
+            </Button>
+          )}
+        </>
+      )}
+
+      {(lastChecked || unchecked > 0) && (
+        <div className="text-xs text-gray-500 pt-2 border-t">
+          {lastChecked && <p>Last checked {formatDateTime(lastChecked)}</p>}
+          {unchecked > 0 && current.length > 0 && <p>{unchecked} new link(s) since the last check</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { MagnifyingGlassIcon, CloudArrowUpIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import apiService from '@/lib/apiService';
+import { useAuth } from '@/contexts/AuthContext';
+import { Media, MediaFilterOptions } from '@/types/admin';
+import { describeApiError } from '@/lib/api/errors';
+import {
+  uploadImageToMediaLibrary,
+  isAllowedFeaturedImageFile,
+  ACCEPTED_IMAGE_INPUT,
+  UNSUPPORTED_IMAGE_MESSAGE,
+} from '@/lib/imageUpload';
+import { normalizeToPublicId } from '@/lib/cloudinaryUtils';
+import { Button, Input, Select, Modal, Spinner, Textarea } from '@/components/ui';
+
+const PAGE_SIZE = 30;
+
+/** What the caller gets back for the picked asset */
+export interface MediaSelection {
+  mediaId: string;
+  /** Cloudinary public_id, when the asset is on Cloudinary */
+  publicId: string | null;
+  url: string;
+  alt: string;
+  caption: string;
+  width: number;
+  height: number;
+}
+
+interface MediaPickerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (selection: MediaSelection) => void;
+  title?: string;
+  /** Label of the confirm button, e.g. "Insert image" */
+  confirmLabel?: string;
+  /** Ask for a caption (inline images) as well as alt text */
+  withCaption?: boolean;
+}
+
+function selectionFrom(media: Media, alt: string, caption: string): MediaSelection {
+  return {
+    mediaId: media.id,
+    publicId: normalizeToPublicId(media.url) ?? normalizeToPublicId(media.storagePath),
+    url: media.url,
+    alt: alt.trim(),
+    caption: caption.trim(),
+    width: media.width,
+    height: media.height,
+  };
+}
+
+/**
+ * Browse and search the media library, or upload a new file into it, and
+ * pick one asset. Reusing assets keeps the library free of duplicates.
+ */
+export default function MediaPickerModal({
+  isOpen,
+  onClose,
+  onSelect,
+  title = 'Choose an image',
+  confirmLabel = 'Use image',
+  withCaption = false,
+}: MediaPickerModalProps) {
+  const { user } = useAuth();
+  const [items, setItems] = useState<Media[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [folder, setFolder] = useState('');
+  const [filterOptions, setFilterOptions] = useState<MediaFilterOptions | null>(null);
+  const [selected, setSelected] = useState<Media | null>(null);
+  const [alt, setAlt] = useState('');
+  const [caption, setCaption] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const t = setTimeout(() => setDebouncedSearch(search.trim()), 400);
+    return () => clearTimeout(t);
+  }, [search]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const controller = new AbortController();
+
+    const fetchPage = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const page = await apiService.getMediaPage(
+          { q: debouncedSearch || undefined, folder: folder || undefined, mimeType: 'image/*', limit: PAGE_SIZE },
+          { signal: controller.signal }
+        );
+        setItems(page.items);
+        setNextCursor(page.nextCursor);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Error loading media library:', err);
+        setError(describeApiError(err, 'Failed to load the media library.'));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchPage();
+    return () => controller.abort();
+  }, [isOpen, debouncedSearch, folder]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    apiService.getMediaFilterOptions()
+      .then(setFilterOptions)
+      .catch((err) => console.warn('Media filter options unavailable:', err));
+  }, [isOpen]);
+
+  const select = (media: Media) => {
+    setSelected(media);
+    setAlt(media.alt);
+    setCaption(media.caption ?? '');
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await apiService.getMediaPage({
+        q: debouncedSearch || undefined,
+        folder: folder || undefined,
+        mimeType: 'image/*',
+        limit: PAGE_SIZE,
+        cursor: nextCursor,
+      });
+      setItems((prev) => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(describeApiError(err, 'Failed to load more media.'));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return;
+    if (!isAllowedFeaturedImageFile(file)) {
+      alert(UNSUPPORTED_IMAGE_MESSAGE);
+      return;
+    }
+    setUploading(true);
+    setError(null);
+    try {
+      const defaultAlt = file.name.replace(/\.[^.]+$/, '');
+      const result = await uploadImageToMediaLibrary(file, user?.uid ?? '', defaultAlt);
+      const media: Media = {
+        id: result.id,
+        fileName: result.filename || file.name,
+        storagePath: result.public_id,
+        url: result.url,
+        uploadedBy: user?.uid ?? '',
+        width: result.width,
+        height: result.height,
+        alt: defaultAlt,
+        tags: [],
+        sizes: {},
+        createdAt: new Date(),
+        fileSize: result.size,
+        mimeType: file.type,
+      };
+      setItems((prev) => [media, ...prev]);
+      select(media);
+    } catch (err) {
+      console.error('Error uploading to media library:', err);
+      setError(describeApiError(err, 'Failed to upload image.'));
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const confirm = (media: Media, mediaAlt: string, mediaCaption: string) => {
+    onSelect(selectionFrom(media, mediaAlt, mediaCaption));
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={title} className="max-w-5xl">
+      <div className="space-y-4">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+          <div className="flex-1">
+            <Input
+              placeholder="Search by filename, alt text or caption..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              leftIcon={<MagnifyingGlassIcon />}
+              size="sm"
+            />
+          </div>
+          {filterOptions && filterOptions.folders.length > 0 && (
+            <Select
+              value={folder}
+              onChange={(e) => setFolder(e.target.value)}
+              options={[{ value: '', label: 'All folders' }, ...filterOptions.folders.map((name) => ({ value: name, label: name }))]}
+            />
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_IMAGE_INPUT}
+            onChange={(e) => handleUpload(e.target.files?.[0])}
+            className="hidden"
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            loading={uploading}
+            leftIcon={<CloudArrowUpIcon className="h-4 w-4" />}
+          >
+            Upload new
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="grid gap-4 md:grid-cols-[minmax(0,1fr)_280px]">
+          <div className="max-h-[55vh] overflow-y-auto pr-1">
+            {loading ? (
+              <div className="flex h-48 items-center justify-center">
+                <Spinner />
+              </div>
+            ) : items.length === 0 ? (
+              <div className="py-12 text-center text-sm text-gray-500">
+                <PhotoIcon className="mx-auto mb-2 h-10 w-10 text-gray-300" />
+                {debouncedSearch || folder ? 'No images match your search.' : 'The media library is empty. Upload an image to start.'}
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-3 gap-3 lg:grid-cols-4">
+                  {items.map((item) => (
+                    <button
+                      key={item.id}
+                      type="button"
+                      onClick={() => select(item)}
+                      onDoubleClick={() => confirm(item, item.alt, item.caption ?? '')}
+                      className={`overflow-hidden rounded-md border-2 ${
+                        selected?.id === item.id ? 'border-blue-500' : 'border-transparent hover:border-gray-300'
+                      }`}
+                      title={item.fileName}
+                    >
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img
+                        src={item.sizes.thumbnail || item.url}
+                        alt={item.alt}
+                        loading="lazy"
+                        className="aspect-square w-full bg-gray-100 object-cover"
+                      />
+                    </button>
+                  ))}
+                </div>
+                {nextCursor && (
+                  <div className="mt-4 text-center">
+                    <Button variant="ghost" size="sm" onClick={loadMore} loading={loadingMore}>
+                      Load more
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            {selected ? (
+              <>
+                <div className="overflow-hidden rounded-md bg-gray-100">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={selected.url} alt={selected.alt} className="max-h-48 w-full object-contain" />
+                </div>
+                <p className="break-all text-xs text-gray-500">
+                  {selected.fileName}
+                  {selected.width && selected.height ? ` • ${selected.width} × ${selected.height}` : ''}
+                </p>
+                <Input
+                  label="Alt text"
+                  value={alt}
+                  onChange={(e) => setAlt(e.target.value)}
+                  helperText={alt.trim() ? undefined : 'Describe the image for screen readers.'}
+                  size="sm"
+                />
+                {withCaption && (
+                  <Textarea label="Caption" value={caption} onChange={(e) => setCaption(e.target.value)} rows={2} size="sm" />
+                )}
+                {selected.credit && <p className="text-xs text-gray-500">Credit: {selected.credit}</p>}
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Select an image to preview it.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-gray-200 pt-4">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => selected && confirm(selected, alt, caption)} disabled={!selected}>
+            {confirmLabel}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
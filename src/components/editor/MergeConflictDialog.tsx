@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import { Post } from '@/types/admin';
+import { Button, Modal } from '@/components/ui';
+import { formatDateTime } from '@/lib/dateUtils';
+import { extractPublicId } from '@/lib/imageHelpers';
+import { htmlToText } from '@/lib/diff';
+import { MergeSide, PostMergeResult, resolvePostMerge } from '@/lib/postMerge';
+
+interface MergeConflictDialogProps {
+  result: PostMergeResult;
+  /** Server copy the other editor saved */
+  theirs: Partial<Post>;
+  onResolve: (resolved: Partial<Post>) => void;
+  onCancel: () => void;
+}
+
+function formatValue(key: keyof Post, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (value instanceof Date) return formatDateTime(value);
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '(empty)';
+  if (key === 'featuredImage') return extractPublicId(value) || '(none)';
+  return String(value);
+}
+
+function excerptOf(html: string, from: 'start' | 'end', length = 80): string {
+  const text = htmlToText(html).replace(/\s+/g, ' ');
+  if (text.length <= length) return text;
+  return from === 'end' ? `…${text.slice(-length)}` : `${text.slice(0, length)}…`;
+}
+
+function ChoiceButton({
+  selected,
+  label,
+  value,
+  onClick,
+}: {
+  selected: boolean;
+  label: string;
+  value: string;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`flex-1 rounded-md border p-3 text-left text-sm transition-colors ${
+        selected ? 'border-blue-500 bg-blue-50 ring-1 ring-blue-500' : 'border-gray-200 hover:border-gray-300'
+      }`}
+    >
+      <span className="block text-xs font-medium uppercase text-gray-500 mb-1">{label}</span>
+      <span className="block whitespace-pre-wrap break-words text-gray-900">{value}</span>
+    </button>
+  );
+}
+
+/**
+ * Resolves a rejected save: clean merges are already applied, and the editor
+ * picks a side for every field or passage both people changed
+ */
+export default function MergeConflictDialog({ result, theirs, onResolve, onCancel }: MergeConflictDialogProps) {
+  const [fieldChoices, setFieldChoices] = useState<Partial<Record<keyof Post, MergeSide>>>({});
+  const contentConflict = result.conflicts.find((conflict) => conflict.chunks);
+  const conflictCount = contentConflict?.chunks?.filter((chunk) => chunk.type === 'conflict').length ?? 0;
+  const [contentChoices, setContentChoices] = useState<MergeSide[]>(() => Array(conflictCount).fill('mine'));
+
+  const chooseAll = (side: MergeSide) => {
+    setFieldChoices(Object.fromEntries(result.conflicts.map((conflict) => [conflict.key, side])));
+    setContentChoices(Array(conflictCount).fill(side));
+  };
+
+  // Position of each conflict chunk among the conflicts, for contentChoices
+  let seen = 0;
+  const conflictPositions = (contentConflict?.chunks ?? []).map((chunk) => (chunk.type === 'conflict' ? seen++ : -1));
+
+  return (
+    <Modal isOpen onClose={onCancel} title="Someone else saved this post" className="max-w-4xl">
+      <div className="space-y-5">
+        <p className="text-sm text-gray-600">
+          This post was saved{theirs.updatedAt ? ` at ${formatDateTime(theirs.updatedAt)}` : ''} after you opened it.
+          Changes that don&apos;t overlap have been combined. Pick which version to keep where you both
+          changed the same thing, then review and save again.
+        </p>
+
+        {result.conflicts
+          .filter((conflict) => !conflict.chunks)
+          .map((conflict) => {
+            const choice = fieldChoices[conflict.key] ?? 'mine';
+            return (
+              <div key={conflict.key}>
+                <p className="text-sm font-medium text-gray-900 mb-2">{conflict.label}</p>
+                <div className="flex gap-3">
+                  <ChoiceButton
+                    selected={choice === 'mine'}
+                    label="Yours"
+                    value={formatValue(conflict.key, conflict.mine)}
+                    onClick={() => setFieldChoices((prev) => ({ ...prev, [conflict.key]: 'mine' }))}
+                  />
+                  <ChoiceButton
+                    selected={choice === 'theirs'}
+                    label="Theirs"
+                    value={formatValue(conflict.key, conflict.theirs)}
+                    onClick={() => setFieldChoices((prev) => ({ ...prev, [conflict.key]: 'theirs' }))}
+                  />
+                </div>
+              </div>
+            );
+          })}
+
+        {contentConflict?.chunks && (
+          <div>
+            <p className="text-sm font-medium text-gray-900 mb-2">
+              Content — {conflictCount} overlapping {conflictCount === 1 ? 'edit' : 'edits'}
+            </p>
+            <div className="space-y-4">
+              {contentConflict.chunks.map((chunk, index, chunks) => {
+                if (chunk.type === 'merged') return null;
+                const position = conflictPositions[index];
+                const before = chunks[index - 1];
+                const after = chunks[index + 1];
+                const choice = contentChoices[position] ?? 'mine';
+                const select = (side: MergeSide) =>
+                  setContentChoices((prev) => prev.map((value, i) => (i === position ? side : value)));
+
+                return (
+                  <div key={index} className="rounded-md border border-gray-200 p-3">
+                    {before?.type === 'merged' && (
+                      <p className="text-xs text-gray-500 mb-2">{excerptOf(before.value, 'end')}</p>
+                    )}
+                    <div className="flex gap-3">
+                      <ChoiceButton
+                        selected={choice === 'mine'}
+                        label="Yours"
+                        value={htmlToText(chunk.mine) || chunk.mine || '(removed)'}
+                        onClick={() => select('mine')}
+                      />
+                      <ChoiceButton
+                        selected={choice === 'theirs'}
+                        label="Theirs"
+                        value={htmlToText(chunk.theirs) || chunk.theirs || '(removed)'}
+                        onClick={() => select('theirs')}
+                      />
+                    </div>
+                    {after?.type === 'merged' && (
+                      <p className="text-xs text-gray-500 mt-2">{excerptOf(after.value, 'start')}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-2 border-t border-gray-200 pt-4">
+          <div className="flex gap-2">
+            <Button size="sm" variant="ghost" onClick={() => chooseAll('mine')}>
+              Keep all mine
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => chooseAll('theirs')}>
+              Keep all theirs
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button onClick={() => onResolve(resolvePostMerge(result, fieldChoices, contentChoices))}>
+              Apply merge
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -4,6 +4,8 @@ import { useState } from 'react';
 import { EyeIcon, DocumentTextIcon, DevicePhoneMobileIcon, ComputerDesktopIcon, DeviceTabletIcon, LinkIcon, ClipboardDocumentIcon } from '@heroicons/react/24/outline';
 import { Button } from '@/components/ui';
 import { usePreviewToken } from '@/hooks/usePreviewToken';
+import { renderEmbeds } from '@/lib/embeds';
+import { renderContentBlocks } from '@/lib/contentBlocks';
 
 interface PreviewProps {
   title: string;
@@ -311,7 +313,7 @@ export default function Preview({
               {/* Content */}
               <div 
                 className="prose prose-lg max-w-none preview-content"
-                dangerouslySetInnerHTML={{ __html: content || '<p>No content yet...</p>' }}
+                dangerouslySetInnerHTML={{ __html: renderContentBlocks(renderEmbeds(content)) || '<p>No content yet...</p>' }}
               />
 
               {/* Meta Description Preview */}
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState } from 'react';
+import { Post, User, countApprovals } from '@/types/admin';
+import { Button, Card, CardContent, Textarea, Badge } from '@/components/ui';
+import {
+  CheckCircleIcon,
+  ChatBubbleLeftRightIcon,
+  ArrowUturnLeftIcon,
+} from '@heroicons/react/24/outline';
+import { formatDateTime } from '@/lib/dateUtils';
+import {
+  ReviewUpdate,
+  addReply,
+  addThread,
+  canComment,
+  canDecide,
+  getOpenThreads,
+  recordDecision,
+  setThreadResolved,
+} from '@/lib/review';
+
+interface ReviewPanelProps {
+  post: Partial<Post>;
+  user: Pick<User, 'uid' | 'name' | 'role'>;
+  requiredApprovals: number;
+  activeThreadId: string | null;
+  onSelectThread: (threadId: string | null) => void;
+  /** Anchor just created in the editor, waiting for its first comment */
+  pendingAnchor: { threadId: string; quote: string } | null;
+  onDiscardAnchor: (threadId: string) => void;
+  /** Persist a review change; `requestChanges` also moves the post back to draft */
+  onUpdate: (update: ReviewUpdate, options?: { requestChanges?: boolean }) => Promise<void>;
+}
+
+export default function ReviewPanel({
+  post,
+  user,
+  requiredApprovals,
+  activeThreadId,
+  onSelectThread,
+  pendingAnchor,
+  onDiscardAnchor,
+  onUpdate,
+}: ReviewPanelProps) {
+  const [draft, setDraft] = useState('');
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [decisionNote, setDecisionNote] = useState('');
+  const [showResolved, setShowResolved] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const threads = post.review?.threads || [];
+  const decisions = post.review?.decisions || [];
+  const openThreads = getOpenThreads(post);
+  const visibleThreads = showResolved ? threads : openThreads;
+  const approvals = countApprovals(post);
+  const mayComment = canComment(post, user);
+  const mayDecide = canDecide(post, user);
+
+  const run = async (update: ReviewUpdate, options?: { requestChanges?: boolean }) => {
+    setBusy(true);
+    try {
+      await onUpdate(update, options);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitThread = async () => {
+    if (!pendingAnchor || !draft.trim()) return;
+    await run(addThread(post, user, { id: pendingAnchor.threadId, quote: pendingAnchor.quote, body: draft.trim() }));
+    setDraft('');
+    onSelectThread(pendingAnchor.threadId);
+  };
+
+  const submitReply = async (threadId: string) => {
+    const body = replies[threadId]?.trim();
+    if (!body) return;
+    await run(addReply(post, user, threadId, body));
+    setReplies((prev) => ({ ...prev, [threadId]: '' }));
+  };
+
+  const decide = async (decision: 'approved' | 'changes_requested') => {
+    await run(recordDecision(post, user, decision, decisionNote.trim() || undefined), {
+      requestChanges: decision === 'changes_requested',
+    });
+    setDecisionNote('');
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Review</h3>
+          {requiredApprovals > 0 && (
+            <Badge variant={approvals >= requiredApprovals ? 'success' : 'warning'}>
+              {approvals}/{requiredApprovals} approvals
+            </Badge>
+          )}
+        </div>
+
+        {mayDecide && (
+          <div className="space-y-2 border-b border-gray-200 pb-4">
+            <Textarea
+              value={decisionNote}
+              onChange={(e) => setDecisionNote(e.target.value)}
+              placeholder="Optional note for the author"
+              rows={2}
+              size="sm"
+            />
+            <div className="flex gap-2">
+              <Button size="sm" variant="primary" onClick={() => decide('approved')} disabled={busy} leftIcon={<CheckCircleIcon />}>
+                Approve
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => decide('changes_requested')} disabled={busy} leftIcon={<ArrowUturnLeftIcon />}>
+                Request Changes
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {decisions.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {decisions.map((decision, index) => (
+              <li key={`${decision.reviewerUid}-${index}`} className="text-gray-600">
+                <span className="font-medium text-gray-900">{decision.reviewerName}</span>{' '}
+                {decision.decision === 'approved' ? 'approved' : 'requested changes'}{' '}
+                <span className="text-gray-400">· {formatDateTime(decision.at)}</span>
+                {decision.note && <p className="text-gray-500 italic">“{decision.note}”</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {pendingAnchor && (
+          <div className="rounded-md border border-yellow-300 bg-yellow-50 p-3 space-y-2">
+            <p className="text-xs text-gray-600 line-clamp-2">“{pendingAnchor.quote}”</p>
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Add a comment…"
+              rows={2}
+              size="sm"
+              autoFocus
+            />
+            <div className="flex gap-2">
+              <Button size="sm" variant="primary" onClick={submitThread} disabled={busy || !draft.trim()}>
+                Comment
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => { setDraft(''); onDiscardAnchor(pendingAnchor.threadId); }}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-600 flex items-center">
+            <ChatBubbleLeftRightIcon className="h-4 w-4 mr-1" />
+            {openThreads.length} open thread{openThreads.length === 1 ? '' : 's'}
+          </span>
+          {threads.length > openThreads.length && (
+            <button className="text-blue-600 hover:underline" onClick={() => setShowResolved(!showResolved)}>
+              {showResolved ? 'Hide resolved' : 'Show resolved'}
+            </button>
+          )}
+        </div>
+
+        {threads.length === 0 && !pendingAnchor && (
+          <p className="text-sm text-gray-500">Select text in the editor and click Comment to start a thread.</p>
+        )}
+
+        <ul className="space-y-3">
+          {visibleThreads.map((thread) => (
+            <li
+              key={thread.id}
+              className={`rounded-md border p-3 text-sm cursor-pointer ${
+                thread.id === activeThreadId ? 'border-yellow-400 bg-yellow-50' : 'border-gray-200'
+              } ${thread.resolved ? 'opacity-60' : ''}`}
+              onClick={() => onSelectThread(thread.id)}
+            >
+              <p className="text-xs text-gray-500 italic line-clamp-2 mb-2">“{thread.quote}”</p>
+              {thread.comments.map((comment) => (
+                <div key={comment.id} className="mb-2">
+                  <p>
+                    <span className="font-medium text-gray-900">{comment.authorName}</span>{' '}
+                    <span className="text-xs text-gray-400">{formatDateTime(comment.createdAt)}</span>
+                  </p>
+                  <p className="text-gray-700 whitespace-pre-wrap">{comment.body}</p>
+                </div>
+              ))}
+
+              {thread.id === activeThreadId && mayComment && (
+                <div className="space-y-2 mt-2" onClick={(e) => e.stopPropagation()}>
+                  {!thread.resolved && (
+                    <Textarea
+                      value={replies[thread.id] || ''}
+                      onChange={(e) => setReplies((prev) => ({ ...prev, [thread.id]: e.target.value }))}
+                      placeholder="Reply…"
+                      rows={2}
+                      size="sm"
+                    />
+                  )}
+                  <div className="flex gap-2">
+                    {!thread.resolved && (
+                      <Button size="sm" variant="outline" onClick={() => submitReply(thread.id)} disabled={busy || !replies[thread.id]?.trim()}>
+                        Reply
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => run(setThreadResolved(post, user, thread.id, !thread.resolved))}
+                      disabled={busy}
+                    >
+                      {thread.resolved ? 'Reopen' : 'Resolve'}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
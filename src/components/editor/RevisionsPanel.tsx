@@ -0,0 +1,301 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import apiService from '@/lib/apiService';
+import { Post, PostRevision, RevisionSnapshot } from '@/types/admin';
+import { Button, Card, CardContent, Badge, Modal, Select, Spinner } from '@/components/ui';
+import { ClockIcon, ArrowUturnLeftIcon, ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
+import { formatDateTime } from '@/lib/dateUtils';
+import { describeApiError } from '@/lib/api/errors';
+import { extractPublicId } from '@/lib/imageHelpers';
+import { DiffPart, diffHtmlSource, diffText, htmlToText } from '@/lib/diff';
+import { REVISION_REASON_LABELS, rememberLatestRevision, takeSnapshot } from '@/lib/revisions';
+
+const CURRENT = 'current';
+
+interface RevisionsPanelProps {
+  postId: string;
+  /** Live editor state, offered as a comparison target */
+  currentPost: Partial<Post>;
+  /** Load the revision into the editor and save it as a new revision */
+  onRestore: (revision: PostRevision) => Promise<void>;
+  /** Bump to reload the list after the post was saved */
+  refreshKey?: number;
+}
+
+export default function RevisionsPanel({ postId, currentPost, onRestore, refreshKey = 0 }: RevisionsPanelProps) {
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [compare, setCompare] = useState<{ left: string; right: string } | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchRevisions = async () => {
+      setLoadError(null);
+      try {
+        const data = await apiService.getPostRevisions(postId, { signal: controller.signal });
+        setRevisions(data);
+        rememberLatestRevision(postId, data[0]);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching revisions:', error);
+        setLoadError(describeApiError(error, 'Failed to load revisions.'));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchRevisions();
+    return () => controller.abort();
+  }, [postId, refreshKey]);
+
+  const handleRestore = async (revision: PostRevision) => {
+    if (!confirm(`Restore the revision from ${formatDateTime(revision.createdAt)}? Your current version stays in the history.`)) {
+      return;
+    }
+    setRestoring(revision.id);
+    try {
+      await onRestore(revision);
+      setCompare(null);
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const visible = showAll ? revisions : revisions.slice(0, 8);
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Revisions</h3>
+          {revisions.length > 0 && (
+            <Button
+              size="sm"
+              variant="ghost"
+              leftIcon={<ArrowsRightLeftIcon />}
+              onClick={() => setCompare({ left: revisions[Math.min(1, revisions.length - 1)].id, right: CURRENT })}
+            >
+              Compare
+            </Button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-4"><Spinner size="sm" /></div>
+        ) : loadError ? (
+          <p className="text-sm text-red-600">{loadError}</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-500">No revisions yet. One is stored every time you save.</p>
+        ) : (
+          <ul className="space-y-2">
+            {visible.map((revision) => (
+              <li key={revision.id} className="flex items-start justify-between gap-2 text-sm">
+                <button
+                  className="text-left flex-1 min-w-0"
+                  onClick={() => setCompare({ left: revision.id, right: CURRENT })}
+                  title="Compare with the current version"
+                >
+                  <div className="flex items-center gap-2">
+                    <ClockIcon className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                    <span className="text-gray-900">{formatDateTime(revision.createdAt)}</span>
+                  </div>
+                  <div className="ml-6 text-xs text-gray-500 truncate">
+                    {revision.createdBy.name} · <Badge size="sm" variant={revision.reason === 'publish' ? 'success' : 'default'}>
+                      {REVISION_REASON_LABELS[revision.reason]}
+                    </Badge>
+                  </div>
+                </button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleRestore(revision)}
+                  loading={restoring === revision.id}
+                  disabled={restoring !== null}
+                  title="Restore this revision"
+                >
+                  <ArrowUturnLeftIcon className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {revisions.length > visible.length && (
+          <button className="mt-3 text-sm text-blue-600 hover:underline" onClick={() => setShowAll(true)}>
+            Show all {revisions.length} revisions
+          </button>
+        )}
+      </CardContent>
+
+      {compare && (
+        <RevisionCompareModal
+          revisions={revisions}
+          currentPost={currentPost}
+          left={compare.left}
+          right={compare.right}
+          onChange={setCompare}
+          onClose={() => setCompare(null)}
+          onRestore={handleRestore}
+          restoring={restoring}
+        />
+      )}
+    </Card>
+  );
+}
+
+function RevisionCompareModal({
+  revisions,
+  currentPost,
+  left,
+  right,
+  onChange,
+  onClose,
+  onRestore,
+  restoring,
+}: {
+  revisions: PostRevision[];
+  currentPost: Partial<Post>;
+  left: string;
+  right: string;
+  onChange: (selection: { left: string; right: string }) => void;
+  onClose: () => void;
+  onRestore: (revision: PostRevision) => void;
+  restoring: string | null;
+}) {
+  const [mode, setMode] = useState<'text' | 'html'>('text');
+
+  const options = [
+    { value: CURRENT, label: 'Current editor' },
+    ...revisions.map((revision) => ({
+      value: revision.id,
+      label: `${formatDateTime(revision.createdAt)} — ${REVISION_REASON_LABELS[revision.reason]} by ${revision.createdBy.name}`,
+    })),
+  ];
+
+  const resolve = (id: string): RevisionSnapshot =>
+    id === CURRENT ? takeSnapshot(currentPost) : revisions.find((revision) => revision.id === id)!.snapshot;
+
+  const leftSnapshot = resolve(left);
+  const rightSnapshot = resolve(right);
+  const leftRevision = revisions.find((revision) => revision.id === left);
+
+  const fields = useMemo(() => {
+    const textFields: Array<{ label: string; a: string; b: string }> = [
+      { label: 'Title', a: leftSnapshot.title, b: rightSnapshot.title },
+      { label: 'Excerpt', a: leftSnapshot.excerpt, b: rightSnapshot.excerpt },
+      { label: 'Meta title', a: leftSnapshot.metaTitle, b: rightSnapshot.metaTitle },
+      { label: 'Meta description', a: leftSnapshot.metaDescription, b: rightSnapshot.metaDescription },
+      {
+        label: 'Featured image',
+        a: extractPublicId(leftSnapshot.featuredImage) || '(none)',
+        b: extractPublicId(rightSnapshot.featuredImage) || '(none)',
+      },
+    ];
+    return textFields.map((field) => ({ ...field, parts: diffText(field.a, field.b) }));
+  }, [leftSnapshot, rightSnapshot]);
+
+  const contentParts = useMemo(
+    () =>
+      mode === 'text'
+        ? diffText(htmlToText(leftSnapshot.contentHtml), htmlToText(rightSnapshot.contentHtml))
+        : diffHtmlSource(leftSnapshot.contentHtml, rightSnapshot.contentHtml),
+    [mode, leftSnapshot.contentHtml, rightSnapshot.contentHtml]
+  );
+
+  return (
+    <Modal isOpen onClose={onClose} title="Compare revisions" className="max-w-6xl">
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <Select
+            label="Before"
+            value={left}
+            onChange={(e) => onChange({ left: e.target.value, right })}
+            options={options}
+          />
+          <Select
+            label="After"
+            value={right}
+            onChange={(e) => onChange({ left, right: e.target.value })}
+            options={options}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex gap-1">
+            <Button size="sm" variant={mode === 'text' ? 'secondary' : 'ghost'} onClick={() => setMode('text')}>
+              Text
+            </Button>
+            <Button size="sm" variant={mode === 'html' ? 'secondary' : 'ghost'} onClick={() => setMode('html')}>
+              HTML
+            </Button>
+          </div>
+          {leftRevision && (
+            <Button
+              size="sm"
+              variant="outline"
+              leftIcon={<ArrowUturnLeftIcon />}
+              onClick={() => onRestore(leftRevision)}
+              loading={restoring === leftRevision.id}
+            >
+              Restore &quot;Before&quot;
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {fields
+            .filter((field) => field.a !== field.b)
+            .map((field) => (
+              <div key={field.label}>
+                <p className="text-xs font-medium text-gray-500 uppercase mb-1">{field.label}</p>
+                <SideBySide parts={field.parts} />
+              </div>
+            ))}
+
+          <div>
+            <p className="text-xs font-medium text-gray-500 uppercase mb-1">Content</p>
+            <SideBySide parts={contentParts} monospace={mode === 'html'} />
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
+
+/**
+ * Old version on the left with deletions, new version on the right with
+ * insertions
+ */
+function SideBySide({ parts, monospace = false }: { parts: DiffPart[]; monospace?: boolean }) {
+  const column = `max-h-[60vh] overflow-auto rounded-md border border-gray-200 bg-gray-50 p-3 text-sm whitespace-pre-wrap break-words ${
+    monospace ? 'font-mono text-xs' : ''
+  }`;
+
+  return (
+    <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+      <div className={column}>
+        {parts.map((part, index) =>
+          part.op === 'insert' ? null : (
+            <span key={index} className={part.op === 'delete' ? 'bg-red-100 text-red-800 line-through' : 'text-gray-700'}>
+              {part.value}
+            </span>
+          )
+        )}
+      </div>
+      <div className={column}>
+        {parts.map((part, index) =>
+          part.op === 'delete' ? null : (
+            <span key={index} className={part.op === 'insert' ? 'bg-green-100 text-green-800' : 'text-gray-700'}>
+              {part.value}
+            </span>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
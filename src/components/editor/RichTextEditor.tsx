@@ -3,7 +3,6 @@
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Typography from '@tiptap/extension-typography';
-import Image from '@tiptap/extension-image';
 import Link from '@tiptap/extension-link';
 import Placeholder from '@tiptap/extension-placeholder';
 import CharacterCount from '@tiptap/extension-character-count';
@@ -11,6 +10,8 @@ import { Table } from '@tiptap/extension-table';
 import { TableRow } from '@tiptap/extension-table-row';
 import { TableCell } from '@tiptap/extension-table-cell';
 import { TableHeader } from '@tiptap/extension-table-header';
+import Collaboration from '@tiptap/extension-collaboration';
+import CollaborationCaret from '@tiptap/extension-collaboration-caret';
 import { useState, useCallback, useEffect, useRef } from 'react';
 import MarkdownIt from 'markdown-it';
 import { 
@@ -27,9 +28,34 @@ import {
   CheckIcon,
   PlusIcon,
   ArrowUturnLeftIcon,
-  ArrowUturnRightIcon
+  ArrowUturnRightIcon,
+  ChatBubbleBottomCenterTextIcon,
+  InformationCircleIcon,
+  BanknotesIcon,
+  ClipboardDocumentListIcon,
+  ClockIcon
 } from '@heroicons/react/24/outline';
 import { Button } from '@/components/ui';
+import ReviewComment from './extensions/ReviewComment';
+import Embeds from './extensions/Embeds';
+import ContentBlocks from './extensions/ContentBlocks';
+import MediaImage from './extensions/MediaImage';
+import LinkHealth from './extensions/LinkHealth';
+import InternalLinkSuggestions from './extensions/InternalLinkSuggestions';
+import MediaPickerModal, { MediaSelection } from './MediaPickerModal';
+import { getInlineImageUrl } from '@/lib/imageHelpers';
+import { EmbedAttributes, EmbedProvider, parseEmbedUrl, renderEmbeds } from '@/lib/embeds';
+import { createThreadId } from '@/lib/review';
+import type { LinkCheckResult } from '@/types/admin';
+import type { InternalLinkSuggestion } from '@/lib/internalLinking';
+import {
+  COLLABORATION_FIELD,
+  CollaborationPeer,
+  CollaborationSession,
+  seedCollaborationDocument,
+} from '@/lib/collaboration';
+import { CollaborationState } from '@/hooks/useCollaboration';
+import CollaborationPresence from './CollaborationPresence';
 
 // Initialize Markdown parser
 const md = new MarkdownIt({
@@ -45,7 +71,29 @@ interface RichTextEditorProps {
   showToolbar?: boolean;
   showCharacterCount?: boolean;
   maxLength?: number;
-  onImageUpload?: (file: File) => Promise<string>;
+  /** Enables anchored review comments on the selected text */
+  review?: {
+    onCreateThread: (anchor: { threadId: string; quote: string }) => void;
+    onSelectThread?: (threadId: string) => void;
+    activeThreadId?: string | null;
+    /** Threads that exist; anchors for any other thread id are removed */
+    threadIds: string[];
+    resolvedThreadIds?: string[];
+  };
+  /**
+   * Shared editing session (see useCollaboration). While a session is
+   * joined the body lives in its CRDT document and `onChange` reports the
+   * merged content.
+   */
+  collaboration?: {
+    session: CollaborationSession | null;
+    peers: CollaborationPeer[];
+    status: CollaborationState;
+  };
+  /** Last link check results, shown as badges on the links */
+  linkHealth?: LinkCheckResult[];
+  /** Phrases that could link to other posts (see suggestInternalLinks) */
+  internalLinkSuggestions?: InternalLinkSuggestion[];
 }
 
 export default function RichTextEditor({
@@ -55,11 +103,27 @@ export default function RichTextEditor({
   showToolbar = true,
   showCharacterCount = false,
   maxLength = 10000,
-  onImageUpload,
+  review,
+  collaboration,
+  linkHealth,
+  internalLinkSuggestions,
 }: RichTextEditorProps) {
   const [isPreviewMode, setIsPreviewMode] = useState(false);
-  const [isImageUploading, setIsImageUploading] = useState(false);
+  const [showMediaPicker, setShowMediaPicker] = useState(false);
   const editorRef = useRef<HTMLDivElement>(null);
+  // The extension is configured once; read the latest callback through a ref
+  const onSelectThreadRef = useRef(review?.onSelectThread);
+  onSelectThreadRef.current = review?.onSelectThread;
+  const session = collaboration?.session ?? null;
+  // Last HTML reported through onChange, to tell our own echoes from outside changes
+  const lastEmittedRef = useRef(content);
+  const contentRef = useRef(content);
+  contentRef.current = content;
+
+  const emitChange = useCallback((html: string) => {
+    lastEmittedRef.current = html;
+    onChange(html);
+  }, [onChange]);
 
   const editor = useEditor({
     extensions: [
@@ -67,9 +131,11 @@ export default function RichTextEditor({
         heading: {
           levels: [1, 2, 3, 4, 5, 6],
         },
+        // Collaboration brings its own undo history that only undoes local changes
+        undoRedo: session ? false : undefined,
       }),
       Typography,
-      Image.configure({
+      MediaImage.configure({
         HTMLAttributes: {
           class: 'max-w-full h-auto rounded-lg my-4',
         },
@@ -107,23 +173,58 @@ export default function RichTextEditor({
           class: 'border border-gray-300 px-4 py-2',
         },
       }),
+      ReviewComment.configure({
+        HTMLAttributes: {
+          class: 'review-comment',
+        },
+        onSelectThread: (threadId) => onSelectThreadRef.current?.(threadId),
+      }),
+      LinkHealth,
+      InternalLinkSuggestions,
+      ...Embeds,
+      ...ContentBlocks,
+      ...(session
+        ? [
+            Collaboration.configure({
+              document: session.doc,
+              field: COLLABORATION_FIELD,
+            }),
+            CollaborationCaret.configure({
+              provider: session.provider,
+              user: session.user,
+            }),
+          ]
+        : []),
     ],
-    content,
+    // With collaboration the content comes from the shared document
+    content: session ? undefined : content,
     editable: !isPreviewMode,
     immediatelyRender: false,
     onUpdate: ({ editor }) => {
       // Pass content to parent - WordPress URLs will be sanitized on save
-      onChange(editor.getHTML());
+      emitChange(editor.getHTML());
     },
     editorProps: {
       attributes: {
         class: 'prose prose-lg max-w-none focus:outline-none p-4 min-h-[300px]',
       },
     },
-  });
+  }, [session]);
+
+  // First editor in an empty shared document fills it with the saved body;
+  // everyone else adopts the merged document
+  useEffect(() => {
+    if (!editor || !session) return;
+    seedCollaborationDocument(session, editor.schema, contentRef.current);
+    emitChange(editor.getHTML());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editor, session]);
 
   // Sync editor content when content prop changes (for pre-filled data)
   useEffect(() => {
+    // In a shared document only outside changes (e.g. a restored revision)
+    // are pushed in; our own echoes would overwrite peers' edits
+    if (session && content === lastEmittedRef.current) return;
     if (editor && content !== undefined && editor.getHTML() !== content) {
       // Only update if content actually changed to avoid unnecessary updates
       const currentContent = editor.getHTML();
@@ -133,33 +234,34 @@ export default function RichTextEditor({
         });
       }
     }
-  }, [content, editor]);
-
-  const addImage = useCallback(async () => {
-    if (!onImageUpload) return;
-    if (isImageUploading) return;
-    
-    const input = document.createElement('input');
-    input.type = 'file';
-    // Match backend allowed types (jpg/jpeg/png/webp)
-    input.accept = 'image/jpeg,image/png,image/webp';
-    input.onchange = async (e) => {
-      const file = (e.target as HTMLInputElement).files?.[0];
-      if (file) {
-        try {
-          setIsImageUploading(true);
-          const url = await onImageUpload(file);
-          editor?.chain().focus().setImage({ src: url }).run();
-        } catch (error) {
-          console.error('Error uploading image:', error);
-          alert('Failed to upload image. Please try again.');
-        } finally {
-          setIsImageUploading(false);
-        }
-      }
-    };
-    input.click();
-  }, [editor, isImageUploading, onImageUpload]);
+  }, [content, editor, session]);
+
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+    editor.commands.setLinkHealth(linkHealth ?? []);
+  }, [editor, linkHealth]);
+
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+    editor.commands.setInternalLinkSuggestions(internalLinkSuggestions ?? []);
+  }, [editor, internalLinkSuggestions]);
+
+  const insertMediaImage = useCallback((selection: MediaSelection) => {
+    const src = (selection.publicId && getInlineImageUrl({ public_id: selection.publicId })) || selection.url;
+    editor
+      ?.chain()
+      .focus()
+      .insertContent({
+        type: 'image',
+        attrs: {
+          src,
+          alt: selection.alt || null,
+          mediaId: selection.mediaId,
+          caption: selection.caption || null,
+        },
+      })
+      .run();
+  }, [editor]);
 
   const addLink = useCallback(() => {
     const url = window.prompt('Enter URL:');
@@ -172,24 +274,68 @@ export default function RichTextEditor({
     editor?.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run();
   }, [editor]);
 
+  const insertEmbed = useCallback((url: string, expected?: EmbedProvider) => {
+    const attrs = parseEmbedUrl(url);
+    if (!attrs || (expected && attrs.provider !== expected)) return false;
+    editor?.chain().focus().setEmbed(attrs).run();
+    return true;
+  }, [editor]);
+
   const addYouTubeEmbed = useCallback(() => {
     const url = window.prompt('Enter YouTube URL:');
-    if (url) {
-      const videoId = url.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&\n?#]+)/)?.[1];
-      if (videoId) {
-        const embedHtml = `<div class="youtube-embed my-4"><iframe width="560" height="315" src="https://www.youtube.com/embed/${videoId}" frameborder="0" allowfullscreen class="rounded-lg"></iframe></div>`;
-        editor?.chain().focus().insertContent(embedHtml).run();
-      }
+    if (url && !insertEmbed(url, 'youtube')) {
+      alert('That doesn\'t look like a YouTube video URL.');
     }
-  }, [editor]);
+  }, [insertEmbed]);
 
   const addTwitterEmbed = useCallback(() => {
-    const url = window.prompt('Enter Twitter URL:');
-    if (url) {
-      const embedHtml = `<div class="twitter-embed my-4"><blockquote class="twitter-tweet"><a href="${url}"></a></blockquote></div>`;
-      editor?.chain().focus().insertContent(embedHtml).run();
+    const url = window.prompt('Enter X (Twitter) post URL:');
+    if (url && !insertEmbed(url, 'twitter')) {
+      alert('That doesn\'t look like an X (Twitter) post URL.');
     }
-  }, [editor]);
+  }, [insertEmbed]);
+
+  // Any supported URL: built-in providers first, then oEmbed
+  const addEmbed = useCallback(async () => {
+    const url = window.prompt('Paste a YouTube, X, LinkedIn, TikTok, Instagram, Spotify or other embeddable URL:');
+    if (!url || insertEmbed(url)) return;
+    try {
+      const response = await fetch(`/api/oembed?url=${encodeURIComponent(url.trim())}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message);
+      editor?.chain().focus().setEmbed(result.data as EmbedAttributes).run();
+    } catch (error) {
+      console.error('Error resolving embed:', error);
+      alert(error instanceof Error && error.message ? error.message : 'This URL can\'t be embedded.');
+    }
+  }, [editor, insertEmbed]);
+
+  // Drop anchors whose thread was discarded before its first comment
+  const threadIdsKey = review?.threadIds.join(',');
+  useEffect(() => {
+    if (!editor || threadIdsKey === undefined) return;
+    const known = new Set(threadIdsKey.split(','));
+    const orphaned = new Set<string>();
+    editor.state.doc.descendants((node) => {
+      node.marks.forEach((mark) => {
+        if (mark.type.name === 'reviewComment' && !known.has(mark.attrs.threadId)) {
+          orphaned.add(mark.attrs.threadId);
+        }
+      });
+    });
+    orphaned.forEach((threadId) => editor.commands.unsetReviewComment(threadId));
+  }, [editor, threadIdsKey]);
+
+  const addReviewComment = useCallback(() => {
+    if (!editor || !review) return;
+    const { from, to, empty } = editor.state.selection;
+    if (empty) return;
+
+    const threadId = createThreadId();
+    const quote = editor.state.doc.textBetween(from, to, ' ');
+    editor.chain().focus().setReviewComment(threadId).run();
+    review.onCreateThread({ threadId, quote });
+  }, [editor, review]);
 
   const importMarkdown = useCallback(() => {
     const markdown = window.prompt('Paste your Markdown content:');
@@ -252,6 +398,10 @@ export default function RichTextEditor({
 
   return (
     <div className="border border-gray-300 rounded-lg overflow-hidden bg-white shadow-sm">
+      {collaboration && (session || collaboration.status === 'disabled') && (
+        <CollaborationPresence peers={collaboration.peers} status={collaboration.status} />
+      )}
+
       {showToolbar && (
         <div className="border-b border-gray-300 bg-gray-50 p-3 flex flex-wrap gap-2 items-center">
           {/* History */}
@@ -360,23 +510,66 @@ export default function RichTextEditor({
             </Button>
           </div>
 
+          {/* Content blocks */}
+          <div className="flex gap-1 border-r border-gray-300 pr-2 mr-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => editor.chain().focus().setCallout('info').run()}
+              className={`h-8 w-8 p-0 ${editor.isActive('callout') ? 'bg-gray-200 text-gray-900' : 'text-gray-600 hover:text-gray-900'}`}
+              title="Callout"
+            >
+              <InformationCircleIcon className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => editor.chain().focus().setPullQuote().run()}
+              className={`h-8 w-8 p-0 ${editor.isActive('pullQuote') ? 'bg-gray-200 text-gray-900' : 'text-gray-600 hover:text-gray-900'}`}
+              title="Pull Quote"
+            >
+              <span className="text-base font-bold leading-none">❝</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => editor.chain().focus().insertKeyTakeaways().run()}
+              className="h-8 w-8 p-0 text-gray-600 hover:text-gray-900"
+              title="Key Takeaways"
+            >
+              <ClipboardDocumentListIcon className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => editor.chain().focus().insertFundingRound().run()}
+              className="h-8 w-8 p-0 text-gray-600 hover:text-gray-900"
+              title="Funding Round Fact Box"
+            >
+              <BanknotesIcon className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => editor.chain().focus().insertTimeline().run()}
+              className="h-8 w-8 p-0 text-gray-600 hover:text-gray-900"
+              title="Timeline"
+            >
+              <ClockIcon className="h-4 w-4" />
+            </Button>
+          </div>
+
           {/* Media & Embeds */}
           <div className="flex gap-1 border-r border-gray-300 pr-2 mr-2">
             <Button
               variant="ghost"
               size="sm"
-              onClick={addImage}
-              disabled={isImageUploading}
-              className="h-8 w-8 p-0 text-gray-600 hover:text-gray-900 disabled:opacity-60 disabled:hover:text-gray-600"
+              onClick={() => setShowMediaPicker(true)}
+              className="h-8 w-8 p-0 text-gray-600 hover:text-gray-900"
               title="Add Image"
-              aria-label={isImageUploading ? 'Uploading image' : 'Add image'}
-              aria-busy={isImageUploading}
+              aria-label="Add image"
             >
-              {isImageUploading ? (
-                <div className="h-4 w-4 animate-spin rounded-full border-2 border-gray-300 border-t-gray-700" />
-              ) : (
-                <PhotoIcon className="h-4 w-4" />
-              )}
+              <PhotoIcon className="h-4 w-4" />
             </Button>
             <Button
               variant="ghost"
@@ -410,9 +603,18 @@ export default function RichTextEditor({
               size="sm"
               onClick={addTwitterEmbed}
               className="h-8 w-8 p-0 text-gray-600 hover:text-gray-900"
-              title="Add Twitter Embed"
+              title="Add X (Twitter) Post"
             >
-              <span className="text-xs font-bold">🐦</span>
+              <span className="text-xs font-bold">𝕏</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={addEmbed}
+              className="h-8 px-2 text-gray-600 hover:text-gray-900"
+              title="Embed from URL"
+            >
+              <span className="text-xs font-bold">Embed</span>
             </Button>
             <Button
               variant="ghost"
@@ -425,13 +627,6 @@ export default function RichTextEditor({
             </Button>
           </div>
 
-          {isImageUploading && (
-            <div className="text-xs text-gray-600 flex items-center gap-2">
-              <div className="h-3 w-3 animate-spin rounded-full border-2 border-gray-300 border-t-gray-700" />
-              <span>Uploading image…</span>
-            </div>
-          )}
-
           {/* Block Elements */}
           <div className="flex gap-1 border-r border-gray-300 pr-2 mr-2">
             <Button
@@ -463,6 +658,23 @@ export default function RichTextEditor({
             </Button>
           </div>
 
+          {/* Review */}
+          {review && (
+            <div className="flex gap-1 border-r border-gray-300 pr-2 mr-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={addReviewComment}
+                disabled={editor.state.selection.empty}
+                className="h-8 px-2 text-gray-600 hover:text-gray-900"
+                title="Comment on selection"
+              >
+                <ChatBubbleBottomCenterTextIcon className="h-4 w-4 mr-1" />
+                <span className="text-xs">Comment</span>
+              </Button>
+            </div>
+          )}
+
           {/* Preview Toggle */}
           <div className="flex gap-1">
             <Button
@@ -482,7 +694,7 @@ export default function RichTextEditor({
         {isPreviewMode ? (
           <div 
             className="prose prose-lg max-w-none preview-content p-6 min-h-[300px] bg-white"
-            dangerouslySetInnerHTML={{ __html: editor.getHTML() }}
+            dangerouslySetInnerHTML={{ __html: renderEmbeds(editor.getHTML()) }}
           />
         ) : (
           <EditorContent 
@@ -499,7 +711,48 @@ export default function RichTextEditor({
         </div>
       )}
 
+      {review && (
+        <style>{[
+          ...(review.resolvedThreadIds || []).map(
+            (id) => `.ProseMirror span[data-review-thread="${id}"] { background-color: transparent; border-bottom: none; }`
+          ),
+          review.activeThreadId
+            ? `.ProseMirror span[data-review-thread="${review.activeThreadId}"] { background-color: #fde68a; }`
+            : '',
+        ].join('\n')}</style>
+      )}
+
       <style jsx global>{`
+        .ProseMirror .review-comment {
+          background-color: #fef9c3;
+          border-bottom: 2px solid #facc15;
+          cursor: pointer;
+        }
+
+        .ProseMirror .collaboration-carets__caret {
+          position: relative;
+          margin-left: -1px;
+          margin-right: -1px;
+          border-left: 1px solid;
+          border-right: 1px solid;
+          word-break: normal;
+          pointer-events: none;
+        }
+
+        .ProseMirror .collaboration-carets__label {
+          position: absolute;
+          top: -1.4em;
+          left: -1px;
+          padding: 0.1rem 0.3rem;
+          border-radius: 3px 3px 3px 0;
+          color: #ffffff;
+          font-size: 12px;
+          font-weight: 600;
+          line-height: normal;
+          white-space: nowrap;
+          user-select: none;
+        }
+
         .ProseMirror {
           padding: 1.5rem;
           min-height: 300px;
@@ -724,6 +977,17 @@ export default function RichTextEditor({
           height: 0;
         }
       `}</style>
+
+      {showMediaPicker && (
+        <MediaPickerModal
+          isOpen
+          onClose={() => setShowMediaPicker(false)}
+          onSelect={insertMediaImage}
+          title="Insert image"
+          confirmLabel="Insert image"
+          withCaption
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,484 @@
+'use client';
+
+import { ReactNode } from 'react';
+import {
+  Node,
+  mergeAttributes,
+  NodeViewContent,
+  NodeViewProps,
+  NodeViewWrapper,
+  ReactNodeViewRenderer,
+} from '@tiptap/react';
+import {
+  CALLOUT_VARIANTS,
+  CalloutVariant,
+  FUNDING_CURRENCIES,
+  FUNDING_ROUND_TYPES,
+  FundingRound,
+  formatFundingAmount,
+  fundingRoundDataAttributes,
+  fundingRoundFacts,
+  parseInvestors,
+} from '@/lib/contentBlocks';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    contentBlocks: {
+      /** Wrap the selected blocks in a callout */
+      setCallout: (variant?: CalloutVariant) => ReturnType;
+      /** Wrap the selected paragraphs in a pull quote */
+      setPullQuote: () => ReturnType;
+      insertFundingRound: () => ReturnType;
+      insertKeyTakeaways: () => ReturnType;
+      insertTimeline: () => ReturnType;
+    };
+  }
+}
+
+const inputClass = 'rounded border border-gray-300 px-2 py-1 text-sm';
+
+function BlockFrame({ selected, className, children }: { selected: boolean; className: string; children: ReactNode }) {
+  return (
+    <NodeViewWrapper
+      className={`my-4 rounded-lg border p-3 ${className} ${selected ? 'ring-1 ring-blue-500' : ''}`}
+    >
+      {children}
+    </NodeViewWrapper>
+  );
+}
+
+const CALLOUT_STYLES: Record<CalloutVariant, string> = {
+  info: 'border-blue-200 bg-blue-50',
+  warning: 'border-amber-200 bg-amber-50',
+  tip: 'border-green-200 bg-green-50',
+};
+
+function CalloutView({ node, updateAttributes, selected, editor }: NodeViewProps) {
+  const variant = node.attrs.variant as CalloutVariant;
+  return (
+    <BlockFrame selected={selected} className={CALLOUT_STYLES[variant] ?? CALLOUT_STYLES.info}>
+      <div contentEditable={false} className="mb-1">
+        <select
+          value={variant}
+          onChange={(e) => updateAttributes({ variant: e.target.value })}
+          disabled={!editor.isEditable}
+          aria-label="Callout type"
+          className="rounded border-0 bg-transparent p-0 text-xs font-semibold uppercase text-gray-700"
+        >
+          {Object.entries(CALLOUT_VARIANTS).map(([value, { label, icon }]) => (
+            <option key={value} value={value}>
+              {icon} {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <NodeViewContent />
+    </BlockFrame>
+  );
+}
+
+function PullQuoteView({ node, updateAttributes, selected, editor }: NodeViewProps) {
+  return (
+    <BlockFrame selected={selected} className="border-gray-200 border-l-4 border-l-yellow-400 bg-white">
+      <NodeViewContent className="text-xl italic" />
+      <div contentEditable={false} className="mt-2">
+        <input
+          type="text"
+          value={node.attrs.attribution ?? ''}
+          onChange={(e) => updateAttributes({ attribution: e.target.value || null })}
+          placeholder="Attribution, e.g. Jane Doe, CEO of Acme"
+          disabled={!editor.isEditable}
+          className={`${inputClass} w-full`}
+        />
+      </div>
+    </BlockFrame>
+  );
+}
+
+function KeyTakeawaysView({ node, updateAttributes, selected, editor }: NodeViewProps) {
+  return (
+    <BlockFrame selected={selected} className="border-yellow-300 bg-yellow-50">
+      <div contentEditable={false}>
+        <input
+          type="text"
+          value={node.attrs.title ?? ''}
+          onChange={(e) => updateAttributes({ title: e.target.value })}
+          aria-label="Block title"
+          disabled={!editor.isEditable}
+          className="w-full border-0 bg-transparent p-0 text-sm font-semibold uppercase text-gray-800 focus:ring-0"
+        />
+      </div>
+      <NodeViewContent />
+    </BlockFrame>
+  );
+}
+
+function TimelineView({ node, editor, getPos, selected }: NodeViewProps) {
+  const addEntry = () => {
+    const position = getPos();
+    if (typeof position !== 'number') return;
+    editor
+      .chain()
+      .focus()
+      .insertContentAt(position + node.nodeSize - 1, { type: 'timelineItem', content: [{ type: 'paragraph' }] })
+      .run();
+  };
+
+  return (
+    <BlockFrame selected={selected} className="border-gray-200 bg-white">
+      <p contentEditable={false} className="mb-2 text-xs font-semibold uppercase text-gray-500">Timeline</p>
+      <NodeViewContent className="space-y-3 border-l-2 border-gray-200 pl-4" />
+      {editor.isEditable && (
+        <button
+          type="button"
+          contentEditable={false}
+          onClick={addEntry}
+          className="mt-2 text-xs font-medium text-blue-600 hover:text-blue-800"
+        >
+          + Add event
+        </button>
+      )}
+    </BlockFrame>
+  );
+}
+
+function TimelineItemView({ node, updateAttributes, editor }: NodeViewProps) {
+  return (
+    <NodeViewWrapper>
+      <div contentEditable={false}>
+        <input
+          type="text"
+          value={node.attrs.date ?? ''}
+          onChange={(e) => updateAttributes({ date: e.target.value })}
+          placeholder="Date, e.g. March 2024"
+          disabled={!editor.isEditable}
+          className={`${inputClass} mb-1 w-48 text-xs font-semibold`}
+        />
+      </div>
+      <NodeViewContent />
+    </NodeViewWrapper>
+  );
+}
+
+function FundingRoundView({ node, updateAttributes, selected, editor }: NodeViewProps) {
+  const round = node.attrs as FundingRound;
+  const disabled = !editor.isEditable;
+
+  return (
+    <BlockFrame selected={selected} className="border-gray-200 bg-gray-50">
+      <div contentEditable={false}>
+        <p className="mb-2 text-xs font-semibold uppercase text-gray-500">
+          Funding round · {formatFundingAmount(round.amount, round.currency)}
+        </p>
+        <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+          <input
+            type="text"
+            value={round.company}
+            onChange={(e) => updateAttributes({ company: e.target.value })}
+            placeholder="Company"
+            disabled={disabled}
+            className={inputClass}
+          />
+          <select
+            value={round.round}
+            onChange={(e) => updateAttributes({ round: e.target.value })}
+            disabled={disabled}
+            aria-label="Round"
+            className={inputClass}
+          >
+            <option value="">Round…</option>
+            {FUNDING_ROUND_TYPES.map((type) => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            <select
+              value={round.currency}
+              onChange={(e) => updateAttributes({ currency: e.target.value })}
+              disabled={disabled}
+              aria-label="Currency"
+              className={inputClass}
+            >
+              {FUNDING_CURRENCIES.map((currency) => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              value={round.amount ?? ''}
+              onChange={(e) => updateAttributes({ amount: e.target.value === '' ? null : Number(e.target.value) })}
+              placeholder="Amount (leave empty if undisclosed)"
+              disabled={disabled}
+              className={`${inputClass} flex-1`}
+            />
+          </div>
+          <input
+            type="text"
+            defaultValue={round.investors.join(', ')}
+            onBlur={(e) => updateAttributes({ investors: parseInvestors(e.target.value) })}
+            placeholder="Investors, comma separated"
+            disabled={disabled}
+            className={inputClass}
+          />
+        </div>
+      </div>
+    </BlockFrame>
+  );
+}
+
+export const Callout = Node.create({
+  name: 'callout',
+  group: 'block',
+  content: '(paragraph | bulletList | orderedList)+',
+  defining: true,
+
+  addAttributes() {
+    return {
+      variant: {
+        default: 'info',
+        parseHTML: (element) => {
+          const variant = element.getAttribute('data-variant');
+          return variant && variant in CALLOUT_VARIANTS ? variant : 'info';
+        },
+        renderHTML: (attributes) => ({ 'data-variant': attributes.variant }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'aside[data-block="callout"]', contentElement: '.block-body' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    const variant = node.attrs.variant as CalloutVariant;
+    const { label, icon } = CALLOUT_VARIANTS[variant] ?? CALLOUT_VARIANTS.info;
+    return [
+      'aside',
+      mergeAttributes({ 'data-block': 'callout', class: `content-block callout callout-${variant}`, role: 'note' }, HTMLAttributes),
+      ['p', { class: 'block-title' }, `${icon} ${label}`],
+      ['div', { class: 'block-body' }, 0],
+    ];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(CalloutView);
+  },
+
+  addCommands() {
+    return {
+      setCallout:
+        (variant = 'info') =>
+        ({ commands }) =>
+          commands.wrapIn(this.name, { variant }),
+    };
+  },
+});
+
+export const PullQuote = Node.create({
+  name: 'pullQuote',
+  group: 'block',
+  content: 'paragraph+',
+  defining: true,
+
+  addAttributes() {
+    return {
+      attribution: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-attribution'),
+        renderHTML: (attributes) => (attributes.attribution ? { 'data-attribution': attributes.attribution } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'figure[data-block="pull-quote"]', contentElement: 'blockquote' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'figure',
+      mergeAttributes({ 'data-block': 'pull-quote', class: 'content-block pull-quote' }, HTMLAttributes),
+      ['blockquote', {}, 0],
+      ...(node.attrs.attribution ? [['figcaption', {}, `— ${node.attrs.attribution}`]] : []),
+    ];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(PullQuoteView);
+  },
+
+  addCommands() {
+    return {
+      setPullQuote:
+        () =>
+        ({ commands }) =>
+          commands.wrapIn(this.name),
+    };
+  },
+});
+
+export const KeyTakeaways = Node.create({
+  name: 'keyTakeaways',
+  group: 'block',
+  content: 'bulletList',
+  defining: true,
+
+  addAttributes() {
+    return {
+      title: {
+        default: 'Key takeaways',
+        parseHTML: (element) => element.getAttribute('data-title') || 'Key takeaways',
+        renderHTML: (attributes) => ({ 'data-title': attributes.title }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'aside[data-block="key-takeaways"]', contentElement: '.block-body' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'aside',
+      mergeAttributes({ 'data-block': 'key-takeaways', class: 'content-block key-takeaways' }, HTMLAttributes),
+      ['p', { class: 'block-title' }, node.attrs.title],
+      ['div', { class: 'block-body' }, 0],
+    ];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(KeyTakeawaysView);
+  },
+
+  addCommands() {
+    return {
+      insertKeyTakeaways:
+        () =>
+        ({ commands }) =>
+          commands.insertContent({
+            type: this.name,
+            content: [{ type: 'bulletList', content: [{ type: 'listItem', content: [{ type: 'paragraph' }] }] }],
+          }),
+    };
+  },
+});
+
+export const TimelineItem = Node.create({
+  name: 'timelineItem',
+  content: 'paragraph+',
+  defining: true,
+
+  addAttributes() {
+    return {
+      date: {
+        default: '',
+        parseHTML: (element) => element.getAttribute('data-date') || '',
+        renderHTML: (attributes) => ({ 'data-date': attributes.date }),
+      },
+    };
+  },
+
+  parseHTML() {
+    // Above listItem so timeline entries don't parse as list items
+    return [{ tag: 'li[data-timeline-item]', contentElement: '.block-body', priority: 60 }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'li',
+      mergeAttributes({ 'data-timeline-item': '' }, HTMLAttributes),
+      ['p', { class: 'timeline-date' }, node.attrs.date],
+      ['div', { class: 'block-body' }, 0],
+    ];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(TimelineItemView);
+  },
+});
+
+export const Timeline = Node.create({
+  name: 'timeline',
+  group: 'block',
+  content: 'timelineItem+',
+  defining: true,
+
+  parseHTML() {
+    return [{ tag: 'ol[data-block="timeline"]', priority: 60 }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['ol', mergeAttributes({ 'data-block': 'timeline', class: 'content-block timeline' }, HTMLAttributes), 0];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(TimelineView);
+  },
+
+  addCommands() {
+    return {
+      insertTimeline:
+        () =>
+        ({ commands }) =>
+          commands.insertContent({
+            type: this.name,
+            content: [{ type: 'timelineItem', content: [{ type: 'paragraph' }] }],
+          }),
+    };
+  },
+});
+
+export const FundingRoundBox = Node.create({
+  name: 'fundingRound',
+  group: 'block',
+  atom: true,
+  draggable: true,
+
+  addAttributes() {
+    // Written as a whole by renderHTML
+    const attribute = (name: string, parse: (value: string | null) => unknown, fallback: unknown) => ({
+      default: fallback,
+      parseHTML: (element: HTMLElement) => parse(element.getAttribute(`data-${name}`)),
+      renderHTML: () => ({}),
+    });
+    return {
+      company: attribute('company', (value) => value || '', ''),
+      amount: attribute('amount', (value) => (value && Number.isFinite(Number(value)) ? Number(value) : null), null),
+      currency: attribute('currency', (value) => value || 'USD', 'USD'),
+      round: attribute('round', (value) => value || '', ''),
+      investors: attribute('investors', parseInvestors, []),
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'aside[data-block="funding-round"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    const round = node.attrs as FundingRound;
+    return [
+      'aside',
+      mergeAttributes(HTMLAttributes, fundingRoundDataAttributes(round), { class: 'content-block funding-round' }),
+      ['p', { class: 'block-title' }, 'Funding round'],
+      ['dl', {}, ...fundingRoundFacts(round).map((fact) => ['div', {}, ['dt', {}, fact.label], ['dd', {}, fact.value]])],
+    ];
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(FundingRoundView);
+  },
+
+  addCommands() {
+    return {
+      insertFundingRound:
+        () =>
+        ({ commands }) =>
+          commands.insertContent({ type: this.name }),
+    };
+  },
+});
+
+export const ContentBlocks = [Callout, PullQuote, KeyTakeaways, Timeline, TimelineItem, FundingRoundBox];
+
+export default ContentBlocks;
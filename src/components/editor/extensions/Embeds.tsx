@@ -0,0 +1,193 @@
+'use client';
+
+import { Extension, Node, mergeAttributes, NodeViewProps, NodeViewWrapper, ReactNodeViewRenderer } from '@tiptap/react';
+import {
+  EMBED_PROVIDERS,
+  EMBED_PROVIDER_IDS,
+  EmbedAttributes,
+  EmbedProvider,
+  embedDataAttributes,
+  parseLegacyEmbed,
+} from '@/lib/embeds';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    embed: {
+      /** Insert an embed node for the attributes' provider */
+      setEmbed: (attributes: EmbedAttributes) => ReturnType;
+    };
+  }
+}
+
+export function embedNodeName(provider: EmbedProvider): string {
+  return `${provider}Embed`;
+}
+
+function formatStart(seconds: number | null | undefined): string {
+  if (!seconds) return '';
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function parseStart(value: string): number | null {
+  const parts = value.trim().split(':').map(Number);
+  if (!value.trim() || parts.some((part) => Number.isNaN(part))) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0) || null;
+}
+
+/**
+ * Editor preview: the live iframe (or link card for oEmbed without one)
+ * with caption and, for YouTube, start time fields
+ */
+function EmbedView({ node, updateAttributes, selected, editor }: NodeViewProps) {
+  const attrs = node.attrs as EmbedAttributes;
+  const definition = EMBED_PROVIDERS[attrs.provider];
+  const src = definition.src(attrs);
+  const { aspect, height, maxWidth } = definition.frame(attrs);
+  const editable = editor.isEditable;
+
+  return (
+    <NodeViewWrapper
+      className={`embed-node my-4 rounded-lg border bg-gray-50 p-3 ${selected ? 'border-blue-500 ring-1 ring-blue-500' : 'border-gray-200'}`}
+      data-drag-handle
+    >
+      <div className="mb-2 flex items-center justify-between text-xs text-gray-500">
+        <span className="font-medium uppercase">{definition.label}</span>
+        <a href={attrs.url} target="_blank" rel="noopener noreferrer" className="truncate pl-3 hover:text-gray-700">
+          {attrs.url}
+        </a>
+      </div>
+
+      {src ? (
+        <div
+          className="mx-auto w-full overflow-hidden rounded-md bg-white"
+          style={aspect ? { aspectRatio: aspect, maxWidth } : { height, maxWidth }}
+        >
+          <iframe
+            src={src}
+            title={attrs.title || `${definition.label} preview`}
+            className="h-full w-full"
+            loading="lazy"
+            allow={definition.allow}
+            allowFullScreen
+          />
+        </div>
+      ) : (
+        <div className="rounded-md border border-gray-200 bg-white p-3 text-sm text-gray-700">
+          {attrs.title || attrs.url}
+        </div>
+      )}
+
+      <div className="mt-2 flex gap-2" contentEditable={false}>
+        <input
+          type="text"
+          value={attrs.caption ?? ''}
+          onChange={(e) => updateAttributes({ caption: e.target.value || null })}
+          placeholder="Caption (optional)"
+          disabled={!editable}
+          className="flex-1 rounded border border-gray-300 px-2 py-1 text-sm"
+        />
+        {attrs.provider === 'youtube' && (
+          <input
+            type="text"
+            defaultValue={formatStart(attrs.start)}
+            onBlur={(e) => updateAttributes({ start: parseStart(e.target.value) })}
+            placeholder="Start (m:ss)"
+            aria-label="Start time"
+            disabled={!editable}
+            className="w-28 rounded border border-gray-300 px-2 py-1 text-sm"
+          />
+        )}
+      </div>
+    </NodeViewWrapper>
+  );
+}
+
+function dataAttribute(name: string, parse?: (value: string) => unknown) {
+  return {
+    default: null,
+    parseHTML: (element: HTMLElement) => {
+      const value = element.getAttribute(`data-${name}`);
+      return value === null ? null : parse ? parse(value) : value;
+    },
+    // Written as a whole by the node's renderHTML
+    renderHTML: () => ({}),
+  };
+}
+
+/**
+ * Block node for one provider, stored as a `<figure data-embed>` placeholder
+ * that the article page renders (see renderEmbeds in @/lib/embeds)
+ */
+export function createEmbedNode(provider: EmbedProvider) {
+  return Node.create({
+    name: embedNodeName(provider),
+    group: 'block',
+    atom: true,
+    draggable: true,
+
+    addAttributes() {
+      return {
+        provider: { default: provider, parseHTML: () => provider, renderHTML: () => ({}) },
+        id: dataAttribute('id'),
+        url: dataAttribute('url'),
+        start: dataAttribute('start', (value) => Number(value) || null),
+        caption: dataAttribute('caption'),
+        title: dataAttribute('title'),
+        thumbnail: dataAttribute('thumbnail'),
+        embedSrc: dataAttribute('embed-src'),
+      };
+    },
+
+    parseHTML() {
+      const rules: Array<{ tag: string; getAttrs?: (element: HTMLElement) => false | Record<string, unknown> }> = [
+        { tag: `figure[data-embed="${provider}"]` },
+      ];
+      // Embeds inserted as raw HTML before these nodes existed
+      if (provider === 'youtube' || provider === 'twitter') {
+        rules.push({
+          tag: `div.${provider}-embed`,
+          getAttrs: (element) => {
+            const attrs = parseLegacyEmbed(element.outerHTML);
+            return attrs?.provider === provider ? { ...attrs } : false;
+          },
+        });
+      }
+      return rules;
+    },
+
+    renderHTML({ node, HTMLAttributes }) {
+      const attrs = node.attrs as EmbedAttributes;
+      return [
+        'figure',
+        mergeAttributes(HTMLAttributes, embedDataAttributes(attrs)),
+        ['a', { href: attrs.url }, attrs.title || attrs.url],
+        ...(attrs.caption ? [['figcaption', {}, attrs.caption]] : []),
+      ];
+    },
+
+    addNodeView() {
+      return ReactNodeViewRenderer(EmbedView);
+    },
+  });
+}
+
+/**
+ * Commands shared by every embed node
+ */
+export const EmbedCommands = Extension.create({
+  name: 'embedCommands',
+
+  addCommands() {
+    return {
+      setEmbed:
+        (attributes) =>
+        ({ commands }) =>
+          commands.insertContent({ type: embedNodeName(attributes.provider), attrs: { ...attributes } }),
+    };
+  },
+});
+
+export const Embeds = [EmbedCommands, ...EMBED_PROVIDER_IDS.map(createEmbedNode)];
+
+export default Embeds;
@@ -0,0 +1,148 @@
+import { Extension } from '@tiptap/react';
+import { EditorState, Plugin, PluginKey, Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { InternalLinkSuggestion, phrasePattern } from '@/lib/internalLinking';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    internalLinkSuggestions: {
+      /** Replace the suggestions highlighted in the document */
+      setInternalLinkSuggestions: (suggestions: InternalLinkSuggestion[]) => ReturnType;
+      /** Link the suggested phrase for a target post */
+      acceptInternalLink: (slug: string) => ReturnType;
+    };
+  }
+}
+
+const suggestionsKey = new PluginKey<SuggestionsState>('internalLinkSuggestions');
+
+interface SuggestionsState {
+  suggestions: InternalLinkSuggestion[];
+  decorations: DecorationSet;
+}
+
+/** Blocks whose text never gets suggested links */
+const SKIPPED_BLOCKS = new Set(['heading', 'codeBlock']);
+
+/**
+ * Document range of the first linkable occurrence of a phrase. Text that
+ * is already a link, and anything that isn't text, acts as a word break.
+ */
+function findPhrase(doc: ProseMirrorNode, phrase: string): { from: number; to: number } | null {
+  const pattern = phrasePattern(phrase);
+  let found: { from: number; to: number } | null = null;
+  doc.descendants((node, pos) => {
+    if (found) return false;
+    if (!node.isTextblock) return true;
+    if (SKIPPED_BLOCKS.has(node.type.name)) return false;
+    let text = '';
+    node.forEach((child) => {
+      const linked = child.marks.some((mark) => mark.type.name === 'link');
+      text += child.isText && !linked ? child.text : '\u0000'.repeat(child.nodeSize);
+    });
+    const match = pattern.exec(text);
+    if (match) found = { from: pos + 1 + match.index, to: pos + 1 + match.index + match[0].length };
+    return false;
+  });
+  return found;
+}
+
+function buildDecorations(doc: ProseMirrorNode, suggestions: InternalLinkSuggestion[]): DecorationSet {
+  if (suggestions.length === 0) return DecorationSet.empty;
+  const decorations: Decoration[] = [];
+  for (const suggestion of suggestions) {
+    const range = findPhrase(doc, suggestion.phrase);
+    if (!range) continue;
+    const title = `Suggested link: ${suggestion.target.title}`;
+    decorations.push(
+      Decoration.inline(range.from, range.to, { class: 'internal-link-suggestion', title }),
+      Decoration.widget(
+        range.to,
+        () => {
+          const button = document.createElement('button');
+          button.type = 'button';
+          button.className = 'internal-link-suggestion__accept';
+          button.dataset.internalLink = suggestion.target.slug;
+          button.title = `Link to “${suggestion.target.title}”`;
+          button.textContent = '+ link';
+          return button;
+        },
+        { side: 1, key: `internal-link-${suggestion.target.slug}`, ignoreSelection: true }
+      )
+    );
+  }
+  return DecorationSet.create(doc, decorations);
+}
+
+/** Transaction that links a suggestion's phrase and drops the suggestion */
+function acceptSuggestion(state: EditorState, slug: string): Transaction | null {
+  const current = suggestionsKey.getState(state)?.suggestions ?? [];
+  const suggestion = current.find((item) => item.target.slug === slug);
+  const linkType = state.schema.marks.link;
+  const range = suggestion && findPhrase(state.doc, suggestion.phrase);
+  if (!suggestion || !range || !linkType) return null;
+  return state.tr
+    .addMark(range.from, range.to, linkType.create({ href: suggestion.target.url }))
+    .setMeta(suggestionsKey, current.filter((item) => item !== suggestion));
+}
+
+/**
+ * Highlights phrases that could link to other published posts, with an
+ * inline "+ link" button that wraps the phrase in a link. Suggestions come
+ * from suggestInternalLinks; the highlights are decorations only.
+ */
+export const InternalLinkSuggestions = Extension.create({
+  name: 'internalLinkSuggestions',
+
+  addCommands() {
+    return {
+      setInternalLinkSuggestions:
+        (suggestions) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) dispatch(tr.setMeta(suggestionsKey, suggestions));
+          return true;
+        },
+      acceptInternalLink:
+        (slug) =>
+        ({ state, dispatch }) => {
+          const tr = acceptSuggestion(state, slug);
+          if (!tr) return false;
+          if (dispatch) dispatch(tr);
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<SuggestionsState>({
+        key: suggestionsKey,
+        state: {
+          init: () => ({ suggestions: [], decorations: DecorationSet.empty }),
+          apply: (tr, value, _oldState, newState) => {
+            const next: InternalLinkSuggestion[] | undefined = tr.getMeta(suggestionsKey);
+            if (next) return { suggestions: next, decorations: buildDecorations(newState.doc, next) };
+            if (!tr.docChanged) return value;
+            return { ...value, decorations: buildDecorations(newState.doc, value.suggestions) };
+          },
+        },
+        props: {
+          decorations: (state) => suggestionsKey.getState(state)?.decorations,
+          handleDOMEvents: {
+            mousedown: (view, event) => {
+              const button = (event.target as HTMLElement | null)?.closest<HTMLElement>('[data-internal-link]');
+              if (!button || !view.editable) return false;
+              event.preventDefault();
+              const tr = acceptSuggestion(view.state, button.dataset.internalLink || '');
+              if (tr) view.dispatch(tr);
+              return true;
+            },
+          },
+        },
+      }),
+    ];
+  },
+});
+
+export default InternalLinkSuggestions;
@@ -0,0 +1,98 @@
+import { Extension } from '@tiptap/react';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import type { LinkCheckResult } from '@/types/admin';
+import { normalizeLinkUrl } from '@/lib/linkChecker';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    linkHealth: {
+      /** Replace the link check results shown in the document */
+      setLinkHealth: (results: LinkCheckResult[]) => ReturnType;
+    };
+  }
+}
+
+const linkHealthKey = new PluginKey<LinkHealthState>('linkHealth');
+
+interface LinkHealthState {
+  results: Map<string, LinkCheckResult>;
+  decorations: DecorationSet;
+}
+
+function describe(result: LinkCheckResult): { className: string; title: string } | null {
+  switch (result.state) {
+    case 'broken':
+      return {
+        className: 'link-health link-health--broken',
+        title: `Broken link${result.status ? ` (${result.status})` : ''}${result.error ? `: ${result.error}` : ''}`,
+      };
+    case 'redirect':
+      return { className: 'link-health link-health--redirect', title: `Redirects to ${result.finalUrl}` };
+    case 'error':
+      return { className: 'link-health link-health--error', title: `Could not check: ${result.error ?? 'request failed'}` };
+    default:
+      return null;
+  }
+}
+
+function buildDecorations(doc: ProseMirrorNode, results: Map<string, LinkCheckResult>): DecorationSet {
+  if (results.size === 0) return DecorationSet.empty;
+  const decorations: Decoration[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isText) return;
+    const link = node.marks.find((mark) => mark.type.name === 'link');
+    const result = link?.attrs.href ? results.get(normalizeLinkUrl(link.attrs.href) ?? '') : undefined;
+    const display = result && describe(result);
+    if (display) {
+      decorations.push(Decoration.inline(pos, pos + node.nodeSize, { class: display.className, title: display.title }));
+    }
+  });
+  return DecorationSet.create(doc, decorations);
+}
+
+/**
+ * Marks links in the editor with the outcome of the last link check:
+ * broken, redirecting, or not checkable. Decorations only, so nothing is
+ * saved into the body.
+ */
+export const LinkHealth = Extension.create({
+  name: 'linkHealth',
+
+  addCommands() {
+    return {
+      setLinkHealth:
+        (results) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) dispatch(tr.setMeta(linkHealthKey, results));
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<LinkHealthState>({
+        key: linkHealthKey,
+        state: {
+          init: () => ({ results: new Map(), decorations: DecorationSet.empty }),
+          apply: (tr, value, _oldState, newState) => {
+            const next: LinkCheckResult[] | undefined = tr.getMeta(linkHealthKey);
+            if (next) {
+              const results = new Map(next.map((result) => [result.url, result]));
+              return { results, decorations: buildDecorations(newState.doc, results) };
+            }
+            if (!tr.docChanged) return value;
+            return { ...value, decorations: buildDecorations(newState.doc, value.results) };
+          },
+        },
+        props: {
+          decorations: (state) => linkHealthKey.getState(state)?.decorations,
+        },
+      }),
+    ];
+  },
+});
+
+export default LinkHealth;
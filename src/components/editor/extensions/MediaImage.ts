@@ -0,0 +1,27 @@
+import Image from '@tiptap/extension-image';
+
+/**
+ * Inline image that remembers which media library asset it came from.
+ * Rendered as `<img data-media-id="…" data-caption="…">` so usage tracking
+ * can match it by id and renderContent can turn the caption into a
+ * figcaption.
+ */
+export const MediaImage = Image.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      mediaId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-media-id'),
+        renderHTML: (attributes) => (attributes.mediaId ? { 'data-media-id': attributes.mediaId } : {}),
+      },
+      caption: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-caption'),
+        renderHTML: (attributes) => (attributes.caption ? { 'data-caption': attributes.caption } : {}),
+      },
+    };
+  },
+});
+
+export default MediaImage;
@@ -0,0 +1,92 @@
+import { Mark, mergeAttributes } from '@tiptap/react';
+
+export interface ReviewCommentOptions {
+  HTMLAttributes: Record<string, unknown>;
+  /** Called when the user clicks inside an anchored range */
+  onSelectThread?: (threadId: string) => void;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    reviewComment: {
+      /** Anchor the current selection to a review thread */
+      setReviewComment: (threadId: string) => ReturnType;
+      /** Remove every anchor for a thread, wherever it is in the document */
+      unsetReviewComment: (threadId: string) => ReturnType;
+    };
+  }
+}
+
+/**
+ * Mark anchoring a review comment thread to a range of the document.
+ * Rendered as `<span data-review-thread="…">` so anchors survive a save and
+ * reload through contentHtml.
+ */
+export const ReviewComment = Mark.create<ReviewCommentOptions>({
+  name: 'reviewComment',
+
+  // Typing at the edge of a commented range should not extend the anchor
+  inclusive: false,
+  excludes: '',
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+      onSelectThread: undefined,
+    };
+  },
+
+  addAttributes() {
+    return {
+      threadId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-review-thread'),
+        renderHTML: (attributes) => ({ 'data-review-thread': attributes.threadId }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-review-thread]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes(this.options.HTMLAttributes, HTMLAttributes), 0];
+  },
+
+  addCommands() {
+    return {
+      setReviewComment:
+        (threadId) =>
+        ({ commands }) =>
+          commands.setMark(this.name, { threadId }),
+      unsetReviewComment:
+        (threadId) =>
+        ({ tr, state, dispatch }) => {
+          const markType = state.schema.marks[this.name];
+          let found = false;
+          state.doc.descendants((node, pos) => {
+            node.marks.forEach((mark) => {
+              if (mark.type === markType && mark.attrs.threadId === threadId) {
+                found = true;
+                tr.removeMark(pos, pos + node.nodeSize, mark);
+              }
+            });
+          });
+          if (found && dispatch) dispatch(tr);
+          return found;
+        },
+    };
+  },
+
+  onSelectionUpdate() {
+    const { onSelectThread } = this.options;
+    if (!onSelectThread) return;
+    const mark = this.editor.state.selection.$from.marks().find((m) => m.type.name === this.name);
+    if (mark?.attrs.threadId) {
+      onSelectThread(mark.attrs.threadId);
+    }
+  },
+});
+
+export default ReviewComment;
@@ -1,7 +1,6 @@
 import Link from 'next/link'
-import Image from 'next/image'
 import { HomepagePost } from '@/lib/homepageTypes'
-import { getImageUrlFromData } from '@/lib/imageHelpers'
+import ResponsiveImage from '@/components/ui/ResponsiveImage'
 import { getCategoryGradient } from '@/lib/colors'
 import CategoryPill from '../atoms/CategoryPill'
 import CompactListItem from './CompactListItem'
@@ -17,7 +16,6 @@ interface CategoryColumnProps {
 const CategoryColumn = ({ label, slug, lead, more }: CategoryColumnProps) => {
   if (!lead) return null
 
-  const imageUrl = getImageUrlFromData(lead.featuredImage, { preset: 'cover' })
   const gradient = getCategoryGradient(lead.category)
 
   return (
@@ -31,15 +29,13 @@ const CategoryColumn = ({ label, slug, lead, more }: CategoryColumnProps) => {
 
       <Link href={`/${lead.slug}`} className="group block mb-4">
         <div className={`relative aspect-[16/10] rounded-lg overflow-hidden bg-gradient-to-br ${gradient} mb-3`}>
-          {imageUrl ? (
-            <Image
-              src={imageUrl}
-              alt={lead.title}
-              fill
-              className="object-cover group-hover:scale-105 transition-transform duration-300"
-              sizes="(max-width: 1024px) 100vw, 33vw"
-            />
-          ) : null}
+          <ResponsiveImage
+            image={lead.featuredImage}
+            preset="card"
+            sizes="(max-width: 1024px) 100vw, 33vw"
+            alt={lead.title}
+            className="absolute inset-0 h-full w-full object-cover group-hover:scale-105 transition-transform duration-300"
+          />
         </div>
         {lead.category && (
           <div className="mb-2">
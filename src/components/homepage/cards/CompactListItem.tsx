@@ -1,8 +1,7 @@
 import Link from 'next/link'
-import Image from 'next/image'
 import { HomepagePost } from '@/lib/homepageTypes'
 import { formatDateShort } from '@/lib/dateUtils'
-import { getImageUrlFromData } from '@/lib/imageHelpers'
+import ResponsiveImage from '@/components/ui/ResponsiveImage'
 import { getCategoryGradient } from '@/lib/colors'
 import CategoryPill from '../atoms/CategoryPill'
 
@@ -20,9 +19,6 @@ const CompactListItem = ({
   index,
 }: CompactListItemProps) => {
   const dateLabel = post.publishedAt ? formatDateShort(post.publishedAt) : null
-  const imageUrl = showThumbnail
-    ? getImageUrlFromData(post.featuredImage, { preset: 'thumbSquare' })
-    : null
   const gradient = getCategoryGradient(post.category)
 
   return (
@@ -38,16 +34,13 @@ const CompactListItem = ({
         )}
         {showThumbnail && (
           <div className={`relative w-14 h-14 sm:w-16 sm:h-16 shrink-0 rounded overflow-hidden bg-gradient-to-br ${gradient}`}>
-            {imageUrl ? (
-              <Image
-                src={imageUrl}
-                alt=""
-                width={64}
-                height={64}
-                className="object-cover w-full h-full group-hover:scale-105 transition-transform duration-300"
-                unoptimized
-              />
-            ) : null}
+            <ResponsiveImage
+              image={post.featuredImage}
+              preset="thumbSquare"
+              sizes="64px"
+              alt=""
+              className="object-cover w-full h-full group-hover:scale-105 transition-transform duration-300"
+            />
           </div>
         )}
         <div className="flex-1 min-w-0">
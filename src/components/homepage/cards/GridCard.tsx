@@ -1,7 +1,6 @@
 import Link from 'next/link'
-import Image from 'next/image'
 import { HomepagePost } from '@/lib/homepageTypes'
-import { getImageUrlFromData } from '@/lib/imageHelpers'
+import ResponsiveImage from '@/components/ui/ResponsiveImage'
 import { getCategoryGradient } from '@/lib/colors'
 import CategoryPill from '../atoms/CategoryPill'
 import PostMeta from '../atoms/PostMeta'
@@ -11,22 +10,19 @@ interface GridCardProps {
 }
 
 const GridCard = ({ post }: GridCardProps) => {
-  const imageUrl = getImageUrlFromData(post.featuredImage, { preset: 'cover' })
   const gradient = getCategoryGradient(post.category)
 
   return (
     <Link href={`/${post.slug}`} className="group block h-full">
       <article className="h-full flex flex-col">
-        <div className={`relative aspect-[4/3] rounded-lg overflow-hidden bg-gradient-to-br ${gradient} mb-3`}>
-          {imageUrl ? (
-            <Image
-              src={imageUrl}
-              alt={post.title}
-              fill
-              className="object-cover group-hover:scale-105 transition-transform duration-300"
-              sizes="(max-width: 640px) 100vw, 25vw"
-            />
-          ) : null}
+        <div className={`relative aspect-[16/9] rounded-lg overflow-hidden bg-gradient-to-br ${gradient} mb-3`}>
+          <ResponsiveImage
+            image={post.featuredImage}
+            preset="card"
+            sizes="(max-width: 640px) 100vw, 25vw"
+            alt={post.title}
+            className="absolute inset-0 h-full w-full object-cover group-hover:scale-105 transition-transform duration-300"
+          />
         </div>
         {post.category && (
           <div className="mb-2">
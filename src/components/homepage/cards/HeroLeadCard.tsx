@@ -1,7 +1,6 @@
 import Link from 'next/link'
-import Image from 'next/image'
 import { HomepagePost } from '@/lib/homepageTypes'
-import { getImageUrlFromData } from '@/lib/imageHelpers'
+import ResponsiveImage from '@/components/ui/ResponsiveImage'
 import { getCategoryGradient } from '@/lib/colors'
 import CategoryPill from '../atoms/CategoryPill'
 import PostMeta from '../atoms/PostMeta'
@@ -12,7 +11,6 @@ interface HeroLeadCardProps {
 }
 
 const HeroLeadCard = ({ post, label = 'Hot Now' }: HeroLeadCardProps) => {
-  const imageUrl = getImageUrlFromData(post.featuredImage, { preset: 'cover' })
   const gradient = getCategoryGradient(post.category)
 
   return (
@@ -23,16 +21,14 @@ const HeroLeadCard = ({ post, label = 'Hot Now' }: HeroLeadCardProps) => {
       <Link href={`/${post.slug}`} className="group block">
         <div className="relative overflow-hidden rounded-xl">
           <div className={`aspect-[16/9] bg-gradient-to-br ${gradient} relative`}>
-            {imageUrl ? (
-              <Image
-                src={imageUrl}
-                alt={post.title}
-                fill
-                className="object-cover group-hover:scale-105 transition-transform duration-500"
-                sizes="(max-width: 1024px) 100vw, 66vw"
-                priority
-              />
-            ) : null}
+            <ResponsiveImage
+              image={post.featuredImage}
+              preset="hero"
+              sizes="(max-width: 1024px) 100vw, 66vw"
+              alt={post.title}
+              className="absolute inset-0 h-full w-full object-cover group-hover:scale-105 transition-transform duration-500"
+              priority
+            />
             <div className="absolute inset-0 bg-gradient-to-t from-brand-navy/90 via-brand-navy/20 to-transparent" />
             <div className="absolute bottom-0 left-0 right-0 p-5 lg:p-7">
               {post.category && (
@@ -1,7 +1,6 @@
 import Link from 'next/link'
-import Image from 'next/image'
 import { HomepagePost } from '@/lib/homepageTypes'
-import { getImageUrlFromData } from '@/lib/imageHelpers'
+import ResponsiveImage from '@/components/ui/ResponsiveImage'
 import { getCategoryGradient } from '@/lib/colors'
 import CategoryPill from '../atoms/CategoryPill'
 import PostMeta from '../atoms/PostMeta'
@@ -11,22 +10,19 @@ interface HeroSecondaryCardProps {
 }
 
 const HeroSecondaryCard = ({ post }: HeroSecondaryCardProps) => {
-  const imageUrl = getImageUrlFromData(post.featuredImage, { preset: 'cover' })
   const gradient = getCategoryGradient(post.category)
 
   return (
     <Link href={`/${post.slug}`} className="group block">
       <article className="flex gap-4">
         <div className={`relative w-28 h-20 sm:w-36 sm:h-24 shrink-0 rounded-lg overflow-hidden bg-gradient-to-br ${gradient}`}>
-          {imageUrl ? (
-            <Image
-              src={imageUrl}
-              alt={post.title}
-              fill
-              className="object-cover group-hover:scale-105 transition-transform duration-300"
-              sizes="144px"
-            />
-          ) : null}
+          <ResponsiveImage
+            image={post.featuredImage}
+            preset="card"
+            sizes="144px"
+            alt={post.title}
+            className="absolute inset-0 h-full w-full object-cover group-hover:scale-105 transition-transform duration-300"
+          />
         </div>
         <div className="flex-1 min-w-0">
           {post.category && (
@@ -3,6 +3,7 @@
 import Link from 'next/link';
 import { getAuthorUrl } from '@/lib/authorUtils';
 import { formatDateShort } from '@/lib/dateUtils';
+import ResponsiveImage from './ResponsiveImage';
 
 interface BlogPost {
   id: string;
@@ -16,6 +17,7 @@ interface BlogPost {
   category?: string;
   readTime?: string;
   status?: string;
+  featuredImage?: unknown;
 }
 
 interface BlogCardProps {
@@ -37,6 +39,17 @@ export default function BlogCard({ post, featured = false }: BlogCardProps) {
       <article className={`bg-white rounded-lg shadow-sm hover:shadow-md transition-all duration-300 cursor-pointer group ${
         featured ? 'border-l-4 border-blue-500' : ''
       }`}>
+        {post.featuredImage ? (
+          <div className="relative aspect-[16/9] overflow-hidden rounded-t-lg bg-gray-100">
+            <ResponsiveImage
+              image={post.featuredImage}
+              preset="card"
+              sizes="(max-width: 768px) 100vw, (max-width: 1024px) 50vw, 33vw"
+              alt={post.title}
+              className="absolute inset-0 h-full w-full object-cover group-hover:scale-105 transition-transform duration-300"
+            />
+          </div>
+        ) : null}
         <div className="p-6">
           {post.category && (
             <div className="mb-3">
@@ -0,0 +1,42 @@
+import { CloudinaryPresets } from '@/lib/cloudinaryUtils';
+import { getResponsiveImageFromData } from '@/lib/imageHelpers';
+import { cn } from '@/lib/utils';
+
+interface ResponsiveImageProps {
+  /** Featured image data (FeaturedImageRef, public_id or Cloudinary URL) */
+  image: unknown;
+  preset: keyof typeof CloudinaryPresets;
+  /** `sizes` attribute; should match the layout the image is shown in */
+  sizes: string;
+  alt: string;
+  className?: string;
+  /** Load eagerly with high fetch priority (above-the-fold images) */
+  priority?: boolean;
+}
+
+/**
+ * Cloudinary image with a srcset for the preset and the stored blur
+ * placeholder painted behind it until it loads. Renders nothing when the
+ * image has no public_id, so callers keep their fallback background.
+ */
+export default function ResponsiveImage({ image, preset, sizes, alt, className, priority = false }: ResponsiveImageProps) {
+  const source = getResponsiveImageFromData(image, preset, sizes);
+  if (!source) return null;
+
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={source.src}
+      srcSet={source.srcSet}
+      sizes={source.sizes}
+      width={source.width}
+      height={source.height}
+      alt={alt}
+      loading={priority ? 'eager' : 'lazy'}
+      fetchPriority={priority ? 'high' : undefined}
+      decoding="async"
+      className={cn('bg-cover bg-center', className)}
+      style={source.placeholder ? { backgroundImage: `url("${source.placeholder}")` } : undefined}
+    />
+  );
+}
@@ -1151,6 +1151,7 @@ export { default as Footer } from './Footer';
 // Article Components
 export { default as SuggestedArticles } from './SuggestedArticles';
 export { default as SocialShare } from './SocialShare';
+export { default as ResponsiveImage } from './ResponsiveImage';
 
 // Stats Card Component
 export interface StatsCardProps extends React.HTMLAttributes<HTMLDivElement> {
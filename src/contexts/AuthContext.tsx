@@ -45,6 +45,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           // Set auth token for API service
           const token = await firebaseUser.getIdToken();
           apiService.setAuthToken(token);
+
+          // Flush edits queued while offline now that we can authenticate
+          apiService.replayOutbox().catch((error) => console.error('Outbox replay failed:', error));
           
           // Fetch user data from API
           try {
@@ -135,6 +138,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
       } else {
         apiService.setAuthToken(null);
+        // Cached responses belong to the signed-out user. Queued edits are kept
+        // so an expired session doesn't lose them; logout() clears those.
+        try {
+          await apiService.clearCache();
+        } catch (error) {
+          console.warn('Failed to clear the response cache:', error);
+        }
         setUser(null);
       }
       
@@ -179,12 +189,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const logout = async () => {
+    const uid = auth.currentUser?.uid;
     try {
       await signOut(auth);
     } catch (error) {
       console.error('Logout error:', error);
       throw error;
     }
+    // Edits still queued offline by the user who chose to sign out go with them
+    try {
+      if (uid) await apiService.outbox.clear(uid);
+    } catch (error) {
+      console.warn('Failed to clear the offline outbox:', error);
+    }
   };
 
   const checkPermission = (permission: string): boolean => {
@@ -1,5 +1,8 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import apiService from '@/lib/apiService';
+import { recordRevision } from '@/lib/revisions';
+import { CollaborationSession, isCollaborationLeader } from '@/lib/collaboration';
+import type { Post } from '@/types/admin';
 
 interface AutoSaveOptions {
   interval?: number; // milliseconds
@@ -7,6 +10,16 @@ interface AutoSaveOptions {
   onSave?: (data: any) => Promise<void>;
   onError?: (error: Error) => void;
   onSuccess?: (data: any) => void;
+  recordRevisions?: boolean; // store a (throttled) post revision after each save
+  /**
+   * Shared editing session for the document. `sharedFields` hold the merged
+   * CRDT content and are saved only by the elected client; the others save
+   * just their own fields instead of overwriting the merged body.
+   */
+  collaboration?: {
+    session: CollaborationSession | null;
+    sharedFields: string[];
+  };
 }
 
 interface AutoSaveState {
@@ -27,7 +40,9 @@ export function useAutoSave<T>(
     enabled = true,
     onSave,
     onError,
-    onSuccess
+    onSuccess,
+    recordRevisions = false,
+    collaboration
   } = options;
 
   const [state, setState] = useState<Omit<AutoSaveState, 'manualSave'>>({
@@ -39,6 +54,12 @@ export function useAutoSave<T>(
 
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastSavedDataRef = useRef<string>('');
+  const lastSavedOwnFieldsRef = useRef<string>('');
+  // Read at save time so peers joining or leaving don't reschedule the save
+  const collaborationRef = useRef(collaboration);
+  useEffect(() => {
+    collaborationRef.current = collaboration;
+  });
   const isInitialMount = useRef(true);
 
   // Serialize data for comparison
@@ -60,17 +81,37 @@ export function useAutoSave<T>(
   const save = useCallback(async (dataToSave: T) => {
     if (!documentId || !enabled) return;
 
+    const collaboration = collaborationRef.current;
+    const session = collaboration?.session;
+    const isLeader = !session || isCollaborationLeader(session);
+    let payload = dataToSave;
+    if (!isLeader) {
+      const shared = new Set(collaboration!.sharedFields);
+      payload = Object.fromEntries(
+        Object.entries(dataToSave as Record<string, unknown>).filter(([key]) => !shared.has(key))
+      ) as T;
+    }
+    const ownFields = isLeader ? '' : serializeData(payload);
+
     setState(prev => ({ ...prev, isSaving: true, error: null }));
 
     try {
-      if (onSave) {
-        await onSave(dataToSave);
-      } else {
-        // Default save via API
-        await apiService.updatePost(documentId, {
-          ...dataToSave,
-          lastAutoSaved: new Date().toISOString()
-        });
+      // A follower whose own fields are unchanged has nothing to write
+      if (isLeader || ownFields !== lastSavedOwnFieldsRef.current) {
+        if (onSave) {
+          await onSave(payload);
+        } else {
+          // Default save via API
+          await apiService.updatePost(documentId, {
+            ...payload,
+            lastAutoSaved: new Date().toISOString()
+          });
+        }
+      }
+      lastSavedOwnFieldsRef.current = ownFields;
+
+      if (recordRevisions && isLeader) {
+        await recordRevision(documentId, dataToSave as Partial<Post>, 'autosave');
       }
 
       const now = new Date();
@@ -94,7 +135,7 @@ export function useAutoSave<T>(
       }));
       onError?.(error as Error);
     }
-  }, [documentId, enabled, onSave, onSuccess, onError, serializeData]);
+  }, [documentId, enabled, onSave, onSuccess, onError, serializeData, recordRevisions]);
 
   // Check for changes and schedule save
   useEffect(() => {
@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  COLLABORATION_SYNC_TIMEOUT_MS,
+  CollaborationPeer,
+  CollaborationSession,
+  CollaborationStatus,
+  colorForUser,
+  createCollaborationSession,
+  destroyCollaborationSession,
+  getCollaborationPeers,
+  getPostRoom,
+  isCollaborationAvailable,
+} from '@/lib/collaboration';
+
+/**
+ * 'unavailable': the sync server couldn't be reached. 'disabled': no sync
+ * server is configured for this environment.
+ */
+export type CollaborationState = CollaborationStatus | 'unavailable' | 'disabled';
+
+/**
+ * Join the collaborative editing session for a post.
+ *
+ * `session` stays null until the shared document has synced, so the editor
+ * never renders a half-loaded body. If the sync server can't be reached in
+ * time the hook gives up with status 'unavailable' and the editor works alone.
+ * Without a configured sync server the status is 'disabled' from the start.
+ */
+export function useCollaboration(postId: string | null | undefined, enabled: boolean = true) {
+  const { user, getToken } = useAuth();
+  const [session, setSession] = useState<CollaborationSession | null>(null);
+  const [peers, setPeers] = useState<CollaborationPeer[]>([]);
+
+  const uid = user?.uid;
+  const name = user?.name;
+  const avatar = user?.avatar;
+
+  // Status is tracked per post, so switching posts reads as 'connecting'
+  // right away instead of showing the previous post's state for a render
+  const available = isCollaborationAvailable();
+  const key = available && enabled && postId && uid ? `${postId}:${uid}` : null;
+  const [tracked, setTracked] = useState<{ key: string | null; status: CollaborationState }>({
+    key: null,
+    status: 'unavailable',
+  });
+  const status: CollaborationState = !available
+    ? 'disabled'
+    : key === null ? 'unavailable' : tracked.key === key ? tracked.status : 'connecting';
+
+  useEffect(() => {
+    if (!key || !postId || !uid) return;
+
+    let cancelled = false;
+    let current: CollaborationSession | null = null;
+    let unsubscribe: (() => void) | undefined;
+    const setStatus = (next: CollaborationState) => setTracked({ key, status: next });
+
+    const join = async () => {
+      const token = await getToken();
+      if (cancelled) return;
+
+      const joined = createCollaborationSession(
+        getPostRoom(postId),
+        { id: uid, name: name || 'Anonymous', color: colorForUser(uid), avatar },
+        { token }
+      );
+      current = joined;
+
+      const { awareness } = joined.provider;
+      const handleAwareness = () => setPeers(getCollaborationPeers(joined));
+      awareness.on('change', handleAwareness);
+      const stopStatus = joined.provider.onStatus((next) => {
+        if (!cancelled) setStatus(next);
+      });
+      unsubscribe = () => {
+        awareness.off('change', handleAwareness);
+        stopStatus();
+      };
+
+      const synced = await Promise.race([
+        joined.provider.whenSynced.then(() => true),
+        new Promise<boolean>((resolve) => setTimeout(() => resolve(false), COLLABORATION_SYNC_TIMEOUT_MS)),
+      ]);
+      if (cancelled) return;
+
+      if (!synced) {
+        console.warn('Collaboration server unreachable, editing without live sync:', joined.room);
+        unsubscribe();
+        destroyCollaborationSession(joined);
+        current = null;
+        setStatus('unavailable');
+        return;
+      }
+
+      setStatus('connected');
+      setSession(joined);
+      handleAwareness();
+    };
+
+    join().catch((error) => {
+      console.error('Error joining collaboration session:', error);
+      if (!cancelled) setStatus('unavailable');
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      if (current) destroyCollaborationSession(current);
+      setSession(null);
+      setPeers([]);
+    };
+    // getToken changes identity on every render of the auth provider
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, name, avatar]);
+
+  return {
+    session,
+    status,
+    peers,
+    /** False while the shared document is still loading */
+    ready: session !== null || status === 'unavailable' || status === 'disabled',
+  };
+}
@@ -0,0 +1,49 @@
+import { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { fetchLinkIndexRecords } from '@/lib/algolia';
+import {
+  InternalLinkIndex,
+  InternalLinkOptions,
+  buildInternalLinkIndex,
+  suggestInternalLinks,
+} from '@/lib/internalLinking';
+
+/**
+ * Internal link suggestions for a draft. The index of published posts is
+ * built once when the editor opens, from the search index's titles, tags
+ * and keyphrases rather than full posts; suggestions follow the content, a
+ * render behind typing.
+ */
+export function useInternalLinkSuggestions(contentHtml: string, options: InternalLinkOptions = {}) {
+  const [index, setIndex] = useState<InternalLinkIndex | null>(null);
+  const deferredContent = useDeferredValue(contentHtml);
+  const { currentSlug, maxLinks, siteUrl } = options;
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetchLinkIndexRecords(controller.signal)
+      .then((records) =>
+        setIndex(
+          buildInternalLinkIndex(
+            records.map((record) => ({
+              ...record,
+              publishedAt: record.publishedAt ? new Date(record.publishedAt) : undefined,
+            }))
+          )
+        )
+      )
+      .catch((err) => {
+        // Suggestions are optional; writing goes on without them
+        if (!controller.signal.aborted) console.warn('Internal link suggestions unavailable:', err);
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  const suggestions = useMemo(
+    () => (index ? suggestInternalLinks(deferredContent, index, { currentSlug, maxLinks, siteUrl }) : []),
+    [index, deferredContent, currentSlug, maxLinks, siteUrl]
+  );
+
+  return { suggestions, ready: index !== null };
+}
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import apiService from '@/lib/apiService';
+import { describeApiError } from '@/lib/api/errors';
+import { MediaUsageIndex, buildMediaUsageIndex } from '@/lib/mediaUsage';
+
+/**
+ * Index of which posts use which media assets, built once from every post
+ * (any status) when the media library opens
+ */
+export function useMediaUsage() {
+  const [index, setIndex] = useState<MediaUsageIndex | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    apiService.getEveryPost(undefined, { signal: controller.signal })
+      .then((posts) => {
+        setIndex(buildMediaUsageIndex(posts));
+        setError(null);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading media usage:', err);
+        setError(describeApiError(err, 'Could not check where media is used.'));
+      });
+
+    return () => controller.abort();
+  }, [reloadKey]);
+
+  const refresh = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return {
+    /** Null until every post has been scanned */
+    index,
+    loading: index === null && error === null,
+    error,
+    refresh,
+  };
+}
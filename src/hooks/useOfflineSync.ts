@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import apiService from '@/lib/apiService';
+import type { OutboxEntry } from '@/lib/api/outbox';
+import { useAuth } from '@/contexts/AuthContext';
+
+/**
+ * Hook exposing connectivity and the signed-in user's offline outbox to
+ * the admin UI
+ */
+export function useOfflineSync() {
+  const { user } = useAuth();
+  const [isOnline, setIsOnline] = useState(true);
+  const [allEntries, setEntries] = useState<OutboxEntry[]>([]);
+  const entries = allEntries.filter((entry) => entry.ownerUid === user?.uid);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    const unsubscribe = apiService.outbox.subscribe(setEntries);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      unsubscribe();
+    };
+  }, []);
+
+  const replay = useCallback(async () => {
+    setSyncing(true);
+    try {
+      await apiService.replayOutbox();
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  const resolve = useCallback(async (id: string, resolution: 'overwrite' | 'discard') => {
+    setSyncing(true);
+    try {
+      await apiService.resolveOutboxEntry(id, resolution);
+    } finally {
+      setSyncing(false);
+    }
+  }, []);
+
+  return {
+    isOnline,
+    syncing,
+    pending: entries.filter((entry) => entry.status === 'pending'),
+    needsAttention: entries.filter((entry) => entry.status !== 'pending'),
+    replay,
+    resolve,
+  };
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import apiService from '@/lib/apiService';
+import { useAuth } from '@/contexts/AuthContext';
+import { PostLock } from '@/types/admin';
+
+/** How often the holder extends the lock (the backend lets it lapse after ~2 missed beats) */
+export const POST_LOCK_HEARTBEAT_MS = 30 * 1000;
+
+/**
+ * Soft edit lock for a post opened in the editor.
+ *
+ * Every heartbeat tries to acquire the lock: it is extended while we hold
+ * it, taken over once someone else's lapses, and otherwise reports who holds
+ * it. Nothing is blocked — `lockedBy` only tells the editor someone else is
+ * working on the post. The lock is released when the editor closes.
+ */
+export function usePostLock(postId: string | null | undefined) {
+  const { user } = useAuth();
+  const [lock, setLock] = useState<PostLock | null>(null);
+  const uid = user?.uid;
+  // Whether a release is owed when the editor closes
+  const heldByMeRef = useRef(false);
+
+  useEffect(() => {
+    if (!postId || !uid) return;
+
+    let cancelled = false;
+
+    const heartbeat = async () => {
+      try {
+        const current = await apiService.acquirePostLock(postId);
+        if (cancelled) return;
+        heldByMeRef.current = current.holder.uid === uid;
+        setLock(current);
+      } catch (error) {
+        // Locking is advisory; a missed beat must never interrupt editing
+        console.warn('Post lock heartbeat failed:', error);
+      }
+    };
+
+    const release = () => {
+      if (!heldByMeRef.current) return;
+      heldByMeRef.current = false;
+      apiService.releasePostLock(postId, { keepalive: true }).catch((error) => {
+        console.warn('Failed to release post lock:', error);
+      });
+    };
+
+    heartbeat();
+    const interval = setInterval(heartbeat, POST_LOCK_HEARTBEAT_MS);
+    window.addEventListener('pagehide', release);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      window.removeEventListener('pagehide', release);
+      release();
+      setLock(null);
+    };
+  }, [postId, uid]);
+
+  const takeOver = useCallback(async () => {
+    if (!postId) return;
+    try {
+      const current = await apiService.acquirePostLock(postId, { force: true });
+      heldByMeRef.current = current.holder.uid === uid;
+      setLock(current);
+    } catch (error) {
+      console.error('Error taking over post lock:', error);
+    }
+  }, [postId, uid]);
+
+  // An expired lock is taken over by the next heartbeat, so holder is current
+  const lockedBy = lock && lock.holder.uid !== uid ? lock.holder : null;
+
+  return {
+    lock,
+    /** Someone else holding a live lock on the post */
+    lockedBy,
+    takeOver,
+  };
+}
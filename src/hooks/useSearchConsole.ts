@@ -204,14 +204,15 @@ export function useSitemapManagement() {
       
       const sitemapContent = await response.text();
       
-      // Basic XML validation
-      if (!sitemapContent.includes('<urlset') || !sitemapContent.includes('</urlset>')) {
+      // Basic XML validation; /sitemap.xml is an index of sitemap files
+      const isIndex = sitemapContent.includes('<sitemapindex') && sitemapContent.includes('</sitemapindex>');
+      if (!isIndex && (!sitemapContent.includes('<urlset') || !sitemapContent.includes('</urlset>'))) {
         throw new Error('Invalid sitemap format');
       }
 
       return {
         valid: true,
-        urlCount: (sitemapContent.match(/<url>/g) || []).length,
+        urlCount: (sitemapContent.match(isIndex ? /<sitemap>/g : /<url>/g) || []).length,
         lastGenerated: new Date().toISOString(),
       };
     } catch (err) {
@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import apiService from '@/lib/apiService';
+import { SiteSettings } from '@/types/admin';
+
+/**
+ * Hook for reading site settings in admin screens (served from the API
+ * response cache when fresh)
+ */
+export function useSiteSettings() {
+  const [settings, setSettings] = useState<SiteSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiService.getSettings()
+      .then((data) => {
+        if (!cancelled) setSettings(data);
+      })
+      .catch((error) => {
+        console.error('Error fetching settings:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return {
+    settings,
+    loading,
+    requiredApprovals: settings?.requiredApprovals ?? 0,
+  };
+}
@@ -0,0 +1,381 @@
+/**
+ * Accessibility audit for post bodies
+ *
+ * Works on the stored contentHtml with plain string scanning (no DOM), so
+ * the same rules run in the editor sidebar and in the batch report. Issues
+ * point at the nth tag of a name in the body; fixes rewrite that tag.
+ */
+
+import { escapeHtml, readTagAttributes } from '@/lib/embeds';
+
+export type AccessibilityRule = 'image-alt' | 'heading-order' | 'link-text' | 'table-headers' | 'color-contrast';
+
+export const ACCESSIBILITY_RULE_LABELS: Record<AccessibilityRule, string> = {
+  'image-alt': 'Missing alt text',
+  'heading-order': 'Heading levels',
+  'link-text': 'Link text',
+  'table-headers': 'Table headers',
+  'color-contrast': 'Color contrast',
+};
+
+export type AccessibilityFix =
+  | { type: 'set-alt'; alt: string }
+  | { type: 'set-heading-level'; level: number }
+  | { type: 'add-table-headers' }
+  | { type: 'remove-color' };
+
+export interface AccessibilityIssue {
+  rule: AccessibilityRule;
+  severity: 'error' | 'warning';
+  message: string;
+  /** Visible text around the problem, for locating it */
+  excerpt?: string;
+  /** The nth `<tag>` in the body (0-based) */
+  target: { tag: string; index: number };
+  /** Set for image issues */
+  image?: { src: string; mediaId?: string };
+  /** Fix that needs no input; image alt text is supplied by the editor */
+  fix?: AccessibilityFix;
+}
+
+/** Link texts that say nothing about the destination */
+const VAGUE_LINK_TEXT = new Set([
+  'click here',
+  'here',
+  'click',
+  'read more',
+  'more',
+  'learn more',
+  'this',
+  'this link',
+  'link',
+  'go',
+  'see more',
+  'details',
+]);
+
+/** WCAG AA for body text */
+const MIN_CONTRAST = 4.5;
+
+const NAMED_COLORS: Record<string, string> = {
+  white: '#ffffff',
+  black: '#000000',
+  red: '#ff0000',
+  green: '#008000',
+  blue: '#0000ff',
+  yellow: '#ffff00',
+  orange: '#ffa500',
+  gray: '#808080',
+  grey: '#808080',
+  silver: '#c0c0c0',
+  lightgray: '#d3d3d3',
+  lightgrey: '#d3d3d3',
+  pink: '#ffc0cb',
+  cyan: '#00ffff',
+  aqua: '#00ffff',
+  lime: '#00ff00',
+  gold: '#ffd700',
+  beige: '#f5f5dc',
+};
+
+const OPENING_TAG = /<([a-z][a-z0-9]*)\b(?:[^>"']|"[^"]*"|'[^']*')*>/gi;
+
+const stripTags = (html: string) =>
+  html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const excerptOf = (text: string, max = 60) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+interface TagMatch {
+  name: string;
+  start: number;
+  /** Index just past the opening tag */
+  end: number;
+  source: string;
+  /** Position among tags of the same name */
+  index: number;
+}
+
+function openingTags(html: string): TagMatch[] {
+  const counts = new Map<string, number>();
+  const tags: TagMatch[] = [];
+  for (const match of html.matchAll(OPENING_TAG)) {
+    const name = match[1].toLowerCase();
+    const index = counts.get(name) ?? 0;
+    counts.set(name, index + 1);
+    tags.push({ name, start: match.index!, end: match.index! + match[0].length, source: match[0], index });
+  }
+  return tags;
+}
+
+function findTag(html: string, tag: string, index: number): TagMatch | null {
+  return openingTags(html).find((match) => match.name === tag && match.index === index) ?? null;
+}
+
+/** Inner HTML up to the matching close of a non-nesting element */
+function innerHtml(html: string, tag: TagMatch): string {
+  const close = html.indexOf(`</${tag.name}>`, tag.end);
+  return close === -1 ? '' : html.slice(tag.end, close);
+}
+
+// ============================================================================
+// COLOR CONTRAST
+// ============================================================================
+
+function parseColor(value: string): [number, number, number] | null {
+  let color = value.trim().toLowerCase();
+  if (NAMED_COLORS[color]) color = NAMED_COLORS[color];
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map((d) => d + d).join('') : hex[1];
+    return [0, 2, 4].map((offset) => parseInt(digits.slice(offset, offset + 2), 16)) as [number, number, number];
+  }
+
+  const rgb = color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/);
+  if (rgb) return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+
+  return null;
+}
+
+function luminance([r, g, b]: [number, number, number]): number {
+  const channel = (value: number) => {
+    const c = value / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+/** WCAG contrast ratio between two colors, 1–21 */
+export function contrastRatio(foreground: string, background: string): number | null {
+  const fg = parseColor(foreground);
+  const bg = parseColor(background);
+  if (!fg || !bg) return null;
+  const [light, dark] = [luminance(fg), luminance(bg)].sort((a, b) => b - a);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+function styleDeclarations(style: string): Map<string, string> {
+  const declarations = new Map<string, string>();
+  for (const part of style.split(';')) {
+    const colon = part.indexOf(':');
+    if (colon === -1) continue;
+    declarations.set(part.slice(0, colon).trim().toLowerCase(), part.slice(colon + 1).trim());
+  }
+  return declarations;
+}
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+
+/**
+ * Turn an image file name into draft alt text, e.g.
+ * ".../founder-jane_doe-2024.jpg" → "Founder jane doe". Editors should
+ * still review it.
+ */
+export function suggestAltFromSource(src: string): string {
+  const name = decodeURIComponent(src.split(/[?#]/)[0].split('/').pop() || '')
+    .replace(/\.[a-z0-9]+$/i, '')
+    .replace(/[-_]+/g, ' ')
+    .replace(/\b(img|image|photo|dsc|screenshot)\b/gi, '')
+    .replace(/\b\d{2,}\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return name ? name.charAt(0).toUpperCase() + name.slice(1) : '';
+}
+
+/**
+ * Accessibility problems in a post body, in document order
+ *
+ * @param html - Post contentHtml
+ */
+export function auditAccessibility(html: string | undefined): AccessibilityIssue[] {
+  if (!html) return [];
+  const issues: AccessibilityIssue[] = [];
+  // The post title renders as the page's H1
+  let previousLevel = 1;
+
+  for (const tag of openingTags(html)) {
+    const attributes = readTagAttributes(tag.source);
+    const target = { tag: tag.name, index: tag.index };
+
+    if (tag.name === 'img') {
+      if (!attributes.alt?.trim()) {
+        const src = attributes.src || '';
+        issues.push({
+          rule: 'image-alt',
+          severity: 'error',
+          message: 'Image has no alt text',
+          excerpt: excerptOf(src.split('/').pop() || src),
+          target,
+          image: { src, mediaId: attributes['data-media-id'] || undefined },
+        });
+      }
+    }
+
+    const heading = tag.name.match(/^h([1-6])$/);
+    if (heading) {
+      const level = Number(heading[1]);
+      const excerpt = excerptOf(stripTags(innerHtml(html, tag)));
+      if (level === 1) {
+        issues.push({
+          rule: 'heading-order',
+          severity: 'warning',
+          message: 'H1 inside the body; the post title is already the H1',
+          excerpt,
+          target,
+          fix: { type: 'set-heading-level', level: 2 },
+        });
+      } else if (level > previousLevel + 1) {
+        issues.push({
+          rule: 'heading-order',
+          severity: 'warning',
+          message: `Heading level skipped (H${previousLevel} → H${level})`,
+          excerpt,
+          target,
+          fix: { type: 'set-heading-level', level: previousLevel + 1 },
+        });
+      }
+      previousLevel = level;
+    }
+
+    if (tag.name === 'a' && attributes.href) {
+      const inner = innerHtml(html, tag);
+      const imageAlt = Array.from(inner.matchAll(/<img\b[^>]*>/gi), (img) => readTagAttributes(img[0]).alt || '').join(' ');
+      const text = `${stripTags(inner)} ${imageAlt}`.trim();
+      const normalized = text.toLowerCase().replace(/[.!?:…→»›]+$/g, '').trim();
+      if (!text) {
+        issues.push({ rule: 'link-text', severity: 'error', message: 'Link has no text', excerpt: attributes.href, target });
+      } else if (VAGUE_LINK_TEXT.has(normalized)) {
+        issues.push({
+          rule: 'link-text',
+          severity: 'warning',
+          message: `"${text}" doesn't say where the link goes`,
+          excerpt: attributes.href,
+          target,
+        });
+      }
+    }
+
+    if (tag.name === 'table') {
+      const close = html.indexOf('</table>', tag.end);
+      const table = close === -1 ? '' : html.slice(tag.end, close);
+      if (!/<th\b/i.test(table)) {
+        issues.push({
+          rule: 'table-headers',
+          severity: 'warning',
+          message: 'Table has no header cells',
+          excerpt: excerptOf(stripTags(table)),
+          target,
+          fix: { type: 'add-table-headers' },
+        });
+      }
+    }
+
+    if (attributes.style) {
+      const style = styleDeclarations(attributes.style);
+      const color = style.get('color');
+      if (color) {
+        const background = style.get('background-color') || style.get('background') || '#ffffff';
+        const ratio = contrastRatio(color, background);
+        if (ratio !== null && ratio < MIN_CONTRAST) {
+          issues.push({
+            rule: 'color-contrast',
+            severity: ratio < 3 ? 'error' : 'warning',
+            message: `Text color ${color} has ${ratio.toFixed(1)}:1 contrast (needs ${MIN_CONTRAST}:1)`,
+            excerpt: excerptOf(stripTags(innerHtml(html, tag))),
+            target,
+            fix: { type: 'remove-color' },
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// FIXES
+// ============================================================================
+
+function replaceOpeningTag(source: string, name: string, update: (attributes: string) => string): string {
+  const match = source.match(/^<[a-z][a-z0-9]*\b([\s\S]*?)(\/?)>$/i);
+  if (!match) return source;
+  return `<${name}${update(match[1])}${match[2]}>`;
+}
+
+/**
+ * Apply a fix to the issue's target and return the new body. Returns the
+ * body unchanged when the target is gone (the body was edited meanwhile).
+ */
+export function applyAccessibilityFix(html: string, issue: AccessibilityIssue, fix: AccessibilityFix): string {
+  const tag = findTag(html, issue.target.tag, issue.target.index);
+  if (!tag) return html;
+  const before = html.slice(0, tag.start);
+  const after = html.slice(tag.end);
+
+  switch (fix.type) {
+    case 'set-alt': {
+      const opening = replaceOpeningTag(tag.source, tag.name, (attributes) =>
+        `${attributes.replace(/\s+alt\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i, '')} alt="${escapeHtml(fix.alt.trim())}"`
+      );
+      return before + opening + after;
+    }
+
+    case 'set-heading-level': {
+      const close = after.indexOf(`</${tag.name}>`);
+      if (close === -1) return html;
+      const name = `h${fix.level}`;
+      const opening = replaceOpeningTag(tag.source, name, (attributes) => attributes);
+      return `${before}${opening}${after.slice(0, close)}</${name}>${after.slice(close + tag.name.length + 3)}`;
+    }
+
+    case 'add-table-headers': {
+      const rowStart = after.search(/<tr\b/i);
+      const rowEnd = after.indexOf('</tr>', rowStart);
+      if (rowStart === -1 || rowEnd === -1) return html;
+      const row = after
+        .slice(rowStart, rowEnd)
+        .replace(/<td\b/gi, '<th')
+        .replace(/<\/td>/gi, '</th>');
+      return before + tag.source + after.slice(0, rowStart) + row + after.slice(rowEnd);
+    }
+
+    case 'remove-color': {
+      const opening = replaceOpeningTag(tag.source, tag.name, (attributes) =>
+        attributes.replace(/\sstyle\s*=\s*("([^"]*)"|'([^']*)')/i, (_match, _quoted, double, single) => {
+          const rest = String(double ?? single ?? '')
+            .split(';')
+            .filter((part) => part.trim() && !/^\s*color\s*:/i.test(part))
+            .join(';')
+            .trim();
+          return rest ? ` style="${rest}"` : '';
+        })
+      );
+      return before + opening + after;
+    }
+  }
+}
+
+/** Issue counts per rule */
+export function summarizeAccessibility(issues: AccessibilityIssue[]): Record<AccessibilityRule, number> {
+  const summary: Record<AccessibilityRule, number> = {
+    'image-alt': 0,
+    'heading-order': 0,
+    'link-text': 0,
+    'table-headers': 0,
+    'color-contrast': 0,
+  };
+  for (const issue of issues) summary[issue.rule]++;
+  return summary;
+}
@@ -42,6 +42,43 @@ export async function searchPosts(query: string, hitsPerPage: number = 10) {
   }
 }
 
+// Link-index record: the few fields internal link suggestions need
+export interface AlgoliaLinkRecord {
+  slug: string;
+  title: string;
+  tags?: string[];
+  category?: string;
+  focusKeyphrase?: string;
+  publishedAt?: number;
+}
+
+// Fetch every published post's link-index fields in one request, without
+// bodies. Algolia caps a query at 1000 hits, newest first by index ranking.
+export async function fetchLinkIndexRecords(signal?: AbortSignal): Promise<AlgoliaLinkRecord[]> {
+  const response = await fetch(`${ALGOLIA_URL}/1/indexes/${ALGOLIA_INDEX_NAME}/query`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Algolia-Application-Id': ALGOLIA_APP_ID,
+      'X-Algolia-API-Key': ALGOLIA_API_KEY,
+    },
+    body: JSON.stringify({
+      query: '',
+      hitsPerPage: 1000,
+      attributesToRetrieve: ['slug', 'title', 'tags', 'category', 'focusKeyphrase', 'publishedAt'],
+      attributesToHighlight: [],
+      attributesToSnippet: [],
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Algolia API error: ${response.status}`);
+  }
+  const data = await response.json();
+  return data.hits || [];
+}
+
 // Index a post to Algolia
 export async function indexPost(post: {
   objectID: string;
@@ -54,6 +91,7 @@ export async function indexPost(post: {
   publishedAt?: any;
   featuredImage?: any;
   tags?: string[];
+  focusKeyphrase?: string;
 }) {
   try {
     const postData = {
@@ -67,6 +105,7 @@ export async function indexPost(post: {
       publishedAt: post.publishedAt?.toMillis?.() || post.publishedAt?.getTime?.() || Date.now(),
       featuredImage: getImageUrlFromData(post.featuredImage, { preset: 'cover' }) || '',
       tags: post.tags || [],
+      focusKeyphrase: post.focusKeyphrase || '',
     };
 
     const response = await fetch(`${ALGOLIA_URL}/1/indexes/${ALGOLIA_INDEX_NAME}`, {
@@ -119,6 +158,7 @@ export async function bulkIndexPosts(posts: Array<{
   publishedAt?: any;
   featuredImage?: any;
   tags?: string[];
+  focusKeyphrase?: string;
 }>) {
   try {
     const objects = posts.map(post => ({
@@ -132,6 +172,7 @@ export async function bulkIndexPosts(posts: Array<{
       publishedAt: post.publishedAt?.toMillis?.() || post.publishedAt?.getTime?.() || Date.now(),
       featuredImage: getImageUrlFromData(post.featuredImage, { preset: 'cover' }) || '',
       tags: post.tags || [],
+      focusKeyphrase: post.focusKeyphrase || '',
     }));
 
     // Use saveObjects for bulk indexing (simpler API)
@@ -0,0 +1,98 @@
+/**
+ * Stale-while-revalidate cache for ApiService GET requests
+ *
+ * Responses are stored (already schema-normalized) in IndexedDB with a
+ * per-endpoint TTL. Fresh entries are served without a network call; stale
+ * entries are served immediately while a background request refreshes them.
+ */
+
+import { createStore, KeyValueStore, STORES } from './idb';
+
+export interface CacheEntry<T = unknown> {
+  key: string;
+  data: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * TTLs for cacheable endpoints, first match wins. Endpoints not listed here
+ * are never cached. Single-post admin reads (`/posts/admin/:id`,
+ * `/posts/admin/slug/:slug`) are deliberately left out: the editor takes its
+ * conflict-detection baseline from them, so they must come from the server.
+ */
+export const CACHE_TTLS: Array<{ pattern: RegExp; ttlMs: number }> = [
+  { pattern: /^\/posts\/admin\/stats/, ttlMs: 30 * 1000 },
+  { pattern: /^\/posts\/admin\/all/, ttlMs: 60 * 1000 },
+  { pattern: /^\/media(\?|$)/, ttlMs: 5 * 60 * 1000 },
+  { pattern: /^\/redirects(\?|$)/, ttlMs: 5 * 60 * 1000 },
+  { pattern: /^\/users(\?|$)/, ttlMs: 5 * 60 * 1000 },
+  { pattern: /^\/settings/, ttlMs: 10 * 60 * 1000 },
+];
+
+export function resolveCacheTtl(endpoint: string): number | null {
+  const rule = CACHE_TTLS.find(({ pattern }) => pattern.test(endpoint));
+  return rule ? rule.ttlMs : null;
+}
+
+/**
+ * Top-level resource of an endpoint, e.g. `/posts/abc/view` → `/posts`.
+ * A successful mutation invalidates every cached response under it.
+ */
+export function resourcePrefix(endpoint: string): string {
+  const [path] = endpoint.split('?');
+  const [, resource = ''] = path.split('/');
+  return `/${resource}`;
+}
+
+export class ResponseCache {
+  private readonly store: KeyValueStore<CacheEntry>;
+
+  constructor(store: KeyValueStore<CacheEntry> = createStore<CacheEntry>(STORES.responses)) {
+    this.store = store;
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      return (await this.store.get(key)) as CacheEntry<T> | undefined;
+    } catch (error) {
+      console.warn('Response cache read failed:', error);
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, data: T, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    try {
+      await this.store.put(key, { key, data, storedAt: now, expiresAt: now + ttlMs });
+    } catch (error) {
+      // Quota errors and the like should never fail the request itself
+      console.warn('Response cache write failed:', error);
+    }
+  }
+
+  async invalidate(prefix: string): Promise<void> {
+    try {
+      const entries = await this.store.getAll();
+      await Promise.all(
+        entries
+          .filter((entry) => entry.key === prefix || entry.key.startsWith(`${prefix}/`) || entry.key.startsWith(`${prefix}?`))
+          .map((entry) => this.store.delete(entry.key))
+      );
+    } catch (error) {
+      console.warn('Response cache invalidation failed:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await this.store.clear();
+    } catch (error) {
+      console.warn('Response cache clear failed:', error);
+    }
+  }
+}
+
+export function isFresh(entry: CacheEntry, now: number = Date.now()): boolean {
+  return entry.expiresAt > now;
+}
@@ -0,0 +1,229 @@
+/**
+ * API error types
+ *
+ * Every failure raised by ApiService is an ApiError subclass, so callers can
+ * branch with `instanceof` instead of matching on message strings.
+ */
+
+export interface ApiErrorDetails {
+  /** Endpoint label, e.g. `GET /posts/admin/all` */
+  endpoint: string;
+  /** HTTP status, when the server responded */
+  status?: number;
+  /** Machine-readable code from the backend error envelope */
+  code?: string;
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly endpoint: string;
+  readonly status?: number;
+  readonly code?: string;
+  /** Whether retrying the same request could succeed */
+  readonly retryable: boolean = false;
+
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message);
+    this.name = 'ApiError';
+    this.endpoint = details.endpoint;
+    this.status = details.status;
+    this.code = details.code;
+    if (details.cause !== undefined) {
+      (this as { cause?: unknown }).cause = details.cause;
+    }
+  }
+}
+
+/** The request never reached the server (offline, DNS, CORS) */
+export class NetworkError extends ApiError {
+  override readonly retryable = true;
+
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details);
+    this.name = 'NetworkError';
+  }
+}
+
+/** No response within the per-call timeout */
+export class TimeoutError extends ApiError {
+  override readonly retryable = true;
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, details: ApiErrorDetails) {
+    super(`Request to ${details.endpoint} timed out after ${timeoutMs}ms`, details);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** 401 — missing or expired credentials */
+export class AuthError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details);
+    this.name = 'AuthError';
+  }
+}
+
+/** 403 — authenticated but not allowed */
+export class ForbiddenError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/** 404 */
+export class NotFoundError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** 400 / 422 — the backend rejected the payload */
+export class ValidationError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * 409/412 — the write was based on an outdated copy of the resource and the
+ * server refused to overwrite a newer version
+ */
+export class ConflictError extends ApiError {
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message, details);
+    this.name = 'ConflictError';
+  }
+}
+
+/** 429 */
+export class RateLimitedError extends ApiError {
+  override readonly retryable = true;
+  /** Delay requested by the server's `Retry-After` header */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: ApiErrorDetails & { retryAfterMs?: number }) {
+    super(message, details);
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/** 5xx — includes Railway cold starts (502/503/504) */
+export class ServerError extends ApiError {
+  override readonly retryable = true;
+  /** Delay requested by the server's `Retry-After` header (503) */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: ApiErrorDetails & { retryAfterMs?: number }) {
+    super(message, details);
+    this.name = 'ServerError';
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/**
+ * Thrown when a backend response does not match the schema declared for
+ * its endpoint. Surfaces backend drift as a clear error instead of a UI
+ * that silently renders `undefined`.
+ */
+export class ApiContractError extends ApiError {
+  /** Dotted path to the offending field, e.g. `posts[3].author.name` */
+  readonly field: string;
+  readonly expected: string;
+  readonly received: string;
+  /** Number of path segments below the response root */
+  readonly depth: number;
+
+  constructor(details: {
+    endpoint: string;
+    path: Array<string | number>;
+    expected: string;
+    received: string;
+  }) {
+    const field = formatFieldPath(details.path);
+    super(
+      `API contract violation at ${details.endpoint}: ` +
+      `${field} expected ${details.expected}, received ${details.received}`,
+      { endpoint: details.endpoint }
+    );
+    this.name = 'ApiContractError';
+    this.field = field;
+    this.expected = details.expected;
+    this.received = details.received;
+    this.depth = details.path.length;
+  }
+}
+
+function formatFieldPath(path: Array<string | number>): string {
+  if (path.length === 0) return '(response)';
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === 'number') return `${acc}[${segment}]`;
+    return acc ? `${acc}.${segment}` : segment;
+  }, '');
+}
+
+/**
+ * Map an HTTP error response to the matching ApiError subclass
+ */
+export function createHttpError(
+  status: number,
+  message: string,
+  details: ApiErrorDetails & { retryAfterMs?: number }
+): ApiError {
+  const withStatus = { ...details, status };
+  if (status === 401) return new AuthError(message, withStatus);
+  if (status === 403) return new ForbiddenError(message, withStatus);
+  if (status === 404) return new NotFoundError(message, withStatus);
+  if (status === 409 || status === 412) return new ConflictError(message, withStatus);
+  if (status === 429) return new RateLimitedError(message, withStatus);
+  if (status >= 500) return new ServerError(message, withStatus);
+  if (status === 400 || status === 422) return new ValidationError(message, withStatus);
+  return new ApiError(message, withStatus);
+}
+
+/**
+ * Human-readable message for showing an API failure to an editor
+ *
+ * @param error - Anything thrown by ApiService
+ * @param fallback - Used for errors that carry no useful message
+ */
+export function describeApiError(error: unknown, fallback: string = 'Something went wrong. Please try again.'): string {
+  if (error instanceof NetworkError) {
+    return "Can't reach the server. Check your connection and try again.";
+  }
+  if (error instanceof TimeoutError) {
+    return 'The server is taking too long to respond. It may be starting up — please try again in a moment.';
+  }
+  if (error instanceof AuthError) {
+    return 'Your session has expired. Please log out and log back in.';
+  }
+  if (error instanceof ForbiddenError) {
+    return "You don't have permission to do that.";
+  }
+  if (error instanceof NotFoundError) {
+    return 'The requested item no longer exists.';
+  }
+  if (error instanceof ConflictError) {
+    return 'Someone else saved this item after you opened it.';
+  }
+  if (error instanceof RateLimitedError) {
+    const seconds = error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : null;
+    return seconds
+      ? `Too many requests. Please wait ${seconds}s and try again.`
+      : 'Too many requests. Please wait a moment and try again.';
+  }
+  if (error instanceof ServerError) {
+    return `The server ran into a problem (${error.status}). Please try again shortly.`;
+  }
+  if (error instanceof ApiContractError) {
+    return 'The server returned data in an unexpected format. Please report this to the dev team.';
+  }
+  if (error instanceof ApiError) {
+    return error.message || fallback;
+  }
+  return fallback;
+}
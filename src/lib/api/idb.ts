@@ -0,0 +1,117 @@
+/**
+ * Minimal promise wrapper around the browser's IndexedDB
+ *
+ * Backs the API response cache and the offline outbox. When IndexedDB is
+ * unavailable (SSR, private browsing in some browsers) an in-memory map is
+ * used instead so callers never need to branch.
+ */
+
+const DB_NAME = 'techblit-admin';
+const DB_VERSION = 1;
+
+export const STORES = {
+  responses: 'responses',
+  outbox: 'outbox',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+export interface KeyValueStore<T> {
+  get(key: string): Promise<T | undefined>;
+  getAll(): Promise<T[]>;
+  put(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of Object.values(STORES)) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store);
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function wrap<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+class IndexedDbStore<T> implements KeyValueStore<T> {
+  constructor(private readonly storeName: StoreName) {}
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await openDatabase();
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    return wrap<T | undefined>((await this.store('readonly')).get(key));
+  }
+
+  async getAll(): Promise<T[]> {
+    return wrap<T[]>((await this.store('readonly')).getAll());
+  }
+
+  async put(key: string, value: T): Promise<void> {
+    await wrap((await this.store('readwrite')).put(value, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await wrap((await this.store('readwrite')).delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await wrap((await this.store('readwrite')).clear());
+  }
+}
+
+class MemoryStore<T> implements KeyValueStore<T> {
+  private readonly entries = new Map<string, T>();
+
+  async get(key: string) {
+    return this.entries.get(key);
+  }
+
+  async getAll() {
+    return Array.from(this.entries.values());
+  }
+
+  async put(key: string, value: T) {
+    this.entries.set(key, value);
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  async clear() {
+    this.entries.clear();
+  }
+}
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof window !== 'undefined' && typeof indexedDB !== 'undefined';
+}
+
+export function createStore<T>(storeName: StoreName): KeyValueStore<T> {
+  return isIndexedDbAvailable() ? new IndexedDbStore<T>(storeName) : new MemoryStore<T>();
+}
@@ -0,0 +1,141 @@
+/**
+ * Persistent outbox for mutations made while offline
+ *
+ * Queued requests survive reloads (IndexedDB) and are replayed in order by
+ * ApiService once the connection returns, under the account that queued
+ * them. Entries that fail on replay stay in the outbox as `conflict` or
+ * `failed` so an editor can decide what to do.
+ */
+
+import { createStore, KeyValueStore, STORES } from './idb';
+
+export type OutboxStatus = 'pending' | 'conflict' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  /** Human-readable description, e.g. `Update post "Hello world"` */
+  label: string;
+  /** uid of the user who queued it; only their session replays it */
+  ownerUid: string;
+  endpoint: string;
+  method: string;
+  body?: string;
+  createdAt: number;
+  status: OutboxStatus;
+  attempts: number;
+  /**
+   * Optimistic-concurrency check run before replay: if the resource at
+   * `endpoint` was updated after `baseUpdatedAt`, the entry becomes a
+   * conflict instead of overwriting someone else's change.
+   */
+  conflictCheck?: {
+    endpoint: string;
+    /** ISO timestamp of the `updatedAt` the editor started from */
+    baseUpdatedAt: string;
+  };
+  /** Server copy captured when a conflict was detected */
+  serverVersion?: unknown;
+  error?: string;
+}
+
+/**
+ * The entry with a different conflict base, or none. The base is also the
+ * `baseUpdatedAt` field of a JSON body (see ApiService.updatePost), which
+ * the backend checks on its side.
+ */
+export function rebaseOutboxEntry(entry: OutboxEntry, baseUpdatedAt: string | null): OutboxEntry {
+  let body = entry.body;
+  try {
+    const parsed: unknown = body ? JSON.parse(body) : null;
+    if (parsed && typeof parsed === 'object' && 'baseUpdatedAt' in parsed) {
+      const next: Record<string, unknown> = { ...parsed };
+      delete next.baseUpdatedAt;
+      if (baseUpdatedAt) next.baseUpdatedAt = baseUpdatedAt;
+      body = JSON.stringify(next);
+    }
+  } catch {
+    // Not JSON; only the replay check changes
+  }
+  return {
+    ...entry,
+    body,
+    conflictCheck: entry.conflictCheck && baseUpdatedAt ? { ...entry.conflictCheck, baseUpdatedAt } : undefined,
+  };
+}
+
+type Listener = (entries: OutboxEntry[]) => void;
+
+export class Outbox {
+  private readonly store: KeyValueStore<OutboxEntry>;
+  private readonly listeners = new Set<Listener>();
+
+  constructor(store: KeyValueStore<OutboxEntry> = createStore<OutboxEntry>(STORES.outbox)) {
+    this.store = store;
+  }
+
+  /** All entries, oldest first */
+  async list(): Promise<OutboxEntry[]> {
+    try {
+      const entries = await this.store.getAll();
+      return entries.sort((a, b) => a.createdAt - b.createdAt);
+    } catch (error) {
+      console.warn('Outbox read failed:', error);
+      return [];
+    }
+  }
+
+  async enqueue(
+    entry: Omit<OutboxEntry, 'id' | 'createdAt' | 'status' | 'attempts'>
+  ): Promise<OutboxEntry> {
+    const createdAt = Date.now();
+    const queued: OutboxEntry = {
+      ...entry,
+      id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt,
+      status: 'pending',
+      attempts: 0,
+    };
+    await this.store.put(queued.id, queued);
+    await this.notify();
+    return queued;
+  }
+
+  async update(entry: OutboxEntry): Promise<void> {
+    await this.store.put(entry.id, entry);
+    await this.notify();
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.store.delete(id);
+    await this.notify();
+  }
+
+  /** Drop every entry, or only those queued by `ownerUid` */
+  async clear(ownerUid?: string): Promise<void> {
+    if (ownerUid === undefined) {
+      await this.store.clear();
+    } else {
+      const owned = (await this.list()).filter((entry) => entry.ownerUid === ownerUid);
+      await Promise.all(owned.map((entry) => this.store.delete(entry.id)));
+    }
+    await this.notify();
+  }
+
+  /**
+   * Subscribe to outbox changes. The listener is called immediately with
+   * the current entries. Returns an unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    this.list().then(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+    const entries = await this.list();
+    this.listeners.forEach((listener) => listener(entries));
+  }
+}
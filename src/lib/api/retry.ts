@@ -0,0 +1,117 @@
+/**
+ * Retry policy for ApiService requests
+ *
+ * Exponential backoff with jitter for transient failures (network drops,
+ * timeouts, 5xx from Railway cold starts), honoring `Retry-After` on 429/503.
+ */
+
+import { ApiError, RateLimitedError, ServerError } from './errors';
+
+export interface RetryPolicy {
+  /** Retries after the first attempt; 0 disables retrying */
+  retries: number;
+  /** Delay before the first retry */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+  /** Fraction of each delay that is randomized (0 = none, 1 = full jitter) */
+  jitter: number;
+  /** Longest `Retry-After` we are willing to wait before giving up */
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: 0.5,
+  maxRetryAfterMs: 30000,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+export function isIdempotentMethod(method: string = 'GET'): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Delay before retry number `attempt` (1-based)
+ */
+export function computeBackoffDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+  return Math.round(exponential * (1 - jitter) + exponential * jitter * random());
+}
+
+/**
+ * Decide whether a failed attempt should be retried, and after how long.
+ * Returns `null` when the error is final.
+ *
+ * Only idempotent requests are retried, with one exception: a 429 means the
+ * server refused the request before acting on it, so it is safe to replay.
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy,
+  idempotent: boolean
+): number | null {
+  if (attempt > policy.retries) return null;
+  if (!(error instanceof ApiError) || !error.retryable) return null;
+
+  const isRateLimited = error instanceof RateLimitedError;
+  if (!idempotent && !isRateLimited) return null;
+
+  const retryAfterMs =
+    isRateLimited || (error instanceof ServerError && error.status === 503)
+      ? (error as RateLimitedError | ServerError).retryAfterMs
+      : undefined;
+
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= policy.maxRetryAfterMs ? retryAfterMs : null;
+  }
+
+  return computeBackoffDelay(attempt, policy);
+}
+
+/**
+ * Resolve after `ms`, or reject early with the signal's reason when aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
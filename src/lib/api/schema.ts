@@ -0,0 +1,232 @@
+/**
+ * Runtime schemas for API responses
+ *
+ * A deliberately small schema toolkit used by ApiService to validate and
+ * normalize backend payloads before they reach components. Every schema
+ * knows what it expects and reports mismatches as an ApiContractError that
+ * names the endpoint and the offending field path.
+ */
+
+import { parseDate } from '@/lib/dateUtils';
+import { ApiContractError } from './errors';
+
+export interface ParseContext {
+  /** Endpoint label used in error messages, e.g. `GET /posts` */
+  endpoint: string;
+  /** Path from the response root to the value being parsed */
+  path: Array<string | number>;
+}
+
+type Parser<T> = (input: unknown, ctx: ParseContext) => T;
+
+export class Schema<T> {
+  constructor(
+    readonly expected: string,
+    private readonly parser: Parser<T>
+  ) {}
+
+  parse(input: unknown, ctx: ParseContext): T {
+    return this.parser(input, ctx);
+  }
+
+  /** Accept `undefined` / `null` and normalize both to `undefined` */
+  optional(): Schema<T | undefined> {
+    return new Schema(`${this.expected} | undefined`, (input, ctx) =>
+      input === undefined || input === null ? undefined : this.parse(input, ctx)
+    );
+  }
+
+  /** Accept `undefined` / `null` and normalize both to `null` */
+  nullable(): Schema<T | null> {
+    return new Schema(`${this.expected} | null`, (input, ctx) =>
+      input === undefined || input === null ? null : this.parse(input, ctx)
+    );
+  }
+
+  /** Substitute a fallback (or a factory for one) when the field is missing */
+  default(fallback: T | (() => T)): Schema<T> {
+    return new Schema(this.expected, (input, ctx) => {
+      if (input !== undefined && input !== null) return this.parse(input, ctx);
+      return typeof fallback === 'function' ? (fallback as () => T)() : fallback;
+    });
+  }
+
+  /** Post-process a successfully parsed value */
+  transform<U>(fn: (value: T, ctx: ParseContext) => U): Schema<U> {
+    return new Schema(this.expected, (input, ctx) => fn(this.parse(input, ctx), ctx));
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type ObjectOutput<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+} extends infer O
+  ? { [K in keyof O]: O[K] }
+  : never;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function fail(ctx: ParseContext, expected: string, received: unknown): never {
+  throw new ApiContractError({
+    endpoint: ctx.endpoint,
+    path: ctx.path,
+    expected,
+    received: describe(received),
+  });
+}
+
+function child(ctx: ParseContext, key: string | number): ParseContext {
+  return { endpoint: ctx.endpoint, path: [...ctx.path, key] };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function string(): Schema<string> {
+  return new Schema('string', (input, ctx) =>
+    typeof input === 'string' ? input : fail(ctx, 'string', input)
+  );
+}
+
+function number(): Schema<number> {
+  return new Schema('number', (input, ctx) =>
+    typeof input === 'number' && !Number.isNaN(input) ? input : fail(ctx, 'number', input)
+  );
+}
+
+function boolean(): Schema<boolean> {
+  return new Schema('boolean', (input, ctx) =>
+    typeof input === 'boolean' ? input : fail(ctx, 'boolean', input)
+  );
+}
+
+/**
+ * Dates arrive as ISO strings, epoch numbers or serialized Firestore
+ * timestamps (`{ _seconds, _nanoseconds }`); all are normalized to `Date`.
+ */
+function date(): Schema<Date> {
+  return new Schema('date', (input, ctx) => parseDate(input) ?? fail(ctx, 'date', input));
+}
+
+function literal<const V extends string | number | boolean>(value: V): Schema<V> {
+  return new Schema(JSON.stringify(value), (input, ctx) =>
+    input === value ? value : fail(ctx, JSON.stringify(value), input)
+  );
+}
+
+function oneOf<const V extends readonly (string | number)[]>(values: V): Schema<V[number]> {
+  const expected = values.map((v) => JSON.stringify(v)).join(' | ');
+  return new Schema(expected, (input, ctx) =>
+    values.includes(input as V[number]) ? (input as V[number]) : fail(ctx, expected, input)
+  );
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return new Schema(`${item.expected}[]`, (input, ctx) => {
+    if (!Array.isArray(input)) return fail(ctx, `${item.expected}[]`, input);
+    return input.map((value, index) => item.parse(value, child(ctx, index)));
+  });
+}
+
+/**
+ * Validate the declared keys of an object. Undeclared keys are passed
+ * through untouched so additive backend changes never break the UI.
+ */
+function object<S extends Shape>(shape: S): Schema<ObjectOutput<S>> {
+  return new Schema('object', (input, ctx) => {
+    if (!isPlainObject(input)) return fail(ctx, 'object', input);
+    const output: Record<string, unknown> = { ...input };
+    for (const key of Object.keys(shape)) {
+      const value = shape[key].parse(input[key], child(ctx, key));
+      if (value === undefined) {
+        delete output[key];
+      } else {
+        output[key] = value;
+      }
+    }
+    return output as ObjectOutput<S>;
+  });
+}
+
+function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return new Schema(`Record<string, ${value.expected}>`, (input, ctx) => {
+    if (!isPlainObject(input)) return fail(ctx, 'object', input);
+    const output: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(input)) {
+      output[key] = value.parse(entry, child(ctx, key));
+    }
+    return output;
+  });
+}
+
+/**
+ * First matching option wins. When none match, the error that got deepest
+ * into the payload is rethrown, since it points at the real mismatch.
+ */
+function union<T extends Schema<unknown>[]>(...options: T): Schema<Infer<T[number]>> {
+  const expected = options.map((option) => option.expected).join(' | ');
+  return new Schema(expected, (input, ctx) => {
+    let deepest: ApiContractError | null = null;
+    for (const option of options) {
+      try {
+        return option.parse(input, ctx) as Infer<T[number]>;
+      } catch (error) {
+        if (!(error instanceof ApiContractError)) throw error;
+        if (!deepest || error.depth > deepest.depth) deepest = error;
+      }
+    }
+    if (deepest && deepest.depth > ctx.path.length) throw deepest;
+    return fail(ctx, expected, input);
+  });
+}
+
+/** Escape hatch for values the UI treats as opaque */
+function unknown<T = unknown>(): Schema<T> {
+  return new Schema('unknown', (input) => input as T);
+}
+
+/**
+ * Lists that the backend returns either bare (`[...]`) or wrapped in an
+ * envelope (`{ stories: [...] }`). The first matching envelope key wins.
+ */
+function list<T>(item: Schema<T>, envelopeKeys: string[] = []): Schema<T[]> {
+  const items = array(item);
+  return new Schema(items.expected, (input, ctx) => {
+    if (Array.isArray(input)) return items.parse(input, ctx);
+    if (isPlainObject(input)) {
+      for (const key of envelopeKeys) {
+        if (Array.isArray(input[key])) return items.parse(input[key], child(ctx, key));
+      }
+    }
+    return fail(ctx, items.expected, input);
+  });
+}
+
+export const s = {
+  string,
+  number,
+  boolean,
+  date,
+  literal,
+  oneOf,
+  array,
+  object,
+  record,
+  union,
+  unknown,
+  list,
+};
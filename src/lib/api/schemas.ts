@@ -0,0 +1,525 @@
+/**
+ * Response schemas for every ApiService endpoint group
+ *
+ * Defaults mirror the fallbacks admin pages used to apply by hand, so a
+ * missing optional field still renders. A field of the wrong type raises an
+ * ApiContractError instead.
+ */
+
+import {
+  AuditLog,
+  GROK_CATEGORIES,
+  GROK_STORY_STATUSES,
+  GrokStory,
+  LINK_CHECK_STATES,
+  LinkCheckResult,
+  Media,
+  MediaFilterOptions,
+  Post,
+  POST_STATUSES,
+  POST_VISIBILITIES,
+  PostLinkReport,
+  PostLock,
+  PostRevision,
+  Redirect,
+  REDIRECT_MATCHES,
+  REDIRECT_TYPES,
+  REVIEW_DECISIONS,
+  REVISION_REASONS,
+  User,
+  USER_ROLES,
+} from '@/types/admin';
+import type { FounderRecord } from '@/lib/foundersConstants';
+import { s, Schema, Infer } from './schema';
+
+// ============================================================================
+// SHARED
+// ============================================================================
+
+export const createdIdSchema = s.object({ id: s.string() });
+
+// ============================================================================
+// POSTS
+// ============================================================================
+
+const reviewThreadSchema = s.object({
+  id: s.string(),
+  quote: s.string().default(''),
+  comments: s.array(s.object({
+    id: s.string(),
+    authorUid: s.string(),
+    authorName: s.string().default('Unknown'),
+    body: s.string(),
+    createdAt: s.date(),
+  })).default(() => []),
+  resolved: s.boolean().default(false),
+  resolvedBy: s.string().optional(),
+  resolvedAt: s.date().optional(),
+  createdAt: s.date(),
+});
+
+const postReviewSchema = s.object({
+  threads: s.array(reviewThreadSchema).default(() => []),
+  decisions: s.array(s.object({
+    reviewerUid: s.string(),
+    reviewerName: s.string().default('Unknown'),
+    decision: s.oneOf(REVIEW_DECISIONS),
+    note: s.string().optional(),
+    at: s.date(),
+  })).default(() => []),
+});
+
+export const postSchema: Schema<Post> = s.object({
+  id: s.string().optional(),
+  title: s.string().default(''),
+  slug: s.string().default(''),
+  excerpt: s.string().default(''),
+  contentHtml: s.string().default(''),
+  contentMarkdown: s.string().optional(),
+  metaTitle: s.string().default(''),
+  metaDescription: s.string().default(''),
+  canonical: s.string().default(''),
+  focusKeyphrase: s.string().optional(),
+  tags: s.array(s.string()).default(() => []),
+  category: s.string().default(''),
+  author: s.object({
+    uid: s.string().default('unknown'),
+    name: s.string().default('Unknown Author'),
+  }).default(() => ({ uid: 'unknown', name: 'Unknown Author' })),
+  status: s.oneOf(POST_STATUSES).default('draft'),
+  scheduledAt: s.date().optional(),
+  publishedAt: s.date().optional(),
+  updatedAt: s.date().default(() => new Date()),
+  // Legacy and Cloudinary shapes are both resolved by imageHelpers
+  featuredImage: s.unknown<Post['featuredImage']>().optional(),
+  seo: s.object({
+    noindex: s.boolean().optional(),
+    nofollow: s.boolean().optional(),
+  }).default(() => ({})),
+  social: s.object({
+    ogTitle: s.string().optional(),
+    ogDescription: s.string().optional(),
+    twitterCard: s.oneOf(['summary', 'summary_large_image'] as const).optional(),
+  }).default(() => ({})),
+  socialMediaImage: s.object({
+    url: s.string(),
+    public_id: s.string().optional(),
+    width: s.number().optional(),
+    height: s.number().optional(),
+    generatedAt: s.date().optional(),
+  }).optional(),
+  visibility: s.oneOf(POST_VISIBILITIES).default('public'),
+  review: postReviewSchema.optional(),
+  history: s.array(s.object({
+    action: s.string(),
+    by: s.string().default(''),
+    at: s.date(),
+    note: s.string().optional(),
+    from: s.oneOf(POST_STATUSES).optional(),
+    to: s.oneOf(POST_STATUSES).optional(),
+  })).default(() => []),
+  canonicalSource: s.string().optional(),
+});
+
+export const postListSchema = s.list(postSchema, ['posts']);
+
+/** What a post update returns; `updatedAt` is the server's new timestamp */
+export const postUpdateResultSchema = s.object({
+  slug: s.string().optional(),
+  previousSlug: s.string().optional(),
+  updatedAt: s.date().optional(),
+});
+
+export type PostUpdateResult = Infer<typeof postUpdateResultSchema>;
+
+export const adminPostsPageSchema = s.union(
+  s.object({
+    posts: s.array(postSchema),
+    limit: s.number().optional(),
+    offset: s.number().optional(),
+    hasMore: s.boolean().default(false),
+  }),
+  s.array(postSchema).transform((posts) => ({
+    posts,
+    limit: undefined,
+    offset: undefined,
+    hasMore: false,
+  }))
+);
+
+export const adminPostStatsSchema = s.object({
+  total: s.number().default(0),
+  draft: s.number().default(0),
+  in_review: s.number().default(0),
+  scheduled: s.number().default(0),
+  published: s.number().default(0),
+  archived: s.number().default(0),
+});
+
+export const postRevisionSchema: Schema<PostRevision> = s.object({
+  id: s.string(),
+  postId: s.string(),
+  reason: s.oneOf(REVISION_REASONS).default('manual'),
+  restoredFrom: s.string().optional(),
+  createdBy: s.object({
+    uid: s.string().default('unknown'),
+    name: s.string().default('Unknown'),
+  }).default(() => ({ uid: 'unknown', name: 'Unknown' })),
+  createdAt: s.date(),
+  snapshot: s.object({
+    title: s.string().default(''),
+    excerpt: s.string().default(''),
+    contentHtml: s.string().default(''),
+    metaTitle: s.string().default(''),
+    metaDescription: s.string().default(''),
+    featuredImage: s.unknown<Post['featuredImage']>().optional(),
+  }),
+});
+
+export const postRevisionListSchema = s.list(postRevisionSchema, ['revisions']);
+
+export const postLockSchema: Schema<PostLock> = s.object({
+  postId: s.string(),
+  holder: s.object({
+    uid: s.string(),
+    name: s.string().default('Someone'),
+    avatar: s.string().optional(),
+  }),
+  acquiredAt: s.date(),
+  expiresAt: s.date(),
+});
+
+// ============================================================================
+// USERS
+// ============================================================================
+
+export const userSchema: Schema<User> = s.object({
+  uid: s.string().optional(),
+  // Some endpoints key users by document id instead of uid
+  id: s.string().optional(),
+  name: s.string().default(''),
+  email: s.string().default(''),
+  role: s.oneOf(USER_ROLES).default('viewer'),
+  avatar: s.string().optional(),
+  createdAt: s.date().default(() => new Date()),
+  lastSeen: s.date().default(() => new Date()),
+  permissions: s.array(s.string()).default(() => []),
+  isActive: s.boolean().default(true),
+}).transform(({ uid, id, ...user }) => ({ ...user, uid: uid ?? id ?? '' }));
+
+export const userListSchema = s.list(userSchema, ['users']);
+
+// ============================================================================
+// MEDIA
+// ============================================================================
+
+export const mediaSchema: Schema<Media> = s.object({
+  id: s.string(),
+  fileName: s.string().optional(),
+  // Cloudinary-backed uploads report `filename`
+  filename: s.string().optional(),
+  storagePath: s.string().default(''),
+  url: s.string(),
+  uploadedBy: s.string().default(''),
+  width: s.number().default(0),
+  height: s.number().default(0),
+  alt: s.string().default(''),
+  caption: s.string().optional(),
+  credit: s.string().optional(),
+  license: s.string().optional(),
+  tags: s.array(s.string()).default(() => []),
+  folder: s.string().optional(),
+  sizes: s.object({
+    thumbnail: s.string().optional(),
+    medium: s.string().optional(),
+    large: s.string().optional(),
+  }).default(() => ({})),
+  createdAt: s.date().default(() => new Date()),
+  fileSize: s.number().default(0),
+  mimeType: s.string().default(''),
+}).transform(({ fileName, filename, ...media }) => ({
+  ...media,
+  fileName: fileName ?? filename ?? '',
+}));
+
+export const mediaListSchema = s.list(mediaSchema, ['media', 'items']);
+
+export const mediaPageSchema = s.union(
+  s.object({
+    items: s.array(mediaSchema).optional(),
+    media: s.array(mediaSchema).optional(),
+    nextCursor: s.string().nullable(),
+    total: s.number().optional(),
+  }).transform(({ items, media, nextCursor, total }) => ({
+    items: items ?? media ?? [],
+    nextCursor,
+    total,
+  })),
+  s.array(mediaSchema).transform((items) => ({
+    items,
+    nextCursor: null,
+    total: undefined,
+  }))
+);
+
+export const mediaFilterOptionsSchema: Schema<MediaFilterOptions> = s.object({
+  folders: s.array(s.string()).default(() => []),
+  tags: s.array(s.string()).default(() => []),
+  uploaders: s.array(s.object({
+    uid: s.string(),
+    name: s.string().default(''),
+  })).default(() => []),
+  mimeTypes: s.array(s.string()).default(() => []),
+});
+
+export const mediaUploadResultSchema = s.object({
+  id: s.string(),
+  public_id: s.string(),
+  image_id: s.string().default(''),
+  url: s.string(),
+  width: s.number(),
+  height: s.number(),
+  format: s.string().default(''),
+  filename: s.string().default(''),
+  size: s.number().default(0),
+});
+
+export type MediaUploadResult = Infer<typeof mediaUploadResultSchema>;
+
+// ============================================================================
+// REDIRECTS
+// ============================================================================
+
+export const redirectSchema: Schema<Redirect> = s.object({
+  id: s.string(),
+  from: s.string(),
+  to: s.string(),
+  type: s.oneOf(REDIRECT_TYPES).default(301),
+  match: s.oneOf(REDIRECT_MATCHES).default('exact'),
+  preserveQuery: s.boolean().default(true),
+  active: s.boolean().default(true),
+  createdBy: s.string().default(''),
+  createdAt: s.date().default(() => new Date()),
+  notes: s.string().optional(),
+  hits: s.number().default(0),
+  lastHitAt: s.date().optional(),
+});
+
+export const redirectListSchema = s.list(redirectSchema, ['redirects']);
+
+// ============================================================================
+// LINK CHECKS
+// ============================================================================
+
+export const linkCheckResultSchema: Schema<LinkCheckResult> = s.object({
+  url: s.string(),
+  state: s.oneOf(LINK_CHECK_STATES),
+  status: s.number().nullable(),
+  redirects: s.array(s.object({ url: s.string(), status: s.number() })).default(() => []),
+  finalUrl: s.string(),
+  error: s.string().optional(),
+  checkedAt: s.date(),
+});
+
+export const postLinkReportSchema: Schema<PostLinkReport> = s.object({
+  postId: s.string(),
+  postSlug: s.string().default(''),
+  postTitle: s.string().default(''),
+  links: s.array(linkCheckResultSchema).default(() => []),
+  checkedAt: s.date(),
+});
+
+export const postLinkReportListSchema = s.list(postLinkReportSchema, ['reports']);
+
+// ============================================================================
+// FOUNDERS
+// ============================================================================
+
+export const founderSchema: Schema<FounderRecord> = s.object({
+  id: s.string(),
+  full_name: s.string().default(''),
+  // Public directory responses omit contact details
+  email: s.string().default(''),
+  phone: s.string().optional(),
+  profile_photo_url: s.string().optional(),
+  linkedin_url: s.string().optional(),
+  twitter_handle: s.string().optional(),
+  startup_name: s.string(),
+  startup_website: s.string().optional(),
+  startup_logo_url: s.string().optional(),
+  industry: s.array(s.string()).default(() => []),
+  stage: s.string().default(''),
+  region: s.string().default(''),
+  state: s.string().default(''),
+  year_founded: s.number().default(0),
+  one_liner: s.string().default(''),
+  what_building: s.string().default(''),
+  problem_solving: s.string().default(''),
+  is_funded: s.oneOf(['yes', 'no', 'bootstrapped'] as const).default('no'),
+  funding_stage: s.string().optional(),
+  status: s.oneOf(['pending', 'approved', 'rejected'] as const).default('approved'),
+  slug: s.string().optional(),
+  rejection_reason: s.string().optional(),
+  approved_at: s.date().optional(),
+  created_at: s.date().optional(),
+});
+
+export const founderListSchema = s.list(founderSchema, ['items', 'applications']);
+
+export const founderDirectorySchema = s.object({
+  items: s.array(founderSchema).default(() => []),
+  total: s.number().default(0),
+  limit: s.number().default(0),
+  offset: s.number().default(0),
+});
+
+export const founderApprovalSchema = s.object({
+  slug: s.string().optional(),
+  profileUrl: s.string().optional(),
+});
+
+// ============================================================================
+// GROK TRENDS
+// ============================================================================
+
+export const grokStorySchema: Schema<GrokStory> = s.object({
+  id: s.string(),
+  title: s.string(),
+  summary: s.string().default(''),
+  category: s.oneOf(GROK_CATEGORIES),
+  x_post_ids: s.array(s.string()).default(() => []),
+  primary_link: s.string().default(''),
+  engagement_score: s.number().default(0),
+  author_handles: s.array(s.string()).optional(),
+  media_urls: s.array(s.string()).optional(),
+  first_seen_at: s.date(),
+  fetched_at: s.date(),
+  status: s.oneOf(GROK_STORY_STATUSES),
+  reviewedBy: s.string().optional(),
+  reviewedAt: s.date().optional(),
+  reviewNotes: s.string().optional(),
+  draft_body: s.string().optional(),
+  draft_title: s.string().optional(),
+  draft_excerpt: s.string().optional(),
+  draft_meta_title: s.string().optional(),
+  draft_meta_description: s.string().optional(),
+  suggested_tags: s.array(s.string()).optional(),
+  draftGeneratedAt: s.date().optional(),
+  published_post_id: s.string().optional(),
+  publishedAt: s.date().optional(),
+  publishedBy: s.string().optional(),
+});
+
+export const grokStoryListSchema = s.list(grokStorySchema, ['stories']);
+
+export const grokStatsSchema = s.object({
+  total: s.number().default(0),
+  new: s.number().default(0),
+  draft_created: s.number().default(0),
+  published: s.number().default(0),
+  archived: s.number().default(0),
+});
+
+export const grokAutoDraftConfigSchema = s.object({
+  enabled: s.boolean().default(false),
+  engagementThreshold: s.number().default(5000),
+  categories: s.array(s.string()).default(() => []),
+});
+
+export const grokFetchResultSchema = s.object({
+  fetched: s.number().default(0),
+  stored: s.number().default(0),
+  skipped: s.number().default(0),
+  draftsGenerated: s.number().default(0),
+});
+
+export const grokDraftSchema = s.object({
+  title: s.string(),
+  content: s.string(),
+  slug: s.string().optional(),
+  excerpt: s.string().optional(),
+  metaTitle: s.string().optional(),
+  metaDescription: s.string().optional(),
+  tags: s.array(s.string()).optional(),
+  category: s.string().optional(),
+  recommendedImages: s.array(s.unknown()).optional(),
+});
+
+export const grokPublishResultSchema = s.object({
+  postId: s.string().optional(),
+  title: s.string().optional(),
+  slug: s.string().optional(),
+});
+
+export type GrokStats = Infer<typeof grokStatsSchema>;
+export type GrokAutoDraftConfig = Infer<typeof grokAutoDraftConfigSchema>;
+
+// ============================================================================
+// BULK EMAILS
+// ============================================================================
+
+export const BULK_EMAIL_STATUSES = ['queued', 'sending', 'completed', 'failed'] as const;
+
+export type BulkEmailStatus = typeof BULK_EMAIL_STATUSES[number];
+
+export const bulkEmailCampaignSchema = s.object({
+  campaignId: s.string(),
+  subject: s.string().default(''),
+  recipientCount: s.number().default(0),
+  status: s.oneOf(BULK_EMAIL_STATUSES),
+  progress: s.number().default(0),
+  sent: s.number().default(0),
+  failed: s.number().default(0),
+  createdBy: s.object({
+    uid: s.string().default(''),
+    name: s.string().default(''),
+    email: s.string().optional(),
+  }).default(() => ({ uid: '', name: '' })),
+  createdAt: s.date(),
+  startedAt: s.date().optional(),
+  completedAt: s.date().optional(),
+  error: s.string().optional(),
+});
+
+export type BulkEmailCampaign = Infer<typeof bulkEmailCampaignSchema>;
+
+export const bulkEmailCampaignListSchema = s.list(bulkEmailCampaignSchema, ['campaigns']);
+
+export const bulkEmailCampaignCreatedSchema = s.object({ campaignId: s.string() });
+
+export const bulkEmailPreviewSchema = s.object({
+  subject: s.string(),
+  htmlContent: s.string(),
+  textContent: s.string().optional(),
+});
+
+// ============================================================================
+// AUDIT LOGS
+// ============================================================================
+
+export const auditLogSchema: Schema<AuditLog> = s.object({
+  id: s.string(),
+  actor: s.string().default(''),
+  action: s.string(),
+  target: s.string().default(''),
+  timestamp: s.date(),
+  diff: s.unknown().optional(),
+  ipAddress: s.string().optional(),
+  userAgent: s.string().optional(),
+});
+
+export const auditLogListSchema = s.list(auditLogSchema, ['logs']);
+
+export const auditLogStatsSchema = s.object({
+  total: s.number().default(0),
+  recent24h: s.number().default(0),
+  topActions: s.array(s.object({ action: s.string(), count: s.number() })).default(() => []),
+  topActors: s.array(s.object({ actor: s.string(), count: s.number() })).default(() => []),
+  lastUpdated: s.date().optional(),
+});
+
+export const auditLogFiltersSchema = s.object({
+  actions: s.array(s.string()).default(() => []),
+  actors: s.array(s.string()).default(() => []),
+  targets: s.array(s.string()).default(() => []),
+});
@@ -5,18 +5,201 @@
  * All Firebase operations should go through this service.
  */
 
-import { Post, Redirect, User, SiteSettings } from '@/types/admin';
+import {
+  Post,
+  PostLinkReport,
+  PostLock,
+  PostRevision,
+  Redirect,
+  RevisionReason,
+  RevisionSnapshot,
+  User,
+  SiteSettings,
+  Media,
+  MediaFilterOptions,
+  GrokStory,
+  AuditLog,
+} from '@/types/admin';
+import type { FounderRecord } from '@/lib/foundersConstants';
+import type { Infer, Schema } from '@/lib/api/schema';
+import {
+  ApiError,
+  createHttpError,
+  describeApiError,
+  NetworkError,
+  NotFoundError,
+  TimeoutError,
+} from '@/lib/api/errors';
+import { isFresh, resolveCacheTtl, resourcePrefix, ResponseCache } from '@/lib/api/cache';
+import { Outbox, OutboxEntry, rebaseOutboxEntry } from '@/lib/api/outbox';
+import { parseDate } from '@/lib/dateUtils';
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  isIdempotentMethod,
+  parseRetryAfter,
+  RetryPolicy,
+  sleep,
+} from '@/lib/api/retry';
+import {
+  adminPostsPageSchema,
+  adminPostStatsSchema,
+  postLockSchema,
+  postRevisionListSchema,
+  postRevisionSchema,
+  auditLogFiltersSchema,
+  auditLogListSchema,
+  auditLogSchema,
+  auditLogStatsSchema,
+  bulkEmailCampaignCreatedSchema,
+  bulkEmailCampaignListSchema,
+  bulkEmailCampaignSchema,
+  bulkEmailPreviewSchema,
+  BulkEmailCampaign,
+  BulkEmailStatus,
+  createdIdSchema,
+  founderApprovalSchema,
+  founderDirectorySchema,
+  founderListSchema,
+  founderSchema,
+  grokAutoDraftConfigSchema,
+  grokDraftSchema,
+  grokFetchResultSchema,
+  grokPublishResultSchema,
+  grokStatsSchema,
+  grokStorySchema,
+  grokStoryListSchema,
+  GrokAutoDraftConfig,
+  GrokStats,
+  mediaFilterOptionsSchema,
+  mediaListSchema,
+  mediaPageSchema,
+  mediaSchema,
+  mediaUploadResultSchema,
+  MediaUploadResult,
+  postLinkReportListSchema,
+  postLinkReportSchema,
+  postListSchema,
+  postSchema,
+  postUpdateResultSchema,
+  PostUpdateResult,
+  redirectListSchema,
+  userListSchema,
+  userSchema,
+} from '@/lib/api/schemas';
 
 const FUNCTIONS_URL = process.env.NEXT_PUBLIC_FIREBASE_FUNCTIONS_URL ||
                       'https://techblit-cloud-function-production.up.railway.app';
 const API_BASE = `${FUNCTIONS_URL}/api/v1`;
 
+/** Default per-attempt timeout; generous enough for a Railway cold start */
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Per-call controls that public ApiService methods accept
+ */
+export interface ApiCallOptions<T = unknown> {
+  /** Cancels the request (and any pending retry) when aborted */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds; 0 disables it */
+  timeoutMs?: number;
+  /** Override the retry policy for this call, or `false` to disable retries */
+  retry?: Partial<RetryPolicy> | false;
+  /** Set to `false` to skip the response cache and always hit the network */
+  useCache?: boolean;
+  /**
+   * Called with fresh data after a stale cached response was returned and
+   * the background revalidation finished
+   */
+  onRevalidate?: (data: T) => void;
+}
+
+/**
+ * Request options accepted by `ApiService.request`. When a `schema` is
+ * given, the unwrapped response is validated and normalized by it.
+ */
+type RequestOptions<T> = Omit<RequestInit, 'signal'> & ApiCallOptions<T> & {
+  schema?: Schema<T>;
+  /** Treat the request as safe to replay regardless of its HTTP method */
+  idempotent?: boolean;
+  /**
+   * Queue the mutation in the offline outbox instead of failing when the
+   * network is unavailable. The call then resolves with `undefined`.
+   */
+  queueOffline?: Pick<OutboxEntry, 'label' | 'conflictCheck'>;
+};
+
+/** Error bodies the API returns: { error: '...' } or { success: false, error: { message, code } } */
+interface ApiErrorBody {
+  error?: string | { message?: string; code?: string };
+  message?: string;
+  code?: string;
+}
+
+export interface AdminPostsPage {
+  posts: Post[];
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+export interface MediaPage {
+  items: Media[];
+  /** Pass back as `cursor` for the next page; null on the last page */
+  nextCursor: string | null;
+  total?: number;
+}
+
+export interface MediaQuery {
+  cursor?: string;
+  limit?: number;
+  /** Matches file name, alt text, caption and credit */
+  q?: string;
+  folder?: string;
+  tag?: string;
+  uploadedBy?: string;
+  /** Exact type (`image/png`) or family (`image/*`) */
+  mimeType?: string;
+  /** ISO dates bounding `createdAt` */
+  from?: string;
+  to?: string;
+  minWidth?: number;
+  minHeight?: number;
+}
+
+export type MediaMetadataUpdate = Partial<Pick<Media, 'alt' | 'caption' | 'credit' | 'license' | 'tags' | 'folder'>>;
+
+export type RedirectInput = Pick<Redirect, 'from' | 'to' | 'type' | 'match' | 'preserveQuery' | 'active' | 'notes'>;
+
+export type GrokStoryInput = Pick<GrokStory, 'title' | 'summary' | 'category' | 'primary_link'> &
+  Partial<Pick<GrokStory, 'x_post_ids' | 'engagement_score' | 'author_handles' | 'media_urls'>>;
+
+type TransportOptions<T> = Omit<RequestOptions<T>, 'useCache' | 'onRevalidate' | 'queueOffline'>;
+
+function isBrowserOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
 class ApiService {
   private baseUrl: string;
   private authToken: string | null = null;
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+  private timeoutMs: number = DEFAULT_TIMEOUT_MS;
+  private responseCache = new ResponseCache();
+  private revalidating = new Map<string, Promise<unknown>>();
+  private replaying: Promise<void> | null = null;
+
+  /** Mutations queued while offline; see `replayOutbox` */
+  readonly outbox = new Outbox();
 
   constructor(baseUrl: string = API_BASE) {
     this.baseUrl = baseUrl;
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        this.replayOutbox().catch((error) => console.error('Outbox replay failed:', error));
+      });
+    }
   }
 
   /**
@@ -58,20 +241,308 @@ class ApiService {
     return null;
   }
 
+  /** uid of the signed-in Firebase user, or null */
+  private async currentUid(): Promise<string | null> {
+    if (typeof window === 'undefined') return null;
+    try {
+      const { auth } = await import('@/lib/firebase');
+      return auth.currentUser?.uid ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Configure retry policy and default timeout for subsequent requests
+   */
+  configure(config: { retryPolicy?: Partial<RetryPolicy>; timeoutMs?: number }) {
+    if (config.retryPolicy) {
+      this.retryPolicy = { ...this.retryPolicy, ...config.retryPolicy };
+    }
+    if (config.timeoutMs !== undefined) {
+      this.timeoutMs = config.timeoutMs;
+    }
+  }
+
+  /**
+   * Drop all cached responses (e.g. on logout, so the next user never sees
+   * the previous user's data)
+   */
+  async clearCache(): Promise<void> {
+    await this.responseCache.clear();
+  }
+
   /**
    * Make API request
+   *
+   * GETs for endpoints listed in `CACHE_TTLS` are served stale-while-
+   * revalidate from the response cache. Mutations that opt in with
+   * `queueOffline` are parked in the outbox when the network is down.
+   * Successful mutations invalidate cached responses for their resource.
    */
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {},
-    retryCount: number = 0
+    requestOptions: RequestOptions<T> = {}
+  ): Promise<T> {
+    const { useCache = true, onRevalidate, queueOffline, ...options } = requestOptions;
+    const method = (options.method || 'GET').toUpperCase();
+
+    if (method === 'GET') {
+      const ttlMs = useCache && typeof window !== 'undefined' ? resolveCacheTtl(endpoint) : null;
+      return ttlMs === null
+        ? this.sendWithRetry<T>(endpoint, options)
+        : this.cachedRequest<T>(endpoint, options, ttlMs, onRevalidate);
+    }
+
+    if (queueOffline && isBrowserOffline()) {
+      return this.enqueueOffline<T>(endpoint, options, queueOffline);
+    }
+
+    try {
+      const result = await this.sendWithRetry<T>(endpoint, options);
+      await this.responseCache.invalidate(resourcePrefix(endpoint));
+      return result;
+    } catch (error) {
+      if (queueOffline && error instanceof NetworkError) {
+        return this.enqueueOffline<T>(endpoint, options, queueOffline);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Serve a GET from the response cache. Fresh entries skip the network;
+   * stale entries are returned immediately and refreshed in the background.
+   */
+  private async cachedRequest<T>(
+    endpoint: string,
+    options: TransportOptions<T>,
+    ttlMs: number,
+    onRevalidate?: (data: T) => void
   ): Promise<T> {
+    const cached = await this.responseCache.get<T>(endpoint);
+
+    if (cached && (isFresh(cached) || isBrowserOffline())) {
+      return cached.data;
+    }
+
+    if (cached) {
+      this.revalidate<T>(endpoint, options, ttlMs)
+        .then((data) => {
+          if (!options.signal?.aborted) onRevalidate?.(data);
+        })
+        .catch((error) => {
+          if (!options.signal?.aborted) console.warn('Background revalidation failed:', { endpoint, error });
+        });
+      return cached.data;
+    }
+
+    return this.revalidate<T>(endpoint, options, ttlMs);
+  }
+
+  /**
+   * Fetch and cache a GET, sharing one in-flight request per endpoint
+   */
+  private revalidate<T>(endpoint: string, options: TransportOptions<T>, ttlMs: number): Promise<T> {
+    const inFlight = this.revalidating.get(endpoint);
+    if (inFlight) {
+      return inFlight as Promise<T>;
+    }
+
+    const promise = this.sendWithRetry<T>(endpoint, options)
+      .then(async (data) => {
+        await this.responseCache.set(endpoint, data, ttlMs);
+        return data;
+      })
+      .finally(() => {
+        this.revalidating.delete(endpoint);
+      });
+    this.revalidating.set(endpoint, promise);
+    return promise;
+  }
+
+  private async enqueueOffline<T>(
+    endpoint: string,
+    options: TransportOptions<T>,
+    queueOffline: NonNullable<RequestOptions<T>['queueOffline']>
+  ): Promise<T> {
+    const ownerUid = await this.currentUid();
+    if (!ownerUid) {
+      // Nobody could replay it later
+      throw new NetworkError('Unable to reach API', {
+        endpoint: `${(options.method || 'GET').toUpperCase()} ${endpoint}`,
+      });
+    }
+    await this.outbox.enqueue({
+      ownerUid,
+      label: queueOffline.label,
+      conflictCheck: queueOffline.conflictCheck,
+      endpoint,
+      method: (options.method || 'GET').toUpperCase(),
+      body: typeof options.body === 'string' ? options.body : undefined,
+    });
+    return undefined as T;
+  }
+
+  /**
+   * Replay the signed-in user's queued offline mutations in order. Stops at
+   * the first network failure (still offline); entries whose resource
+   * changed on the server since they were queued are marked as conflicts
+   * instead of replayed. Entries queued by another account wait for it.
+   */
+  async replayOutbox(): Promise<void> {
+    if (this.replaying) {
+      return this.replaying;
+    }
+
+    this.replaying = (async () => {
+      const uid = await this.currentUid();
+      if (!uid) return;
+      const entries = (await this.outbox.list()).filter(
+        (entry) => entry.status === 'pending' && entry.ownerUid === uid
+      );
+      // Entries queued one after another against the same resource all
+      // carry the version the editor loaded. Once one is written, the ones
+      // after it start from the version it produced, not a conflict.
+      const written = new Map<string, { base: number; updatedAt: string }>();
+
+      for (const queued of entries) {
+        const queuedCheck = queued.conflictCheck;
+        const previous = queuedCheck ? written.get(queuedCheck.endpoint) : undefined;
+        const entry = previous && queuedCheck && Date.parse(queuedCheck.baseUpdatedAt) <= previous.base
+          ? rebaseOutboxEntry(queued, previous.updatedAt)
+          : queued;
+        try {
+          const check = entry.conflictCheck;
+          if (check) {
+            const current = await this.sendWithRetry<{ updatedAt?: unknown } | null>(check.endpoint, {});
+            const serverUpdatedAt = parseDate(current?.updatedAt);
+            if (serverUpdatedAt && serverUpdatedAt.getTime() > Date.parse(check.baseUpdatedAt)) {
+              await this.outbox.update({ ...entry, status: 'conflict', serverVersion: current });
+              continue;
+            }
+          }
+
+          const result = await this.sendWithRetry<{ updatedAt?: unknown } | null>(
+            entry.endpoint,
+            { method: entry.method, body: entry.body }
+          );
+          await this.outbox.remove(entry.id);
+          await this.responseCache.invalidate(resourcePrefix(entry.endpoint));
+
+          if (queuedCheck) {
+            const { endpoint, baseUpdatedAt } = queuedCheck;
+            const updatedAt = parseDate(result?.updatedAt)
+              ?? parseDate((await this.sendWithRetry<{ updatedAt?: unknown } | null>(endpoint, {}))?.updatedAt);
+            if (updatedAt) {
+              written.set(endpoint, {
+                base: Math.max(Date.parse(baseUpdatedAt), written.get(endpoint)?.base ?? 0),
+                updatedAt: updatedAt.toISOString(),
+              });
+            }
+          }
+        } catch (error) {
+          if (error instanceof NetworkError || error instanceof TimeoutError) {
+            break;
+          }
+          if (error instanceof NotFoundError && entry.method === 'DELETE') {
+            // Already gone on the server - nothing left to replay
+            await this.outbox.remove(entry.id);
+            continue;
+          }
+          await this.outbox.update({
+            ...entry,
+            status: 'failed',
+            attempts: entry.attempts + 1,
+            error: describeApiError(error),
+          });
+        }
+      }
+    })().finally(() => {
+      this.replaying = null;
+    });
+
+    return this.replaying;
+  }
+
+  /**
+   * Resolve a conflicted or failed outbox entry: `overwrite` replays it
+   * without the conflict check, `discard` drops the queued change
+   */
+  async resolveOutboxEntry(id: string, resolution: 'overwrite' | 'discard'): Promise<void> {
+    const entry = (await this.outbox.list()).find((item) => item.id === id);
+    if (!entry) return;
+
+    if (resolution === 'discard') {
+      await this.outbox.remove(id);
+      return;
+    }
+
+    await this.outbox.update({
+      ...rebaseOutboxEntry(entry, null),
+      status: 'pending',
+      serverVersion: undefined,
+      error: undefined,
+    });
+    await this.replayOutbox();
+  }
+
+  /**
+   * Send a request, retrying transient failures
+   *
+   * Failures are raised as ApiError subclasses (see lib/api/errors).
+   * Idempotent requests are retried with exponential backoff and jitter
+   * according to the active retry policy.
+   */
+  private async sendWithRetry<T>(
+    endpoint: string,
+    transportOptions: TransportOptions<T>
+  ): Promise<T> {
+    const { retry, idempotent, ...options } = transportOptions;
+    const policy: RetryPolicy = retry === false
+      ? { ...this.retryPolicy, retries: 0 }
+      : { ...this.retryPolicy, ...retry };
+    const canRetry = idempotent ?? isIdempotentMethod(options.method);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.attemptRequest<T>(endpoint, options);
+      } catch (error) {
+        const delay = getRetryDelay(error, attempt, policy, canRetry);
+        if (delay === null) {
+          throw error;
+        }
+
+        if (process.env.NODE_ENV === 'development') {
+          console.warn(`API retry ${attempt}/${policy.retries} in ${delay}ms:`, {
+            endpoint,
+            error: error instanceof Error ? error.message : error,
+          });
+        }
+
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Single request attempt, including the one-time 401 token refresh
+   */
+  private async attemptRequest<T>(
+    endpoint: string,
+    options: Omit<TransportOptions<T>, 'retry' | 'idempotent'>,
+    authRetryCount: number = 0
+  ): Promise<T> {
+    const { schema, signal, timeoutMs = this.timeoutMs, ...init } = options;
+    const method = init.method || 'GET';
+    const label = `${method} ${endpoint.split('?')[0]}`;
+
     // Get fresh token (force refresh on retry)
-    const token = this.authToken || await this.getAuthToken(retryCount > 0);
+    const token = this.authToken || await this.getAuthToken(authRetryCount > 0);
     
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      ...options.headers as Record<string, string>,
+      ...init.headers as Record<string, string>,
     };
 
     if (token) {
@@ -83,109 +554,158 @@ class ApiService {
     // Log request in development
     if (process.env.NODE_ENV === 'development') {
       console.log('API Request:', {
-        method: options.method || 'GET',
+        method,
         url,
         hasToken: !!token
       });
     }
 
-    let response: Response;
-    try {
-      response = await fetch(url, {
-        ...options,
-        headers,
-        // Use 'omit' since we're using Bearer tokens in headers, not cookies
-        // This simplifies CORS and avoids credential-related CORS issues
-        credentials: 'omit',
-        mode: 'cors',
-      });
-    } catch (fetchError: any) {
-      // Handle network errors (CORS, connectivity, etc.)
-      console.error('Network error fetching:', {
-        url,
-        baseUrl: this.baseUrl,
-        endpoint,
-        error: fetchError.message,
-        name: fetchError.name,
-        stack: fetchError.stack
-      });
-      
-      // Provide helpful error message
-      let errorMessage = 'Network error: Failed to connect to API';
-      if (fetchError.message?.includes('CORS') || fetchError.name === 'TypeError') {
-        errorMessage = `CORS/Network error: Unable to reach API at ${url}. Check if the function is deployed and CORS is configured.`;
-      } else if (fetchError.message?.includes('Failed to fetch')) {
-        errorMessage = `Failed to fetch from ${url}. Check your internet connection and ensure the API server is running.`;
-      } else {
-        errorMessage = `Network error: ${fetchError.message || 'Unknown error'}`;
-      }
-      
-      throw new Error(errorMessage);
+    // Caller cancellation and our timeout share one controller
+    if (signal?.aborted) {
+      throw signal.reason;
     }
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
 
-    if (!response.ok) {
-      // If unauthorized and we haven't retried, try refreshing token
-      if (response.status === 401 && retryCount === 0) {
-        // Clear cached token and retry with fresh token (force refresh)
-        this.authToken = null;
-        const freshToken = await this.getAuthToken(true);
-        if (freshToken) {
-          return this.request<T>(endpoint, options, retryCount + 1);
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          ...init,
+          headers,
+          signal: controller.signal,
+          // Use 'omit' since we're using Bearer tokens in headers, not cookies
+          // This simplifies CORS and avoids credential-related CORS issues
+          credentials: 'omit',
+          mode: 'cors',
+        });
+      } catch (caught: unknown) {
+        const fetchError = caught instanceof Error ? caught : new Error(String(caught));
+        if (timedOut) {
+          throw new TimeoutError(timeoutMs, { endpoint: label, cause: fetchError });
+        }
+        // Cancelled by the caller — surface the abort as-is
+        if (signal?.aborted) {
+          throw fetchError;
+        }
+
+        // Handle network errors (CORS, connectivity, etc.)
+        console.error('Network error fetching:', {
+          url,
+          baseUrl: this.baseUrl,
+          endpoint,
+          error: fetchError.message,
+          name: fetchError.name,
+          stack: fetchError.stack
+        });
+        
+        // Provide helpful error message
+        let errorMessage = 'Network error: Failed to connect to API';
+        if (fetchError.message?.includes('CORS') || fetchError.name === 'TypeError') {
+          errorMessage = `CORS/Network error: Unable to reach API at ${url}. Check if the function is deployed and CORS is configured.`;
+        } else if (fetchError.message?.includes('Failed to fetch')) {
+          errorMessage = `Failed to fetch from ${url}. Check your internet connection and ensure the API server is running.`;
+        } else {
+          errorMessage = `Network error: ${fetchError.message || 'Unknown error'}`;
         }
+        
+        throw new NetworkError(errorMessage, { endpoint: label, cause: fetchError });
       }
-      
-      let errorData: any = {};
-      let errorText: string = '';
-      
-      try {
-        // Try to get response as text first to see what we're dealing with
-        errorText = await response.text();
+
+      if (!response.ok) {
+        // If unauthorized and we haven't retried, try refreshing token
+        if (response.status === 401 && authRetryCount === 0) {
+          // Clear cached token and retry with fresh token (force refresh)
+          this.authToken = null;
+          const freshToken = await this.getAuthToken(true);
+          if (freshToken) {
+            return this.attemptRequest<T>(endpoint, options, authRetryCount + 1);
+          }
+        }
         
-        // Try to parse as JSON
-        if (errorText) {
-          try {
-            errorData = JSON.parse(errorText);
-          } catch (parseError) {
-            // If not JSON, use the text as error message
-            errorData = { error: errorText || `HTTP error! status: ${response.status}` };
+        let errorData: ApiErrorBody = {};
+        let errorText: string = '';
+        
+        try {
+          // Try to get response as text first to see what we're dealing with
+          errorText = await response.text();
+          
+          // Try to parse as JSON
+          if (errorText) {
+            try {
+              errorData = JSON.parse(errorText);
+            } catch {
+              // If not JSON, use the text as error message
+              errorData = { error: errorText || `HTTP error! status: ${response.status}` };
+            }
+          } else {
+            errorData = { error: `HTTP error! status: ${response.status}` };
           }
-        } else {
+        } catch (error) {
+          // Fallback if we can't read the response
           errorData = { error: `HTTP error! status: ${response.status}` };
+          errorText = `Failed to read error response: ${error}`;
         }
-      } catch (error) {
-        // Fallback if we can't read the response
-        errorData = { error: `HTTP error! status: ${response.status}` };
-        errorText = `Failed to read error response: ${error}`;
+        
+        // Handle nested error structure: { success: false, error: { message, code, ... } }
+        const nestedError = typeof errorData?.error === 'object' ? errorData.error : undefined;
+        const errorMessage = 
+          nestedError?.message || 
+          (typeof errorData?.error === 'string' ? errorData.error : null) ||
+          errorData?.message || 
+          errorText ||
+          `API call failed with status ${response.status}`;
+        const errorCode = nestedError?.code || errorData?.code;
+        
+        // Log full error details for debugging
+        console.error('API Error:', {
+          status: response.status,
+          statusText: response.statusText,
+          endpoint,
+          errorData: errorData && Object.keys(errorData).length > 0 ? errorData : 'No error data',
+          errorText: errorText || 'No error text',
+          errorMessage
+        });
+        
+        throw createHttpError(
+          response.status,
+          // If still unauthorized after retry, suggest re-login
+          response.status === 401
+            ? `${errorMessage}. Please try logging out and logging back in.`
+            : errorMessage,
+          {
+            endpoint: label,
+            code: typeof errorCode === 'string' ? errorCode : undefined,
+            retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+          }
+        );
       }
-      
-      // Handle nested error structure: { success: false, error: { message, code, ... } }
-      const errorMessage = 
-        errorData?.error?.message || 
-        (typeof errorData?.error === 'string' ? errorData.error : null) ||
-        errorData?.message || 
-        errorText ||
-        `API call failed with status ${response.status}`;
-      
-      // Log full error details for debugging
-      console.error('API Error:', {
-        status: response.status,
-        statusText: response.statusText,
-        endpoint,
-        errorData: errorData && Object.keys(errorData).length > 0 ? errorData : 'No error data',
-        errorText: errorText || 'No error text',
-        errorMessage
-      });
-      
-      // If still unauthorized after retry, suggest re-login
-      if (response.status === 401) {
-        throw new Error(`${errorMessage}. Please try logging out and logging back in.`);
+
+      const data = await response.json();
+      const payload = data.data || data;
+      if (!schema) {
+        return payload;
       }
-      
-      throw new Error(errorMessage);
-    }
 
-    const data = await response.json();
-    return data.data || data;
+      return schema.parse(payload, { endpoint: label, path: [] });
+    } catch (error) {
+      // The timeout can also fire while the body is being read
+      if (timedOut && !(error instanceof ApiError)) {
+        throw new TimeoutError(timeoutMs, { endpoint: label, cause: error });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
   }
 
   // ============================================================================
@@ -197,7 +717,7 @@ class ApiService {
     offset?: number;
     category?: string;
     tag?: string;
-  }): Promise<Post[]> {
+  }, callOptions?: ApiCallOptions<Post[]>): Promise<Post[]> {
     const queryParams = new URLSearchParams();
     if (params?.limit) queryParams.append('limit', params.limit.toString());
     if (params?.offset) queryParams.append('offset', params.offset.toString());
@@ -205,7 +725,7 @@ class ApiService {
     if (params?.tag) queryParams.append('tag', params.tag);
     
     const query = queryParams.toString();
-    return this.request<Post[]>(`/posts${query ? `?${query}` : ''}`);
+    return this.request(`/posts${query ? `?${query}` : ''}`, { ...callOptions, schema: postListSchema });
   }
 
   async getAllPosts(params?: {
@@ -214,7 +734,15 @@ class ApiService {
     status?: string;
     category?: string;
     tag?: string;
-  }): Promise<{ posts: Post[]; limit: number; offset: number; hasMore: boolean }> {
+  }, callOptions?: ApiCallOptions<AdminPostsPage>): Promise<AdminPostsPage> {
+    const normalize = (result: Infer<typeof adminPostsPageSchema>): AdminPostsPage => ({
+      posts: result.posts,
+      limit: result.limit ?? (params?.limit || result.posts.length),
+      offset: result.offset ?? (params?.offset || 0),
+      hasMore: result.hasMore,
+    });
+    const onRevalidate = callOptions?.onRevalidate;
+
     try {
       const queryParams = new URLSearchParams();
       if (params?.limit) queryParams.append('limit', params.limit.toString());
@@ -224,30 +752,25 @@ class ApiService {
       if (params?.tag) queryParams.append('tag', params.tag);
       
       const query = queryParams.toString();
-      const result = await this.request<{ posts: Post[]; limit: number; offset: number; hasMore: boolean } | Post[]>(
-        `/posts/admin/all${query ? `?${query}` : ''}`
+      const result = await this.request<Infer<typeof adminPostsPageSchema>>(
+        `/posts/admin/all${query ? `?${query}` : ''}`,
+        {
+          ...callOptions,
+          schema: adminPostsPageSchema,
+          onRevalidate: onRevalidate && ((fresh) => onRevalidate(normalize(fresh))),
+        }
       );
 
-      if (result && typeof result === 'object' && 'posts' in result && Array.isArray(result.posts)) {
-        return result;
-      }
-
-      const posts = Array.isArray(result) ? result : [];
-      return {
-        posts,
-        limit: params?.limit || posts.length,
-        offset: params?.offset || 0,
-        hasMore: false,
-      };
-    } catch (error: any) {
-      if (error?.message?.includes('not found') || error?.message?.includes('404')) {
+      return normalize(result);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
         console.warn('Admin endpoint not available, falling back to public endpoint (may only show published posts)');
         const posts = await this.getPosts({
           limit: params?.limit,
           offset: params?.offset,
           category: params?.category,
           tag: params?.tag
-        });
+        }, { ...callOptions, onRevalidate: undefined });
         return {
           posts,
           limit: params?.limit || posts.length,
@@ -259,6 +782,23 @@ class ApiService {
     }
   }
 
+  /**
+   * Every post matching the filters, fetched page by page. Used by reports
+   * that scan the whole archive.
+   */
+  async getEveryPost(
+    params?: { status?: string; category?: string; tag?: string },
+    callOptions?: Pick<ApiCallOptions<AdminPostsPage>, 'signal'>
+  ): Promise<Post[]> {
+    const pageSize = 100;
+    const posts: Post[] = [];
+    for (let offset = 0; ; offset += pageSize) {
+      const page = await this.getAllPosts({ ...params, limit: pageSize, offset }, callOptions);
+      posts.push(...page.posts);
+      if (!page.hasMore || page.posts.length === 0) return posts;
+    }
+  }
+
   async getAdminPostStats(): Promise<{
     total: number;
     draft: number;
@@ -267,19 +807,19 @@ class ApiService {
     published: number;
     archived: number;
   }> {
-    return this.request('/posts/admin/stats');
+    return this.request('/posts/admin/stats', { schema: adminPostStatsSchema });
   }
 
-  async getPostBySlug(slug: string): Promise<Post | null> {
-    return this.request<Post | null>(`/posts/${slug}`);
+  async getPostBySlug(slug: string, callOptions?: ApiCallOptions<Post | null>): Promise<Post | null> {
+    return this.request(`/posts/${slug}`, { ...callOptions, schema: postSchema.nullable() });
   }
 
-  async getPostById(id: string): Promise<Post | null> {
-    return this.request<Post | null>(`/posts/admin/${id}`);
+  async getPostById(id: string, callOptions?: ApiCallOptions<Post | null>): Promise<Post | null> {
+    return this.request(`/posts/admin/${id}`, { ...callOptions, schema: postSchema.nullable() });
   }
 
-  async getPostBySlugAdmin(slug: string): Promise<Post | null> {
-    return this.request<Post | null>(`/posts/admin/slug/${slug}`);
+  async getPostBySlugAdmin(slug: string, callOptions?: ApiCallOptions<Post | null>): Promise<Post | null> {
+    return this.request(`/posts/admin/slug/${slug}`, { ...callOptions, schema: postSchema.nullable() });
   }
 
   async createPost(data: {
@@ -291,23 +831,103 @@ class ApiService {
     status?: string;
     featuredImage?: any;
     scheduledAt?: Date;
+    history?: Post['history'];
   }): Promise<{ id: string }> {
-    return this.request<{ id: string }>('/posts', {
+    return this.request('/posts', {
       method: 'POST',
       body: JSON.stringify(data),
+      schema: createdIdSchema,
     });
   }
 
-  async updatePost(id: string, data: any) {
+  /**
+   * Update a post. With `baseUpdatedAt` (the `updatedAt` the editor loaded)
+   * the backend rejects the write with a ConflictError if the post changed
+   * since, instead of silently overwriting it. It is sent as its own field so
+   * it is never mistaken for the post's new timestamp.
+   *
+   * While offline the change is queued in the outbox and the call resolves
+   * with `undefined`; replay checks `baseUpdatedAt` the same way.
+   */
+  async updatePost(
+    id: string,
+    data: any,
+    callOptions?: ApiCallOptions & { baseUpdatedAt?: Date }
+  ): Promise<PostUpdateResult | undefined> {
+    const { baseUpdatedAt, ...options } = callOptions || {};
     return this.request(`/posts/${id}`, {
+      ...options,
       method: 'PUT',
-      body: JSON.stringify(data),
+      body: JSON.stringify(baseUpdatedAt ? { ...data, baseUpdatedAt: baseUpdatedAt.toISOString() } : data),
+      schema: postUpdateResultSchema.optional(),
+      queueOffline: {
+        label: data?.title ? `Update post "${data.title}"` : 'Update post',
+        conflictCheck: baseUpdatedAt
+          ? { endpoint: `/posts/admin/${id}`, baseUpdatedAt: baseUpdatedAt.toISOString() }
+          : undefined,
+      },
     });
   }
 
-  async deletePost(id: string) {
+  async deletePost(id: string, callOptions?: ApiCallOptions) {
     return this.request(`/posts/${id}`, {
+      ...callOptions,
+      method: 'DELETE',
+      queueOffline: { label: 'Delete post' },
+    });
+  }
+
+  /**
+   * Revisions of a post, newest first
+   */
+  async getPostRevisions(postId: string, callOptions?: ApiCallOptions<PostRevision[]>): Promise<PostRevision[]> {
+    return this.request(`/posts/${postId}/revisions`, { ...callOptions, schema: postRevisionListSchema });
+  }
+
+  /**
+   * Store an immutable revision. Queued while offline, in which case the
+   * call resolves with `undefined`.
+   */
+  async createPostRevision(postId: string, data: {
+    reason: RevisionReason;
+    snapshot: RevisionSnapshot;
+    restoredFrom?: string;
+  }): Promise<PostRevision | undefined> {
+    return this.request(`/posts/${postId}/revisions`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+      schema: postRevisionSchema.optional(),
+      queueOffline: { label: 'Save post revision' },
+    });
+  }
+
+  /**
+   * Current edit lock of a post, or `null` when nobody holds it
+   */
+  async getPostLock(postId: string, callOptions?: ApiCallOptions<PostLock | null>): Promise<PostLock | null> {
+    return this.request(`/post-locks/${postId}`, { ...callOptions, schema: postLockSchema.nullable() });
+  }
+
+  /**
+   * Acquire or extend (heartbeat) the edit lock. Resolves with the lock as
+   * it stands, which is someone else's if they hold it, unless `force` takes
+   * it over.
+   */
+  async acquirePostLock(postId: string, options: { force?: boolean } = {}): Promise<PostLock> {
+    return this.request(`/post-locks/${postId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ force: options.force ?? false }),
+      schema: postLockSchema,
+      idempotent: true,
+      retry: false,
+    });
+  }
+
+  async releasePostLock(postId: string, options: { keepalive?: boolean } = {}) {
+    return this.request(`/post-locks/${postId}`, {
       method: 'DELETE',
+      keepalive: options.keepalive,
+      retry: false,
     });
   }
 
@@ -324,24 +944,25 @@ class ApiService {
   // USERS API
   // ============================================================================
 
-  async getUsers(params?: { limit?: number; offset?: number; role?: string }): Promise<User[]> {
+  async getUsers(params?: { limit?: number; offset?: number; role?: string }, callOptions?: ApiCallOptions<User[]>): Promise<User[]> {
     const queryParams = new URLSearchParams();
     if (params?.limit) queryParams.append('limit', params.limit.toString());
     if (params?.offset) queryParams.append('offset', params.offset.toString());
     if (params?.role) queryParams.append('role', params.role);
     
     const query = queryParams.toString();
-    return this.request<User[]>(`/users${query ? `?${query}` : ''}`);
+    return this.request(`/users${query ? `?${query}` : ''}`, { ...callOptions, schema: userListSchema });
   }
 
   async getUserProfile(): Promise<User> {
-    return this.request<User>('/users/profile');
+    return this.request('/users/profile', { schema: userSchema });
   }
 
   async updateUserProfile(data: { name?: string; bio?: string; avatar?: string }): Promise<User> {
-    return this.request<User>('/users/profile', {
+    return this.request('/users/profile', {
       method: 'PUT',
       body: JSON.stringify(data),
+      schema: userSchema,
     });
   }
 
@@ -362,13 +983,44 @@ class ApiService {
   // MEDIA API
   // ============================================================================
 
-  async getMedia(params?: { limit?: number; offset?: number }) {
+  async getMedia(params?: { limit?: number; offset?: number }, callOptions?: ApiCallOptions<Media[]>): Promise<Media[]> {
     const queryParams = new URLSearchParams();
     if (params?.limit) queryParams.append('limit', params.limit.toString());
     if (params?.offset) queryParams.append('offset', params.offset.toString());
     
     const query = queryParams.toString();
-    return this.request(`/media${query ? `?${query}` : ''}`);
+    return this.request(`/media${query ? `?${query}` : ''}`, { ...callOptions, schema: mediaListSchema });
+  }
+
+  /**
+   * One page of the media library, filtered server-side. Cursors are opaque
+   * and only valid with the same filters.
+   */
+  async getMediaPage(params: MediaQuery = {}, callOptions?: ApiCallOptions<MediaPage>): Promise<MediaPage> {
+    const queryParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') queryParams.append(key, String(value));
+    });
+
+    const query = queryParams.toString();
+    return this.request(`/media${query ? `?${query}` : ''}`, { ...callOptions, schema: mediaPageSchema });
+  }
+
+  async getMediaFilterOptions(callOptions?: ApiCallOptions<MediaFilterOptions>): Promise<MediaFilterOptions> {
+    return this.request('/media/filters', { ...callOptions, schema: mediaFilterOptionsSchema });
+  }
+
+  async getMediaItem(id: string, callOptions?: ApiCallOptions<Media>): Promise<Media> {
+    return this.request(`/media/${id}`, { ...callOptions, schema: mediaSchema });
+  }
+
+  async updateMedia(id: string, data: MediaMetadataUpdate, callOptions?: ApiCallOptions<Media>): Promise<Media> {
+    return this.request(`/media/${id}`, {
+      ...callOptions,
+      method: 'PUT',
+      body: JSON.stringify(data),
+      schema: mediaSchema,
+    });
   }
 
   async uploadMedia(
@@ -377,17 +1029,7 @@ class ApiService {
       folder?: 'posts' | 'authors' | 'categories' | 'ui' | 'media';
       alt?: string;
     }
-  ): Promise<{
-    id: string;
-    public_id: string;
-    image_id: string;
-    url: string;
-    width: number;
-    height: number;
-    format: string;
-    filename: string;
-    size: number;
-  }>;
+  ): Promise<MediaUploadResult>;
   
   async uploadMedia(metadata: {
     url: string;
@@ -397,7 +1039,7 @@ class ApiService {
     alt?: string;
     public_id?: string;
     image_id?: string;
-  }): Promise<any>;
+  }): Promise<MediaUploadResult>;
   
   async uploadMedia(
     fileOrMetadata: File | {
@@ -413,7 +1055,7 @@ class ApiService {
       folder?: 'posts' | 'authors' | 'categories' | 'ui' | 'media';
       alt?: string;
     }
-  ) {
+  ): Promise<MediaUploadResult> {
     // If it's a File, upload to Cloudinary via backend
     if (fileOrMetadata instanceof File) {
       const formData = new FormData();
@@ -437,17 +1079,26 @@ class ApiService {
       }
       // Don't set Content-Type - browser will set it with boundary for multipart/form-data
       
-      const response = await fetch(`${this.baseUrl}/media/upload`, {
-        method: 'POST',
-        headers,
-        body: formData,
-      });
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl}/media/upload`, {
+          method: 'POST',
+          headers,
+          body: formData,
+        });
+      } catch (fetchError) {
+        throw new NetworkError(
+          `Upload failed: ${fetchError instanceof Error ? fetchError.message : 'network error'}`,
+          { endpoint: 'POST /media/upload', cause: fetchError }
+        );
+      }
       
       if (!response.ok) {
         let errorMessage = `Upload failed: ${response.status}`;
+        let errorCode: string | undefined;
         try {
           const errorData = await response.json() as {
-            error?: string | { message?: string };
+            error?: string | { message?: string; code?: string };
             message?: string;
           };
           const apiError = errorData.error;
@@ -455,32 +1106,37 @@ class ApiService {
             (typeof apiError === 'string' ? apiError : apiError?.message) ||
             errorData.message ||
             errorMessage;
+          errorCode = typeof apiError === 'object' ? apiError?.code : undefined;
         } catch {
           // Ignore JSON parse errors
         }
-        throw new Error(errorMessage);
+        throw createHttpError(response.status, errorMessage, {
+          endpoint: 'POST /media/upload',
+          code: errorCode,
+          retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+        });
       }
       
       const result = await response.json();
       
       // Return the data in a consistent format
-      if (result.success && result.data) {
-        return result.data;
-      }
-      
-      return result;
+      const payload = result.success && result.data ? result.data : result;
+      return mediaUploadResultSchema.parse(payload, { endpoint: 'POST /media/upload', path: [] });
     } else {
       // Register existing media metadata (supports both legacy URLs and public_ids)
       return this.request('/media', {
         method: 'POST',
         body: JSON.stringify(fileOrMetadata),
+        schema: mediaUploadResultSchema,
       });
     }
   }
 
-  async deleteMedia(id: string) {
+  async deleteMedia(id: string, callOptions?: ApiCallOptions) {
     return this.request(`/media/${id}`, {
+      ...callOptions,
       method: 'DELETE',
+      queueOffline: { label: 'Delete media file' },
     });
   }
 
@@ -522,27 +1178,51 @@ class ApiService {
   // REDIRECTS API
   // ============================================================================
 
-  async getRedirects(): Promise<Redirect[]> {
-    return this.request<Redirect[]>('/redirects');
+  async getRedirects(callOptions?: ApiCallOptions<Redirect[]>): Promise<Redirect[]> {
+    return this.request('/redirects', { ...callOptions, schema: redirectListSchema });
   }
 
-  async createRedirect(data: { from: string; to: string; type?: number; permanent?: boolean }): Promise<{ id: string }> {
-    return this.request<{ id: string }>('/redirects', {
+  async createRedirect(data: RedirectInput): Promise<{ id: string }> {
+    return this.request('/redirects', {
       method: 'POST',
       body: JSON.stringify(data),
+      schema: createdIdSchema,
     });
   }
 
-  async updateRedirect(id: string, data: { from?: string; to?: string; type?: number; permanent?: boolean; active?: boolean }): Promise<void> {
+  async updateRedirect(id: string, data: Partial<RedirectInput>): Promise<void> {
     return this.request<void>(`/redirects/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
+      queueOffline: { label: data.from ? `Update redirect ${data.from}` : 'Update redirect' },
     });
   }
 
   async deleteRedirect(id: string): Promise<void> {
     return this.request<void>(`/redirects/${id}`, {
       method: 'DELETE',
+      queueOffline: { label: 'Delete redirect' },
+    });
+  }
+
+  // ============================================================================
+  // LINK CHECKS API
+  // ============================================================================
+
+  /** Stored link reports, one per checked post */
+  async getLinkReports(callOptions?: ApiCallOptions<PostLinkReport[]>): Promise<PostLinkReport[]> {
+    return this.request('/link-reports', { ...callOptions, schema: postLinkReportListSchema });
+  }
+
+  async getLinkReport(postId: string, callOptions?: ApiCallOptions<PostLinkReport | null>): Promise<PostLinkReport | null> {
+    return this.request(`/link-reports/${postId}`, { ...callOptions, schema: postLinkReportSchema.nullable() });
+  }
+
+  async saveLinkReport(report: PostLinkReport): Promise<PostLinkReport> {
+    return this.request(`/link-reports/${report.postId}`, {
+      method: 'PUT',
+      body: JSON.stringify(report),
+      schema: postLinkReportSchema,
     });
   }
 
@@ -597,7 +1277,7 @@ class ApiService {
   // GROK TRENDS API
   // ============================================================================
 
-  async getGrokStories(params?: { status?: string; category?: string; limit?: number; offset?: number }) {
+  async getGrokStories(params?: { status?: string; category?: string; limit?: number; offset?: number }): Promise<GrokStory[]> {
     const queryParams = new URLSearchParams();
     if (params?.status) queryParams.append('status', params.status);
     if (params?.category) queryParams.append('category', params.category);
@@ -605,7 +1285,7 @@ class ApiService {
     if (params?.offset) queryParams.append('offset', params.offset.toString());
     
     const query = queryParams.toString();
-    return this.request(`/grok-trends/stories${query ? `?${query}` : ''}`);
+    return this.request(`/grok-trends/stories${query ? `?${query}` : ''}`, { schema: grokStoryListSchema });
   }
 
   async updateGrokStoryStatus(id: string, status: string) {
@@ -615,27 +1295,30 @@ class ApiService {
     });
   }
 
-  async getGrokStats() {
-    return this.request('/grok-trends/stats');
+  async getGrokStats(): Promise<GrokStats> {
+    return this.request('/grok-trends/stats', { schema: grokStatsSchema });
   }
 
   async fetchGrokStories(data?: { category?: string }) {
     return this.request('/grok-trends/fetch', {
       method: 'POST',
       body: JSON.stringify(data || {}),
+      schema: grokFetchResultSchema,
     });
   }
 
-  async createGrokStory(data: any) {
+  async createGrokStory(data: GrokStoryInput): Promise<GrokStory> {
     return this.request('/grok-trends/stories', {
       method: 'POST',
       body: JSON.stringify(data),
+      schema: grokStorySchema,
     });
   }
 
   async generateGrokDraft(storyId: string) {
     return this.request(`/grok-trends/stories/${storyId}/generate-draft`, {
       method: 'POST',
+      schema: grokDraftSchema,
     });
   }
 
@@ -654,6 +1337,7 @@ class ApiService {
     return this.request(`/grok-trends/stories/${storyId}/publish`, {
       method: 'POST',
       body: JSON.stringify(postData || {}),
+      schema: grokPublishResultSchema,
     });
   }
 
@@ -665,11 +1349,12 @@ class ApiService {
     return this.request('/grok-trends/fetch', {
       method: 'POST',
       body: JSON.stringify(data || {}),
+      schema: grokFetchResultSchema,
     });
   }
 
-  async getAutoDraftConfig() {
-    return this.request('/grok-trends/config/auto-draft');
+  async getAutoDraftConfig(): Promise<GrokAutoDraftConfig> {
+    return this.request('/grok-trends/config/auto-draft', { schema: grokAutoDraftConfigSchema });
   }
 
   async updateAutoDraftConfig(config: {
@@ -695,26 +1380,26 @@ class ApiService {
     userId?: string;
     startDate?: string;
     endDate?: string;
-  }) {
+  }): Promise<AuditLog[]> {
     const queryParams = new URLSearchParams();
     Object.entries(params || {}).forEach(([key, value]) => {
       if (value !== undefined) queryParams.append(key, value.toString());
     });
     
     const query = queryParams.toString();
-    return this.request(`/audit-logs${query ? `?${query}` : ''}`);
+    return this.request(`/audit-logs${query ? `?${query}` : ''}`, { schema: auditLogListSchema });
   }
 
   async getAuditLogStats() {
-    return this.request('/audit-logs/stats');
+    return this.request('/audit-logs/stats', { schema: auditLogStatsSchema });
   }
 
   async getAuditLogFilters() {
-    return this.request('/audit-logs/filters');
+    return this.request('/audit-logs/filters', { schema: auditLogFiltersSchema });
   }
 
-  async getAuditLogById(id: string) {
-    return this.request(`/audit-logs/${id}`);
+  async getAuditLogById(id: string): Promise<AuditLog> {
+    return this.request(`/audit-logs/${id}`, { schema: auditLogSchema });
   }
 
   // ============================================================================
@@ -789,25 +1474,26 @@ class ApiService {
     return this.request('/bulk-emails', {
       method: 'POST',
       body: JSON.stringify(data),
+      schema: bulkEmailCampaignCreatedSchema,
     });
   }
 
-  async getBulkEmailCampaign(campaignId: string) {
-    return this.request(`/bulk-emails/${campaignId}`);
+  async getBulkEmailCampaign(campaignId: string): Promise<BulkEmailCampaign> {
+    return this.request(`/bulk-emails/${campaignId}`, { schema: bulkEmailCampaignSchema });
   }
 
   async getBulkEmailCampaigns(params?: {
     limit?: number;
     offset?: number;
-    status?: 'queued' | 'sending' | 'completed' | 'failed';
-  }) {
+    status?: BulkEmailStatus;
+  }): Promise<BulkEmailCampaign[]> {
     const queryParams = new URLSearchParams();
     if (params?.limit) queryParams.append('limit', params.limit.toString());
     if (params?.offset) queryParams.append('offset', params.offset.toString());
     if (params?.status) queryParams.append('status', params.status);
     
     const query = queryParams.toString();
-    return this.request(`/bulk-emails${query ? `?${query}` : ''}`);
+    return this.request(`/bulk-emails${query ? `?${query}` : ''}`, { schema: bulkEmailCampaignListSchema });
   }
 
   async previewBulkEmail(data: {
@@ -819,18 +1505,21 @@ class ApiService {
     return this.request('/bulk-emails/preview', {
       method: 'POST',
       body: JSON.stringify(data),
+      schema: bulkEmailPreviewSchema,
     });
   }
 
   async resendBulkEmailCampaign(campaignId: string) {
     return this.request(`/bulk-emails/${campaignId}/resend`, {
       method: 'POST',
+      schema: bulkEmailCampaignCreatedSchema,
     });
   }
 
   async retryFailedBulkEmails(campaignId: string) {
     return this.request(`/bulk-emails/${campaignId}/retry-failed`, {
       method: 'POST',
+      schema: bulkEmailCampaignCreatedSchema,
     });
   }
 
@@ -880,16 +1569,11 @@ class ApiService {
     if (params?.yearMin != null) queryParams.append('yearMin', String(params.yearMin));
     if (params?.yearMax != null) queryParams.append('yearMax', String(params.yearMax));
     const q = queryParams.toString();
-    return this.request<{
-      items: unknown[];
-      total: number;
-      limit: number;
-      offset: number;
-    }>(`/founders${q ? `?${q}` : ''}`);
+    return this.request(`/founders${q ? `?${q}` : ''}`, { schema: founderDirectorySchema });
   }
 
-  async getFounderBySlugPublic(slug: string) {
-    return this.request<Record<string, unknown>>(`/founders/${encodeURIComponent(slug)}`);
+  async getFounderBySlugPublic(slug: string): Promise<FounderRecord> {
+    return this.request(`/founders/${encodeURIComponent(slug)}`, { schema: founderSchema });
   }
 
   async requestFounderProfileUpdate(slug: string, body: { email: string; message: string }) {
@@ -909,17 +1593,17 @@ class ApiService {
     if (params?.search) queryParams.append('search', params.search);
     if (params?.limit != null) queryParams.append('limit', String(params.limit));
     const q = queryParams.toString();
-    return this.request<unknown[]>(`/founders/applications${q ? `?${q}` : ''}`);
+    return this.request(`/founders/applications${q ? `?${q}` : ''}`, { schema: founderListSchema });
   }
 
-  async getFounderApplicationById(id: string) {
-    return this.request<Record<string, unknown>>(`/founders/applications/${encodeURIComponent(id)}`);
+  async getFounderApplicationById(id: string): Promise<FounderRecord> {
+    return this.request(`/founders/applications/${encodeURIComponent(id)}`, { schema: founderSchema });
   }
 
   async approveFounderApplication(id: string) {
-    return this.request<{ slug?: string; profileUrl?: string }>(
+    return this.request(
       `/founders/applications/${encodeURIComponent(id)}/approve`,
-      { method: 'POST' }
+      { method: 'POST', schema: founderApprovalSchema }
     );
   }
 
@@ -27,6 +27,46 @@ export interface CloudinaryTransformOptions {
   gravity?: string;
   /** Fetch format: 'auto' enables automatic format selection */
   fetchFormat?: string;
+  /** Aspect ratio the image is shown at; selects the art-direction crop */
+  aspect?: ImageAspect;
+}
+
+/**
+ * Aspect ratios editors can art-direct featured images for
+ */
+export const IMAGE_ASPECTS = {
+  '16:9': 16 / 9,
+  '1:1': 1,
+  '1.91:1': 1.91,
+  '4:5': 4 / 5,
+} as const;
+
+export type ImageAspect = keyof typeof IMAGE_ASPECTS;
+
+/** Point of interest as fractions (0–1) of the image width and height */
+export interface ImageFocalPoint {
+  x: number;
+  y: number;
+}
+
+/** Manual crop rectangle as fractions (0–1) of the image width and height */
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Editor-chosen framing for an image. Without it presets fall back to
+ * Cloudinary's automatic gravity.
+ */
+export interface ImageArtDirection {
+  focalPoint?: ImageFocalPoint;
+  crops?: Partial<Record<ImageAspect, ImageCrop>>;
+  /** Pixel size of the stored original; needed to place focal point crops */
+  width?: number;
+  height?: number;
 }
 
 /**
@@ -47,12 +87,18 @@ export const CloudinaryPresets = {
   /** Thumbnails: 400px width, auto format/quality */
   thumbnail: { width: 400, format: 'auto', quality: 'auto' },
   /** Square thumbs for list items (2x retina for 64px display) */
-  thumbSquare: { width: 128, height: 128, crop: 'fill', gravity: 'auto', format: 'auto', quality: 85 },
+  thumbSquare: { width: 128, height: 128, crop: 'fill', gravity: 'auto', format: 'auto', quality: 85, aspect: '1:1' },
   /** Social preview (OG/Twitter): 1200x630, JPG for WhatsApp/Facebook crawler compatibility */
-  social: { width: 1200, height: 630, crop: 'fill', format: 'jpg', quality: 'auto' },
+  social: { width: 1200, height: 630, crop: 'fill', format: 'jpg', quality: 'auto', aspect: '1.91:1' },
+  /** Homepage lead story: 16:9 at 1600px */
+  hero: { width: 1600, height: 900, crop: 'fill', gravity: 'auto', format: 'auto', quality: 'auto', aspect: '16:9' },
+  /** Grid and list cards: 16:9 at 800px */
+  card: { width: 800, height: 450, crop: 'fill', gravity: 'auto', format: 'auto', quality: 'auto', aspect: '16:9' },
+  /** Portrait story cards: 4:5 at 800px */
+  portrait: { width: 800, height: 1000, crop: 'fill', gravity: 'auto', format: 'auto', quality: 'auto', aspect: '4:5' },
   /** Avatar: 200x200, fill crop, face gravity */
   avatar: { width: 200, height: 200, crop: 'fill', gravity: 'face', format: 'auto', quality: 'auto' },
-} as const;
+} as const satisfies Record<string, CloudinaryTransformOptions>;
 
 /**
  * Build Cloudinary transformation string from options
@@ -97,11 +143,71 @@ function buildTransformationString(options: CloudinaryTransformOptions): string
   return transformations.join(',');
 }
 
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Crop that frames the focal point at the given aspect ratio: as large as
+ * the image allows, centred on the point and kept inside the image.
+ * Returned as fractions of the image size.
+ */
+export function focalPointCrop(
+  focalPoint: ImageFocalPoint,
+  aspectRatio: number,
+  imageWidth: number,
+  imageHeight: number
+): ImageCrop {
+  const imageRatio = imageWidth / imageHeight;
+  if (imageRatio > aspectRatio) {
+    const width = aspectRatio / imageRatio;
+    return { x: clamp(focalPoint.x - width / 2, 0, 1 - width), y: 0, width, height: 1 };
+  }
+  const height = imageRatio / aspectRatio;
+  return { x: 0, y: clamp(focalPoint.y - height / 2, 0, 1 - height), width: 1, height };
+}
+
+function aspectOf(options: CloudinaryTransformOptions): ImageAspect | null {
+  if (options.aspect) return options.aspect;
+  if (!options.width || !options.height || options.crop !== 'fill') return null;
+  const ratio = options.width / options.height;
+  const match = (Object.keys(IMAGE_ASPECTS) as ImageAspect[]).find(
+    (aspect) => Math.abs(IMAGE_ASPECTS[aspect] - ratio) < 0.01
+  );
+  return match ?? null;
+}
+
+/**
+ * c_crop step for art-directed images: the manual crop for the preset's
+ * aspect ratio, otherwise a crop around the focal point. Pixel values when
+ * the original size is known, relative (decimal) values otherwise.
+ */
+function buildArtDirectionCrop(options: CloudinaryTransformOptions, art: ImageArtDirection): string | null {
+  const aspect = aspectOf(options);
+  if (!aspect) return null;
+
+  const hasSize = Boolean(art.width && art.height);
+  let crop = art.crops?.[aspect];
+  if (!crop && art.focalPoint && hasSize) {
+    crop = focalPointCrop(art.focalPoint, IMAGE_ASPECTS[aspect], art.width!, art.height!);
+  }
+  if (!crop) return null;
+
+  const format = (fraction: number, size: number | undefined) =>
+    hasSize ? String(Math.round(fraction * size!)) : fraction.toFixed(4);
+  return [
+    'c_crop',
+    `h_${format(crop.height, art.height)}`,
+    `w_${format(crop.width, art.width)}`,
+    `x_${format(crop.x, art.width)}`,
+    `y_${format(crop.y, art.height)}`,
+  ].join(',');
+}
+
 /**
  * Get Cloudinary URL from public_id with transformations
  * 
  * @param publicId - Cloudinary public_id (e.g., 'techblit/posts/image-123')
  * @param options - Transformation options or preset name
+ * @param art - Focal point and per-aspect crops; applied to presets with an aspect ratio
  * @returns Full Cloudinary URL
  * 
  * @example
@@ -114,7 +220,8 @@ function buildTransformationString(options: CloudinaryTransformOptions): string
  */
 export function getCloudinaryUrl(
   publicId: string | null | undefined,
-  options?: CloudinaryTransformOptions | keyof typeof CloudinaryPresets
+  options?: CloudinaryTransformOptions | keyof typeof CloudinaryPresets,
+  art?: ImageArtDirection
 ): string | null {
   if (!publicId) {
     return null;
@@ -131,12 +238,85 @@ export function getCloudinaryUrl(
     transformOptions = {};
   }
 
+  // Art direction: crop the region first, then resize it (gravity no longer applies)
+  const artCrop = art ? buildArtDirectionCrop(transformOptions, art) : null;
+  if (artCrop) {
+    transformOptions = { ...transformOptions, gravity: undefined };
+  }
+
   // Build transformation string
   const transformations = buildTransformationString(transformOptions);
 
   // Construct URL
   // Format: https://res.cloudinary.com/{cloud_name}/image/upload/{transformations}/{public_id}
-  return `${CLOUDINARY_BASE_URL}/${transformations}/${publicId}`;
+  return artCrop
+    ? `${CLOUDINARY_BASE_URL}/${artCrop}/${transformations}/${publicId}`
+    : `${CLOUDINARY_BASE_URL}/${transformations}/${publicId}`;
+}
+
+/**
+ * Widths offered in generated srcsets, alongside the preset's own width
+ * and its 2x
+ */
+export const RESPONSIVE_WIDTHS = [320, 480, 640, 800, 1080, 1280, 1600, 1920] as const;
+
+const MAX_RESPONSIVE_WIDTH = 2560;
+
+/** Attributes for a responsive <img> */
+export interface ResponsiveImageSource {
+  src: string;
+  srcSet: string;
+  sizes: string;
+  width: number;
+  height?: number;
+}
+
+/**
+ * Build `src`, `srcset` and `sizes` for a public_id. Every candidate keeps
+ * the preset's aspect ratio and art direction; widths stop at twice the
+ * preset width.
+ *
+ * @param publicId - Cloudinary public_id
+ * @param options - Transformation options or preset name; needs a width
+ * @param responsive.sizes - `sizes` attribute; defaults to full width up to the preset width
+ *
+ * @example
+ * getCloudinarySrcSet('techblit/posts/image-123', 'inline')
+ * // { src: '…/w_800/…', srcSet: '…/w_320/… 320w, …, …/w_1600/… 1600w', sizes: '(max-width: 800px) 100vw, 800px', width: 800 }
+ */
+export function getCloudinarySrcSet(
+  publicId: string | null | undefined,
+  options: CloudinaryTransformOptions | keyof typeof CloudinaryPresets,
+  responsive: { sizes?: string; widths?: readonly number[]; art?: ImageArtDirection } = {}
+): ResponsiveImageSource | null {
+  if (!publicId) return null;
+
+  const base: CloudinaryTransformOptions = typeof options === 'string' ? CloudinaryPresets[options] : options;
+  if (!base.width) return null;
+  const baseWidth = base.width;
+
+  const heightFor = (width: number) => (base.height ? Math.round((width * base.height) / baseWidth) : undefined);
+  const urlFor = (width: number) =>
+    getCloudinaryUrl(publicId, { ...base, width, height: heightFor(width) }, responsive.art);
+
+  const widths = new Set(
+    (responsive.widths ?? RESPONSIVE_WIDTHS).filter((width) => width < baseWidth * 2)
+  );
+  widths.add(baseWidth);
+  widths.add(Math.min(baseWidth * 2, MAX_RESPONSIVE_WIDTH));
+
+  const srcSet = Array.from(widths)
+    .sort((a, b) => a - b)
+    .map((width) => `${urlFor(width)} ${width}w`)
+    .join(', ');
+
+  return {
+    src: urlFor(baseWidth) as string,
+    srcSet,
+    sizes: responsive.sizes ?? `(max-width: ${baseWidth}px) 100vw, ${baseWidth}px`,
+    width: baseWidth,
+    height: base.height,
+  };
 }
 
 /**
@@ -163,7 +343,8 @@ export function extractPublicId(url: string): string | null {
 
   try {
     // Pattern: https://res.cloudinary.com/{cloud_name}/image/upload/{transformations}/{public_id}
-    const match = url.match(/\/image\/upload\/[^/]+\/(.+)$/);
+    // Art-directed URLs chain a crop step before the transformations
+    const match = url.match(/\/image\/upload\/(?:[a-z]{1,3}_[^/]*\/)*(?:v\d+\/)?(.+)$/);
     if (match && match[1]) {
       // Remove any file extension that might be added
       return match[1].split('.')[0];
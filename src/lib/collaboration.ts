@@ -0,0 +1,330 @@
+/**
+ * Real-time collaborative editing
+ *
+ * A post body is a Yjs document (a CRDT), so concurrent edits from several
+ * editors merge instead of the last save winning. Documents are synced through
+ * a CollaborationProvider:
+ *
+ *   - NEXT_PUBLIC_COLLAB_URL set: y-websocket connection to the sync server,
+ *     authenticated with the editor's Firebase ID token in the first message
+ *     (see COLLABORATION_AUTH_MESSAGE)
+ *   - unset in development: a BroadcastChannel stand-in that syncs the tabs
+ *     of one browser, so no server is needed
+ *   - unset anywhere else: collaboration is off. The stand-in can't sync
+ *     editors in different browsers, so offering it would only look live.
+ *
+ * Another transport can be plugged in with setCollaborationProviderFactory.
+ */
+
+import * as Y from 'yjs';
+import {
+  Awareness,
+  applyAwarenessUpdate,
+  encodeAwarenessUpdate,
+  removeAwarenessStates,
+} from 'y-protocols/awareness';
+import { WebsocketProvider, messageAuth } from 'y-websocket';
+import * as encoding from 'lib0/encoding';
+import { prosemirrorToYXmlFragment } from '@tiptap/y-tiptap';
+import { createDocument } from '@tiptap/react';
+import type { Schema } from '@tiptap/pm/model';
+
+/** Name of the XmlFragment holding the editor content */
+export const COLLABORATION_FIELD = 'default';
+
+/** How long to wait for the initial sync before editing alone */
+export const COLLABORATION_SYNC_TIMEOUT_MS = 8000;
+
+export type CollaborationStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface CollaborationUser {
+  id: string;
+  name: string;
+  color: string;
+  avatar?: string;
+}
+
+export interface CollaborationPeer extends CollaborationUser {
+  clientId: number;
+  /** Has a cursor in the document right now */
+  isEditing: boolean;
+}
+
+/** What the editor needs from a sync transport */
+export interface CollaborationProvider {
+  readonly awareness: Awareness;
+  /** Resolves once the local document has caught up with the shared one */
+  readonly whenSynced: Promise<void>;
+  onStatus(handler: (status: CollaborationStatus) => void): () => void;
+  destroy(): void;
+}
+
+export type CollaborationProviderFactory = (
+  room: string,
+  doc: Y.Doc,
+  options: { token?: string | null }
+) => CollaborationProvider;
+
+export interface CollaborationSession {
+  room: string;
+  doc: Y.Doc;
+  provider: CollaborationProvider;
+  user: CollaborationUser;
+}
+
+const USER_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#db2777', '#0891b2', '#4f46e5'];
+
+/** Stable per-user color for carets and avatars */
+export function colorForUser(uid: string): string {
+  let hash = 0;
+  for (let i = 0; i < uid.length; i++) {
+    hash = (hash * 31 + uid.charCodeAt(i)) | 0;
+  }
+  return USER_COLORS[Math.abs(hash) % USER_COLORS.length];
+}
+
+export function getPostRoom(postId: string): string {
+  return `post:${postId}`;
+}
+
+export function getCollaborationUrl(): string | null {
+  return process.env.NEXT_PUBLIC_COLLAB_URL?.replace(/\/$/, '') || null;
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+/**
+ * Submessage of y-websocket's auth message (type 2) a client opens every
+ * connection with: `[2, 1, token]`, the token as a varString. The sync
+ * server reads it before any sync or awareness message. The token stays
+ * out of the URL, where proxies and access logs would record it.
+ */
+export const COLLABORATION_AUTH_MESSAGE = 1;
+
+function encodeAuthMessage(token: string): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, messageAuth);
+  encoding.writeVarUint(encoder, COLLABORATION_AUTH_MESSAGE);
+  encoding.writeVarString(encoder, token);
+  return encoding.toUint8Array(encoder);
+}
+
+/** WebSocket that sends the token before the provider's own messages */
+function authenticatedWebSocket(token: string): typeof WebSocket {
+  return class extends WebSocket {
+    constructor(url: string | URL, protocols?: string | string[]) {
+      super(url, protocols);
+      // Registered before the provider sets onopen, so it runs first
+      this.addEventListener('open', () => this.send(encodeAuthMessage(token)));
+    }
+  };
+}
+
+const websocketProviderFactory: CollaborationProviderFactory = (room, doc, { token }) => {
+  const provider = new WebsocketProvider(getCollaborationUrl()!, room, doc, {
+    WebSocketPolyfill: token ? authenticatedWebSocket(token) : WebSocket,
+  });
+
+  return {
+    awareness: provider.awareness,
+    whenSynced: new Promise((resolve) => {
+      if (provider.synced) {
+        resolve();
+        return;
+      }
+      const handleSync = (synced: boolean) => {
+        if (!synced) return;
+        provider.off('sync', handleSync);
+        resolve();
+      };
+      provider.on('sync', handleSync);
+    }),
+    onStatus(handler) {
+      const handleStatus = ({ status }: { status: CollaborationStatus }) => handler(status);
+      provider.on('status', handleStatus);
+      return () => provider.off('status', handleStatus);
+    },
+    destroy: () => provider.destroy(),
+  };
+};
+
+type LocalMessage =
+  | { type: 'sync-request'; from: number; stateVector: Uint8Array }
+  | { type: 'update'; from: number; to?: number; update: Uint8Array }
+  | { type: 'awareness'; from: number; update: Uint8Array };
+
+// Quiet period after which a tab without peers assumes it holds the only copy
+const LOCAL_SYNC_WINDOW_MS = 300;
+
+/**
+ * Development stand-in for the sync server: tabs of the same browser exchange
+ * Yjs and awareness updates over a BroadcastChannel.
+ */
+const localProviderFactory: CollaborationProviderFactory = (room, doc) => {
+  const channel = new BroadcastChannel(`techblit-collab:${room}`);
+  const awareness = new Awareness(doc);
+  const statusHandlers = new Set<(status: CollaborationStatus) => void>();
+  const post = (message: LocalMessage) => channel.postMessage(message);
+
+  const handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin !== channel) post({ type: 'update', from: doc.clientID, update });
+  };
+  const handleAwarenessUpdate = (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown
+  ) => {
+    if (origin === channel) return;
+    const clients = [...added, ...updated, ...removed];
+    post({ type: 'awareness', from: doc.clientID, update: encodeAwarenessUpdate(awareness, clients) });
+  };
+
+  channel.onmessage = ({ data }: MessageEvent<LocalMessage>) => {
+    if (data.from === doc.clientID) return;
+    switch (data.type) {
+      case 'sync-request':
+        post({ type: 'update', from: doc.clientID, to: data.from, update: Y.encodeStateAsUpdate(doc, data.stateVector) });
+        post({
+          type: 'awareness',
+          from: doc.clientID,
+          update: encodeAwarenessUpdate(awareness, Array.from(awareness.getStates().keys())),
+        });
+        break;
+      case 'update':
+        if (data.to === undefined || data.to === doc.clientID) {
+          Y.applyUpdate(doc, data.update, channel);
+        }
+        break;
+      case 'awareness':
+        applyAwarenessUpdate(awareness, data.update, channel);
+        break;
+    }
+  };
+
+  doc.on('update', handleDocUpdate);
+  awareness.on('update', handleAwarenessUpdate);
+  post({ type: 'sync-request', from: doc.clientID, stateVector: Y.encodeStateVector(doc) });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const whenSynced = new Promise<void>((resolve) => {
+    timer = setTimeout(() => {
+      statusHandlers.forEach((handler) => handler('connected'));
+      resolve();
+    }, LOCAL_SYNC_WINDOW_MS);
+  });
+
+  return {
+    awareness,
+    whenSynced,
+    onStatus(handler) {
+      statusHandlers.add(handler);
+      return () => statusHandlers.delete(handler);
+    },
+    destroy() {
+      clearTimeout(timer);
+      removeAwarenessStates(awareness, [doc.clientID], 'destroy');
+      doc.off('update', handleDocUpdate);
+      awareness.off('update', handleAwarenessUpdate);
+      awareness.destroy();
+      channel.close();
+      statusHandlers.clear();
+    },
+  };
+};
+
+let providerFactory: CollaborationProviderFactory | null = null;
+
+/** Replace the sync transport, e.g. with a hosted provider */
+export function setCollaborationProviderFactory(factory: CollaborationProviderFactory | null): void {
+  providerFactory = factory;
+}
+
+function getProviderFactory(): CollaborationProviderFactory | null {
+  if (providerFactory) return providerFactory;
+  if (getCollaborationUrl()) return websocketProviderFactory;
+  return process.env.NODE_ENV === 'development' ? localProviderFactory : null;
+}
+
+/** Whether a sync transport is configured for this environment */
+export function isCollaborationAvailable(): boolean {
+  return getProviderFactory() !== null;
+}
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+
+export function createCollaborationSession(
+  room: string,
+  user: CollaborationUser,
+  options: { token?: string | null } = {}
+): CollaborationSession {
+  const factory = getProviderFactory();
+  if (!factory) {
+    throw new Error('Collaboration is not configured; set NEXT_PUBLIC_COLLAB_URL');
+  }
+  const doc = new Y.Doc();
+  const provider = factory(room, doc, options);
+  provider.awareness.setLocalStateField('user', user);
+  return { room, doc, provider, user };
+}
+
+export function destroyCollaborationSession(session: CollaborationSession): void {
+  session.provider.destroy();
+  session.doc.destroy();
+}
+
+/** Yjs client id for seeding `html`: 32-bit FNV-1a of the body */
+function seedClientId(html: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < html.length; i++) {
+    hash = Math.imul(hash ^ html.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Fill an empty shared document with the saved post body.
+ *
+ * The seed is built in a scratch document whose client id is derived from
+ * the body, so two editors seeding the same saved HTML at the same time
+ * produce identical updates that Yjs merges into one copy instead of
+ * duplicating the body. Seeds of different bodies get different ids: a
+ * client still holding an older seed can't send items whose ids clash
+ * with a newer one's.
+ */
+export function seedCollaborationDocument(session: CollaborationSession, schema: Schema, html: string): boolean {
+  const fragment = session.doc.getXmlFragment(COLLABORATION_FIELD);
+  if (fragment.length > 0 || !html) return false;
+
+  const seed = new Y.Doc();
+  seed.clientID = seedClientId(html);
+  prosemirrorToYXmlFragment(createDocument(html, schema), seed.getXmlFragment(COLLABORATION_FIELD));
+  Y.applyUpdate(session.doc, Y.encodeStateAsUpdate(seed));
+  seed.destroy();
+  return true;
+}
+
+export function getCollaborationPeers(session: CollaborationSession): CollaborationPeer[] {
+  const { awareness } = session.provider;
+  const peers: CollaborationPeer[] = [];
+  awareness.getStates().forEach((state, clientId) => {
+    if (clientId === awareness.clientID || !state.user) return;
+    peers.push({ ...(state.user as CollaborationUser), clientId, isEditing: Boolean(state.cursor) });
+  });
+  return peers;
+}
+
+/**
+ * The client with the lowest id persists the shared document, so peers don't
+ * each write their own copy of it
+ */
+export function isCollaborationLeader(session: CollaborationSession): boolean {
+  const { awareness } = session.provider;
+  let leader = awareness.clientID;
+  awareness.getStates().forEach((state, clientId) => {
+    if (state.user && clientId < leader) leader = clientId;
+  });
+  return leader === awareness.clientID;
+}
@@ -0,0 +1,144 @@
+/**
+ * Site-wide content audit
+ *
+ * Per-post checks for the problems that quietly hurt search traffic: thin
+ * bodies, missing meta descriptions or featured images, canonicals that
+ * point somewhere wrong, and accidental noindex. Builds on the SEO
+ * analysis, and like it runs anywhere (no DOM).
+ */
+
+import type { Post, PostStatus } from '@/types/admin';
+import { analyzeSeo, contentLengthFor, seoInputFromPost } from '@/lib/seoAnalysis';
+import { getCoverUrl } from '@/lib/imageHelpers';
+import { parseDate } from '@/lib/dateUtils';
+
+export type ContentIssueKind =
+  | 'thin-content'
+  | 'missing-meta-description'
+  | 'missing-featured-image'
+  | 'broken-canonical'
+  | 'external-canonical'
+  | 'noindex'
+  | 'low-seo-score';
+
+export const CONTENT_ISSUE_LABELS: Record<ContentIssueKind, string> = {
+  'thin-content': 'Thin content',
+  'missing-meta-description': 'No meta description',
+  'missing-featured-image': 'No featured image',
+  'broken-canonical': 'Broken canonical',
+  'external-canonical': 'Canonical elsewhere',
+  noindex: 'Noindex',
+  'low-seo-score': 'Low SEO score',
+};
+
+export interface ContentIssue {
+  kind: ContentIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ContentAuditRow {
+  slug: string;
+  title: string;
+  status: PostStatus;
+  author: string;
+  category: string;
+  updatedAt: Date | null;
+  wordCount: number;
+  seoScore: number;
+  issues: ContentIssue[];
+}
+
+/** SEO score below which a post is flagged */
+const LOW_SEO_SCORE = 50;
+
+function checkCanonical(canonical: string, slug: string, siteUrl: string): ContentIssue | null {
+  if (!canonical) return null;
+
+  let url: URL;
+  try {
+    url = new URL(canonical);
+  } catch {
+    return { kind: 'broken-canonical', severity: 'error', message: `Canonical "${canonical}" is not a valid URL` };
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return { kind: 'broken-canonical', severity: 'error', message: `Canonical uses ${url.protocol} instead of https` };
+  }
+
+  let site: URL | null = null;
+  try {
+    site = new URL(siteUrl);
+  } catch {
+    // can't tell internal from external
+  }
+  if (site && url.hostname.replace(/^www\./, '') !== site.hostname.replace(/^www\./, '')) {
+    return { kind: 'external-canonical', severity: 'warning', message: `Canonical points to ${url.hostname}` };
+  }
+
+  const path = url.pathname.replace(/\/+$/, '');
+  if (slug && path !== `/${slug}`) {
+    return {
+      kind: 'broken-canonical',
+      severity: 'warning',
+      message: `Canonical points to ${path || '/'} instead of this post`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Audit one post
+ *
+ * @param siteUrl - Used to tell own-site canonicals from external ones
+ */
+export function auditPostContent(
+  post: Post,
+  siteUrl: string = process.env.NEXT_PUBLIC_SITE_URL || 'https://www.techblit.com'
+): ContentAuditRow {
+  const analysis = analyzeSeo(seoInputFromPost(post), { siteUrl });
+  const issues: ContentIssue[] = [];
+
+  const { min } = contentLengthFor(post.category);
+  if (analysis.stats.wordCount < min) {
+    issues.push({
+      kind: 'thin-content',
+      severity: analysis.stats.wordCount < min / 2 ? 'error' : 'warning',
+      message: `${analysis.stats.wordCount} words (minimum ${min}${post.category ? ` for ${post.category}` : ''})`,
+    });
+  }
+
+  if (!post.metaDescription?.trim()) {
+    issues.push({ kind: 'missing-meta-description', severity: 'warning', message: 'Meta description is empty' });
+  }
+
+  if (!getCoverUrl(post.featuredImage)) {
+    issues.push({ kind: 'missing-featured-image', severity: 'warning', message: 'No featured image' });
+  }
+
+  const canonicalIssue = checkCanonical(post.canonical?.trim() || '', post.slug, siteUrl);
+  if (canonicalIssue) issues.push(canonicalIssue);
+
+  if (post.seo?.noindex) {
+    issues.push({
+      kind: 'noindex',
+      severity: post.status === 'published' ? 'error' : 'warning',
+      message: post.status === 'published' ? 'Published but hidden from search engines' : 'Marked noindex',
+    });
+  }
+
+  if (analysis.score < LOW_SEO_SCORE) {
+    issues.push({ kind: 'low-seo-score', severity: 'warning', message: `SEO score ${analysis.score}/100` });
+  }
+
+  return {
+    slug: post.slug,
+    title: post.title,
+    status: post.status,
+    author: post.author?.name || 'Unknown',
+    category: post.category || 'Uncategorized',
+    updatedAt: parseDate(post.updatedAt),
+    wordCount: analysis.stats.wordCount,
+    seoScore: analysis.score,
+    issues,
+  };
+}
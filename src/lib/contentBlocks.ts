@@ -0,0 +1,152 @@
+/**
+ * Structured content blocks
+ *
+ * Callouts, pull quotes, key takeaways and timelines are stored as plain
+ * semantic HTML marked with `data-block` and styled from globals.css.
+ * Funding-round fact boxes keep their facts as data attributes so the
+ * article can format them consistently and emit structured data:
+ *
+ *   <aside data-block="funding-round" data-company="…" data-amount="15000000"
+ *          data-currency="USD" data-round="Series A" data-investors='["…"]'>
+ */
+
+import { escapeHtml, readTagAttributes } from '@/lib/embeds';
+
+export type CalloutVariant = 'info' | 'warning' | 'tip';
+
+export const CALLOUT_VARIANTS: Record<CalloutVariant, { label: string; icon: string }> = {
+  info: { label: 'Note', icon: 'ℹ️' },
+  warning: { label: 'Warning', icon: '⚠️' },
+  tip: { label: 'Tip', icon: '💡' },
+};
+
+export const FUNDING_ROUND_TYPES = [
+  'Pre-seed',
+  'Seed',
+  'Series A',
+  'Series B',
+  'Series C',
+  'Series D+',
+  'Bridge',
+  'Debt',
+  'Grant',
+  'Acquisition',
+] as const;
+
+export const FUNDING_CURRENCIES = ['USD', 'NGN', 'KES', 'ZAR', 'EGP', 'GHS', 'EUR', 'GBP'] as const;
+
+export interface FundingRound {
+  company: string;
+  /** Amount in whole units of `currency` */
+  amount: number | null;
+  currency: string;
+  round: string;
+  investors: string[];
+}
+
+/**
+ * "$15M", "₦2.5B" — falls back to the plain number for unknown currencies
+ */
+export function formatFundingAmount(amount: number | null, currency: string): string {
+  if (amount === null || !Number.isFinite(amount)) return 'Undisclosed';
+  try {
+    return new Intl.NumberFormat('en', {
+      style: 'currency',
+      currency,
+      notation: 'compact',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 1,
+    }).format(amount);
+  } catch {
+    return `${currency} ${amount.toLocaleString('en')}`;
+  }
+}
+
+/** `data-*` attributes the editor writes on a funding fact box */
+export function fundingRoundDataAttributes(round: FundingRound): Record<string, string> {
+  return {
+    'data-block': 'funding-round',
+    'data-company': round.company,
+    'data-amount': round.amount === null ? '' : String(round.amount),
+    'data-currency': round.currency,
+    'data-round': round.round,
+    'data-investors': JSON.stringify(round.investors),
+  };
+}
+
+/** Investors from the stored JSON array or a comma-separated list */
+export function parseInvestors(value: string | null | undefined): string[] {
+  if (!value) return [];
+  if (value.trim().startsWith('[')) {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) return parsed.filter((item): item is string => typeof item === 'string');
+    } catch {
+      // Not JSON after all; read it as a list typed by hand
+    }
+  }
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+}
+
+export function fundingRoundFromData(data: Record<string, string | null | undefined>): FundingRound {
+  const amount = data['data-amount'] ? Number(data['data-amount']) : NaN;
+  return {
+    company: data['data-company'] || '',
+    amount: Number.isFinite(amount) ? amount : null,
+    currency: data['data-currency'] || 'USD',
+    round: data['data-round'] || '',
+    investors: parseInvestors(data['data-investors']),
+  };
+}
+
+/**
+ * Fact rows shown in the box, shared by the editor output and the article
+ */
+export function fundingRoundFacts(round: FundingRound): Array<{ label: string; value: string }> {
+  return [
+    { label: 'Company', value: round.company },
+    { label: 'Round', value: round.round },
+    { label: 'Amount', value: formatFundingAmount(round.amount, round.currency) },
+    { label: 'Investors', value: round.investors.join(', ') },
+  ].filter((fact) => fact.value);
+}
+
+export function renderFundingRoundHtml(round: FundingRound): string {
+  const facts = fundingRoundFacts(round)
+    .map((fact) => `<div><dt>${escapeHtml(fact.label)}</dt><dd>${escapeHtml(fact.value)}</dd></div>`)
+    .join('');
+  const attributes = Object.entries(fundingRoundDataAttributes(round))
+    .map(([name, value]) => `${name}="${escapeHtml(value)}"`)
+    .join(' ');
+  return `<aside ${attributes} class="content-block funding-round">`
+    + '<p class="block-title">Funding round</p>'
+    + `<dl>${facts}</dl></aside>`;
+}
+
+// Attribute values may contain a raw `>` (innerHTML only escapes quotes and `&`)
+const FUNDING_ROUND_PATTERN = /<aside\s(?:[^>"']|"[^"]*"|'[^']*')*data-block="funding-round"(?:[^>"']|"[^"]*"|'[^']*')*>[\s\S]*?<\/aside>/gi;
+
+function openingTag(html: string): string {
+  return html.match(/^<aside\s(?:[^>"']|"[^"]*"|'[^']*')*>/i)?.[0] ?? '';
+}
+
+/**
+ * Funding rounds described in a post body, in order
+ */
+export function extractFundingRounds(html: string | undefined): FundingRound[] {
+  if (!html || !html.includes('funding-round')) return [];
+  return Array.from(html.matchAll(FUNDING_ROUND_PATTERN), ([aside]) =>
+    fundingRoundFromData(readTagAttributes(openingTag(aside)))
+  ).filter((round) => round.company);
+}
+
+/**
+ * Article markup for content blocks: funding boxes are re-rendered from
+ * their data so formatting changes apply to every post
+ */
+export function renderContentBlocks(html: string): string {
+  if (!html || !html.includes('data-block=')) return html;
+  return html.replace(FUNDING_ROUND_PATTERN, (aside) =>
+    renderFundingRoundHtml(fundingRoundFromData(readTagAttributes(openingTag(aside))))
+  );
+}
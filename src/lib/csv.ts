@@ -0,0 +1,33 @@
+/**
+ * CSV export helpers for admin reports
+ */
+
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Text starting with these is run as a formula by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Titles and names are user input; a leading quote keeps them as text
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** RFC 4180 CSV; the first row is the header */
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(',')).join('\r\n');
+}
+
+/** Save CSV text as a file in the browser */
+export function downloadCsv(fileName: string, csv: string): void {
+  // BOM so Excel reads UTF-8
+  const blob = new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
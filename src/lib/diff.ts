@@ -0,0 +1,302 @@
+/**
+ * Minimal diff and merge utilities for comparing post revisions
+ *
+ * Myers' O(ND) algorithm, in its linear-space form, over token arrays. Text is compared word by word;
+ * HTML is compared line by line after putting every tag on its own line, so
+ * the source view stays readable. merge3 builds a three-way merge on top.
+ */
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op: DiffOp;
+  value: string;
+}
+
+/**
+ * Diff two token arrays. Consecutive tokens with the same op are merged.
+ */
+export function diffTokens(a: string[], b: string[]): DiffPart[] {
+  // Common prefix/suffix are cheap to strip and keep the search space small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (op: DiffOp, value: string) => {
+    if (!value) return;
+    const last = parts[parts.length - 1];
+    if (last && last.op === op) {
+      last.value += value;
+    } else {
+      parts.push({ op, value });
+    }
+  };
+
+  push('equal', a.slice(0, start).join(''));
+  for (const [op, token] of myers(a.slice(start, endA), b.slice(start, endB))) {
+    push(op, token);
+  }
+  push('equal', a.slice(endA).join(''));
+
+  return parts;
+}
+
+/**
+ * Edit distance past which a range is shown as replaced wholesale; beyond
+ * this the revisions have little in common and an exact diff costs seconds
+ */
+const MAX_EDIT_DISTANCE = 4000;
+
+function myers(a: string[], b: string[]): Array<[DiffOp, string]> {
+  const ops: Array<[DiffOp, string]> = [];
+  diffRange(a, 0, a.length, b, 0, b.length, ops);
+  return ops;
+}
+
+/**
+ * Linear-space Myers: find the middle snake of an optimal path, then diff
+ * the halves on either side of it. Memory stays O(N+M) however different
+ * the inputs are.
+ */
+function diffRange(
+  a: string[], aStart: number, aEnd: number,
+  b: string[], bStart: number, bEnd: number,
+  ops: Array<[DiffOp, string]>
+): void {
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    ops.push(['equal', a[aStart]]);
+    aStart++;
+    bStart++;
+  }
+  let suffix = 0;
+  while (aEnd - suffix > aStart && bEnd - suffix > bStart && a[aEnd - suffix - 1] === b[bEnd - suffix - 1]) {
+    suffix++;
+  }
+
+  if (aStart === aEnd - suffix) {
+    for (let y = bStart; y < bEnd - suffix; y++) ops.push(['insert', b[y]]);
+  } else if (bStart === bEnd - suffix) {
+    for (let x = aStart; x < aEnd - suffix; x++) ops.push(['delete', a[x]]);
+  } else {
+    const [x, y] = middleSnake(a, aStart, aEnd - suffix, b, bStart, bEnd - suffix);
+    diffRange(a, aStart, x, b, bStart, y, ops);
+    diffRange(a, x, aEnd - suffix, b, y, bEnd - suffix, ops);
+  }
+
+  for (let x = aEnd - suffix; x < aEnd; x++) ops.push(['equal', a[x]]);
+}
+
+/**
+ * Where the forward and backward furthest-reaching paths meet. Both ranges
+ * are non-empty with no common prefix or suffix, so the edit distance is at
+ * least 2 and the split point is strictly inside the range.
+ */
+function middleSnake(
+  a: string[], aStart: number, aEnd: number,
+  b: string[], bStart: number, bEnd: number
+): [number, number] {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  // Furthest x on each diagonal k = x - y; the backward array holds
+  // distances from the end of both ranges
+  const forward = new Int32Array(2 * max + 3);
+  const backward = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= max; d++) {
+    if (2 * d > MAX_EDIT_DISTANCE) {
+      // Delete all of a, then insert all of b
+      return [aEnd, bStart];
+    }
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+        ? forward[offset + k + 1]
+        : forward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      const reverseK = delta - k;
+      if (odd && reverseK >= -(d - 1) && reverseK <= d - 1 && x + backward[offset + reverseK] >= n) {
+        return [aStart + x, bStart + y];
+      }
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+        ? backward[offset + k + 1]
+        : backward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      const forwardK = delta - k;
+      if (!odd && forwardK >= -d && forwardK <= d && x + forward[offset + forwardK] >= n) {
+        return [aEnd - x, bEnd - y];
+      }
+    }
+  }
+
+  // Unreachable: the paths always meet by d = ceil((n + m) / 2)
+  return [aStart + n, bStart + m];
+}
+
+/** A replaced range of the base tokens: `base[start..end)` became `tokens` */
+interface Hunk {
+  start: number;
+  end: number;
+  tokens: string[];
+}
+
+function diffHunks(base: string[], other: string[]): Hunk[] {
+  let start = 0;
+  while (start < base.length && start < other.length && base[start] === other[start]) start++;
+  let endBase = base.length;
+  let endOther = other.length;
+  while (endBase > start && endOther > start && base[endBase - 1] === other[endOther - 1]) {
+    endBase--;
+    endOther--;
+  }
+
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let index = start;
+  for (const [op, token] of myers(base.slice(start, endBase), other.slice(start, endOther))) {
+    if (op === 'equal') {
+      if (current) hunks.push(current);
+      current = null;
+      index++;
+      continue;
+    }
+    current ??= { start: index, end: index, tokens: [] };
+    if (op === 'delete') {
+      index++;
+      current.end = index;
+    } else {
+      current.tokens.push(token);
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+}
+
+function applyHunks(base: string[], hunks: Hunk[], start: number, end: number): string {
+  let result = '';
+  let position = start;
+  for (const hunk of hunks) {
+    result += base.slice(position, hunk.start).join('') + hunk.tokens.join('');
+    position = hunk.end;
+  }
+  return result + base.slice(position, end).join('');
+}
+
+export type MergeChunk =
+  | { type: 'merged'; value: string }
+  | { type: 'conflict'; base: string; mine: string; theirs: string };
+
+/**
+ * Three-way merge of two edits of the same base. Changes made on only one
+ * side are applied; overlapping or adjacent changes that differ become
+ * conflict chunks for the editor to resolve.
+ */
+export function merge3(base: string[], mine: string[], theirs: string[]): MergeChunk[] {
+  const hunks = [
+    ...diffHunks(base, mine).map((hunk) => ({ ...hunk, side: 'mine' as const })),
+    ...diffHunks(base, theirs).map((hunk) => ({ ...hunk, side: 'theirs' as const })),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const chunks: MergeChunk[] = [];
+  const push = (chunk: MergeChunk) => {
+    const last = chunks[chunks.length - 1];
+    if (chunk.type === 'merged' && last?.type === 'merged') {
+      last.value += chunk.value;
+    } else if (chunk.type === 'conflict' || chunk.value) {
+      chunks.push(chunk);
+    }
+  };
+
+  let position = 0;
+  let i = 0;
+  while (i < hunks.length) {
+    const group = [hunks[i]];
+    const start = hunks[i].start;
+    let end = hunks[i].end;
+    i++;
+    while (i < hunks.length && hunks[i].start <= end) {
+      end = Math.max(end, hunks[i].end);
+      group.push(hunks[i]);
+      i++;
+    }
+
+    push({ type: 'merged', value: base.slice(position, start).join('') });
+    const mineText = applyHunks(base, group.filter((hunk) => hunk.side === 'mine'), start, end);
+    const theirsText = applyHunks(base, group.filter((hunk) => hunk.side === 'theirs'), start, end);
+    const baseText = base.slice(start, end).join('');
+
+    if (mineText === theirsText || theirsText === baseText) {
+      push({ type: 'merged', value: mineText });
+    } else if (mineText === baseText) {
+      push({ type: 'merged', value: theirsText });
+    } else {
+      push({ type: 'conflict', base: baseText, mine: mineText, theirs: theirsText });
+    }
+    position = end;
+  }
+  push({ type: 'merged', value: base.slice(position).join('') });
+
+  return chunks;
+}
+
+/** Split text into words and the whitespace between them */
+export function tokenizeWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+/** Split HTML into lines with one tag or text run per line */
+export function tokenizeHtmlLines(html: string): string[] {
+  return html
+    .replace(/>\s*</g, '>\n<')
+    .split('\n')
+    .map((line) => `${line}\n`);
+}
+
+/** Split HTML into tags, words and whitespace without changing it */
+export function tokenizeHtml(html: string): string[] {
+  return html.match(/<[^>]+>|[^<\s]+|\s+/g) || [];
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<\/(p|h[1-6]|li|blockquote|div|tr)>/gi, '\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function diffText(a: string, b: string): DiffPart[] {
+  return diffTokens(tokenizeWords(a), tokenizeWords(b));
+}
+
+export function diffHtmlSource(a: string, b: string): DiffPart[] {
+  return diffTokens(tokenizeHtmlLines(a), tokenizeHtmlLines(b));
+}
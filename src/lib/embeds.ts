@@ -0,0 +1,291 @@
+/**
+ * Rich embeds in post content
+ *
+ * The editor stores every embed as a placeholder that keeps only its data:
+ *
+ *   <figure data-embed="youtube" data-id="…" data-url="…" data-start="30" data-caption="…">
+ *     <a href="…">…</a><figcaption>…</figcaption>
+ *   </figure>
+ *
+ * renderEmbeds turns placeholders into iframes when an article is rendered,
+ * so the markup can change without touching stored posts. It also upgrades
+ * the legacy `youtube-embed` / `twitter-embed` divs of older posts. Every
+ * provider uses a plain iframe; no third-party script is ever injected.
+ */
+
+export type EmbedProvider = 'youtube' | 'twitter' | 'linkedin' | 'tiktok' | 'instagram' | 'spotify' | 'oembed';
+
+export interface EmbedAttributes {
+  provider: EmbedProvider;
+  /** Provider-specific id, e.g. a video id or `track/4uLU6hMC…` for Spotify */
+  id: string;
+  /** Original URL the editor pasted, used as the fallback link */
+  url: string;
+  /** Start offset in seconds (YouTube) */
+  start?: number | null;
+  caption?: string | null;
+  /** oEmbed only: resolved title, thumbnail and https iframe source */
+  title?: string | null;
+  thumbnail?: string | null;
+  embedSrc?: string | null;
+}
+
+interface ProviderDefinition {
+  label: string;
+  /** Extract the id (and start time) from a pasted URL */
+  parse: (url: URL) => Pick<EmbedAttributes, 'id' | 'start'> | null;
+  src: (attrs: EmbedAttributes) => string | null;
+  /** Frame size: `aspect` keeps a ratio, `height` is fixed in pixels */
+  frame: (attrs: EmbedAttributes) => { aspect?: string; height?: number; maxWidth?: number };
+  allow?: string;
+}
+
+function parseTimestamp(value: string | null): number | null {
+  if (!value) return null;
+  if (/^\d+$/.test(value)) return Number(value);
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!match || !match[0]) return null;
+  return Number(match[1] || 0) * 3600 + Number(match[2] || 0) * 60 + Number(match[3] || 0);
+}
+
+function hostIs(url: URL, ...hosts: string[]): boolean {
+  const host = url.hostname.replace(/^(www\.|m\.|mobile\.)/, '');
+  return hosts.includes(host);
+}
+
+export const EMBED_PROVIDERS: Record<EmbedProvider, ProviderDefinition> = {
+  youtube: {
+    label: 'YouTube',
+    parse: (url) => {
+      let id: string | undefined;
+      if (hostIs(url, 'youtu.be')) {
+        id = url.pathname.slice(1).split('/')[0];
+      } else if (hostIs(url, 'youtube.com', 'youtube-nocookie.com')) {
+        id = url.searchParams.get('v')
+          || url.pathname.match(/^\/(?:embed|shorts|live)\/([^/?#]+)/)?.[1];
+      }
+      if (!id || !/^[\w-]{6,}$/.test(id)) return null;
+      return { id, start: parseTimestamp(url.searchParams.get('t') || url.searchParams.get('start')) };
+    },
+    src: ({ id, start }) =>
+      `https://www.youtube-nocookie.com/embed/${encodeURIComponent(id)}${start ? `?start=${Math.floor(start)}` : ''}`,
+    frame: () => ({ aspect: '16 / 9' }),
+    allow: 'accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share',
+  },
+  twitter: {
+    label: 'X (Twitter)',
+    parse: (url) => {
+      if (!hostIs(url, 'twitter.com', 'x.com')) return null;
+      const id = url.pathname.match(/\/status(?:es)?\/(\d+)/)?.[1];
+      return id ? { id } : null;
+    },
+    src: ({ id }) => `https://platform.twitter.com/embed/Tweet.html?id=${encodeURIComponent(id)}&dnt=true`,
+    frame: () => ({ height: 560, maxWidth: 550 }),
+  },
+  linkedin: {
+    label: 'LinkedIn',
+    parse: (url) => {
+      if (!hostIs(url, 'linkedin.com')) return null;
+      // Share links carry the URN; /posts/ links only the activity number
+      const activity = url.pathname.match(/activity-(\d+)/)?.[1];
+      const urn = url.pathname.match(/(urn:li:(?:activity|share|ugcPost):\d+)/)?.[1]
+        ?? (activity ? `urn:li:activity:${activity}` : null);
+      return urn ? { id: urn } : null;
+    },
+    src: ({ id }) => `https://www.linkedin.com/embed/feed/update/${encodeURIComponent(id).replace(/%3A/g, ':')}`,
+    frame: () => ({ height: 570, maxWidth: 504 }),
+  },
+  tiktok: {
+    label: 'TikTok',
+    parse: (url) => {
+      if (!hostIs(url, 'tiktok.com')) return null;
+      const id = url.pathname.match(/\/video\/(\d+)/)?.[1];
+      return id ? { id } : null;
+    },
+    src: ({ id }) => `https://www.tiktok.com/embed/v2/${encodeURIComponent(id)}`,
+    frame: () => ({ height: 740, maxWidth: 325 }),
+  },
+  instagram: {
+    label: 'Instagram',
+    parse: (url) => {
+      if (!hostIs(url, 'instagram.com')) return null;
+      const match = url.pathname.match(/\/(p|reel|tv)\/([\w-]+)/);
+      return match ? { id: `${match[1]}/${match[2]}` } : null;
+    },
+    src: ({ id }) => `https://www.instagram.com/${id.split('/').map(encodeURIComponent).join('/')}/embed`,
+    frame: () => ({ height: 640, maxWidth: 400 }),
+  },
+  spotify: {
+    label: 'Spotify',
+    parse: (url) => {
+      if (!hostIs(url, 'open.spotify.com')) return null;
+      const match = url.pathname.match(/\/(track|album|playlist|episode|show|artist)\/([A-Za-z0-9]+)/);
+      return match ? { id: `${match[1]}/${match[2]}` } : null;
+    },
+    src: ({ id }) => `https://open.spotify.com/embed/${id.split('/').map(encodeURIComponent).join('/')}`,
+    frame: ({ id }) => ({ height: id.startsWith('track/') ? 152 : id.startsWith('episode/') ? 232 : 352 }),
+    allow: 'autoplay; clipboard-write; encrypted-media; fullscreen; picture-in-picture',
+  },
+  oembed: {
+    label: 'Embed',
+    parse: () => null,
+    src: ({ embedSrc }) => (embedSrc && embedSrc.startsWith('https://') ? embedSrc : null),
+    frame: () => ({ aspect: '16 / 9' }),
+  },
+};
+
+export const EMBED_PROVIDER_IDS = Object.keys(EMBED_PROVIDERS) as EmbedProvider[];
+
+/**
+ * Recognize a pasted URL as one of the built-in providers. Anything else
+ * can still be embedded through oEmbed (see /api/oembed).
+ */
+export function parseEmbedUrl(input: string): EmbedAttributes | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return null;
+  }
+  for (const provider of EMBED_PROVIDER_IDS) {
+    const parsed = EMBED_PROVIDERS[provider].parse(url);
+    if (parsed) {
+      return { provider, url: url.toString(), start: null, caption: null, ...parsed };
+    }
+  }
+  return null;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function unescapeHtml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/** Only http(s) links survive into rendered markup */
+function safeUrl(value: string | null | undefined): string | null {
+  return value && /^https?:\/\//i.test(value) ? value : null;
+}
+
+/**
+ * Final article markup for an embed
+ */
+export function renderEmbedHtml(attrs: EmbedAttributes): string {
+  const definition = EMBED_PROVIDERS[attrs.provider];
+  const src = definition?.src(attrs);
+  const link = safeUrl(attrs.url);
+  const caption = attrs.caption ? `<figcaption>${escapeHtml(attrs.caption)}</figcaption>` : '';
+  const title = escapeHtml(attrs.title || attrs.caption || `${definition?.label ?? 'Embedded'} content`);
+
+  if (!src) {
+    // oEmbed without an iframe (or unknown provider): a link card
+    const thumbnail = safeUrl(attrs.thumbnail);
+    if (!link) return '';
+    return `<figure class="embed embed-link"><a href="${escapeHtml(link)}" target="_blank" rel="noopener noreferrer">`
+      + (thumbnail ? `<img src="${escapeHtml(thumbnail)}" alt="" loading="lazy">` : '')
+      + `<span>${title}</span></a>${caption}</figure>`;
+  }
+
+  const { aspect, height, maxWidth } = definition.frame(attrs);
+  const style = [
+    aspect ? `aspect-ratio:${aspect}` : `height:${height}px`,
+    maxWidth ? `max-width:${maxWidth}px` : '',
+  ].filter(Boolean).join(';');
+
+  return `<figure class="embed embed-${attrs.provider}">`
+    + `<div class="embed-frame" style="${style}">`
+    + `<iframe src="${escapeHtml(src)}" title="${title}" loading="lazy" frameborder="0"`
+    + (definition.allow ? ` allow="${definition.allow}"` : '')
+    + ` allowfullscreen referrerpolicy="strict-origin-when-cross-origin"></iframe>`
+    + `</div>${caption}</figure>`;
+}
+
+/** `data-*` attributes the editor writes on an embed placeholder */
+export function embedDataAttributes(attrs: EmbedAttributes): Record<string, string> {
+  const data: Record<string, string> = {
+    'data-embed': attrs.provider,
+    'data-id': attrs.id,
+    'data-url': attrs.url,
+  };
+  if (attrs.start) data['data-start'] = String(attrs.start);
+  if (attrs.caption) data['data-caption'] = attrs.caption;
+  if (attrs.title) data['data-title'] = attrs.title;
+  if (attrs.thumbnail) data['data-thumbnail'] = attrs.thumbnail;
+  if (attrs.embedSrc) data['data-embed-src'] = attrs.embedSrc;
+  return data;
+}
+
+/** Attributes of an HTML opening tag, unescaped */
+export function readTagAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1].toLowerCase()] = unescapeHtml(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+function attributesFromData(data: Record<string, string>): EmbedAttributes | null {
+  const provider = data['data-embed'] as EmbedProvider;
+  if (!EMBED_PROVIDERS[provider]) return null;
+  return {
+    provider,
+    id: data['data-id'] || '',
+    url: data['data-url'] || '',
+    start: data['data-start'] ? Number(data['data-start']) || null : null,
+    caption: data['data-caption'] || null,
+    title: data['data-title'] || null,
+    thumbnail: data['data-thumbnail'] || null,
+    embedSrc: data['data-embed-src'] || null,
+  };
+}
+
+/**
+ * Legacy embeds inserted as raw HTML before embed nodes existed
+ */
+export function parseLegacyEmbed(html: string): EmbedAttributes | null {
+  if (/class="[^"]*youtube-embed/.test(html)) {
+    const src = html.match(/<iframe[^>]*\ssrc="([^"]+)"/)?.[1];
+    return src ? parseEmbedUrl(unescapeHtml(src)) : null;
+  }
+  if (/class="[^"]*twitter-embed/.test(html)) {
+    const href = html.match(/<a[^>]*\shref="([^"]+)"/)?.[1];
+    return href ? parseEmbedUrl(unescapeHtml(href)) : null;
+  }
+  return null;
+}
+
+// Attribute values may contain a raw `>` (innerHTML only escapes quotes and `&`)
+const OPENING_TAG = String.raw`<figure\s(?:[^>"']|"[^"]*"|'[^']*')*>`;
+const PLACEHOLDER_PATTERN = new RegExp(`${OPENING_TAG}[\\s\\S]*?<\\/figure>`, 'gi');
+const LEGACY_PATTERN = /<div class="(?:youtube|twitter)-embed[^"]*">[\s\S]*?<\/(?:iframe|blockquote)>\s*<\/div>/gi;
+
+/**
+ * Replace embed placeholders (and legacy embed divs) with article markup
+ */
+export function renderEmbeds(html: string): string {
+  if (!html || !/data-embed=|(?:youtube|twitter)-embed/.test(html)) return html;
+
+  return html
+    .replace(PLACEHOLDER_PATTERN, (figure) => {
+      const openingTag = figure.match(new RegExp(`^${OPENING_TAG}`, 'i'))![0];
+      if (!/\sdata-embed=/i.test(openingTag)) return figure;
+      const attrs = attributesFromData(readTagAttributes(openingTag));
+      return attrs ? renderEmbedHtml(attrs) : figure;
+    })
+    .replace(LEGACY_PATTERN, (div) => {
+      const attrs = parseLegacyEmbed(div);
+      return attrs ? renderEmbedHtml(attrs) : div;
+    });
+}
@@ -0,0 +1,369 @@
+// Syndication feeds
+//
+// RSS 2.0, Atom 1.0 and JSON Feed 1.1 for the whole site, a category, an
+// author or a tag, served from /feeds (see app/feeds/[...path]). Feeds carry
+// the full post body by default; `?mode=excerpt` sends summaries only.
+// Featured images go out as enclosures and media:content so readers can
+// show a thumbnail.
+
+import { Metadata } from 'next'
+import { getPostsApiUrl } from '@/lib/apiConfig'
+import { CATEGORIES, getCategoryByLabel, getCategoryBySlug } from '@/lib/categories'
+import { authorNameToSlug, slugToAuthorName } from '@/lib/authorUtils'
+import { getImageUrlFromData } from '@/lib/imageHelpers'
+import { parseDate } from '@/lib/dateUtils'
+import { escapeXml } from '@/lib/sitemap'
+
+export type FeedFormat = 'rss' | 'atom' | 'json'
+export type FeedContentMode = 'full' | 'excerpt'
+
+export type FeedScope =
+  | { kind: 'site' }
+  | { kind: 'category'; slug: string }
+  | { kind: 'author'; slug: string }
+  | { kind: 'tag'; tag: string }
+
+export interface FeedPost {
+  id: string
+  slug: string
+  title: string
+  excerpt?: string
+  contentHtml?: string
+  author?: string | { name: string }
+  category?: string
+  tags?: string[]
+  publishedAt?: unknown
+  updatedAt?: unknown
+  featuredImage?: unknown
+}
+
+export interface FeedItem {
+  id: string
+  url: string
+  title: string
+  summary: string
+  contentHtml: string
+  author: string
+  categories: string[]
+  published: Date
+  updated: Date
+  image: string | null
+}
+
+export interface Feed {
+  title: string
+  description: string
+  /** Page the feed mirrors */
+  homeUrl: string
+  /** Feed URL for a format */
+  feedUrl: (format: FeedFormat) => string
+  /** Newest change across items; drives lastBuildDate and Last-Modified */
+  updated: Date
+  items: FeedItem[]
+}
+
+const SITE_URL = 'https://www.techblit.com'
+const SITE_NAME = 'TechBlit'
+const SITE_DESCRIPTION = "Tech news, startup insights and funding rounds from across Africa's tech ecosystem."
+/** Items per feed */
+export const FEED_SIZE = 30
+
+const FEED_FILES: Record<string, FeedFormat> = { 'rss.xml': 'rss', 'atom.xml': 'atom', 'feed.json': 'json' }
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+}
+
+const scopePath = (scope: FeedScope): string => {
+  switch (scope.kind) {
+    case 'site':
+      return '/feeds'
+    case 'category':
+      return `/feeds/category/${encodeURIComponent(scope.slug)}`
+    case 'author':
+      return `/feeds/author/${encodeURIComponent(scope.slug)}`
+    case 'tag':
+      return `/feeds/tag/${encodeURIComponent(scope.tag)}`
+  }
+}
+
+export function feedUrl(scope: FeedScope, format: FeedFormat, siteUrl: string = SITE_URL): string {
+  const file = Object.keys(FEED_FILES).find((name) => FEED_FILES[name] === format)
+  return `${siteUrl}${scopePath(scope)}/${file}`
+}
+
+/** Scope and format for a /feeds path (segments after /feeds); null if not a feed */
+export function parseFeedPath(segments: string[]): { scope: FeedScope; format: FeedFormat } | null {
+  const format = FEED_FILES[segments[segments.length - 1]]
+  if (!format) return null
+  const [kind, value] = segments.slice(0, -1)
+  if (segments.length === 1) return { scope: { kind: 'site' }, format }
+  if (segments.length !== 3 || !value) return null
+  if (kind === 'category') return getCategoryBySlug(value) ? { scope: { kind, slug: value }, format } : null
+  if (kind === 'author') return { scope: { kind, slug: value }, format }
+  if (kind === 'tag') return { scope: { kind, tag: value }, format }
+  return null
+}
+
+// ----------------------------------------------------------------------------
+// Data
+// ----------------------------------------------------------------------------
+
+function postsEndpoint(scope: FeedScope): string {
+  const base = getPostsApiUrl()
+  switch (scope.kind) {
+    case 'site':
+      return `${base}/posts?limit=${FEED_SIZE}`
+    case 'category':
+      return `${base}/categories/${encodeURIComponent(scope.slug)}/posts?limit=${FEED_SIZE}`
+    case 'author':
+      return `${base}/authors/${encodeURIComponent(slugToAuthorName(scope.slug))}/posts`
+    case 'tag':
+      return `${base}/posts?limit=${FEED_SIZE}&tag=${encodeURIComponent(scope.tag)}`
+  }
+}
+
+async function fetchFeedPosts(scope: FeedScope): Promise<FeedPost[]> {
+  const response = await fetch(postsEndpoint(scope), { next: { revalidate: 600 } })
+  if (response.status === 404) return []
+  if (!response.ok) throw new Error(`Posts API returned ${response.status}`)
+  const result = await response.json()
+  const posts = result.data || result
+  return Array.isArray(posts) ? posts.slice(0, FEED_SIZE) : []
+}
+
+const authorName = (author: FeedPost['author']) =>
+  (typeof author === 'string' ? author : author?.name) || 'TechBlit Team'
+
+/** Feed readers resolve nothing against our origin, so make links and images absolute */
+const absolutizeUrls = (html: string, siteUrl: string) =>
+  html.replace(/\s(href|src)=(["'])\/(?!\/)/gi, ` $1=$2${siteUrl}/`)
+
+const htmlToSummary = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 300)
+
+function toItem(post: FeedPost, siteUrl: string): FeedItem {
+  const published = parseDate(post.publishedAt) ?? new Date()
+  const url = `${siteUrl}/${post.slug}`
+  const contentHtml = absolutizeUrls(post.contentHtml || '', siteUrl)
+  return {
+    id: url,
+    url,
+    title: post.title,
+    summary: post.excerpt || htmlToSummary(contentHtml),
+    contentHtml,
+    author: authorName(post.author),
+    categories: [post.category, ...(post.tags || [])].filter((value): value is string => !!value),
+    published,
+    updated: parseDate(post.updatedAt) ?? published,
+    image: getImageUrlFromData(post.featuredImage, { preset: 'cover' }),
+  }
+}
+
+function describeScope(scope: FeedScope): { title: string; description: string; homePath: string } {
+  switch (scope.kind) {
+    case 'site':
+      return { title: SITE_NAME, description: SITE_DESCRIPTION, homePath: '' }
+    case 'category': {
+      const category = getCategoryBySlug(scope.slug)
+      const label = category?.label || scope.slug
+      return {
+        title: `${label} - ${SITE_NAME}`,
+        description: category?.description || `Latest ${label} stories on ${SITE_NAME}`,
+        homePath: `/category/${encodeURIComponent(scope.slug)}`,
+      }
+    }
+    case 'author': {
+      const name = slugToAuthorName(scope.slug)
+      return {
+        title: `${name} - ${SITE_NAME}`,
+        description: `Stories by ${name} on ${SITE_NAME}`,
+        homePath: `/authors/${encodeURIComponent(scope.slug)}`,
+      }
+    }
+    case 'tag':
+      return {
+        title: `${scope.tag} - ${SITE_NAME}`,
+        description: `Stories tagged ${scope.tag} on ${SITE_NAME}`,
+        homePath: `/blog`,
+      }
+  }
+}
+
+export async function buildFeed(scope: FeedScope, siteUrl: string = SITE_URL): Promise<Feed> {
+  const items = (await fetchFeedPosts(scope))
+    .filter((post) => post.slug)
+    .map((post) => toItem(post, siteUrl))
+    .sort((a, b) => b.published.getTime() - a.published.getTime())
+  const { title, description, homePath } = describeScope(scope)
+  const updated = items.reduce<Date | null>((latest, item) => (!latest || item.updated > latest ? item.updated : latest), null)
+  return {
+    title,
+    description,
+    homeUrl: `${siteUrl}${homePath}`,
+    feedUrl: (format) => feedUrl(scope, format, siteUrl),
+    updated: updated ?? new Date(0),
+    items,
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Rendering
+// ----------------------------------------------------------------------------
+
+const cdata = (value: string) => `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+
+/** Cloudinary delivery URLs don't always carry an extension; JPEG is the safe guess */
+const imageType = (url: string) => {
+  const extension = url.split(/[?#]/)[0].match(/\.(png|gif|webp|avif)$/i)?.[1]?.toLowerCase()
+  return extension ? `image/${extension}` : 'image/jpeg'
+}
+
+function renderRss(feed: Feed, mode: FeedContentMode): string {
+  const items = feed.items.map((item) => {
+    const lines = [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(item.id)}</guid>`,
+      `      <pubDate>${item.published.toUTCString()}</pubDate>`,
+      `      <dc:creator>${escapeXml(item.author)}</dc:creator>`,
+      ...item.categories.map((category) => `      <category>${escapeXml(category)}</category>`),
+      `      <description>${cdata(item.summary)}</description>`,
+    ]
+    if (mode === 'full' && item.contentHtml) lines.push(`      <content:encoded>${cdata(item.contentHtml)}</content:encoded>`)
+    if (item.image) {
+      const url = escapeXml(item.image)
+      lines.push(
+        `      <enclosure url="${url}" type="${imageType(item.image)}" length="0" />`,
+        `      <media:content url="${url}" medium="image" type="${imageType(item.image)}" />`
+      )
+    }
+    lines.push('    </item>')
+    return lines.join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/"' +
+      ' xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:media="http://search.yahoo.com/mrss/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homeUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    '    <language>en</language>',
+    `    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(feed.feedUrl('rss'))}" rel="self" type="application/rss+xml" />`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n')
+}
+
+function renderAtom(feed: Feed, mode: FeedContentMode): string {
+  const entries = feed.items.map((item) => {
+    const lines = [
+      '  <entry>',
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />`,
+      `    <id>${escapeXml(item.id)}</id>`,
+      `    <published>${item.published.toISOString()}</published>`,
+      `    <updated>${item.updated.toISOString()}</updated>`,
+      `    <author><name>${escapeXml(item.author)}</name></author>`,
+      ...item.categories.map((category) => `    <category term="${escapeXml(category)}" />`),
+      `    <summary type="html">${escapeXml(item.summary)}</summary>`,
+    ]
+    if (mode === 'full' && item.contentHtml) lines.push(`    <content type="html">${escapeXml(item.contentHtml)}</content>`)
+    if (item.image) {
+      const url = escapeXml(item.image)
+      lines.push(
+        `    <link rel="enclosure" type="${imageType(item.image)}" href="${url}" />`,
+        `    <media:content url="${url}" medium="image" type="${imageType(item.image)}" />`
+      )
+    }
+    lines.push('  </entry>')
+    return lines.join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/" xml:lang="en">',
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <id>${escapeXml(feed.feedUrl('atom'))}</id>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl('atom'))}" />`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}" />`,
+    `  <updated>${feed.updated.toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n')
+}
+
+function renderJsonFeed(feed: Feed, mode: FeedContentMode): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrl('json'),
+    language: 'en',
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      ...(mode === 'full' && item.contentHtml ? { content_html: item.contentHtml } : { content_text: item.summary }),
+      ...(item.image && {
+        image: item.image,
+        attachments: [{ url: item.image, mime_type: imageType(item.image) }],
+      }),
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+      authors: [{ name: item.author }],
+      tags: item.categories,
+    })),
+  })
+}
+
+export function renderFeed(feed: Feed, format: FeedFormat, mode: FeedContentMode = 'full'): string {
+  switch (format) {
+    case 'rss':
+      return renderRss(feed, mode)
+    case 'atom':
+      return renderAtom(feed, mode)
+    case 'json':
+      return renderJsonFeed(feed, mode)
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Discovery
+// ----------------------------------------------------------------------------
+
+/**
+ * `<link rel="alternate">` entries advertising feeds, for Metadata
+ * `alternates.types`. The first scope's feeds come first.
+ */
+export function feedAlternates(
+  scopes: Array<{ scope: FeedScope; title: string }>,
+  siteUrl: string = SITE_URL
+): NonNullable<Metadata['alternates']>['types'] {
+  const links = (format: FeedFormat) => scopes.map(({ scope, title }) => ({ url: feedUrl(scope, format, siteUrl), title }))
+  return {
+    'application/rss+xml': links('rss'),
+    'application/atom+xml': links('atom'),
+    'application/feed+json': links('json'),
+  }
+}
+
+/** Feed scope for a category label as stored on posts */
+export function categoryFeedScope(label: string | undefined): FeedScope | null {
+  const category = label ? getCategoryByLabel(label) ?? CATEGORIES.find((c) => c.label.toLowerCase() === label.toLowerCase()) : undefined
+  return category ? { kind: 'category', slug: category.slug } : null
+}
+
+/** Feed scope for an author name */
+export const authorFeedScope = (name: string): FeedScope => ({ kind: 'author', slug: authorNameToSlug(name) })
@@ -1,7 +1,17 @@
 /**
  * Image helpers — Cloudinary public_id only
  */
-import { getCloudinaryUrl, CloudinaryPresets, normalizeToPublicId } from './cloudinaryUtils'
+import {
+  getCloudinaryUrl,
+  getCloudinarySrcSet,
+  CloudinaryPresets,
+  ResponsiveImageSource,
+  normalizeToPublicId,
+  ImageArtDirection,
+  ImageAspect,
+  ImageCrop,
+  ImageFocalPoint,
+} from './cloudinaryUtils'
 
 export interface FeaturedImageRef {
   public_id?: string
@@ -9,6 +19,12 @@ export interface FeaturedImageRef {
   alt?: string
   width?: number
   height?: number
+  /** Where the subject is; aspect-ratio presets crop around it */
+  focalPoint?: ImageFocalPoint
+  /** Manual crops per aspect ratio, taking precedence over the focal point */
+  crops?: Partial<Record<ImageAspect, ImageCrop>>
+  /** Tiny blurred JPEG data URL shown while the image loads (set at upload) */
+  placeholder?: string
 }
 
 export function extractPublicId(imageData: unknown): string | null {
@@ -37,6 +53,47 @@ export function extractPublicId(imageData: unknown): string | null {
   return null
 }
 
+const isFraction = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1
+
+function readCrop(value: unknown): ImageCrop | null {
+  if (!value || typeof value !== 'object') return null
+  const crop = value as Record<string, unknown>
+  if (!isFraction(crop.x) || !isFraction(crop.y) || !isFraction(crop.width) || !isFraction(crop.height)) return null
+  if (crop.width === 0 || crop.height === 0) return null
+  return { x: crop.x, y: crop.y, width: crop.width, height: crop.height }
+}
+
+/**
+ * Focal point, crops and original size stored on a featured image, if any
+ */
+export function extractArtDirection(imageData: unknown): ImageArtDirection | undefined {
+  if (!imageData || typeof imageData !== 'object') return undefined
+  const img = imageData as Record<string, unknown>
+  const art: ImageArtDirection = {}
+
+  const focal = img.focalPoint as Record<string, unknown> | undefined
+  if (focal && isFraction(focal.x) && isFraction(focal.y)) {
+    art.focalPoint = { x: focal.x, y: focal.y }
+  }
+
+  if (img.crops && typeof img.crops === 'object') {
+    const crops: Partial<Record<ImageAspect, ImageCrop>> = {}
+    for (const [aspect, value] of Object.entries(img.crops as Record<string, unknown>)) {
+      const crop = readCrop(value)
+      if (crop) crops[aspect as ImageAspect] = crop
+    }
+    if (Object.keys(crops).length > 0) art.crops = crops
+  }
+
+  if (!art.focalPoint && !art.crops) return undefined
+  if (typeof img.width === 'number' && typeof img.height === 'number') {
+    art.width = img.width
+    art.height = img.height
+  }
+  return art
+}
+
 export function getImageUrlFromData(
   imageData: unknown,
   options?: {
@@ -48,19 +105,46 @@ export function getImageUrlFromData(
 ): string | null {
   const publicId = extractPublicId(imageData)
   if (!publicId) return null
+  const art = extractArtDirection(imageData)
 
   if (options?.preset) {
-    return getCloudinaryUrl(publicId, options.preset)
+    return getCloudinaryUrl(publicId, options.preset, art)
   }
 
   if (options?.width || options?.height) {
     return getCloudinaryUrl(publicId, {
       width: options.width,
       height: options.height,
-    })
+    }, art)
   }
 
-  return getCloudinaryUrl(publicId, 'cover')
+  return getCloudinaryUrl(publicId, 'cover', art)
+}
+
+/**
+ * Blur placeholder stored on a featured image, if any
+ */
+export function getImagePlaceholder(imageData: unknown): string | null {
+  if (!imageData || typeof imageData !== 'object') return null
+  const placeholder = (imageData as Record<string, unknown>).placeholder
+  return typeof placeholder === 'string' && placeholder.startsWith('data:image/') ? placeholder : null
+}
+
+/**
+ * src/srcset/sizes for a featured image at a preset, plus its blur
+ * placeholder
+ */
+export function getResponsiveImageFromData(
+  imageData: unknown,
+  preset: keyof typeof CloudinaryPresets,
+  sizes?: string
+): (ResponsiveImageSource & { placeholder: string | null }) | null {
+  const source = getCloudinarySrcSet(extractPublicId(imageData), preset, {
+    sizes,
+    art: extractArtDirection(imageData),
+  })
+  if (!source) return null
+  return { ...source, placeholder: getImagePlaceholder(imageData) }
 }
 
 export function getThumbnailUrl(imageData: unknown): string | null {
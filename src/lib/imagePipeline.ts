@@ -0,0 +1,233 @@
+/**
+ * Client-side image pipeline
+ *
+ * Images are prepared for upload in Web Workers (see
+ * src/workers/imagePipeline.worker.ts): metadata is stripped, EXIF
+ * orientation applied, and the result encoded to WebP or AVIF at the
+ * highest quality that fits the target size. A bounded pool keeps large
+ * batches from starting one worker per file. HEIC photos are converted on
+ * the main thread first, since only Safari decodes them natively; those
+ * conversions run one at a time so a batch of iPhone photos doesn't lock up
+ * the page.
+ */
+
+import { createLimiter } from '@/lib/concurrency';
+
+export type ImageOutputType = 'image/avif' | 'image/webp' | 'image/jpeg';
+
+export type ImagePipelineStage = 'queued' | 'converting' | 'decoding' | 'encoding' | 'done';
+
+export interface ImagePipelineProgress {
+  stage: ImagePipelineStage;
+  /** 0–1 */
+  progress: number;
+}
+
+export interface ImagePipelineOptions {
+  /** Preferred output; falls back to WebP, then JPEG, when it can't be encoded */
+  type: ImageOutputType;
+  maxDimension: number;
+  /** Size the quality search aims for */
+  targetBytes: number;
+  /** Hard limit; the image is scaled down further to meet it */
+  maxBytes: number;
+  minQuality: number;
+  maxQuality: number;
+}
+
+export interface ImagePipelineResult {
+  blob: Blob;
+  width: number;
+  height: number;
+  mimeType: ImageOutputType;
+  quality: number;
+}
+
+/** Job sent to a worker */
+export interface ImagePipelineJob {
+  id: number;
+  blob: Blob;
+  options: ImagePipelineOptions;
+}
+
+/** Messages a worker sends back */
+export type ImagePipelineMessage =
+  | ({ type: 'progress'; id: number } & ImagePipelineProgress)
+  | ({ type: 'done'; id: number } & ImagePipelineResult)
+  | { type: 'error'; id: number; message: string };
+
+export const DEFAULT_PIPELINE_OPTIONS: ImagePipelineOptions = {
+  type: 'image/webp',
+  maxDimension: 2400,
+  targetBytes: 1.5 * 1024 * 1024,
+  maxBytes: 4.5 * 1024 * 1024,
+  minQuality: 0.5,
+  maxQuality: 0.9,
+};
+
+const MAX_POOL_SIZE = 4;
+// HEIC decoding runs on the main thread, so more than one at a time only
+// makes the page less responsive
+const HEIC_CONVERSION_CONCURRENCY = 1;
+const IDLE_SHUTDOWN_MS = 30_000;
+
+const HEIC_TYPES = new Set(['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence']);
+
+export const isHeicFile = (file: File): boolean =>
+  HEIC_TYPES.has(file.type.toLowerCase()) || /\.(heic|heif)$/i.test(file.name);
+
+/** Whether this browser can run the worker pipeline */
+export const isImagePipelineSupported = (): boolean =>
+  typeof window !== 'undefined' &&
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+interface PoolTask {
+  job: ImagePipelineJob;
+  onProgress?: (progress: ImagePipelineProgress) => void;
+  resolve: (result: ImagePipelineResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Fixed-size pool of pipeline workers. Jobs queue until a worker is free;
+ * workers are created on demand and shut down after a quiet period.
+ */
+export class ImageWorkerPool {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private busy = new Map<Worker, PoolTask>();
+  private queue: PoolTask[] = [];
+  private nextId = 1;
+  private shutdownTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly size: number) {}
+
+  process(
+    blob: Blob,
+    options: ImagePipelineOptions,
+    onProgress?: (progress: ImagePipelineProgress) => void
+  ): Promise<ImagePipelineResult> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ job: { id: this.nextId++, blob, options }, onProgress, resolve, reject });
+      onProgress?.({ stage: 'queued', progress: 0 });
+      this.pump();
+    });
+  }
+
+  /** Stop every worker; queued and running jobs are rejected */
+  terminate() {
+    for (const task of [...this.busy.values(), ...this.queue]) {
+      task.reject(new Error('Image processing was cancelled'));
+    }
+    this.workers.forEach((worker) => worker.terminate());
+    this.workers = [];
+    this.idle = [];
+    this.busy.clear();
+    this.queue = [];
+  }
+
+  private pump() {
+    if (this.shutdownTimer) {
+      clearTimeout(this.shutdownTimer);
+      this.shutdownTimer = null;
+    }
+
+    while (this.queue.length > 0 && (this.idle.length > 0 || this.workers.length < this.size)) {
+      const worker = this.idle.pop() ?? this.spawn();
+      const task = this.queue.shift()!;
+      this.busy.set(worker, task);
+      worker.postMessage(task.job);
+    }
+
+    if (this.busy.size === 0 && this.queue.length === 0 && this.workers.length > 0) {
+      this.shutdownTimer = setTimeout(() => this.terminate(), IDLE_SHUTDOWN_MS);
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(new URL('../workers/imagePipeline.worker.ts', import.meta.url), {
+      type: 'module',
+      name: 'image-pipeline',
+    });
+
+    worker.onmessage = (event: MessageEvent<ImagePipelineMessage>) => {
+      const message = event.data;
+      const task = this.busy.get(worker);
+      if (!task || task.job.id !== message.id) return;
+
+      if (message.type === 'progress') {
+        task.onProgress?.({ stage: message.stage, progress: message.progress });
+        return;
+      }
+
+      this.busy.delete(worker);
+      this.idle.push(worker);
+      if (message.type === 'done') {
+        const { blob, width, height, mimeType, quality } = message;
+        task.onProgress?.({ stage: 'done', progress: 1 });
+        task.resolve({ blob, width, height, mimeType, quality });
+      } else {
+        task.reject(new Error(message.message));
+      }
+      this.pump();
+    };
+
+    // A crashed worker can't be reused: fail its job and replace it on demand
+    worker.onerror = (event) => {
+      event.preventDefault();
+      const task = this.busy.get(worker);
+      this.busy.delete(worker);
+      this.workers = this.workers.filter((item) => item !== worker);
+      worker.terminate();
+      task?.reject(new Error(event.message || 'Image processing failed'));
+      this.pump();
+    };
+
+    this.workers.push(worker);
+    return worker;
+  }
+}
+
+let pool: ImageWorkerPool | null = null;
+
+/** Shared pool, sized to leave a core for the page */
+export function getImageWorkerPool(): ImageWorkerPool {
+  if (!pool) {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    pool = new ImageWorkerPool(Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1)));
+  }
+  return pool;
+}
+
+const limitHeicConversion = createLimiter(HEIC_CONVERSION_CONCURRENCY);
+
+/**
+ * Convert a HEIC/HEIF photo to a JPEG the pipeline can decode. The decoder
+ * is large, so it is only loaded when a HEIC file shows up.
+ */
+export function convertHeicToJpeg(file: File, onStart?: () => void): Promise<Blob> {
+  return limitHeicConversion(async () => {
+    onStart?.();
+    const { default: heic2any } = await import('heic2any');
+    const result = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.95 });
+    return Array.isArray(result) ? result[0] : result;
+  });
+}
+
+/**
+ * Run a file through the pipeline on the shared worker pool
+ */
+export async function processImage(
+  file: File,
+  options: Partial<ImagePipelineOptions> = {},
+  onProgress?: (progress: ImagePipelineProgress) => void
+): Promise<ImagePipelineResult> {
+  let source: Blob = file;
+  if (isHeicFile(file)) {
+    onProgress?.({ stage: 'queued', progress: 0 });
+    source = await convertHeicToJpeg(file, () => onProgress?.({ stage: 'converting', progress: 0 }));
+  }
+  return getImageWorkerPool().process(source, { ...DEFAULT_PIPELINE_OPTIONS, ...options }, onProgress);
+}
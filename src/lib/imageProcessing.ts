@@ -167,6 +167,41 @@ export const getImageDimensions = (file: File): Promise<{ width: number; height:
   });
 };
 
+/**
+ * Create a blur-up placeholder: the image scaled down to `size` px on its
+ * longest side and encoded as a JPEG data URL (a few hundred bytes).
+ * Accepts the uploaded file or an image URL served with CORS headers.
+ */
+export const createBlurPlaceholder = (source: File | string, size: number = 16): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    const img = new Image();
+    const objectUrl = typeof source === 'string' ? null : URL.createObjectURL(source);
+
+    img.onload = () => {
+      const scale = size / Math.max(img.width, img.height);
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      ctx?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      try {
+        resolve(canvas.toDataURL('image/jpeg', 0.6));
+      } catch (error) {
+        // A tainted canvas (no CORS headers) cannot be read back
+        reject(error instanceof Error ? error : new Error('Failed to create placeholder'));
+      }
+    };
+
+    img.onerror = () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      reject(new Error('Failed to load image'));
+    };
+    img.crossOrigin = 'anonymous';
+    img.src = objectUrl ?? (source as string);
+  });
+};
+
 /**
  * Generate unique filename with timestamp and random string
  */
@@ -1,25 +1,43 @@
 import apiService from '@/lib/apiService'
-import {
-  getImageDimensions,
-  ProcessedImage
-} from './imageProcessing'
+import type { MediaUploadResult } from '@/lib/api/schemas'
+import { ProcessedImage } from './imageProcessing'
 import { getCloudinaryUrl, CloudinaryPresets } from './cloudinaryUtils'
+import {
+  DEFAULT_PIPELINE_OPTIONS,
+  ImageOutputType,
+  ImagePipelineProgress,
+  convertHeicToJpeg,
+  isHeicFile,
+  isImagePipelineSupported,
+  processImage,
+} from './imagePipeline'
 
 const ALLOWED_UPLOAD_MIME_TYPES = new Set([
   'image/jpeg',
   'image/jpg',
   'image/png',
   'image/webp',
+  'image/avif',
 ])
 
-const ALLOWED_UPLOAD_EXTENSIONS = new Set(['jpg', 'jpeg', 'png', 'webp'])
+const ALLOWED_UPLOAD_EXTENSIONS = new Set(['jpg', 'jpeg', 'png', 'webp', 'avif'])
+
+const MAX_UPLOAD_BYTES = DEFAULT_PIPELINE_OPTIONS.maxBytes
+const MAX_IMAGE_DIMENSION = DEFAULT_PIPELINE_OPTIONS.maxDimension
+
+/** `accept` value for image inputs; HEIC is converted before upload */
+export const ACCEPTED_IMAGE_INPUT = 'image/jpeg,image/png,image/webp,image/avif,image/heic,image/heif,.avif,.heic,.heif'
 
-const MAX_UPLOAD_BYTES = 4.5 * 1024 * 1024
-const MAX_IMAGE_DIMENSION = 2400
+export const UNSUPPORTED_IMAGE_MESSAGE = 'Please use a JPG, PNG, WebP, AVIF or HEIC image. SVG and GIF are not supported.'
+
+// Files already run through prepareImageForUpload, so callers that prepare
+// early (to show progress) don't get them re-encoded on upload
+const preparedFiles = new WeakSet<File>()
 
 const mimeTypeToExtension = (mimeType: string) => {
   if (mimeType === 'image/png') return 'png'
   if (mimeType === 'image/webp') return 'webp'
+  if (mimeType === 'image/avif') return 'avif'
   return 'jpg'
 }
 
@@ -40,12 +58,14 @@ export const resolveUploadMimeType = (file: File): string => {
   if (extension === 'jpg' || extension === 'jpeg') return 'image/jpeg'
   if (extension === 'png') return 'image/png'
   if (extension === 'webp') return 'image/webp'
+  if (extension === 'avif') return 'image/avif'
 
   return file.type || ''
 }
 
 export const isAllowedFeaturedImageFile = (file: File): boolean => {
   if (file.type === 'image/svg+xml') return false
+  if (isHeicFile(file)) return true
 
   const mimeType = resolveUploadMimeType(file)
   if (ALLOWED_UPLOAD_MIME_TYPES.has(mimeType)) return true
@@ -141,32 +161,13 @@ const encodeCanvasUnderLimit = async (
   throw new Error('Image is too large after compression. Try a smaller image (max 5MB).')
 }
 
-export const prepareImageForUpload = async (file: File): Promise<File> => {
-  if (file.type === 'image/svg+xml') {
-    throw new Error('SVG images are not supported. Please use JPG, PNG, or WebP.')
-  }
-
-  if (!isAllowedFeaturedImageFile(file) && !file.type.startsWith('image/')) {
-    throw new Error('Unsupported file type. Please use JPG, PNG, or WebP.')
-  }
-
-  if (
-    isAllowedFeaturedImageFile(file) &&
-    file.size > 0 &&
-    file.size <= MAX_UPLOAD_BYTES
-  ) {
-    const dimensions = await getImageDimensions(file)
-    if (
-      dimensions.width > 0 &&
-      dimensions.height > 0 &&
-      dimensions.width <= MAX_IMAGE_DIMENSION &&
-      dimensions.height <= MAX_IMAGE_DIMENSION
-    ) {
-      return file
-    }
-  }
-
-  const objectUrl = URL.createObjectURL(file)
+/**
+ * Main-thread fallback for browsers without OffscreenCanvas in workers:
+ * redraws the image on a canvas (dropping metadata) and encodes JPEG
+ * under the size limit.
+ */
+const prepareOnMainThread = async (source: Blob, fileName: string): Promise<File> => {
+  const objectUrl = URL.createObjectURL(source)
 
   try {
     const img = await loadImageElement(objectUrl)
@@ -185,7 +186,7 @@ export const prepareImageForUpload = async (file: File): Promise<File> => {
       const canvas = drawImageToCanvas(img, width, height)
 
       try {
-        prepared = await encodeCanvasUnderLimit(canvas, file.name)
+        prepared = await encodeCanvasUnderLimit(canvas, fileName)
         break
       } catch {
         targetMaxDimension = Math.round(targetMaxDimension * 0.8)
@@ -202,6 +203,47 @@ export const prepareImageForUpload = async (file: File): Promise<File> => {
   }
 }
 
+/**
+ * Prepare an image for upload: strip metadata (EXIF GPS and the like),
+ * apply EXIF orientation, scale to MAX_IMAGE_DIMENSION and encode WebP
+ * (or AVIF when asked and supported) near the target size. Runs on the
+ * worker pool when the browser supports it.
+ */
+export const prepareImageForUpload = async (
+  file: File,
+  options: {
+    onProgress?: (progress: ImagePipelineProgress) => void
+    type?: ImageOutputType
+  } = {}
+): Promise<File> => {
+  if (preparedFiles.has(file)) return file
+
+  if (file.type === 'image/svg+xml') {
+    throw new Error('SVG images are not supported. Please use JPG, PNG, WebP or AVIF.')
+  }
+
+  if (!isAllowedFeaturedImageFile(file) && !file.type.startsWith('image/')) {
+    throw new Error('Unsupported file type. Please use JPG, PNG, WebP, AVIF or HEIC.')
+  }
+
+  let prepared: File
+  if (isImagePipelineSupported()) {
+    const result = await processImage(file, options.type ? { type: options.type } : {}, options.onProgress)
+    prepared = new File([result.blob], withExtension(file.name, mimeTypeToExtension(result.mimeType)), {
+      type: result.mimeType,
+      lastModified: Date.now(),
+    })
+  } else {
+    options.onProgress?.({ stage: 'decoding', progress: 0.1 })
+    const source = isHeicFile(file) ? await convertHeicToJpeg(file) : file
+    prepared = await prepareOnMainThread(source, file.name)
+    options.onProgress?.({ stage: 'done', progress: 1 })
+  }
+
+  preparedFiles.add(prepared)
+  return prepared
+}
+
 /** @deprecated Use prepareImageForUpload */
 export const normalizeUploadImageFile = prepareImageForUpload
 
@@ -280,14 +322,13 @@ export const uploadImageToMediaLibrary = async (
   file: File,
   _uploadedBy: string,
   alt: string = ''
-): Promise<string> => {
+): Promise<MediaUploadResult> => {
   try {
     const preparedFile = await prepareImageForUpload(file)
-    const result = await apiService.uploadMedia(preparedFile, {
+    return await apiService.uploadMedia(preparedFile, {
       folder: 'media',
       alt: alt || file.name,
     })
-    return result.public_id
   } catch (error) {
     console.error('Error uploading image to media library:', error)
     return rethrowUploadError(error, 'Failed to upload image to media library')
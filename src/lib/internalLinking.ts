@@ -0,0 +1,223 @@
+/**
+ * Internal linking suggestions
+ *
+ * Builds an index of phrases that identify published posts (focus
+ * keyphrases, tags, names in titles, categories) and finds them in a
+ * draft. Each target is suggested at most once and never when the draft
+ * already links to it, and the total is capped per post so a story doesn't
+ * turn into a wall of links. Matching works on plain text; the editor
+ * extension (InternalLinkSuggestions) locates the same phrases in the
+ * document with phrasePattern.
+ */
+
+import type { Post } from '@/types/admin';
+import { htmlToText } from '@/lib/diff';
+import { extractLinks } from '@/lib/linkChecker';
+import { normalizeForMatch } from '@/lib/seoAnalysis';
+
+export type LinkTermSource = 'keyphrase' | 'tag' | 'title' | 'category';
+
+export interface InternalLinkTarget {
+  slug: string;
+  title: string;
+  url: string;
+  publishedAt: Date | null;
+}
+
+export interface InternalLinkTerm {
+  phrase: string;
+  /** normalizeForMatch form, used to dedupe */
+  key: string;
+  source: LinkTermSource;
+  target: InternalLinkTarget;
+}
+
+export interface InternalLinkIndex {
+  /** Strongest first: by source, then longer phrases */
+  terms: InternalLinkTerm[];
+}
+
+export interface InternalLinkSuggestion {
+  /** Text as it appears in the draft */
+  phrase: string;
+  source: LinkTermSource;
+  target: InternalLinkTarget;
+}
+
+export interface InternalLinkOptions {
+  /** Internal links a post should end up with at most, counting existing ones */
+  maxLinks?: number;
+  /** Post being edited; never suggested to itself */
+  currentSlug?: string;
+  siteUrl?: string;
+}
+
+export const DEFAULT_MAX_INTERNAL_LINKS = 5;
+
+const DEFAULT_SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://www.techblit.com';
+
+/** Specific phrases beat broad ones */
+const SOURCE_RANK: Record<LinkTermSource, number> = { keyphrase: 0, tag: 1, title: 2, category: 3 };
+
+/** Capitalized words that start sentence-case titles without naming anything */
+const TITLE_STOPWORDS = new Set([
+  'a', 'an', 'the', 'how', 'why', 'what', 'when', 'where', 'who', 'which', 'this', 'these', 'that', 'those',
+  'is', 'are', 'can', 'should', 'will', 'new', 'top', 'best', 'i', 'we', 'you', 'our', 'my', 'in', 'on', 'at',
+  'for', 'from', 'to', 'of', 'and', 'or', 'with', 'after', 'before', 'inside', 'meet', 'here', 'exclusive',
+]);
+
+/** Shortest phrase worth linking, in characters */
+const MIN_PHRASE_LENGTH = 3;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Case-insensitive pattern for a phrase as a whole word sequence, allowing
+ * any punctuation or spacing between its words
+ */
+export function phrasePattern(phrase: string): RegExp {
+  const words = phrase.split(/[^\p{L}\p{N}]+/u).filter(Boolean).map(escapeRegExp);
+  return new RegExp(`(?<![\\p{L}\\p{N}])${words.join('[^\\p{L}\\p{N}]+')}(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+/**
+ * Names in a sentence-case title: runs of capitalized words ("Paystack",
+ * "Central Bank"). Title Case titles capitalize everything, so they yield
+ * nothing; tags and keyphrases cover those posts.
+ */
+export function titleEntities(title: string): string[] {
+  const words = title.split(/\s+/).filter(Boolean);
+  const isCapitalized = (word: string) => /^\p{Lu}/u.test(word);
+  const rest = words.slice(1).filter((word) => /^\p{L}/u.test(word));
+  if (rest.length > 0 && rest.filter(isCapitalized).length > rest.length / 2) return [];
+
+  const entities: string[] = [];
+  let run: string[] = [];
+  const flush = () => {
+    while (run.length > 0 && TITLE_STOPWORDS.has(run[0].toLowerCase())) run.shift();
+    const phrase = run.join(' ').replace(/[^\p{L}\p{N}]+$/u, '');
+    if (phrase.length >= MIN_PHRASE_LENGTH) entities.push(phrase);
+    run = [];
+  };
+  for (const word of words) {
+    const bare = word.replace(/^[^\p{L}\p{N}]+/u, '');
+    if (bare && isCapitalized(bare)) {
+      run.push(bare.replace(/[’']s$/u, ''));
+      // Punctuation after a word ends the name ("Paystack, Flutterwave")
+      if (/[^\p{L}\p{N}’']$/u.test(word)) flush();
+    } else {
+      flush();
+    }
+  }
+  flush();
+  return entities;
+}
+
+/**
+ * The fields the index reads. Sources without a status (search records)
+ * are taken to be published.
+ */
+export type InternalLinkSource = Pick<Post, 'slug' | 'title'> &
+  Partial<Pick<Post, 'tags' | 'category' | 'focusKeyphrase' | 'publishedAt' | 'status'>>;
+
+/**
+ * Index the phrases that identify each published post. A phrase shared by
+ * several posts (a tag, a category) points at the most recent of them.
+ */
+export function buildInternalLinkIndex(posts: InternalLinkSource[], siteUrl: string = DEFAULT_SITE_URL): InternalLinkIndex {
+  const byKey = new Map<string, InternalLinkTerm>();
+
+  const add = (phrase: string, source: LinkTermSource, target: InternalLinkTarget) => {
+    const trimmed = phrase.trim();
+    const key = normalizeForMatch(trimmed);
+    if (key.length < MIN_PHRASE_LENGTH || TITLE_STOPWORDS.has(key)) return;
+    const existing = byKey.get(key);
+    const newer = (target.publishedAt?.getTime() ?? 0) > (existing?.target.publishedAt?.getTime() ?? 0);
+    if (!existing || SOURCE_RANK[source] < SOURCE_RANK[existing.source] || (source === existing.source && newer)) {
+      byKey.set(key, { phrase: trimmed, key, source, target });
+    }
+  };
+
+  for (const post of posts) {
+    if ((post.status && post.status !== 'published') || !post.slug) continue;
+    const target: InternalLinkTarget = {
+      slug: post.slug,
+      title: post.title,
+      url: `${siteUrl}/${post.slug}`,
+      publishedAt: post.publishedAt ?? null,
+    };
+    if (post.focusKeyphrase) add(post.focusKeyphrase, 'keyphrase', target);
+    for (const tag of post.tags || []) add(tag, 'tag', target);
+    for (const entity of titleEntities(post.title)) add(entity, 'title', target);
+    if (post.category) add(post.category, 'category', target);
+  }
+
+  const terms = Array.from(byKey.values()).sort(
+    (a, b) => SOURCE_RANK[a.source] - SOURCE_RANK[b.source] || b.key.length - a.key.length
+  );
+  return { terms };
+}
+
+/** Slugs of posts the body already links to */
+function linkedSlugs(html: string, siteUrl: string): Set<string> {
+  let siteHost = '';
+  try {
+    siteHost = new URL(siteUrl).hostname.replace(/^www\./, '');
+  } catch {
+    // relative links still count
+  }
+  const slugs = new Set<string>();
+  for (const link of extractLinks(html, siteUrl)) {
+    const url = new URL(link);
+    if (url.hostname.replace(/^www\./, '') !== siteHost) continue;
+    const slug = url.pathname.split('/').filter(Boolean).pop();
+    if (slug) slugs.add(slug);
+  }
+  return slugs;
+}
+
+/** Text that may take a new link: not inside links, headings or code */
+function linkableText(html: string): string {
+  return htmlToText(
+    html
+      .replace(/<a\b[^>]*>[\s\S]*?<\/a>/gi, ' ')
+      .replace(/<(h[1-6]|pre|code|figcaption)\b[^>]*>[\s\S]*?<\/\1>/gi, '\n')
+  );
+}
+
+/**
+ * Phrases in the draft worth linking to other posts, best first. Each
+ * target appears once, targets the draft already links to are skipped, and
+ * existing internal links count toward the cap.
+ */
+export function suggestInternalLinks(
+  html: string,
+  index: InternalLinkIndex,
+  options: InternalLinkOptions = {}
+): InternalLinkSuggestion[] {
+  const siteUrl = options.siteUrl || DEFAULT_SITE_URL;
+  const linked = linkedSlugs(html || '', siteUrl);
+  const budget = (options.maxLinks ?? DEFAULT_MAX_INTERNAL_LINKS) - linked.size;
+  if (budget <= 0) return [];
+
+  const text = linkableText(html || '');
+  if (!text) return [];
+
+  const suggestions: InternalLinkSuggestion[] = [];
+  const usedTargets = new Set(linked);
+  if (options.currentSlug) usedTargets.add(options.currentSlug);
+  const usedKeys: string[] = [];
+
+  for (const term of index.terms) {
+    if (suggestions.length >= budget) break;
+    if (usedTargets.has(term.target.slug)) continue;
+    // One link per phrase: "Paystack" and "Paystack Checkout" would overlap
+    if (usedKeys.some((key) => ` ${key} `.includes(` ${term.key} `) || ` ${term.key} `.includes(` ${key} `))) continue;
+    const match = phrasePattern(term.phrase).exec(text);
+    if (!match) continue;
+    suggestions.push({ phrase: match[0], source: term.source, target: term.target });
+    usedTargets.add(term.target.slug);
+    usedKeys.push(term.key);
+  }
+  return suggestions;
+}
@@ -0,0 +1,226 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { LookupAddress } from 'node:dns';
+import { LinkChecker, isPrivateAddress, isPrivateHost } from '@/lib/linkChecker';
+import { createPublicFetch, publicLookup } from '@/lib/publicFetch';
+
+interface StubRequest {
+  method: string;
+  path: string;
+  at: number;
+}
+
+const requests: StubRequest[] = [];
+
+const ROUTES: Record<string, (req: IncomingMessage, res: ServerResponse) => void> = {
+  '/ok': (_req, res) => res.writeHead(200).end('ok'),
+  '/missing': (_req, res) => res.writeHead(404).end(),
+  '/error': (_req, res) => res.writeHead(500).end(),
+  '/limited': (_req, res) => res.writeHead(429).end(),
+  '/r1': (_req, res) => res.writeHead(301, { Location: '/r2' }).end(),
+  '/r2': (_req, res) => res.writeHead(302, { Location: '/ok' }).end(),
+  '/loop-a': (_req, res) => res.writeHead(302, { Location: '/loop-b' }).end(),
+  '/loop-b': (_req, res) => res.writeHead(302, { Location: '/loop-a' }).end(),
+  '/no-head': (req, res) => res.writeHead(req.method === 'HEAD' ? 405 : 200).end(),
+  '/slow': (_req, res) => {
+    setTimeout(() => res.writeHead(200).end(), 40);
+  },
+};
+
+let server: Server;
+let base: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const path = (req.url || '/').split('?')[0];
+    requests.push({ method: req.method || 'GET', path, at: Date.now() });
+    (ROUTES[path] ?? ((_req: IncomingMessage, response: ServerResponse) => response.writeHead(404).end()))(req, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+});
+
+const stubChecker = (options: ConstructorParameters<typeof LinkChecker>[0] = {}) =>
+  new LinkChecker({ allowPrivateHosts: true, perHostIntervalMs: 0, timeoutMs: 2000, ...options });
+
+describe('LinkChecker against a local stub', () => {
+  it('classifies status codes', async () => {
+    const [ok, missing, error, limited] = await stubChecker().checkAll([
+      `${base}/ok`,
+      `${base}/missing`,
+      `${base}/error`,
+      `${base}/limited`,
+    ]);
+
+    expect(ok).toMatchObject({ state: 'ok', status: 200, redirects: [] });
+    expect(missing).toMatchObject({ state: 'broken', status: 404 });
+    expect(error).toMatchObject({ state: 'broken', status: 500 });
+    expect(limited).toMatchObject({ state: 'error', status: 429 });
+  });
+
+  it('records every hop of a redirect chain', async () => {
+    const result = await stubChecker().check(`${base}/r1`);
+
+    expect(result.state).toBe('redirect');
+    expect(result.status).toBe(200);
+    expect(result.redirects).toEqual([
+      { url: `${base}/r1`, status: 301 },
+      { url: `${base}/r2`, status: 302 },
+    ]);
+    expect(result.finalUrl).toBe(`${base}/ok`);
+  });
+
+  it('stops at redirect loops and long chains', async () => {
+    const loop = await stubChecker().check(`${base}/loop-a`);
+    expect(loop).toMatchObject({ state: 'error', error: 'Redirect loop' });
+
+    const long = await stubChecker({ maxRedirects: 1 }).check(`${base}/r1`);
+    expect(long).toMatchObject({ state: 'error', error: 'More than 1 redirects' });
+  });
+
+  it('falls back to GET when HEAD is refused', async () => {
+    const result = await stubChecker().check(`${base}/no-head`);
+
+    expect(result).toMatchObject({ state: 'ok', status: 200 });
+    expect(requests.map(({ method }) => method)).toEqual(['HEAD', 'GET']);
+  });
+
+  it('spaces requests to the same host', async () => {
+    // Timed as requests leave, so connection setup doesn't skew the gaps
+    const started: number[] = [];
+    const timedFetch: typeof fetch = (input, init) => {
+      started.push(Date.now());
+      return fetch(input, init);
+    };
+    await stubChecker({ perHostIntervalMs: 100, fetch: timedFetch }).checkAll([
+      `${base}/ok`,
+      `${base}/error`,
+      `${base}/limited`,
+    ]);
+
+    const times = started.sort((a, b) => a - b);
+    expect(times).toHaveLength(3);
+    for (let i = 1; i < times.length; i++) {
+      // Timer granularity allows a few milliseconds of slack
+      expect(times[i] - times[i - 1]).toBeGreaterThanOrEqual(90);
+    }
+  });
+
+  it('keeps at most `concurrency` requests in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const countingFetch: typeof fetch = async (input, init) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      try {
+        return await fetch(input, init);
+      } finally {
+        inFlight--;
+      }
+    };
+    const urls = Array.from({ length: 8 }, (_, i) => `${base}/slow?n=${i}`);
+
+    const results = await stubChecker({ concurrency: 3, fetch: countingFetch }).checkAll(urls);
+
+    expect(results.every((result) => result.state === 'ok')).toBe(true);
+    expect(requests).toHaveLength(8);
+    expect(peak).toBe(3);
+  });
+
+  it('leaves out URLs it has no time to check before the deadline', async () => {
+    const checker = stubChecker({ perHostIntervalMs: 100, timeoutMs: 50 });
+    const urls = [`${base}/ok`, `${base}/error`, `${base}/limited`];
+
+    const results = await checker.checkAll(urls, { deadline: Date.now() + 200 });
+
+    expect(results.map(({ url }) => url)).toEqual(urls.slice(0, 2));
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('private network protection', () => {
+  it('recognises private addresses in every notation', () => {
+    expect(isPrivateHost('localhost')).toBe(true);
+    expect(isPrivateHost('127.0.0.1')).toBe(true);
+    expect(isPrivateHost('[::1]')).toBe(true);
+    expect(isPrivateHost('[::ffff:7f00:1]')).toBe(true);
+    expect(isPrivateHost('[::ffff:10.0.0.1]')).toBe(true);
+    expect(isPrivateHost('[fe80::1]')).toBe(true);
+    expect(isPrivateAddress('169.254.169.254')).toBe(true);
+    expect(isPrivateAddress('192.168.1.20')).toBe(true);
+    expect(isPrivateHost('www.techblit.com')).toBe(false);
+    expect(isPrivateAddress('93.184.216.34')).toBe(false);
+    expect(isPrivateAddress('2606:4700::6810:84e5')).toBe(false);
+  });
+
+  const DNS: Record<string, string[]> = {
+    'public.example': ['93.184.216.34'],
+    '127.0.0.1.nip.io': ['127.0.0.1'],
+    'mixed.example': ['93.184.216.35', '10.1.2.3'],
+  };
+  const resolveHost = async (hostname: string): Promise<LookupAddress[]> => {
+    const addresses = DNS[hostname];
+    if (!addresses) throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' });
+    return addresses.map((address) => ({ address, family: 4 }));
+  };
+
+  const lookupWith = (hostname: string, all: boolean) =>
+    new Promise<{ code?: string; address: string | LookupAddress[] }>((resolve) =>
+      publicLookup(resolveHost)(hostname, { all }, (error, address) =>
+        resolve({ code: (error as NodeJS.ErrnoException | null)?.code, address })
+      )
+    );
+
+  it('connects only to public addresses it resolved itself', async () => {
+    expect(await lookupWith('public.example', false)).toEqual({ address: '93.184.216.34' });
+    expect(await lookupWith('public.example', true)).toEqual({
+      address: [{ address: '93.184.216.34', family: 4 }],
+    });
+    expect((await lookupWith('127.0.0.1.nip.io', true)).code).toBe('EPRIVATEADDRESS');
+    expect((await lookupWith('mixed.example', false)).code).toBe('EPRIVATEADDRESS');
+    expect((await lookupWith('gone.example', false)).code).toBe('ENOTFOUND');
+  });
+
+  it('refuses names that resolve to private addresses', async () => {
+    const checker = new LinkChecker({ fetch: createPublicFetch(resolveHost), perHostIntervalMs: 0 });
+
+    const [rebound, mixed, literal, missing] = await checker.checkAll([
+      'http://127.0.0.1.nip.io/admin',
+      'http://mixed.example/',
+      'http://[::ffff:7f00:1]/',
+      'http://gone.example/',
+    ]);
+
+    expect(rebound.error).toBe('Private network addresses are not checked');
+    expect(mixed.error).toBe('Private network addresses are not checked');
+    expect(literal.error).toBe('Private network addresses are not checked');
+    expect(missing).toMatchObject({ state: 'broken', error: 'Domain not found' });
+  });
+
+  it('checks the host of every redirect hop', async () => {
+    const fetched: string[] = [];
+    const publicFetch = createPublicFetch(resolveHost);
+    const fetchStub: typeof fetch = async (input, init) => {
+      fetched.push(String(input));
+      if (String(input) !== 'http://public.example/go') return publicFetch(input, init);
+      return new Response(null, { status: 302, headers: { Location: 'http://127.0.0.1.nip.io/latest/meta-data' } });
+    };
+    const checker = new LinkChecker({ fetch: fetchStub, perHostIntervalMs: 0 });
+
+    const result = await checker.check('http://public.example/go');
+
+    expect(result).toMatchObject({ state: 'error', error: 'Private network addresses are not checked' });
+    expect(result.redirects).toEqual([{ url: 'http://public.example/go', status: 302 }]);
+    expect(fetched).toEqual(['http://public.example/go', 'http://127.0.0.1.nip.io/latest/meta-data']);
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,385 @@
+/**
+ * Outbound link checker
+ *
+ * Extracts the links from a post body and checks each with a HEAD request
+ * (falling back to GET for servers that refuse HEAD), following redirects
+ * by hand so the whole chain is recorded. Requests run with bounded
+ * concurrency and are spaced per host so one site isn't hammered; a
+ * checker shared between calls shares both limits. Runs on the server (see
+ * /api/links/check); browsers can't read cross-origin responses.
+ */
+
+import type { LinkCheckResult, LinkCheckState } from '@/types/admin';
+import { readTagAttributes } from '@/lib/embeds';
+import { createLimiter } from '@/lib/concurrency';
+import apiService from '@/lib/apiService';
+
+export interface LinkCheckerOptions {
+  /** Requests in flight at once */
+  concurrency: number;
+  /** Minimum gap between requests to the same host */
+  perHostIntervalMs: number;
+  timeoutMs: number;
+  maxRedirects: number;
+  userAgent: string;
+  /** Allow localhost and private networks; only for tests against a local stub */
+  allowPrivateHosts: boolean;
+  /**
+   * Only hostnames and IP literals are checked here. The API route passes
+   * a fetch that refuses names resolving to private addresses as it
+   * connects (see publicFetch.ts).
+   */
+  fetch: typeof fetch;
+}
+
+export const DEFAULT_LINK_CHECKER_OPTIONS: LinkCheckerOptions = {
+  concurrency: 6,
+  perHostIntervalMs: 1000,
+  timeoutMs: 10_000,
+  maxRedirects: 10,
+  userAgent: 'TechBlitLinkChecker/1.0 (+https://www.techblit.com)',
+  allowPrivateHosts: false,
+  fetch: (input, init) => fetch(input, init),
+};
+
+/** Statuses some servers return for HEAD even though GET works */
+const RETRY_WITH_GET = new Set([400, 403, 404, 405, 501]);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Error code publicFetch uses for hosts that resolve to private addresses */
+export const PRIVATE_ADDRESS_CODE = 'EPRIVATEADDRESS';
+
+const PRIVATE_REFUSAL = 'Private network addresses are not checked';
+
+/** Host slots kept before stale ones are pruned */
+const MAX_TRACKED_HOSTS = 500;
+
+/** Thrown when a request could not finish before the caller's deadline */
+class CheckDeferred extends Error {}
+
+/**
+ * IPv4 address embedded in an IPv4-mapped or -compatible IPv6 address
+ * (`::ffff:127.0.0.1`, `::ffff:7f00:1`), as the URL parser may write it
+ */
+function embeddedIpv4(host: string): string | null {
+  const dotted = host.match(/^(?:::ffff:|::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) return dotted[1];
+  const hex = host.match(/^(?:::ffff:|::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (!hex) return null;
+  const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+/** Loopback, private, link-local and otherwise non-public IP addresses */
+export function isPrivateAddress(address: string): boolean {
+  const host = address.toLowerCase().replace(/^\[|\]$/g, '');
+  const mapped = embeddedIpv4(host);
+  if (mapped) return isPrivateAddress(mapped);
+
+  if (host.includes(':')) {
+    return (
+      host === '::1' ||
+      host === '::' ||
+      /^f[cd][0-9a-f]{2}:/.test(host) ||
+      /^fe[89ab][0-9a-f]:/.test(host) ||
+      /^ff[0-9a-f]{2}:/.test(host) ||
+      host.startsWith('64:ff9b:') ||
+      host.startsWith('2001:db8:')
+    );
+  }
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (!ipv4) return false;
+  const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19))
+  );
+}
+
+/** Hostnames that must never be fetched from the server */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true;
+  }
+  return isPrivateAddress(host);
+}
+
+const DEFAULT_SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://www.techblit.com';
+
+/**
+ * Absolute form of a link as written in a post: relative links resolve
+ * against the site URL and fragments are dropped. Null for anything that
+ * isn't http(s).
+ */
+export function normalizeLinkUrl(href: string, siteUrl: string = DEFAULT_SITE_URL): string | null {
+  const trimmed = href.trim();
+  if (!trimmed || trimmed.startsWith('#')) return null;
+  try {
+    const url = new URL(trimmed, siteUrl);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/** Links in a post body worth checking, normalized and without duplicates */
+export function extractLinks(html: string, siteUrl: string = DEFAULT_SITE_URL): string[] {
+  const links = new Set<string>();
+  for (const match of (html || '').matchAll(/<a\b[^>]*>/gi)) {
+    const url = normalizeLinkUrl(readTagAttributes(match[0]).href || '', siteUrl);
+    if (url) links.add(url);
+  }
+  return Array.from(links);
+}
+
+/**
+ * Point every link to `from` at `to` instead. Used to adopt the final URL
+ * of a redirect chain.
+ */
+export function replaceLinkHref(html: string, from: string, to: string): string {
+  const escaped = to.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+  return html.replace(/<a\b[^>]*>/gi, (tag) => {
+    const href = readTagAttributes(tag).href;
+    if (!href || normalizeLinkUrl(href) !== from) return tag;
+    return tag.replace(/\shref\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i, ` href="${escaped}"`);
+  });
+}
+
+/** Whether a redirect's final URL is worth suggesting as a replacement */
+export const shouldSuggestFinalUrl = (result: LinkCheckResult): boolean =>
+  result.state === 'redirect' && result.finalUrl !== result.url;
+
+export class LinkChecker {
+  private readonly options: LinkCheckerOptions;
+  /** Earliest time the next request to each host may start */
+  private readonly nextSlot = new Map<string, number>();
+  private readonly limit: <R>(fn: () => Promise<R>) => Promise<R>;
+
+  constructor(options: Partial<LinkCheckerOptions> = {}) {
+    this.options = { ...DEFAULT_LINK_CHECKER_OPTIONS, ...options };
+    this.limit = createLimiter(this.options.concurrency);
+  }
+
+  /**
+   * Check every URL once; results keep the input order
+   *
+   * @param deadline - Time (ms since epoch) every request must finish by.
+   *   No request starts unless its timeout ends before then, and URLs that
+   *   can't be checked in time are left out of the results.
+   */
+  async checkAll(urls: string[], { deadline = Infinity }: { deadline?: number } = {}): Promise<LinkCheckResult[]> {
+    const unique = Array.from(new Set(urls));
+    const settled = await Promise.allSettled(unique.map((url) => this.limit(() => this.checkBefore(url, deadline))));
+    const byUrl = new Map<string, LinkCheckResult>();
+    settled.forEach((result, index) => {
+      if (result.status === 'fulfilled') byUrl.set(unique[index], result.value);
+      else if (!(result.reason instanceof CheckDeferred)) {
+        byUrl.set(unique[index], this.failure(unique[index], [], String(result.reason)));
+      }
+    });
+    return urls.filter((url) => byUrl.has(url)).map((url) => byUrl.get(url)!);
+  }
+
+  check(url: string): Promise<LinkCheckResult> {
+    return this.checkBefore(url, Infinity);
+  }
+
+  private async checkBefore(url: string, deadline: number): Promise<LinkCheckResult> {
+    const redirects: LinkCheckResult['redirects'] = [];
+    let current = url;
+
+    for (let hop = 0; hop <= this.options.maxRedirects; hop++) {
+      let target: URL;
+      try {
+        target = new URL(current);
+      } catch {
+        return this.failure(url, redirects, 'Invalid URL');
+      }
+      if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+        return this.failure(url, redirects, `Unsupported protocol ${target.protocol}`);
+      }
+      if (!this.options.allowPrivateHosts && isPrivateHost(target.hostname)) {
+        return this.failure(url, redirects, PRIVATE_REFUSAL, current);
+      }
+
+      let response: Response;
+      try {
+        response = await this.request(target, 'HEAD', deadline);
+        if (RETRY_WITH_GET.has(response.status)) response = await this.request(target, 'GET', deadline);
+      } catch (error) {
+        if (error instanceof CheckDeferred) throw error;
+        const message = describeFetchError(error);
+        // A domain that no longer resolves is as dead as a 404
+        return { ...this.failure(url, redirects, message, current), state: message === 'Domain not found' ? 'broken' : 'error' };
+      }
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        redirects.push({ url: current, status: response.status });
+        const next = new URL(location, current).toString();
+        if (next === url || redirects.some((hopEntry) => hopEntry.url === next)) {
+          return this.failure(url, redirects, 'Redirect loop', next);
+        }
+        current = next;
+        continue;
+      }
+
+      return {
+        url,
+        state: classify(response.status, redirects.length),
+        status: response.status,
+        redirects,
+        finalUrl: current,
+        error: response.status === 429 ? 'Rate limited by the site; try again later' : undefined,
+        checkedAt: new Date(),
+      };
+    }
+
+    return this.failure(url, redirects, `More than ${this.options.maxRedirects} redirects`, current);
+  }
+
+  private async request(url: URL, method: 'HEAD' | 'GET', deadline: number): Promise<Response> {
+    await this.waitForHost(url.host, deadline);
+    const response = await this.options.fetch(url.toString(), {
+      method,
+      redirect: 'manual',
+      headers: { 'User-Agent': this.options.userAgent, Accept: '*/*' },
+      signal: AbortSignal.timeout(this.options.timeoutMs),
+      cache: 'no-store',
+    });
+    // Only the status matters; don't download bodies
+    if (method === 'GET') await response.body?.cancel().catch(() => undefined);
+    return response;
+  }
+
+  private async waitForHost(host: string, deadline: number) {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(host) ?? 0);
+    if (slot + this.options.timeoutMs > deadline) throw new CheckDeferred(`No time left to check ${host}`);
+    if (this.nextSlot.size >= MAX_TRACKED_HOSTS) {
+      for (const [tracked, next] of this.nextSlot) if (next <= now) this.nextSlot.delete(tracked);
+    }
+    this.nextSlot.set(host, slot + this.options.perHostIntervalMs);
+    if (slot > now) await sleep(slot - now);
+  }
+
+  private failure(
+    url: string,
+    redirects: LinkCheckResult['redirects'],
+    error: string,
+    finalUrl: string = url
+  ): LinkCheckResult {
+    return { url, state: 'error', status: null, redirects, finalUrl, error, checkedAt: new Date() };
+  }
+}
+
+function classify(status: number, redirectCount: number): LinkCheckState {
+  if (status === 429) return 'error';
+  if (status >= 400) return 'broken';
+  return redirectCount > 0 ? 'redirect' : 'ok';
+}
+
+function describeFetchError(error: unknown): string {
+  if (error instanceof Error) {
+    if (error.name === 'TimeoutError' || error.name === 'AbortError') return 'Timed out';
+    // fetch puts the system error in `cause`; DNS lookups throw it directly
+    const cause =
+      (error as Error & { cause?: { code?: string } }).cause?.code ?? (error as Error & { code?: string }).code;
+    if (cause === 'ENOTFOUND') return 'Domain not found';
+    if (cause === 'ECONNREFUSED') return 'Connection refused';
+    if (cause === PRIVATE_ADDRESS_CODE) return PRIVATE_REFUSAL;
+    if (cause) return cause;
+    return error.message;
+  }
+  return 'Request failed';
+}
+
+/** Batch size for browser calls to /api/links/check */
+const CHECK_BATCH_SIZE = 50;
+
+/**
+ * Links to one host per batch. The server spaces requests to a host, so a
+ * batch of links to one site would run out of time.
+ */
+const CHECK_BATCH_PER_HOST = 10;
+
+/** Batches in a row that may come back with nothing checked before giving up */
+const MAX_IDLE_BATCHES = 3;
+
+const IDLE_BATCH_DELAY_MS = 5000;
+
+/** Next batch to send: up to CHECK_BATCH_SIZE links, CHECK_BATCH_PER_HOST per host */
+function nextCheckBatch(urls: string[]): string[] {
+  const perHost = new Map<string, number>();
+  const batch: string[] = [];
+  for (const url of urls) {
+    if (batch.length === CHECK_BATCH_SIZE) break;
+    let host = url;
+    try {
+      host = new URL(url).host;
+    } catch {
+      // Invalid URLs fail on their own; give each its own bucket
+    }
+    const count = perHost.get(host) ?? 0;
+    if (count === CHECK_BATCH_PER_HOST) continue;
+    perHost.set(host, count + 1);
+    batch.push(url);
+  }
+  return batch;
+}
+
+/**
+ * Check links from the browser through /api/links/check, in batches.
+ * Links the server had no time for are sent again in a later batch.
+ *
+ * @param onProgress - Called with the number of links checked so far
+ */
+export async function requestLinkChecks(
+  urls: string[],
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (done: number) => void } = {}
+): Promise<LinkCheckResult[]> {
+  const results = new Map<string, LinkCheckResult>();
+  let pending = Array.from(new Set(urls));
+  let idleBatches = 0;
+
+  while (pending.length > 0) {
+    const token = await apiService.getAuthToken();
+    const response = await fetch('/api/links/check', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ urls: nextCheckBatch(pending) }),
+      signal,
+    });
+    const body = await response.json();
+    if (!response.ok) throw new Error(body.message || `Link check failed (status ${response.status})`);
+
+    const checked = body.data as Array<Omit<LinkCheckResult, 'checkedAt'> & { checkedAt: string }>;
+    for (const result of checked) results.set(result.url, { ...result, checkedAt: new Date(result.checkedAt) });
+    pending = pending.filter((url) => !results.has(url));
+    onProgress?.(results.size);
+
+    if (checked.length > 0) {
+      idleBatches = 0;
+    } else if (++idleBatches === MAX_IDLE_BATCHES) {
+      throw new Error('The link checker is busy; try again in a few minutes');
+    } else {
+      await sleep(IDLE_BATCH_DELAY_MS);
+    }
+  }
+  return urls.map((url) => results.get(url)!);
+}
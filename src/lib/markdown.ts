@@ -1,6 +1,9 @@
 // Markdown rendering utility
 
 import MarkdownIt from 'markdown-it';
+import { renderEmbeds, readTagAttributes, escapeHtml } from '@/lib/embeds';
+import { renderContentBlocks } from '@/lib/contentBlocks';
+import { getCloudinarySrcSet, normalizeToPublicId } from '@/lib/cloudinaryUtils';
 
 // Initialize Markdown parser with same config as editor
 const md = new MarkdownIt({
@@ -57,8 +60,47 @@ export function addLazyLoadingToImages(html: string): string {
   });
 }
 
+/** Article body column width, used for inline image `sizes` */
+const INLINE_IMAGE_SIZES = '(max-width: 768px) 100vw, 768px';
+
+/**
+ * Rewrite Cloudinary <img> tags to responsive markup: src at the inline
+ * preset plus srcset/sizes. Other images, and ones that already have a
+ * srcset, are left alone.
+ */
+export function addResponsiveImages(html: string): string {
+  if (!html) return html;
+  return html.replace(/<img(\s[^>]*?)(\s*\/?)>/gi, (match, attrs: string, close: string) => {
+    if (/\ssrcset\s*=/i.test(attrs)) return match;
+    const src = readTagAttributes(match).src;
+    const source = getCloudinarySrcSet(normalizeToPublicId(src), 'inline', { sizes: INLINE_IMAGE_SIZES });
+    if (!source) return match;
+
+    const rest = attrs.replace(/\s(src|decoding)\s*=\s*("[^"]*"|'[^']*')/gi, '');
+    return `<img src="${escapeHtml(source.src)}" srcset="${escapeHtml(source.srcSet)}" sizes="${source.sizes}" decoding="async"${rest}${close}>`;
+  });
+}
+
+/**
+ * Wrap images inserted with a caption (data-caption) in a figure with a
+ * figcaption. Images already inside a figure are left alone.
+ */
+export function addImageCaptions(html: string): string {
+  if (!html || !html.includes('data-caption')) return html;
+  return html.replace(/(<figure[^>]*>\s*)?(<img\s[^>]*\bdata-caption=[^>]*>)/gi, (match, figureOpen, img) => {
+    if (figureOpen) return match;
+    const caption = readTagAttributes(img)['data-caption']?.trim();
+    if (!caption) return match;
+    return `<figure class="image-figure">${img}<figcaption>${escapeHtml(caption)}</figcaption></figure>`;
+  });
+}
+
 /**
- * Render content as HTML, auto-detecting if it's Markdown
+ * Render content as HTML, auto-detecting if it's Markdown.
+ * Embed placeholders and legacy embed divs become iframes (see renderEmbeds)
+ * and funding fact boxes are formatted from their data (renderContentBlocks).
+ * Captioned images get a figcaption (addImageCaptions) and Cloudinary
+ * images a srcset (addResponsiveImages).
  * @param content - Content to render (can be HTML or Markdown)
  * @param contentHtml - Optional pre-rendered HTML content
  * @returns HTML string
@@ -71,7 +113,7 @@ export function renderContent(content: string, contentHtml?: string): string {
   } else if (isMarkdown(content)) {
     html = renderMarkdown(content);
   } else {
-    return content;
+    return renderContentBlocks(renderEmbeds(addImageCaptions(addResponsiveImages(content))));
   }
-  return addLazyLoadingToImages(html);
+  return renderContentBlocks(renderEmbeds(addImageCaptions(addResponsiveImages(addLazyLoadingToImages(html)))));
 }
@@ -0,0 +1,105 @@
+/**
+ * Where media library assets are used
+ *
+ * Posts don't keep a list of the assets they reference, so usage is found
+ * by scanning every post's featured image and the inline <img> tags in its
+ * contentHtml. Images inserted from the library carry data-media-id and
+ * are matched by asset id; others are compared by Cloudinary public_id
+ * when there is one, otherwise by URL without its query string.
+ */
+
+import { Media, Post } from '@/types/admin';
+import { extractPublicId } from '@/lib/imageHelpers';
+import { normalizeToPublicId } from '@/lib/cloudinaryUtils';
+import { readTagAttributes } from '@/lib/embeds';
+
+export type MediaUsagePlacement = 'featured' | 'inline';
+
+export interface MediaUsage {
+  postId: string;
+  title: string;
+  slug: string;
+  status: Post['status'];
+  placements: MediaUsagePlacement[];
+}
+
+export type MediaUsageIndex = Map<string, MediaUsage[]>;
+
+export interface InlineImage {
+  src: string;
+  mediaId?: string;
+}
+
+function imageKey(src: string): string {
+  return normalizeToPublicId(src) ?? src.split(/[?#]/)[0];
+}
+
+function idKey(mediaId: string): string {
+  return `id:${mediaId}`;
+}
+
+/** Keys an asset can be referenced by */
+export function mediaKeys(media: Pick<Media, 'id' | 'url' | 'storagePath'>): string[] {
+  const keys = new Set<string>([idKey(media.id), imageKey(media.url)]);
+  const fromPath = normalizeToPublicId(media.storagePath);
+  if (fromPath) keys.add(fromPath);
+  return Array.from(keys);
+}
+
+/** Inline images in a body, with decoded sources */
+export function extractInlineImages(html: string | undefined): InlineImage[] {
+  if (!html) return [];
+  const images: InlineImage[] = [];
+  for (const match of html.matchAll(/<img\s[^>]*>/gi)) {
+    const attrs = readTagAttributes(match[0]);
+    if (!attrs.src) continue;
+    images.push({ src: attrs.src, mediaId: attrs['data-media-id'] || undefined });
+  }
+  return images;
+}
+
+export function buildMediaUsageIndex(posts: Post[]): MediaUsageIndex {
+  const index: MediaUsageIndex = new Map();
+
+  const add = (key: string, post: Post, placement: MediaUsagePlacement) => {
+    const postId = post.id ?? post.slug;
+    const usages = index.get(key) ?? [];
+    const existing = usages.find((entry) => entry.postId === postId);
+    if (existing) {
+      if (!existing.placements.includes(placement)) existing.placements.push(placement);
+      return;
+    }
+    usages.push({ postId, title: post.title, slug: post.slug, status: post.status, placements: [placement] });
+    index.set(key, usages);
+  };
+
+  for (const post of posts) {
+    const featured = extractPublicId(post.featuredImage);
+    if (featured) add(featured, post, 'featured');
+    for (const image of extractInlineImages(post.contentHtml)) {
+      add(imageKey(image.src), post, 'inline');
+      if (image.mediaId) add(idKey(image.mediaId), post, 'inline');
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Posts that reference an asset, one entry per post
+ */
+export function findMediaUsage(index: MediaUsageIndex, media: Pick<Media, 'id' | 'url' | 'storagePath'>): MediaUsage[] {
+  const byPost = new Map<string, MediaUsage>();
+  for (const key of mediaKeys(media)) {
+    for (const usage of index.get(key) ?? []) {
+      const existing = byPost.get(usage.postId);
+      byPost.set(
+        usage.postId,
+        existing
+          ? { ...existing, placements: Array.from(new Set([...existing.placements, ...usage.placements])) }
+          : usage
+      );
+    }
+  }
+  return Array.from(byPost.values());
+}
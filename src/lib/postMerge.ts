@@ -0,0 +1,120 @@
+/**
+ * Three-way merge of post edits
+ *
+ * Used when a save is rejected because someone else saved the post after it
+ * was loaded. Starting from the copy both editors loaded (base), a field
+ * changed on one side only takes that side's value, and the body is merged
+ * word by word. Whatever both sides changed differently is returned as a
+ * conflict for the editor to resolve.
+ */
+
+import { Post } from '@/types/admin';
+import { MergeChunk, merge3, tokenizeHtml } from '@/lib/diff';
+
+export type MergeSide = 'mine' | 'theirs';
+
+export const MERGE_FIELDS: ReadonlyArray<{ key: keyof Post; label: string }> = [
+  { key: 'title', label: 'Title' },
+  { key: 'slug', label: 'Slug' },
+  { key: 'excerpt', label: 'Excerpt' },
+  { key: 'contentHtml', label: 'Content' },
+  { key: 'category', label: 'Category' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'featuredImage', label: 'Featured image' },
+  { key: 'metaTitle', label: 'Meta title' },
+  { key: 'metaDescription', label: 'Meta description' },
+  { key: 'canonical', label: 'Canonical URL' },
+  { key: 'focusKeyphrase', label: 'Focus keyphrase' },
+  { key: 'scheduledAt', label: 'Scheduled for' },
+];
+
+export interface FieldConflict {
+  key: keyof Post;
+  label: string;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  /** Body only: merged text with the conflicting ranges left open */
+  chunks?: MergeChunk[];
+}
+
+export interface PostMergeResult {
+  /** Every field that merged cleanly */
+  merged: Partial<Post>;
+  conflicts: FieldConflict[];
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export function mergePost(base: Partial<Post>, mine: Partial<Post>, theirs: Partial<Post>): PostMergeResult {
+  const merged: Partial<Post> = {};
+  const conflicts: FieldConflict[] = [];
+
+  for (const { key, label } of MERGE_FIELDS) {
+    const baseValue = base[key];
+    const mineValue = mine[key];
+    const theirsValue = theirs[key];
+
+    if (sameValue(mineValue, theirsValue) || sameValue(theirsValue, baseValue)) {
+      Object.assign(merged, { [key]: mineValue });
+      continue;
+    }
+    if (sameValue(mineValue, baseValue)) {
+      Object.assign(merged, { [key]: theirsValue });
+      continue;
+    }
+
+    if (key === 'contentHtml') {
+      const chunks = merge3(
+        tokenizeHtml(String(baseValue ?? '')),
+        tokenizeHtml(String(mineValue ?? '')),
+        tokenizeHtml(String(theirsValue ?? ''))
+      );
+      if (chunks.every((chunk) => chunk.type === 'merged')) {
+        merged.contentHtml = chunks.map((chunk) => chunk.type === 'merged' ? chunk.value : '').join('');
+        continue;
+      }
+      conflicts.push({ key, label, base: baseValue, mine: mineValue, theirs: theirsValue, chunks });
+      continue;
+    }
+
+    conflicts.push({ key, label, base: baseValue, mine: mineValue, theirs: theirsValue });
+  }
+
+  return { merged, conflicts };
+}
+
+/**
+ * Rebuild the body from merge chunks, taking each conflict from the side
+ * chosen for it (in order of appearance; unchosen conflicts keep mine)
+ */
+export function resolveContentChunks(chunks: MergeChunk[], choices: MergeSide[]): string {
+  let conflictIndex = 0;
+  return chunks
+    .map((chunk) => {
+      if (chunk.type === 'merged') return chunk.value;
+      const side = choices[conflictIndex++] ?? 'mine';
+      return chunk[side];
+    })
+    .join('');
+}
+
+/**
+ * Apply the editor's choices to a merge result
+ */
+export function resolvePostMerge(
+  result: PostMergeResult,
+  fieldChoices: Partial<Record<keyof Post, MergeSide>>,
+  contentChoices: MergeSide[]
+): Partial<Post> {
+  const resolved: Partial<Post> = { ...result.merged };
+  for (const conflict of result.conflicts) {
+    const value = conflict.chunks
+      ? resolveContentChunks(conflict.chunks, contentChoices)
+      : conflict[fieldChoices[conflict.key] ?? 'mine'];
+    Object.assign(resolved, { [conflict.key]: value });
+  }
+  return resolved;
+}
@@ -0,0 +1,88 @@
+/**
+ * fetch for public hosts only (server side)
+ *
+ * Resolves each hostname once, refuses it if any address is private, and
+ * connects to the addresses it just checked. Checking the name first and
+ * letting fetch resolve it again would leave a gap for DNS rebinding: the
+ * second answer could point somewhere internal. Only the status and
+ * headers are returned; bodies are discarded.
+ */
+
+import type { LookupAddress } from 'node:dns';
+import { lookup as dnsLookup } from 'node:dns/promises';
+import http from 'node:http';
+import https from 'node:https';
+import type { LookupFunction } from 'node:net';
+import { PRIVATE_ADDRESS_CODE, isPrivateAddress } from '@/lib/linkChecker';
+
+export type ResolveHost = (hostname: string) => Promise<LookupAddress[]>;
+
+const systemResolve: ResolveHost = (hostname) => dnsLookup(hostname, { all: true, verbatim: true });
+
+/**
+ * Socket lookup that answers only with public addresses. Used as the
+ * `lookup` of each request, so the address checked is the one connected to.
+ */
+export function publicLookup(resolveHost: ResolveHost = systemResolve): LookupFunction {
+  return (hostname, options, callback) => {
+    resolveHost(hostname).then(
+      (addresses) => {
+        const family = options.family === 4 || options.family === 6 ? options.family : 0;
+        const usable = addresses.filter((address) => !family || address.family === family);
+        if (addresses.some(({ address }) => isPrivateAddress(address))) {
+          const error = Object.assign(new Error(`${hostname} resolves to a private address`), {
+            code: PRIVATE_ADDRESS_CODE,
+          });
+          callback(error, '', 0);
+        } else if (usable.length === 0) {
+          const error = Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' });
+          callback(error, '', 0);
+        } else if (options.all) {
+          callback(null, usable);
+        } else {
+          callback(null, usable[0].address, usable[0].family);
+        }
+      },
+      (error) => callback(error, '', 0)
+    );
+  };
+}
+
+/**
+ * fetch-compatible function that only connects to public addresses. Takes
+ * a URL string; supports method, headers and signal.
+ */
+export function createPublicFetch(resolveHost?: ResolveHost): typeof fetch {
+  const lookup = publicLookup(resolveHost);
+
+  return (input, init = {}) =>
+    new Promise<Response>((resolve, reject) => {
+      const url = new URL(String(input));
+      const transport = url.protocol === 'https:' ? https : http;
+      const request = transport.request(
+        url,
+        {
+          method: init.method ?? 'GET',
+          headers: Object.fromEntries(new Headers(init.headers)),
+          signal: init.signal ?? undefined,
+          lookup,
+        },
+        (response) => {
+          // Only the status matters; don't download bodies
+          response.destroy();
+          const headers = new Headers();
+          for (const [name, value] of Object.entries(response.headers)) {
+            for (const item of [value ?? []].flat()) headers.append(name, item);
+          }
+          const status = response.statusCode ?? 0;
+          if (status < 200 || status > 599) {
+            reject(new Error(`Unexpected status ${status}`));
+            return;
+          }
+          resolve(new Response(null, { status, headers }));
+        }
+      );
+      request.on('error', reject);
+      request.end();
+    });
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_REGEX_RULES,
+  RedirectRule,
+  buildRedirectTable,
+  redirectConflicts,
+  resolveRedirect,
+  traceRedirects,
+  validateRedirectRule,
+} from '@/lib/redirects';
+
+const rule = (id: string, from: string, to: string, match: RedirectRule['match'] = 'exact'): RedirectRule => ({
+  id,
+  from,
+  to,
+  match,
+  type: 301,
+  active: true,
+});
+
+const resolve = (rules: RedirectRule[], path: string, search?: string) =>
+  resolveRedirect(buildRedirectTable(rules), path, search)?.location ?? null;
+
+describe('resolveRedirect', () => {
+  it('fills patterns, regex groups and the query string', () => {
+    const rules = [
+      rule('1', '/old/:slug', '/:slug', 'pattern'),
+      rule('2', '/archive/*', '/posts/*', 'pattern'),
+      rule('3', '^/(\\d{4})/(\\d{2})/(.+)$', '/$3', 'regex'),
+    ];
+
+    expect(resolve(rules, '/old/paystack')).toBe('/paystack');
+    expect(resolve(rules, '/archive/2020/q1', '?ref=x')).toBe('/posts/2020/q1?ref=x');
+    expect(resolve(rules, '/2020/01/moniepoint-raises')).toBe('/moniepoint-raises');
+  });
+
+  it('keeps captured values from pointing at another host', () => {
+    const rules = [
+      rule('1', '^/(\\d{4})/(\\d{2})/(.+)$', '/$3', 'regex'),
+      rule('2', '/go/*', '/*', 'pattern'),
+      rule('3', '^/out(.*)$', 'https://www.techblit.com$1', 'regex'),
+    ];
+
+    expect(resolve(rules, '/2020/01//evil%2Ecom')).toBe('/evil%2Ecom');
+    expect(resolve(rules, '/2020/01/\\evil.com')).toBe('/evil.com');
+    expect(resolve(rules, '/go//evil.com')).toBe('/evil.com');
+    expect(resolve(rules, '/go/\\/evil.com')).toBe('/evil.com');
+    expect(resolve(rules, '/out/about')).toBe('https://www.techblit.com/about');
+    expect(resolve(rules, '/out@evil.com')).toBeNull();
+    expect(resolve(rules, '/out.evil.com')).toBeNull();
+  });
+});
+
+describe('validateRedirectRule', () => {
+  const regexErrors = (from: string) => validateRedirectRule({ from, to: '/x', match: 'regex' });
+
+  it('refuses regexes that can backtrack catastrophically', () => {
+    for (const from of ['(a+)+', '(\\w*)*', '(a|a)+', '^/((ab)*)+$', '(?:a+){2,}', '(a+?)+']) {
+      expect(regexErrors(from), from).not.toEqual([]);
+    }
+    for (const from of ['^/(\\d{4})/(\\d{2})/(.+)$', '^/(foo|bar)?/(.+)$', '^/(?:tag|category)/(.+)$', '^/x[)+]+(a)+$']) {
+      expect(regexErrors(from), from).toEqual([]);
+    }
+    expect(regexErrors(`^/${'a'.repeat(250)}$`)).not.toEqual([]);
+  });
+
+  it('compiles at most MAX_REGEX_RULES regex rules', () => {
+    const rules = Array.from({ length: MAX_REGEX_RULES + 5 }, (_, i) => rule(String(i), `^/r${i}$`, '/x', 'regex'));
+    expect(buildRedirectTable(rules).patterns).toHaveLength(MAX_REGEX_RULES);
+  });
+});
+
+describe('traceRedirects', () => {
+  it('traces regex rules from a sample of their pattern', () => {
+    const [trace] = traceRedirects([rule('1', '^/news/(.+)$', '/news/$1/', 'regex')]);
+
+    expect(trace.hops[0]).toBe('/news/a');
+    expect(trace.loop).toBe(true);
+  });
+
+  it('finds loops a regex rule closes with another rule', () => {
+    const rules = [rule('1', '/latest', '/2024/05/latest')];
+    const candidate = rule('2', '^/(\\d{4})/(\\d{2})/(.+)$', '/$3', 'regex');
+
+    const conflicts = redirectConflicts(candidate, rules);
+    expect(conflicts.some((trace) => trace.loop)).toBe(true);
+  });
+});
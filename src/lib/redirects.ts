@@ -0,0 +1,534 @@
+// Redirect engine
+//
+// Rules match a request path in one of three ways:
+//   exact    /old-post                        → /new-post
+//   pattern  /old/:slug, /archive/*           → /:slug, /posts/*
+//   regex    ^/(\d{4})/(\d{2})/(.+)$          → /$3
+// `:name` matches one path segment and `*` the rest of the path; both can
+// be used in the destination. Regex destinations use $1 or $<name>. The
+// incoming query string is carried over unless a rule opts out.
+//
+// The middleware keeps a RedirectTable in memory (exact rules in a map,
+// the rest tried in order) and refreshes it from the API; the admin uses
+// traceRedirects to catch chains and loops before a rule is saved.
+//
+// Nothing here may use Node APIs; the middleware runs on the edge.
+
+import type { Redirect, RedirectMatch } from '@/types/admin';
+import { getPostsApiUrl } from '@/lib/apiConfig';
+
+export type RedirectRule = Pick<Redirect, 'id' | 'from' | 'to' | 'type' | 'active'> &
+  Partial<Pick<Redirect, 'match' | 'preserveQuery'>>;
+
+interface CompiledRedirect {
+  rule: RedirectRule;
+  /** Parameters captured from the path, or null when it doesn't match */
+  exec: (path: string) => Record<string, string> | null;
+}
+
+export interface RedirectTable {
+  exact: Map<string, CompiledRedirect>;
+  patterns: CompiledRedirect[];
+}
+
+export interface RedirectResolution {
+  rule: RedirectRule;
+  /** Destination with parameters filled in and the query carried over */
+  location: string;
+  status: 301 | 302;
+}
+
+export interface RedirectTrace {
+  rule: RedirectRule;
+  /** Paths visited from the rule's source, the first being the source */
+  hops: string[];
+  /** Rules applied along the way, in order */
+  rules: RedirectRule[];
+  loop: boolean;
+  /** Where the chain ends; external URLs end it too */
+  final: string;
+}
+
+/** Redirects followed before a chain counts as a loop */
+export const MAX_REDIRECT_HOPS = 10;
+
+/** Longest regex source accepted; every request runs each regex rule */
+export const MAX_REGEX_LENGTH = 200;
+
+/** Regex rules the table compiles; later ones are ignored */
+export const MAX_REGEX_RULES = 50;
+
+const PARAM_PATTERN = /:([A-Za-z_][A-Za-z0-9_]*)/g;
+const escapeRegExp = (value: string) => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+/** Trailing slashes don't distinguish pages on this site */
+export function normalizeRedirectPath(path: string): string {
+  const trimmed = path.trim();
+  return trimmed.length > 1 && trimmed.endsWith('/') ? trimmed.replace(/\/+$/, '') || '/' : trimmed;
+}
+
+const matchType = (rule: RedirectRule): RedirectMatch => rule.match || 'exact';
+
+function patternToRegExp(from: string): RegExp {
+  const source = normalizeRedirectPath(from)
+    .split('*')
+    .map((part) => escapeRegExp(part).replace(PARAM_PATTERN, '(?<$1>[^/]+)'))
+    .join('(?<splat>.*)');
+  return new RegExp(`^${source}/?$`);
+}
+
+function compile(rule: RedirectRule): CompiledRedirect {
+  const type = matchType(rule);
+  if (type === 'exact') {
+    const from = normalizeRedirectPath(rule.from);
+    return { rule, exec: (path) => (normalizeRedirectPath(path) === from ? {} : null) };
+  }
+  const regex = type === 'regex' ? new RegExp(rule.from) : patternToRegExp(rule.from);
+  return {
+    rule,
+    exec: (path) => {
+      const match = regex.exec(path);
+      if (!match) return null;
+      const params: Record<string, string> = { ...(match.groups || {}) };
+      match.slice(1).forEach((value, index) => {
+        params[String(index + 1)] = value ?? '';
+      });
+      return params;
+    },
+  };
+}
+
+const GROUP_PREFIX = /^\?(?::|=|!|<=|<!|<[A-Za-z_][A-Za-z0-9_]*>)/;
+// Lazy quantifiers (+?) included
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})\??/;
+
+/** Whether a quantifier can repeat its atom more than once */
+function repeats(quantifier: string): boolean {
+  if (/^[*+]/.test(quantifier)) return true;
+  const bounds = quantifier.match(/^\{(\d+)(?:,(\d*))?\}/);
+  if (!bounds) return false;
+  const max = bounds[2] === undefined ? Number(bounds[1]) : bounds[2] === '' ? Infinity : Number(bounds[2]);
+  return max > 1;
+}
+
+/**
+ * Whether a regex repeats a group that itself contains a quantifier or
+ * alternatives, as in (a+)+, (\w*)* or (a|a)+. Those can backtrack
+ * exponentially on a path that almost matches.
+ */
+function hasNestedQuantifier(source: string): boolean {
+  // One frame per open group, the whole pattern at the bottom
+  const frames = [{ quantified: false, alternated: false }];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '\\') {
+      i += 2;
+    } else if (char === '[') {
+      // Skip the class; a ] right after [ or [^ is literal
+      i += source[i + 1] === '^' ? 2 : 1;
+      if (source[i] === ']') i++;
+      while (i < source.length && source[i] !== ']') i += source[i] === '\\' ? 2 : 1;
+      i++;
+    } else if (char === '(') {
+      frames.push({ quantified: false, alternated: false });
+      i += 1 + (source.slice(i + 1).match(GROUP_PREFIX)?.[0].length ?? 0);
+      continue;
+    } else if (char === '|') {
+      frames[frames.length - 1].alternated = true;
+      i++;
+      continue;
+    } else if (char === ')') {
+      const group = frames.length > 1 ? frames.pop()! : frames[0];
+      i++;
+      const quantifier = source.slice(i).match(QUANTIFIER)?.[0];
+      if (quantifier && repeats(quantifier) && (group.quantified || group.alternated)) return true;
+      const parent = frames[frames.length - 1];
+      parent.quantified ||= group.quantified || Boolean(quantifier);
+      parent.alternated ||= group.alternated;
+      if (quantifier) i += quantifier.length;
+      continue;
+    } else {
+      i++;
+    }
+    // A quantifier after any other atom
+    const quantifier = source.slice(i).match(QUANTIFIER)?.[0];
+    if (quantifier) {
+      frames[frames.length - 1].quantified = true;
+      i += quantifier.length;
+    }
+  }
+  return false;
+}
+
+/**
+ * Problems that make a rule unusable: a bad pattern, or a destination that
+ * uses parameters the source never captures. Empty when the rule is fine.
+ */
+export function validateRedirectRule(rule: Pick<RedirectRule, 'from' | 'to' | 'match'>): string[] {
+  const errors: string[] = [];
+  const type = rule.match || 'exact';
+  const from = rule.from.trim();
+  const to = rule.to.trim();
+  if (!from) errors.push('Enter the path to redirect from');
+  if (!to) errors.push('Enter the destination');
+  if (!from || !to) return errors;
+
+  if (type !== 'regex' && !from.startsWith('/')) errors.push('The source must be a path starting with /');
+  if (!/^(https?:\/\/|\/)/.test(to)) errors.push('The destination must be a path starting with / or a full http(s) URL');
+
+  if (type === 'regex') {
+    if (from.length > MAX_REGEX_LENGTH) {
+      errors.push(`Keep regular expressions under ${MAX_REGEX_LENGTH} characters`);
+      return errors;
+    }
+    if (hasNestedQuantifier(from)) {
+      errors.push('Repeated groups can\'t contain quantifiers or alternatives, as in (a+)+; these can hang the site');
+      return errors;
+    }
+    let regex: RegExp;
+    try {
+      regex = new RegExp(from);
+    } catch (err) {
+      errors.push(err instanceof Error ? err.message : `Invalid regular expression: ${String(err)}`);
+      return errors;
+    }
+    // Count capture groups by matching the empty alternative
+    const groups = (new RegExp(`${regex.source}|`).exec('') || []).length - 1;
+    for (const ref of to.matchAll(/\$(\d+)/g)) {
+      if (Number(ref[1]) > groups) errors.push(`$${ref[1]} refers to a group the pattern doesn't have`);
+    }
+    const named = new Set(Array.from(from.matchAll(/\(\?<([A-Za-z_][A-Za-z0-9_]*)>/g), (match) => match[1]));
+    for (const ref of to.matchAll(/\$<([^>]+)>/g)) {
+      if (!named.has(ref[1])) errors.push(`$<${ref[1]}> refers to a group the pattern doesn't have`);
+    }
+  } else if (type === 'pattern') {
+    const params = new Set(Array.from(from.matchAll(PARAM_PATTERN), (match) => match[1]));
+    for (const ref of destinationParams(to)) {
+      if (!params.has(ref)) errors.push(`:${ref} isn't captured by the source`);
+    }
+    if (to.includes('*') && !from.includes('*')) errors.push('* in the destination needs a * in the source');
+    if ((from.match(/\*/g) || []).length > 1) errors.push('Use * at most once');
+  }
+  return errors;
+}
+
+/** `:name` references in a destination, ignoring the port in a full URL */
+function destinationParams(to: string): string[] {
+  const path = to.replace(/^https?:\/\/[^/]+/, '');
+  return Array.from(path.matchAll(PARAM_PATTERN), (match) => match[1]);
+}
+
+/** Table of active, valid rules for resolveRedirect */
+export function buildRedirectTable(rules: RedirectRule[]): RedirectTable {
+  const table: RedirectTable = { exact: new Map(), patterns: [] };
+  let regexRules = 0;
+  for (const rule of rules) {
+    if (!rule.active || validateRedirectRule(rule).length > 0) continue;
+    if (matchType(rule) === 'regex' && ++regexRules > MAX_REGEX_RULES) continue;
+    const compiled = compile(rule);
+    if (matchType(rule) === 'exact') {
+      const key = normalizeRedirectPath(rule.from);
+      // First rule wins, as it does for patterns
+      if (!table.exact.has(key)) table.exact.set(key, compiled);
+    } else {
+      table.patterns.push(compiled);
+    }
+  }
+  return table;
+}
+
+function fillDestination(rule: RedirectRule, params: Record<string, string>): string {
+  if (matchType(rule) === 'regex') {
+    return rule.to
+      .replace(/\$<([^>]+)>/g, (_, name: string) => params[name] ?? '')
+      .replace(/\$(\d+)/g, (_, index: string) => params[index] ?? '');
+  }
+  const [base, hash = ''] = rule.to.split('#');
+  const origin = base.match(/^https?:\/\/[^/]+/)?.[0] || '';
+  const filled = base
+    .slice(origin.length)
+    .replace(PARAM_PATTERN, (_, name: string) => params[name] ?? '')
+    .replace('*', params.splat ?? '');
+  return `${origin}${filled}${hash ? `#${hash}` : ''}`;
+}
+
+/**
+ * A filled destination that stays where the rule points, or null. Captured
+ * values come from the request: `/go//evil.com` must not turn `/*` into
+ * the protocol-relative `//evil.com`, nor `https://site$1` into another host.
+ */
+function confineDestination(rule: RedirectRule, location: string): string | null {
+  // URL parsers drop tabs and newlines, which could bring two slashes together
+  const cleaned = location.replace(/[\t\n\r]/g, '');
+  if (cleaned.startsWith('/')) return cleaned.replace(/^[/\\]+/, '/');
+  // The fixed part of the host; one built from captures is the rule's own choice
+  const origin = rule.to.match(/^https?:\/\/[^/?#$]+/)?.[0];
+  if (!origin || /:[A-Za-z_]/.test(origin.slice(origin.indexOf('//')))) return cleaned;
+  return cleaned === origin || (cleaned.startsWith(origin) && /^[/?#]/.test(cleaned.slice(origin.length))) ? cleaned : null;
+}
+
+/** Destination with the request's query merged in; the destination's own parameters win */
+function withQuery(location: string, search: string): string {
+  const incoming = new URLSearchParams(search);
+  if ([...incoming.keys()].length === 0) return location;
+  const [beforeHash, hash] = location.split('#');
+  const [path, query = ''] = beforeHash.split('?');
+  const merged = new URLSearchParams(query);
+  incoming.forEach((value, key) => {
+    if (!merged.has(key)) merged.append(key, value);
+  });
+  return `${path}?${merged.toString()}${hash !== undefined ? `#${hash}` : ''}`;
+}
+
+/**
+ * The redirect for a request path, or null. Exact rules are checked
+ * first, then patterns and regexes in table order.
+ */
+export function resolveRedirect(table: RedirectTable, pathname: string, search: string = ''): RedirectResolution | null {
+  let found: { compiled: CompiledRedirect; params: Record<string, string> } | null = null;
+  const exact = table.exact.get(normalizeRedirectPath(pathname));
+  if (exact) {
+    found = { compiled: exact, params: {} };
+  } else {
+    for (const compiled of table.patterns) {
+      const params = compiled.exec(pathname);
+      if (params) {
+        found = { compiled, params };
+        break;
+      }
+    }
+  }
+  if (!found) return null;
+
+  const { rule } = found.compiled;
+  let location = confineDestination(rule, fillDestination(rule, found.params));
+  if (location === null) return null;
+  if (rule.preserveQuery !== false) location = withQuery(location, search);
+  return { rule, location, status: rule.type === 302 ? 302 : 301 };
+}
+
+const SAMPLE_CHARACTERS = ['a', '1', '-', '_', 'A', '.'];
+const SAMPLE_ESCAPES: Record<string, string> = { d: '1', D: 'a', w: 'a', W: '-', s: ' ', S: 'a', b: '', B: '' };
+
+/** Fewest repetitions a quantifier allows */
+const minRepeats = (quantifier: string) => (/^[*?]/.test(quantifier) ? 0 : Number(quantifier.match(/^\{(\d+)/)?.[1] ?? 1));
+
+/**
+ * A short string the regex source is likely to match, built by taking
+ * each quantifier's fewest repetitions and each alternation's first
+ * branch. The caller checks the result against the regex.
+ */
+function regexSample(source: string): string {
+  let i = 0;
+  const sequence = (): string => {
+    let out = '';
+    while (i < source.length && source[i] !== '|' && source[i] !== ')') {
+      const piece = atom();
+      const quantifier = source.slice(i).match(QUANTIFIER)?.[0];
+      if (quantifier) i += quantifier.length;
+      out += quantifier ? piece.repeat(minRepeats(quantifier)) : piece;
+    }
+    return out;
+  };
+  const alternation = (): string => {
+    const first = sequence();
+    while (source[i] === '|') {
+      i++;
+      sequence();
+    }
+    return first;
+  };
+  const atom = (): string => {
+    const char = source[i++];
+    if (char === '^' || char === '$') return '';
+    if (char === '.') return 'a';
+    if (char === '\\') {
+      const escaped = source[i++] ?? '';
+      if (escaped === 'k') {
+        i = source.indexOf('>', i) + 1 || source.length;
+        return '';
+      }
+      return /\d/.test(escaped) ? '' : SAMPLE_ESCAPES[escaped] ?? escaped;
+    }
+    if (char === '[') {
+      const start = i - 1;
+      if (source[i] === '^') i++;
+      if (source[i] === ']') i++;
+      while (i < source.length && source[i] !== ']') i += source[i] === '\\' ? 2 : 1;
+      i++;
+      try {
+        const characterClass = new RegExp(`^${source.slice(start, i)}$`);
+        return SAMPLE_CHARACTERS.find((candidate) => characterClass.test(candidate)) ?? 'a';
+      } catch {
+        return 'a';
+      }
+    }
+    if (char === '(') {
+      const prefix = source.slice(i).match(GROUP_PREFIX)?.[0] ?? '';
+      i += prefix.length;
+      const inner = alternation();
+      i++;
+      // Lookarounds match no characters of their own
+      return /^\?(=|!|<=|<!)/.test(prefix) ? '' : inner;
+    }
+    return char;
+  };
+  return alternation();
+}
+
+/**
+ * A path the rule's source matches, for tracing, or null. Regex rules are
+ * sampled from the pattern, or failing that from the other rules'
+ * destinations the pattern matches.
+ */
+export function sampleRedirectSource(rule: RedirectRule, rules: RedirectRule[] = []): string | null {
+  const type = matchType(rule);
+  if (type === 'exact') return normalizeRedirectPath(rule.from);
+  if (type === 'pattern') {
+    return normalizeRedirectPath(rule.from.replace(PARAM_PATTERN, (_, name: string) => `sample-${name}`).replace('*', 'sample'));
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(rule.from);
+  } catch {
+    return null;
+  }
+  const sample = regexSample(rule.from);
+  const candidates = [
+    sample,
+    `/${sample}`,
+    ...rules
+      .filter((other) => other.id !== rule.id)
+      .map((other) => other.to.replace(/^https?:\/\/[^/]+/, '').split(/[?#]/)[0]),
+  ];
+  return candidates.find((candidate) => candidate.startsWith('/') && regex.test(candidate)) ?? null;
+}
+
+/** Path on this site for a destination, or null when it leaves the site */
+function internalPath(location: string, siteHosts: string[]): string | null {
+  if (location.startsWith('/')) return location.split(/[?#]/)[0];
+  try {
+    const url = new URL(location);
+    return siteHosts.includes(url.hostname.replace(/^www\./, '')) ? url.pathname : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Follow each rule from its source until the path stops redirecting,
+ * leaves the site or comes back to a path already visited. A trace with
+ * more than one rule is a chain; `loop` marks a cycle.
+ */
+export function traceRedirects(rules: RedirectRule[], siteHosts: string[] = ['techblit.com']): RedirectTrace[] {
+  const table = buildRedirectTable(rules);
+  const traces: RedirectTrace[] = [];
+  for (const rule of rules) {
+    if (!rule.active) continue;
+    const source = sampleRedirectSource(rule, rules);
+    if (!source) continue;
+
+    const hops = [source];
+    const applied: RedirectRule[] = [];
+    let path: string | null = source;
+    let loop = false;
+    let final = source;
+    while (path !== null) {
+      const resolution = resolveRedirect(table, path);
+      if (!resolution) break;
+      applied.push(resolution.rule);
+      final = resolution.location;
+      const next = internalPath(resolution.location, siteHosts);
+      if (next !== null && hops.some((hop) => normalizeRedirectPath(hop) === normalizeRedirectPath(next))) {
+        hops.push(next);
+        loop = true;
+        break;
+      }
+      if (next === null) {
+        hops.push(resolution.location);
+        break;
+      }
+      hops.push(next);
+      if (applied.length >= MAX_REDIRECT_HOPS) {
+        loop = true;
+        break;
+      }
+      path = next;
+    }
+    traces.push({ rule, hops, rules: applied, loop, final });
+  }
+  return traces;
+}
+
+/**
+ * Chains and loops a rule would take part in once saved: traces that
+ * apply it after another rule, or that start from it and go on further.
+ */
+export function redirectConflicts(candidate: RedirectRule, rules: RedirectRule[], siteHosts?: string[]): RedirectTrace[] {
+  // An edited rule keeps its place in the table
+  const next = rules.some((rule) => rule.id === candidate.id)
+    ? rules.map((rule) => (rule.id === candidate.id ? candidate : rule))
+    : [...rules, candidate];
+  return traceRedirects(next, siteHosts).filter(
+    (trace) => (trace.loop || trace.rules.length > 1) && trace.rules.some((rule) => rule.id === candidate.id)
+  );
+}
+
+/** Active rules for the middleware's table; null when the API can't be reached */
+export async function fetchRedirectRules(options: { signal?: AbortSignal } = {}): Promise<RedirectRule[] | null> {
+  try {
+    const response = await fetch(`${getPostsApiUrl()}/redirects/active`, { signal: options.signal });
+    if (!response.ok) return null;
+    const result = await response.json();
+    const list = result?.data ?? result;
+    if (!Array.isArray(list)) return null;
+    return list
+      .filter((item) => item && typeof item.id === 'string' && typeof item.from === 'string' && typeof item.to === 'string')
+      .map((item) => ({
+        id: item.id,
+        from: item.from,
+        to: item.to,
+        type: item.type === 302 ? 302 : 301,
+        match: item.match === 'pattern' || item.match === 'regex' ? item.match : 'exact',
+        preserveQuery: item.preserveQuery !== false,
+        active: item.active !== false,
+      }));
+  } catch {
+    return null;
+  }
+}
+
+export interface RedirectHit {
+  id: string;
+  count: number;
+  lastHitAt: string;
+}
+
+// Shared with the API, which only counts hits sent with it. Set
+// REDIRECT_HITS_SECRET in Vercel and in the backend.
+const REDIRECT_HITS_SECRET = process.env.REDIRECT_HITS_SECRET;
+
+/**
+ * Send counted hits; false when they couldn't be delivered and should be
+ * kept. Without the shared secret there is nothing the API would accept,
+ * so hits are dropped.
+ */
+export async function reportRedirectHits(hits: RedirectHit[], options: { signal?: AbortSignal } = {}): Promise<boolean> {
+  if (hits.length === 0 || !REDIRECT_HITS_SECRET) return true;
+  try {
+    const response = await fetch(`${getPostsApiUrl()}/redirects/hits`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${REDIRECT_HITS_SECRET}`,
+      },
+      body: JSON.stringify({ hits }),
+      signal: options.signal,
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Editorial review: comment threads anchored in the post body and reviewer
+ * decisions
+ *
+ * Threads and decisions live on `post.review`; every change also appends an
+ * entry to `post.history`. Anchors are `reviewComment` marks in contentHtml
+ * (see components/editor/extensions/ReviewComment) and are stripped before
+ * a post goes live.
+ */
+
+import {
+  Post,
+  PostHistoryEntry,
+  PostReview,
+  ReviewDecisionType,
+  ReviewThread,
+  User,
+  PERMISSIONS,
+  canEditPost,
+  hasPermission,
+} from '@/types/admin';
+
+type Reviewer = Pick<User, 'uid' | 'name' | 'role'>;
+
+export type ReviewUpdate = Pick<Post, 'history'> & { review: PostReview };
+
+export const EMPTY_REVIEW: PostReview = { threads: [], decisions: [] };
+
+function newId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createThreadId(): string {
+  return `thread-${newId()}`;
+}
+
+function historyEntry(action: string, user: Reviewer, at: Date, note?: string): PostHistoryEntry {
+  return note ? { action, by: user.uid, at, note } : { action, by: user.uid, at };
+}
+
+function update(post: Partial<Post>, review: PostReview, entry: PostHistoryEntry): ReviewUpdate {
+  return { review, history: [...(post.history || []), entry] };
+}
+
+/** Anyone who can edit the post may comment, including its author */
+export function canComment(post: Partial<Post>, user: Reviewer): boolean {
+  return canEditPost(user.role, post.author?.uid ?? user.uid, user.uid);
+}
+
+/** Reviewers may approve or request changes, but not on their own posts */
+export function canDecide(post: Partial<Post>, user: Reviewer): boolean {
+  return (
+    post.status === 'in_review' &&
+    hasPermission(user.role, PERMISSIONS.REVIEW_POST) &&
+    post.author?.uid !== user.uid
+  );
+}
+
+export function addThread(
+  post: Partial<Post>,
+  user: Reviewer,
+  thread: { id: string; quote: string; body: string },
+  now: Date = new Date()
+): ReviewUpdate {
+  const review = post.review ?? EMPTY_REVIEW;
+  const created: ReviewThread = {
+    id: thread.id,
+    quote: thread.quote,
+    comments: [{ id: newId(), authorUid: user.uid, authorName: user.name, body: thread.body, createdAt: now }],
+    resolved: false,
+    createdAt: now,
+  };
+  return update(
+    post,
+    { ...review, threads: [...review.threads, created] },
+    historyEntry('review.comment', user, now, `On "${thread.quote.slice(0, 80)}"`)
+  );
+}
+
+export function addReply(
+  post: Partial<Post>,
+  user: Reviewer,
+  threadId: string,
+  body: string,
+  now: Date = new Date()
+): ReviewUpdate {
+  const review = post.review ?? EMPTY_REVIEW;
+  const threads = review.threads.map((thread) =>
+    thread.id === threadId
+      ? {
+          ...thread,
+          comments: [...thread.comments, { id: newId(), authorUid: user.uid, authorName: user.name, body, createdAt: now }],
+        }
+      : thread
+  );
+  return update(post, { ...review, threads }, historyEntry('review.reply', user, now));
+}
+
+export function setThreadResolved(
+  post: Partial<Post>,
+  user: Reviewer,
+  threadId: string,
+  resolved: boolean,
+  now: Date = new Date()
+): ReviewUpdate {
+  const review = post.review ?? EMPTY_REVIEW;
+  const threads = review.threads.map((thread) =>
+    thread.id === threadId
+      ? {
+          ...thread,
+          resolved,
+          resolvedBy: resolved ? user.uid : undefined,
+          resolvedAt: resolved ? now : undefined,
+        }
+      : thread
+  );
+  return update(
+    post,
+    { ...review, threads },
+    historyEntry(resolved ? 'review.resolve' : 'review.reopen', user, now)
+  );
+}
+
+export function recordDecision(
+  post: Partial<Post>,
+  user: Reviewer,
+  decision: ReviewDecisionType,
+  note?: string,
+  now: Date = new Date()
+): ReviewUpdate {
+  if (!canDecide(post, user)) {
+    throw new Error('You cannot review this post');
+  }
+  const review = post.review ?? EMPTY_REVIEW;
+  return update(
+    post,
+    {
+      ...review,
+      decisions: [
+        ...review.decisions,
+        { reviewerUid: user.uid, reviewerName: user.name, decision, ...(note ? { note } : {}), at: now },
+      ],
+    },
+    historyEntry(`review.${decision}`, user, now, note)
+  );
+}
+
+export function getOpenThreads(post: Partial<Post>): ReviewThread[] {
+  return (post.review?.threads || []).filter((thread) => !thread.resolved);
+}
+
+/**
+ * Remove review anchors from HTML so comment markup never reaches readers
+ */
+export function stripReviewAnchors(html: string): string {
+  // Walk the span tags so an anchor's closing tag is found past any spans
+  // nested inside it (text style and colour marks)
+  const spanTag = /<span\b[^>]*>|<\/span\s*>/gi;
+  const openSpans: boolean[] = [];
+  let result = '';
+  let last = 0;
+  for (const match of html.matchAll(spanTag)) {
+    const tag = match[0];
+    const index = match.index ?? 0;
+    let isAnchor: boolean;
+    if (tag.startsWith('</')) {
+      isAnchor = openSpans.pop() ?? false;
+    } else {
+      isAnchor = /\sdata-review-thread="[^"]*"/.test(tag);
+      openSpans.push(isAnchor);
+    }
+    if (isAnchor) {
+      result += html.slice(last, index);
+      last = index + tag.length;
+    }
+  }
+  return result + html.slice(last);
+}
@@ -0,0 +1,90 @@
+/**
+ * Post revisions
+ *
+ * Every manual save, publish and (throttled) auto-save stores an immutable
+ * snapshot through ApiService. Revisions are never edited: restoring one
+ * stores a new revision whose `restoredFrom` points at the original.
+ */
+
+import apiService from '@/lib/apiService';
+import { Post, PostRevision, RevisionReason, RevisionSnapshot } from '@/types/admin';
+import { extractPublicId } from '@/lib/imageHelpers';
+
+/** Minimum gap between two auto-save revisions of the same post */
+export const AUTOSAVE_REVISION_INTERVAL_MS = 5 * 60 * 1000;
+
+export const REVISION_REASON_LABELS: Record<RevisionReason, string> = {
+  manual: 'Saved',
+  publish: 'Published',
+  autosave: 'Auto-saved',
+  restore: 'Restored',
+};
+
+export function takeSnapshot(post: Partial<Post>): RevisionSnapshot {
+  return {
+    title: post.title || '',
+    excerpt: post.excerpt || '',
+    contentHtml: post.contentHtml || '',
+    metaTitle: post.metaTitle || '',
+    metaDescription: post.metaDescription || '',
+    featuredImage: post.featuredImage,
+  };
+}
+
+function snapshotKey(snapshot: RevisionSnapshot): string {
+  return JSON.stringify({ ...snapshot, featuredImage: extractPublicId(snapshot.featuredImage) });
+}
+
+export function snapshotsEqual(a: RevisionSnapshot, b: RevisionSnapshot): boolean {
+  return snapshotKey(a) === snapshotKey(b);
+}
+
+// Last snapshot recorded per post in this session, to skip duplicates
+const lastRecorded = new Map<string, { key: string; at: number }>();
+
+/**
+ * Store a revision unless nothing changed since the last one. Auto-save
+ * revisions are additionally limited to one per AUTOSAVE_REVISION_INTERVAL_MS.
+ * Failures are logged, never thrown: losing a revision must not fail a save.
+ */
+export async function recordRevision(
+  postId: string,
+  post: Partial<Post>,
+  reason: RevisionReason,
+  options: { restoredFrom?: string } = {}
+): Promise<PostRevision | undefined> {
+  const snapshot = takeSnapshot(post);
+  const key = snapshotKey(snapshot);
+  const previous = lastRecorded.get(postId);
+  const now = Date.now();
+
+  if (reason !== 'restore' && previous?.key === key) {
+    return undefined;
+  }
+  if (reason === 'autosave' && previous && now - previous.at < AUTOSAVE_REVISION_INTERVAL_MS) {
+    return undefined;
+  }
+
+  try {
+    const revision = await apiService.createPostRevision(postId, {
+      reason,
+      snapshot,
+      restoredFrom: options.restoredFrom,
+    });
+    lastRecorded.set(postId, { key, at: now });
+    return revision;
+  } catch (error) {
+    console.warn('Failed to record post revision:', { postId, reason, error });
+    return undefined;
+  }
+}
+
+/**
+ * Seed duplicate detection from the newest stored revision, so reopening
+ * the editor does not immediately record an identical snapshot
+ */
+export function rememberLatestRevision(postId: string, revision: PostRevision | undefined): void {
+  if (revision && !lastRecorded.has(postId)) {
+    lastRecorded.set(postId, { key: snapshotKey(revision.snapshot), at: revision.createdAt.getTime() });
+  }
+}
@@ -0,0 +1,387 @@
+// Managed robots.txt
+//
+// SiteSettings.customRobotsTxt is the single source for crawler rules: the
+// /robots.txt route serves it (falling back to generateRobotsTxt), and the
+// middleware turns every user agent it disallows from the whole site into
+// a hard 403 (see blockedUserAgents). Parsing and matching follow RFC 9309
+// as Google implements it: the most specific user-agent group applies, and
+// within it the longest matching rule wins, Allow on a tie.
+//
+// Nothing here may use Node APIs; the middleware runs on the edge.
+
+import { getPostsApiUrl } from '@/lib/apiConfig';
+
+export type RobotsIssueSeverity = 'error' | 'warning';
+
+export interface RobotsIssue {
+  /** 1-based line number; 0 for the file as a whole */
+  line: number;
+  severity: RobotsIssueSeverity;
+  message: string;
+}
+
+export interface RobotsRule {
+  type: 'allow' | 'disallow';
+  path: string;
+  line: number;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+  /** Lines the group spans, 0-based and inclusive, for editing in place */
+  startLine: number;
+  endLine: number;
+}
+
+export interface ParsedRobots {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+  issues: RobotsIssue[];
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  /** User-agent value of the group that applied; null when none did */
+  group: string | null;
+  /** Rule that decided it; null means allowed by default */
+  rule: RobotsRule | null;
+}
+
+export interface CrawlerPreset {
+  /** Product token used on User-agent lines */
+  token: string;
+  label: string;
+  operator: string;
+}
+
+/** AI crawlers that collect training or answer-engine data */
+export const AI_CRAWLERS: CrawlerPreset[] = [
+  { token: 'GPTBot', label: 'GPTBot', operator: 'OpenAI (training)' },
+  { token: 'ChatGPT-User', label: 'ChatGPT-User', operator: 'OpenAI (browsing)' },
+  { token: 'OAI-SearchBot', label: 'OAI-SearchBot', operator: 'OpenAI (search)' },
+  { token: 'CCBot', label: 'CCBot', operator: 'Common Crawl' },
+  { token: 'Google-Extended', label: 'Google-Extended', operator: 'Google (Gemini training)' },
+  { token: 'ClaudeBot', label: 'ClaudeBot', operator: 'Anthropic' },
+  { token: 'anthropic-ai', label: 'anthropic-ai', operator: 'Anthropic (legacy)' },
+  { token: 'PerplexityBot', label: 'PerplexityBot', operator: 'Perplexity' },
+  { token: 'Bytespider', label: 'Bytespider', operator: 'ByteDance' },
+  { token: 'Applebot-Extended', label: 'Applebot-Extended', operator: 'Apple (training)' },
+  { token: 'meta-externalagent', label: 'meta-externalagent', operator: 'Meta' },
+  { token: 'Amazonbot', label: 'Amazonbot', operator: 'Amazon' },
+];
+
+/** SEO tool crawlers that load the site heavily and send no readers */
+export const SEO_CRAWLERS: CrawlerPreset[] = [
+  { token: 'AhrefsBot', label: 'AhrefsBot', operator: 'Ahrefs' },
+  { token: 'SemrushBot', label: 'SemrushBot', operator: 'Semrush' },
+  { token: 'MJ12bot', label: 'MJ12bot', operator: 'Majestic' },
+  { token: 'DotBot', label: 'DotBot', operator: 'Moz' },
+  { token: 'BLEXBot', label: 'BLEXBot', operator: 'WebMeUp' },
+  { token: 'DataForSeoBot', label: 'DataForSeoBot', operator: 'DataForSEO' },
+  { token: 'serpstatbot', label: 'serpstatbot', operator: 'Serpstat' },
+  { token: 'PetalBot', label: 'PetalBot', operator: 'Huawei' },
+];
+
+/** Search engine crawlers; blocking these takes the site out of search */
+export const SEARCH_CRAWLERS: CrawlerPreset[] = [
+  { token: 'Googlebot', label: 'Googlebot', operator: 'Google' },
+  { token: 'Bingbot', label: 'Bingbot', operator: 'Microsoft' },
+  { token: 'DuckDuckBot', label: 'DuckDuckBot', operator: 'DuckDuckGo' },
+  { token: 'YandexBot', label: 'YandexBot', operator: 'Yandex' },
+  { token: 'Applebot', label: 'Applebot', operator: 'Apple' },
+];
+
+/** Google stops reading robots.txt after 500 KiB */
+export const MAX_ROBOTS_BYTES = 500 * 1024;
+
+const KNOWN_FIELDS = new Set(['user-agent', 'allow', 'disallow', 'crawl-delay', 'sitemap', 'host', 'clean-param']);
+
+/**
+ * The robots.txt served when no custom file is set: the site is open, the
+ * admin, API and previews are not, and SEO tool crawlers are kept out.
+ */
+export function generateRobotsTxt(siteUrl: string): string {
+  const seoGroups = SEO_CRAWLERS.map((crawler) => `User-agent: ${crawler.token}\nDisallow: /`).join('\n\n');
+  return `User-agent: *
+Allow: /
+Disallow: /admin/
+Disallow: /api/
+Disallow: /preview/
+
+${seoGroups}
+
+Host: ${siteUrl}
+
+Sitemap: ${siteUrl}/sitemap.xml
+`;
+}
+
+const stripComment = (line: string) => {
+  const hash = line.indexOf('#');
+  return (hash === -1 ? line : line.slice(0, hash)).trim();
+};
+
+/** Parse robots.txt into groups and sitemaps, collecting syntax issues on the way */
+export function parseRobotsTxt(text: string): ParsedRobots {
+  const lines = text.split(/\r\n|\r|\n/);
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  const issues: RobotsIssue[] = [];
+  const issue = (line: number, severity: RobotsIssueSeverity, message: string) =>
+    issues.push({ line, severity, message });
+
+  let current: RobotsGroup | null = null;
+  // User-agent lines in a row share one group; a rule ends the run
+  let collectingAgents = false;
+  // Groups with at least one directive; `Disallow:` alone still counts
+  const withDirectives = new Set<RobotsGroup>();
+
+  lines.forEach((raw, index) => {
+    const lineNumber = index + 1;
+    const line = stripComment(raw);
+    if (!line) return;
+
+    const colon = line.indexOf(':');
+    if (colon === -1) {
+      issue(lineNumber, 'error', `Expected "field: value", got "${line}"`);
+      return;
+    }
+    const field = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (!KNOWN_FIELDS.has(field)) {
+      issue(lineNumber, 'warning', `Unknown directive "${line.slice(0, colon).trim()}"; crawlers will ignore it`);
+      return;
+    }
+
+    if (field === 'sitemap') {
+      if (!/^https?:\/\/\S+$/i.test(value)) {
+        issue(lineNumber, 'error', 'Sitemap must be an absolute http(s) URL');
+      } else {
+        sitemaps.push(value);
+      }
+      return;
+    }
+    if (field === 'host' || field === 'clean-param') return;
+
+    if (field === 'user-agent') {
+      if (!value) {
+        issue(lineNumber, 'error', 'User-agent needs a value, e.g. * or Googlebot');
+        return;
+      }
+      if (!current || !collectingAgents) {
+        current = { userAgents: [], rules: [], startLine: index, endLine: index };
+        groups.push(current);
+        collectingAgents = true;
+      }
+      current.userAgents.push(value);
+      current.endLine = index;
+      return;
+    }
+
+    if (!current) {
+      issue(lineNumber, 'error', `${line.slice(0, colon).trim()} must come after a User-agent line`);
+      return;
+    }
+    collectingAgents = false;
+    current.endLine = index;
+    withDirectives.add(current);
+
+    if (field === 'crawl-delay') {
+      const delay = Number(value);
+      if (!value || !Number.isFinite(delay) || delay < 0) {
+        issue(lineNumber, 'error', 'Crawl-delay must be a number of seconds');
+      } else {
+        current.crawlDelay = delay;
+      }
+      return;
+    }
+
+    // An empty Disallow allows everything; it isn't a rule
+    if (!value) return;
+    if (!value.startsWith('/') && !value.startsWith('*')) {
+      issue(lineNumber, 'warning', `Paths should start with "/" (did you mean "/${value}"?)`);
+    }
+    current.rules.push({ type: field as RobotsRule['type'], path: value, line: lineNumber });
+  });
+
+  for (const group of groups) {
+    if (!withDirectives.has(group)) {
+      issue(group.startLine + 1, 'warning', `No rules for ${group.userAgents.join(', ')}; the group has no effect`);
+    }
+  }
+
+  for (const crawler of [{ token: '*', label: '*' }, ...SEARCH_CRAWLERS]) {
+    const verdict = testRobotsUrl({ groups }, crawler.token, '/');
+    if (!verdict.allowed && verdict.group?.toLowerCase() === crawler.token.toLowerCase()) {
+      const who = crawler.token === '*' ? 'All crawlers are' : `${crawler.label} is`;
+      issue(verdict.rule?.line ?? 0, 'warning', `${who} blocked from the site root (/)`);
+    }
+  }
+
+  if (new TextEncoder().encode(text).length > MAX_ROBOTS_BYTES) {
+    issue(0, 'warning', 'Google ignores anything past the first 500 KiB');
+  }
+
+  issues.sort((a, b) => a.line - b.line);
+  return { groups, sitemaps, issues };
+}
+
+export const hasRobotsErrors = (parsed: ParsedRobots) => parsed.issues.some((item) => item.severity === 'error');
+
+const escapeRegExp = (value: string) => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+/** Whether a rule path matches a URL path: `*` is any run of characters, a trailing `$` anchors the end */
+export function robotsPathMatches(rulePath: string, path: string): boolean {
+  const anchored = rulePath.endsWith('$');
+  const body = anchored ? rulePath.slice(0, -1) : rulePath;
+  const pattern = body.split('*').map(escapeRegExp).join('.*');
+  return new RegExp(`^${pattern}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Groups that apply to a crawler: those naming the most specific matching
+ * user agent, or the `*` groups when none does. Matching is by
+ * case-insensitive substring, so a full User-Agent header works too.
+ */
+function groupsFor(groups: RobotsGroup[], userAgent: string): { agent: string | null; groups: RobotsGroup[] } {
+  const ua = userAgent.toLowerCase();
+  let best: string | null = null;
+  for (const group of groups) {
+    for (const agent of group.userAgents) {
+      const token = agent.toLowerCase();
+      if (token !== '*' && ua.includes(token) && (!best || token.length > best.length)) best = token;
+    }
+  }
+  const agent = best ?? '*';
+  const matching = groups.filter((group) => group.userAgents.some((value) => value.toLowerCase() === agent));
+  return { agent: matching.length ? agent : null, groups: matching };
+}
+
+/** Path and query of a URL or path, percent-encoded as crawlers send it */
+function requestPath(url: string): string {
+  try {
+    const parsed = new URL(url, 'https://robots.invalid');
+    return parsed.pathname + parsed.search;
+  } catch {
+    return url.startsWith('/') ? url : `/${url}`;
+  }
+}
+
+/** Whether a crawler may fetch a URL under these rules, and which rule decided */
+export function testRobotsUrl(parsed: Pick<ParsedRobots, 'groups'>, userAgent: string, url: string): RobotsVerdict {
+  const path = requestPath(url);
+  const { agent, groups } = groupsFor(parsed.groups, userAgent || '*');
+
+  let decisive: RobotsRule | null = null;
+  for (const rule of groups.flatMap((group) => group.rules)) {
+    if (!robotsPathMatches(rule.path, path)) continue;
+    const longer = !decisive || rule.path.length > decisive.path.length;
+    const tieWin = decisive && rule.path.length === decisive.path.length && rule.type === 'allow';
+    if (longer || tieWin) decisive = rule;
+  }
+  return { allowed: decisive?.type !== 'disallow', group: agent, rule: decisive };
+}
+
+/**
+ * User agents shut out of the whole site (`Disallow: /` with nothing
+ * allowed back), lowercased for matching against User-Agent headers. `*`
+ * is never included: that would block visitors too.
+ */
+export function blockedUserAgents(parsed: ParsedRobots): string[] {
+  const agents = new Set<string>();
+  for (const group of parsed.groups) {
+    for (const agent of group.userAgents) {
+      const token = agent.toLowerCase();
+      if (token === '*') continue;
+      const verdict = testRobotsUrl(parsed, token, '/');
+      const allowsAnything = parsed.groups
+        .filter((other) => other.userAgents.some((value) => value.toLowerCase() === token))
+        .some((other) => other.rules.some((rule) => rule.type === 'allow'));
+      if (!verdict.allowed && verdict.group === token && !allowsAnything) agents.add(token);
+    }
+  }
+  return Array.from(agents);
+}
+
+/** Text for a group of rules */
+export function formatRobotsGroup(userAgents: string[], rules: Array<Pick<RobotsRule, 'type' | 'path'>>, crawlDelay?: number): string {
+  return [
+    ...userAgents.map((agent) => `User-agent: ${agent}`),
+    ...rules.map((rule) => `${rule.type === 'allow' ? 'Allow' : 'Disallow'}: ${rule.path}`),
+    ...(crawlDelay !== undefined ? [`Crawl-delay: ${crawlDelay}`] : []),
+  ].join('\n');
+}
+
+/**
+ * Replace the group for a single user agent, or add it before the Sitemap
+ * lines when there isn't one. Comments and other groups are left alone.
+ */
+export function upsertRobotsGroup(text: string, userAgent: string, groupText: string): string {
+  const lines = text.split(/\r\n|\r|\n/);
+  const existing = parseRobotsTxt(text).groups.find(
+    (group) => group.userAgents.length === 1 && group.userAgents[0].toLowerCase() === userAgent.toLowerCase()
+  );
+  if (existing) {
+    lines.splice(existing.startLine, existing.endLine - existing.startLine + 1, ...groupText.split('\n'));
+    return lines.join('\n');
+  }
+  const sitemapLine = lines.findIndex((line) => /^\s*(sitemap|host)\s*:/i.test(line));
+  const at = sitemapLine === -1 ? lines.length : sitemapLine;
+  const before = lines.slice(0, at).join('\n').replace(/\s+$/, '');
+  const after = lines.slice(at).join('\n').replace(/^\s+/, '');
+  return [before, groupText, after].filter(Boolean).join('\n\n') + (after ? '' : '\n');
+}
+
+/**
+ * Drop a user agent's rules: its own group goes, and in a shared group only
+ * its User-agent line does.
+ */
+export function removeRobotsAgent(text: string, userAgent: string): string {
+  const lines = text.split(/\r\n|\r|\n/);
+  const token = userAgent.toLowerCase();
+  const doomed = new Set<number>();
+  for (const group of parseRobotsTxt(text).groups) {
+    const own = group.userAgents.filter((agent) => agent.toLowerCase() === token);
+    if (own.length === 0) continue;
+    if (own.length === group.userAgents.length) {
+      for (let line = group.startLine; line <= group.endLine; line += 1) doomed.add(line);
+      // Take the blank line after the group with it
+      if (lines[group.endLine + 1]?.trim() === '') doomed.add(group.endLine + 1);
+    } else {
+      lines.forEach((line, index) => {
+        const match = stripComment(line).match(/^user-agent\s*:\s*(.+)$/i);
+        if (index >= group.startLine && index <= group.endLine && match?.[1].trim().toLowerCase() === token) {
+          doomed.add(index);
+        }
+      });
+    }
+  }
+  return lines.filter((_, index) => !doomed.has(index)).join('\n');
+}
+
+/** Whether a user agent is kept out of the whole site */
+export const isAgentBlocked = (parsed: ParsedRobots, userAgent: string) =>
+  blockedUserAgents(parsed).includes(userAgent.toLowerCase());
+
+/**
+ * The custom robots.txt from site settings, or null when none is set or
+ * the settings can't be read. Callers fall back to generateRobotsTxt.
+ */
+export async function fetchCustomRobotsTxt(options: { signal?: AbortSignal } = {}): Promise<string | null> {
+  try {
+    const response = await fetch(`${getPostsApiUrl()}/settings`, {
+      signal: options.signal,
+      next: { revalidate: 300 },
+    });
+    if (!response.ok) return null;
+    const result = await response.json();
+    const settings = result?.data ?? result;
+    const custom = typeof settings?.customRobotsTxt === 'string' ? settings.customRobotsTxt.trim() : '';
+    return custom || null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPostsApiUrl } from '@/lib/apiConfig';
+import { userSchema } from '@/lib/api/schemas';
+import { User, hasPermission } from '@/types/admin';
+
+/**
+ * Authenticate an API route request as an admin user.
+ *
+ * The caller sends its Firebase ID token as `Authorization: Bearer <token>`;
+ * the backend verifies it and returns the user's profile, whose role must
+ * grant at least one of `permissions`. Resolves with the user, or with the
+ * error response the route should return.
+ */
+export async function requireAdminUser(
+  request: NextRequest,
+  permissions: string[]
+): Promise<User | NextResponse> {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    return NextResponse.json({ message: 'Authorization header is required' }, { status: 401 });
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${getPostsApiUrl()}/users/profile`, {
+      headers: { Authorization: authHeader },
+      cache: 'no-store',
+    });
+  } catch (error) {
+    console.error('Error verifying admin token:', error);
+    return NextResponse.json({ message: 'Could not verify credentials' }, { status: 503 });
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    return NextResponse.json({ message: 'Invalid or expired token' }, { status: 401 });
+  }
+  if (!response.ok) {
+    return NextResponse.json({ message: 'Could not verify credentials' }, { status: 503 });
+  }
+
+  let user: User;
+  try {
+    const body = await response.json();
+    user = userSchema.parse(body?.data ?? body, { endpoint: 'GET /users/profile', path: [] });
+  } catch (error) {
+    console.error('Unexpected profile response:', error);
+    return NextResponse.json({ message: 'Could not verify credentials' }, { status: 503 });
+  }
+
+  if (!user.isActive || !permissions.some((permission) => hasPermission(user.role, permission))) {
+    return NextResponse.json({ message: 'You do not have permission to do this' }, { status: 403 });
+  }
+  return user;
+}
@@ -2,6 +2,34 @@ import { Metadata } from 'next'
 import { ProcessedImage } from './imageProcessing'
 import { getSocialImageUrl, getImageUrlFromData, extractPublicId } from './imageHelpers'
 import { fetchLatestPublishedPost } from './articlePageData'
+import { extractFundingRounds } from './contentBlocks'
+import { authorFeedScope, categoryFeedScope, feedAlternates, FeedScope } from './feeds'
+import { getCategoryByLabel } from './categories'
+import { ATN_FULL_NAME } from './atn'
+import type { VideoItem } from './homepageTypes'
+import {
+  ATN_SERIES_ID,
+  JsonLdGraph,
+  JsonLdNode,
+  ORGANIZATION_ID,
+  StructuredDataAuthor,
+  WEBSITE_ID,
+  atnEpisodeNode,
+  atnSeriesNode,
+  countWords,
+  extractFaq,
+  extractHowTo,
+  faqPageNode,
+  howToNode,
+  isNewsCategory,
+  organizationNode,
+  personId,
+  personNode,
+  ref,
+  structuredDataGraph,
+  videoObjectNode,
+  websiteNode,
+} from './structuredData'
 
 function getISODateString(date: Date | { toDate: () => Date } | undefined): string | undefined {
   if (!date) return undefined
@@ -53,9 +81,18 @@ export interface BlogPostSEO {
   metaDescription?: string
   canonical?: string
   tags?: string[]
+  contentHtml?: string
+  postType?: 'article' | 'video' | string
+  video?: {
+    url: string
+    thumbnailUrl?: string
+    duration?: number
+    width?: number
+    height?: number
+  }
   category?: string
   categories?: string[]
-  author?: string | { uid: string; name: string }
+  author?: string | { uid: string; name: string; avatar?: string; sameAs?: string[] }
   publishedAt?: Date | { toDate: () => Date }
   updatedAt?: Date | { toDate: () => Date }
   createdAt?: Date | { toDate: () => Date }
@@ -191,6 +228,7 @@ export function generatePostSEO(post: BlogPostSEO): Metadata {
 
   const publishedTime = getISODateString(post.publishedAt) || getISODateString(post.createdAt)
   const modifiedTime = getISODateString(post.updatedAt) || getISODateString(post.publishedAt) || getISODateString(post.createdAt)
+  const postCategoryFeed = categoryFeedScope(post.category)
 
   return {
     title,
@@ -207,6 +245,11 @@ export function generatePostSEO(post: BlogPostSEO): Metadata {
     metadataBase: new URL(siteUrl),
     alternates: {
       canonical: post.canonical || postUrl,
+      types: feedAlternates([
+        { scope: { kind: 'site' }, title: 'TechBlit' },
+        ...(postCategoryFeed ? [{ scope: postCategoryFeed, title: `${post.category} - TechBlit` }] : []),
+        ...(post.author ? [{ scope: authorFeedScope(authorName), title: `${authorName} - TechBlit` }] : []),
+      ]),
     },
     openGraph: {
       type: 'article',
@@ -258,9 +301,10 @@ export function generatePostSEO(post: BlogPostSEO): Metadata {
   }
 }
 
-export function generateCategorySEO(category: string, description?: string): Metadata {
+export function generateCategorySEO(category: string, description?: string, slug?: string): Metadata {
   const siteUrl = SITE_URL
   const categoryUrl = `${siteUrl}/category/${category}`
+  const categoryFeed: FeedScope | null = slug ? { kind: 'category', slug } : categoryFeedScope(category)
   const title = `${category} - TechBlit | African Tech News`
   const desc = description || `Latest ${category} news, insights, and analysis from Africa's tech ecosystem`
 
@@ -274,6 +318,10 @@ export function generateCategorySEO(category: string, description?: string): Met
     metadataBase: new URL(siteUrl),
     alternates: {
       canonical: categoryUrl,
+      types: feedAlternates([
+        ...(categoryFeed ? [{ scope: categoryFeed, title: `${category} - TechBlit` }] : []),
+        { scope: { kind: 'site' }, title: 'TechBlit' },
+      ]),
     },
     openGraph: {
       type: 'website',
@@ -326,118 +374,173 @@ export function extractTextFromHTML(html: string, maxLength: number = 160): stri
   return lastSpace > 0 ? truncated.substring(0, lastSpace) + '...' : truncated + '...'
 }
 
-export function generateStructuredData(post: BlogPostSEO) {
+export function generateStructuredData(post: BlogPostSEO): JsonLdGraph {
   const siteUrl = SITE_URL
   const postUrl = `${siteUrl}/${post.slug}`
-
-  const getAuthorName = (author: string | { uid: string; name: string } | undefined): string => {
-    if (!author) return 'TechBlit Team'
-    if (typeof author === 'string') return author
-    return author.name
+  const ids = {
+    page: postUrl,
+    article: `${postUrl}#article`,
+    image: `${postUrl}#primaryimage`,
+    breadcrumb: `${postUrl}#breadcrumb`,
+    video: `${postUrl}#video`,
+    faq: `${postUrl}#faq`,
+    howTo: `${postUrl}#howto`,
   }
 
-  const authorName = getAuthorName(post.author)
+  const author: StructuredDataAuthor | null = !post.author
+    ? null
+    : typeof post.author === 'string'
+      ? { name: post.author }
+      : { name: post.author.name, avatar: post.author.avatar, sameAs: post.author.sameAs }
   const category = post.category || post.categories?.[0] || 'Technology'
+  const categoryMeta = getCategoryByLabel(category)
+  const description = post.metaDescription || post.excerpt || ''
 
   const { url: featuredImageUrl, alt: imageAlt, width: imageWidth, height: imageHeight } = getFeaturedImageMeta(post.featuredImage)
 
   const publishedTime = getISODateString(post.publishedAt) || getISODateString(post.createdAt)
   const modifiedTime = getISODateString(post.updatedAt) || getISODateString(post.publishedAt) || getISODateString(post.createdAt)
 
-  const imageArray = [{
+  const imageNode: JsonLdNode = {
     '@type': 'ImageObject',
+    '@id': ids.image,
     url: featuredImageUrl,
+    contentUrl: featuredImageUrl,
     width: imageWidth,
     height: imageHeight,
-  }]
+    caption: imageAlt,
+    // Images we host and process are licensed by TechBlit
+    ...(extractPublicId(post.featuredImage) ? {
+      description: imageAlt || `${post.title} - TechBlit coverage of ${category}`,
+      license: `${siteUrl}/license`,
+      creator: ref(ORGANIZATION_ID),
+    } : {}),
+  }
 
-  const articleSchema = {
-    '@context': 'https://schema.org',
-    '@type': 'Article',
+  const videoNode = post.postType === 'video' && post.video?.url
+    ? videoObjectNode({
+      '@id': ids.video,
+      name: post.title,
+      description,
+      url: post.video.url,
+      thumbnailUrl: post.video.thumbnailUrl || featuredImageUrl,
+      uploadDate: publishedTime,
+      duration: post.video.duration,
+      width: post.video.width,
+      height: post.video.height,
+    })
+    : null
+
+  const articleNode: JsonLdNode = {
+    '@type': isNewsCategory(category) ? 'NewsArticle' : 'Article',
+    '@id': ids.article,
     headline: post.title,
-    description: post.metaDescription || post.excerpt || '',
-    image: imageArray,
-    author: {
-      '@type': 'Person',
-      name: authorName,
-    },
-    publisher: {
-      '@type': 'Organization',
-      name: 'TechBlit',
-      logo: {
-        '@type': 'ImageObject',
-        url: `${SITE_URL}/favicon.png`,
-        width: 600,
-        height: 60,
-      },
-      sameAs: [
-        SITE_URL,
-        'https://twitter.com/techblit',
-        'https://www.linkedin.com/company/techblit',
-      ],
-    },
+    description,
+    image: ref(ids.image),
+    author: ref(author ? personId(author.name) : ORGANIZATION_ID),
+    publisher: ref(ORGANIZATION_ID),
     datePublished: publishedTime,
     dateModified: modifiedTime,
-    mainEntityOfPage: {
-      '@type': 'WebPage',
-      '@id': postUrl,
-    },
+    mainEntityOfPage: ref(ids.page),
+    isPartOf: ref(ids.page),
     url: postUrl,
     keywords: post.tags?.join(', ') || category || 'technology',
     articleSection: category,
-    wordCount: post.excerpt?.split(' ').length || 0,
+    wordCount: countWords(post.contentHtml),
+    inLanguage: 'en',
+    ...(videoNode ? { video: ref(ids.video) } : {}),
+  }
+
+  const pageNode: JsonLdNode = {
+    '@type': 'WebPage',
+    '@id': ids.page,
+    url: postUrl,
+    name: post.metaTitle || post.title,
+    description,
+    isPartOf: ref(WEBSITE_ID),
+    primaryImageOfPage: ref(ids.image),
+    breadcrumb: ref(ids.breadcrumb),
+    datePublished: publishedTime,
+    dateModified: modifiedTime,
+    inLanguage: 'en',
   }
 
-  const breadcrumbSchema = {
-    '@context': 'https://schema.org',
+  const breadcrumbNode: JsonLdNode = {
     '@type': 'BreadcrumbList',
+    '@id': ids.breadcrumb,
     itemListElement: [
-      {
-        '@type': 'ListItem',
-        position: 1,
-        name: 'Home',
-        item: siteUrl,
-      },
-      {
-        '@type': 'ListItem',
-        position: 2,
-        name: 'Blog',
-        item: `${siteUrl}/blog`,
-      },
-      ...(category ? [{
-        '@type': 'ListItem',
-        position: 3,
-        name: category,
-        item: `${siteUrl}/category/${category.toLowerCase().replace(/\s+/g, '-')}`,
-      }] : []),
-      {
-        '@type': 'ListItem',
-        position: category ? 4 : 3,
-        name: post.title,
-        item: postUrl,
-      },
-    ],
+      { name: 'Home', item: siteUrl },
+      { name: 'Blog', item: `${siteUrl}/blog` },
+      ...(categoryMeta ? [{ name: categoryMeta.label, item: `${siteUrl}/category/${categoryMeta.slug}` }] : []),
+      { name: post.title, item: postUrl },
+    ].map((crumb, index) => ({ '@type': 'ListItem', position: index + 1, ...crumb })),
   }
 
-  const imageObjectSchema = extractPublicId(post.featuredImage) ? {
-    '@context': 'https://schema.org',
-    '@type': 'ImageObject',
-    contentUrl: featuredImageUrl,
-    url: featuredImageUrl,
-    width: imageWidth,
-    height: imageHeight,
-    description: imageAlt || `${post.title} - TechBlit coverage of ${category}`,
-    license: `${siteUrl}/license`,
-    creator: {
+  const faq = extractFaq(post.contentHtml)
+  const howTo = extractHowTo(post.contentHtml, post.title)
+
+  // Funding fact boxes in the body describe the round the article covers
+  const fundingNodes: JsonLdNode[] = extractFundingRounds(post.contentHtml).map((round) => ({
+    '@type': 'InvestmentOrGrant',
+    name: [round.company, round.round].filter(Boolean).join(' ') || round.company,
+    ...(round.amount !== null ? {
+      amount: {
+        '@type': 'MonetaryAmount',
+        value: round.amount,
+        currency: round.currency,
+      },
+    } : {}),
+    ...(round.investors.length ? {
+      funder: round.investors.map((name) => ({ '@type': 'Organization', name })),
+    } : {}),
+    recipient: {
       '@type': 'Organization',
-      name: 'TechBlit',
+      name: round.company,
     },
-  } : null
-
-  const schemas: unknown[] = [articleSchema, breadcrumbSchema]
-  if (imageObjectSchema) {
-    schemas.push(imageObjectSchema)
-  }
+    subjectOf: ref(ids.article),
+  }))
+
+  return structuredDataGraph([
+    organizationNode(),
+    websiteNode(),
+    pageNode,
+    articleNode,
+    author ? personNode(author) : null,
+    imageNode,
+    breadcrumbNode,
+    videoNode,
+    faq.length ? faqPageNode(ids.faq, ids.page, faq) : null,
+    howTo ? howToNode(ids.howTo, ids.page, howTo, ids.image) : null,
+    ...fundingNodes,
+  ])
+}
 
-  return schemas
+/** Graph for the ATN series page: the series and each episode as a VideoObject */
+export function generateVideoSeriesStructuredData(videos: VideoItem[]): JsonLdGraph {
+  const pageUrl = `${SITE_URL}/series/101`
+  const episodes = videos.filter((video, index) => videos.findIndex((other) => other.id === video.id) === index)
+  return structuredDataGraph([
+    organizationNode(),
+    websiteNode(),
+    {
+      '@type': 'CollectionPage',
+      '@id': pageUrl,
+      url: pageUrl,
+      name: `${ATN_FULL_NAME} — Video Series`,
+      isPartOf: ref(WEBSITE_ID),
+      about: ref(ATN_SERIES_ID),
+      ...(episodes.length ? {
+        mainEntity: {
+          '@type': 'ItemList',
+          itemListElement: episodes.map((episode, index) => ({
+            '@type': 'ListItem',
+            position: index + 1,
+            item: ref(`${pageUrl}#video-${episode.id}`),
+          })),
+        },
+      } : {}),
+    },
+    atnSeriesNode(),
+    ...episodes.map(atnEpisodeNode),
+  ])
 }
@@ -0,0 +1,518 @@
+/**
+ * SEO analysis engine
+ *
+ * A post is scored by a list of weighted rules. Each rule looks at a shared
+ * context (parsed text, headings, links, images) and reports a status;
+ * the overall score is the weighted average. Rules are plain objects, so
+ * callers can add their own or re-weight the defaults. Nothing here
+ * touches the DOM, so bulk audits can run it server-side.
+ */
+
+import type { Post } from '@/types/admin';
+import { readTagAttributes } from '@/lib/embeds';
+
+export type SeoStatus = 'success' | 'warning' | 'error' | 'info';
+
+export type SeoRuleGroup = 'keyphrase' | 'readability' | 'content' | 'meta' | 'links';
+
+export interface SeoAnalysisInput {
+  title: string;
+  metaTitle?: string;
+  metaDescription?: string;
+  contentHtml: string;
+  slug: string;
+  tags?: string[];
+  category?: string;
+  canonical?: string;
+  focusKeyphrase?: string;
+}
+
+export interface SeoRuleOutcome {
+  status: SeoStatus;
+  message: string;
+  /** 0–1; defaults from the status (success 1, warning 0.5, error 0) */
+  score?: number;
+}
+
+export interface SeoRule {
+  id: string;
+  group: SeoRuleGroup;
+  /** Relative importance in the overall score */
+  weight: number;
+  /** Returns null when the rule doesn't apply (e.g. no focus keyphrase) */
+  run: (context: SeoContext) => SeoRuleOutcome | null;
+}
+
+export interface SeoRuleResult extends Required<SeoRuleOutcome> {
+  id: string;
+  group: SeoRuleGroup;
+  weight: number;
+}
+
+export interface SeoStats {
+  wordCount: number;
+  sentenceCount: number;
+  /** Flesch reading ease, 0 (hard) – 100 (easy) */
+  readingEase: number;
+  /** Keyphrase occurrences per 100 words */
+  keyphraseDensity: number;
+  keyphraseCount: number;
+  internalLinks: number;
+  externalLinks: number;
+  images: number;
+  imagesWithAlt: number;
+}
+
+export interface SeoAnalysis {
+  /** 0–100 */
+  score: number;
+  results: SeoRuleResult[];
+  stats: SeoStats;
+}
+
+export interface SeoContext {
+  input: SeoAnalysisInput;
+  /** Body as plain text */
+  text: string;
+  words: string[];
+  /** Normalized focus keyphrase, or null when none is set */
+  keyphrase: string | null;
+  firstParagraph: string;
+  headings: Array<{ level: number; text: string }>;
+  links: Array<{ href: string; internal: boolean }>;
+  images: Array<{ src: string; alt: string }>;
+  stats: SeoStats;
+  contentLength: ContentLengthRange;
+}
+
+export interface ContentLengthRange {
+  min: number;
+  max: number;
+}
+
+export interface SeoAnalysisOptions {
+  /** Replaces the default rule set */
+  rules?: SeoRule[];
+  /** Per-rule weight overrides; 0 disables a rule */
+  weights?: Partial<Record<string, number>>;
+  /** Host treated as internal when classifying links */
+  siteUrl?: string;
+}
+
+const DEFAULT_SITE_URL = 'https://www.techblit.com';
+
+const DEFAULT_CONTENT_LENGTH: ContentLengthRange = { min: 300, max: 2000 };
+
+/** Expected body length by category label; news briefs run shorter than analysis */
+export const CONTENT_LENGTH_BY_CATEGORY: Record<string, ContentLengthRange> = {
+  'Tech News': { min: 250, max: 1200 },
+  Funding: { min: 250, max: 1200 },
+  Events: { min: 200, max: 1000 },
+  'Brand Press': { min: 200, max: 1000 },
+  Insights: { min: 800, max: 3500 },
+  Opinions: { min: 600, max: 2500 },
+  'Developer Tools': { min: 600, max: 3000 },
+};
+
+/** Expected body length for a category */
+export const contentLengthFor = (category?: string): ContentLengthRange =>
+  (category && CONTENT_LENGTH_BY_CATEGORY[category]) || DEFAULT_CONTENT_LENGTH;
+
+const STATUS_SCORES: Record<SeoStatus, number> = { success: 1, warning: 0.5, error: 0, info: 1 };
+
+// ============================================================================
+// TEXT HELPERS
+// ============================================================================
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+
+const htmlToText = (html: string) =>
+  decodeEntities(html.replace(/<(br|\/p|\/h[1-6]|\/li|\/blockquote)\b[^>]*>/gi, '$&\n').replace(/<[^>]*>/g, ' '))
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+
+/** Lowercase, accents removed, punctuation collapsed to single spaces */
+export const normalizeForMatch = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+function countPhrase(haystack: string, phrase: string): number {
+  if (!phrase) return 0;
+  const text = ` ${normalizeForMatch(haystack)} `;
+  const needle = ` ${phrase} `;
+  let count = 0;
+  for (let at = text.indexOf(needle); at !== -1; at = text.indexOf(needle, at + needle.length - 1)) count++;
+  return count;
+}
+
+const containsPhrase = (haystack: string, phrase: string) => countPhrase(haystack, phrase) > 0;
+
+/** Every keyphrase word appears, in any order */
+const containsAllWords = (haystack: string, phrase: string) => {
+  const words = new Set(normalizeForMatch(haystack).split(' '));
+  return phrase.split(' ').every((word) => words.has(word));
+};
+
+/** Syllables in an English word, by vowel groups */
+export function countSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!w) return 0;
+  if (w.length <= 3) return 1;
+  const trimmed = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, (trimmed.match(/[aeiouy]{1,2}/g) || []).length);
+}
+
+/**
+ * Flesch reading ease for English text. 60–70 reads as plain English;
+ * below 30 is academic.
+ */
+export function fleschReadingEase(text: string): number {
+  const words: string[] = text.match(/[A-Za-z][A-Za-z'’-]*/g) || [];
+  if (words.length === 0) return 0;
+  const sentences = Math.max(1, (text.match(/[^.!?\n]+[.!?]+|[^.!?\n]+$/gm) || []).filter((s) => /[a-z]/i.test(s)).length);
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const score = 206.835 - 1.015 * (words.length / sentences) - 84.6 * (syllables / words.length);
+  return Math.round(Math.min(100, Math.max(0, score)) * 10) / 10;
+}
+
+function isInternalLink(href: string, siteHost: string): boolean {
+  if (/^(#|\/(?!\/)|\.\.?\/|\?)/.test(href)) return true;
+  try {
+    return new URL(href, `https://${siteHost}`).hostname.replace(/^www\./, '') === siteHost.replace(/^www\./, '');
+  } catch {
+    return true;
+  }
+}
+
+function buildContext(input: SeoAnalysisInput, siteUrl: string): SeoContext {
+  const html = input.contentHtml || '';
+  const text = htmlToText(html);
+  const words = text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu) || [];
+  const keyphrase = input.focusKeyphrase ? normalizeForMatch(input.focusKeyphrase) || null : null;
+
+  const firstParagraphMatch = html.match(/<p\b[^>]*>([\s\S]*?)<\/p>/i);
+  const firstParagraph = firstParagraphMatch ? htmlToText(firstParagraphMatch[1]) : text.split('\n')[0] || '';
+
+  const headings = Array.from(html.matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi), (match) => ({
+    level: Number(match[1]),
+    text: htmlToText(match[2]),
+  }));
+
+  let siteHost = 'www.techblit.com';
+  try {
+    siteHost = new URL(siteUrl).hostname;
+  } catch {
+    // keep the default
+  }
+
+  const links = Array.from(html.matchAll(/<a\b[^>]*>/gi), (match) => readTagAttributes(match[0]).href || '')
+    .filter((href) => href && !/^(mailto|tel|javascript):/i.test(href))
+    .map((href) => ({ href, internal: isInternalLink(href, siteHost) }));
+
+  const images = Array.from(html.matchAll(/<img\b[^>]*>/gi), (match) => {
+    const attributes = readTagAttributes(match[0]);
+    return { src: attributes.src || '', alt: (attributes.alt || '').trim() };
+  });
+
+  const keyphraseCount = keyphrase ? countPhrase(text, keyphrase) : 0;
+  const stats: SeoStats = {
+    wordCount: words.length,
+    sentenceCount: (text.match(/[^.!?\n]+[.!?]+/g) || []).length,
+    readingEase: fleschReadingEase(text),
+    keyphraseDensity: words.length > 0 ? Math.round((keyphraseCount / words.length) * 10000) / 100 : 0,
+    keyphraseCount,
+    internalLinks: links.filter((link) => link.internal).length,
+    externalLinks: links.filter((link) => !link.internal).length,
+    images: images.length,
+    imagesWithAlt: images.filter((image) => image.alt).length,
+  };
+
+  return {
+    input,
+    text,
+    words,
+    keyphrase,
+    firstParagraph,
+    headings,
+    links,
+    images,
+    stats,
+    contentLength: contentLengthFor(input.category),
+  };
+}
+
+const lengthRule = (
+  value: string,
+  name: string,
+  { min, max, required }: { min: number; max: number; required: boolean }
+): SeoRuleOutcome => {
+  if (!value) {
+    return required
+      ? { status: 'error', message: `${name} is required` }
+      : { status: 'warning', message: `${name} is empty` };
+  }
+  if (value.length < min) return { status: 'warning', message: `${name} is too short (minimum ${min} characters)` };
+  if (value.length > max) return { status: 'warning', message: `${name} is too long (maximum ${max} characters)` };
+  return { status: 'success', message: `${name} length is optimal` };
+};
+
+const keyphraseRule = (
+  id: string,
+  weight: number,
+  where: string,
+  pick: (context: SeoContext) => string
+): SeoRule => ({
+  id,
+  group: 'keyphrase',
+  weight,
+  run: (context) => {
+    const { keyphrase } = context;
+    if (!keyphrase) return null;
+    const haystack = pick(context);
+    if (containsPhrase(haystack, keyphrase)) return { status: 'success', message: `Focus keyphrase appears in the ${where}` };
+    if (keyphrase.includes(' ') && containsAllWords(haystack, keyphrase)) {
+      return { status: 'warning', message: `The ${where} has the keyphrase words, but not as a phrase`, score: 0.6 };
+    }
+    return { status: 'error', message: `Focus keyphrase is missing from the ${where}` };
+  },
+});
+
+// ============================================================================
+// DEFAULT RULES
+// ============================================================================
+
+export const DEFAULT_SEO_RULES: SeoRule[] = [
+  keyphraseRule('keyphrase-title', 3, 'title', ({ input }) => `${input.title} ${input.metaTitle || ''}`),
+  keyphraseRule('keyphrase-slug', 2, 'slug', ({ input }) => input.slug.replace(/-/g, ' ')),
+  keyphraseRule('keyphrase-intro', 2, 'first paragraph', ({ firstParagraph }) => firstParagraph),
+  keyphraseRule('keyphrase-headings', 1, 'subheadings', ({ headings }) => headings.map((h) => h.text).join(' \n ')),
+  keyphraseRule('keyphrase-meta-description', 2, 'meta description', ({ input }) => input.metaDescription || ''),
+  {
+    id: 'keyphrase-density',
+    group: 'keyphrase',
+    weight: 2,
+    run: ({ keyphrase, stats }) => {
+      if (!keyphrase || stats.wordCount === 0) return null;
+      const density = `${stats.keyphraseDensity}% (${stats.keyphraseCount}×)`;
+      if (stats.keyphraseDensity < 0.5) return { status: 'warning', message: `Keyphrase density is low: ${density}, aim for 0.5–3%` };
+      if (stats.keyphraseDensity > 3) return { status: 'warning', message: `Keyphrase density is high: ${density}, which reads as stuffing`, score: 0.3 };
+      return { status: 'success', message: `Keyphrase density is good: ${density}` };
+    },
+  },
+  {
+    id: 'focus-keyphrase',
+    group: 'keyphrase',
+    weight: 1,
+    run: ({ keyphrase }) =>
+      keyphrase ? null : { status: 'info', message: 'Set a focus keyphrase to check how well the post targets it' },
+  },
+  {
+    id: 'readability',
+    group: 'readability',
+    weight: 2,
+    run: ({ stats }) => {
+      if (stats.wordCount < 50) return null;
+      const ease = stats.readingEase;
+      if (ease >= 60) return { status: 'success', message: `Easy to read (Flesch ${ease})` };
+      if (ease >= 40) return { status: 'warning', message: `Fairly difficult to read (Flesch ${ease}); try shorter sentences`, score: 0.6 };
+      return { status: 'error', message: `Hard to read (Flesch ${ease}); use shorter sentences and simpler words` };
+    },
+  },
+  {
+    id: 'content-length',
+    group: 'content',
+    weight: 3,
+    run: ({ stats, contentLength, input }) => {
+      const where = input.category ? ` for ${input.category}` : '';
+      if (stats.wordCount < contentLength.min) {
+        return {
+          status: stats.wordCount < contentLength.min / 2 ? 'error' : 'warning',
+          message: `Content is too short (${stats.wordCount} words, minimum ${contentLength.min} recommended${where})`,
+        };
+      }
+      if (stats.wordCount > contentLength.max) {
+        return { status: 'info', message: `Content is quite long (${stats.wordCount} words) - consider breaking into sections` };
+      }
+      return { status: 'success', message: `Content length is good (${stats.wordCount} words)` };
+    },
+  },
+  {
+    id: 'headings',
+    group: 'content',
+    weight: 1,
+    run: ({ headings, stats }) =>
+      headings.some((h) => h.level === 2 || h.level === 3)
+        ? { status: 'success', message: 'Good heading structure' }
+        : stats.wordCount < 300
+          ? null
+          : { status: 'warning', message: 'No headings found - consider adding H2/H3 headings for better structure' },
+  },
+  {
+    id: 'image-alt',
+    group: 'content',
+    weight: 1,
+    run: ({ stats }) => {
+      if (stats.images === 0) return { status: 'info', message: 'Consider adding images to make your post more engaging' };
+      const missing = stats.images - stats.imagesWithAlt;
+      if (missing === 0) return { status: 'success', message: `All ${stats.images} image(s) have alt text` };
+      return {
+        status: 'warning',
+        message: `${missing} of ${stats.images} image(s) missing alt text - important for accessibility`,
+        score: stats.imagesWithAlt / stats.images,
+      };
+    },
+  },
+  {
+    id: 'internal-links',
+    group: 'links',
+    weight: 2,
+    run: ({ stats }) =>
+      stats.internalLinks > 0
+        ? { status: 'success', message: `${stats.internalLinks} internal link(s)` }
+        : { status: 'warning', message: 'No internal links - link to related TechBlit stories' },
+  },
+  {
+    id: 'external-links',
+    group: 'links',
+    weight: 1,
+    run: ({ stats }) =>
+      stats.externalLinks > 0
+        ? { status: 'success', message: `${stats.externalLinks} outbound link(s)` }
+        : { status: 'warning', message: 'No outbound links - cite your sources', score: 0.6 },
+  },
+  {
+    id: 'title-length',
+    group: 'meta',
+    weight: 2,
+    run: ({ input }) => lengthRule(input.title, 'Post title', { min: 10, max: 60, required: true }),
+  },
+  {
+    id: 'meta-title-length',
+    group: 'meta',
+    weight: 1,
+    run: ({ input }) =>
+      input.metaTitle
+        ? lengthRule(input.metaTitle, 'Meta title', { min: 30, max: 60, required: false })
+        : { status: 'info', message: 'Meta title is empty - will use post title' },
+  },
+  {
+    id: 'meta-description-length',
+    group: 'meta',
+    weight: 2,
+    run: ({ input }) => lengthRule(input.metaDescription || '', 'Meta description', { min: 120, max: 160, required: false }),
+  },
+  {
+    id: 'slug',
+    group: 'meta',
+    weight: 1,
+    run: ({ input }) => {
+      if (!input.slug) return { status: 'error', message: 'URL slug is required' };
+      if (!/^[a-z0-9-]+$/.test(input.slug)) {
+        return { status: 'warning', message: 'URL slug should only contain lowercase letters, numbers, and hyphens' };
+      }
+      return { status: 'success', message: 'URL slug format is correct' };
+    },
+  },
+  {
+    id: 'tags',
+    group: 'meta',
+    weight: 1,
+    run: ({ input }) => {
+      const count = input.tags?.length ?? 0;
+      if (count === 0) return { status: 'warning', message: 'No tags added - consider adding relevant tags' };
+      if (count > 10) return { status: 'info', message: 'Many tags added - consider focusing on the most relevant ones' };
+      return { status: 'success', message: `Good tag count (${count} tags)` };
+    },
+  },
+  {
+    id: 'category',
+    group: 'meta',
+    weight: 1,
+    run: ({ input }) =>
+      input.category
+        ? { status: 'success', message: `Category selected: ${input.category}` }
+        : { status: 'warning', message: 'No category selected - consider adding a category' },
+  },
+  {
+    id: 'canonical',
+    group: 'meta',
+    weight: 1,
+    run: ({ input }) => {
+      if (!input.canonical) return { status: 'info', message: 'No canonical URL set - will use default post URL' };
+      try {
+        const canonical = new URL(input.canonical);
+        const site = new URL(process.env.NEXT_PUBLIC_SITE_URL || DEFAULT_SITE_URL);
+        return canonical.hostname === site.hostname
+          ? { status: 'success', message: 'Canonical URL is properly set' }
+          : { status: 'warning', message: 'Canonical URL points to external domain - ensure this is intentional' };
+      } catch {
+        return { status: 'error', message: 'Canonical URL is invalid - please check the format' };
+      }
+    },
+  },
+];
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Score a post against the SEO rules
+ *
+ * Informational results are reported but don't count towards the score.
+ */
+export function analyzeSeo(input: SeoAnalysisInput, options: SeoAnalysisOptions = {}): SeoAnalysis {
+  const context = buildContext(input, options.siteUrl || process.env.NEXT_PUBLIC_SITE_URL || DEFAULT_SITE_URL);
+  const results: SeoRuleResult[] = [];
+
+  for (const rule of options.rules ?? DEFAULT_SEO_RULES) {
+    const weight = options.weights?.[rule.id] ?? rule.weight;
+    if (weight <= 0) continue;
+    const outcome = rule.run(context);
+    if (!outcome) continue;
+    results.push({
+      id: rule.id,
+      group: rule.group,
+      weight,
+      status: outcome.status,
+      message: outcome.message,
+      score: Math.min(1, Math.max(0, outcome.score ?? STATUS_SCORES[outcome.status])),
+    });
+  }
+
+  const scored = results.filter((result) => result.status !== 'info');
+  const totalWeight = scored.reduce((sum, result) => sum + result.weight, 0);
+  const score = totalWeight > 0 ? scored.reduce((sum, result) => sum + result.weight * result.score, 0) / totalWeight : 0;
+
+  return { score: Math.round(score * 100), results, stats: context.stats };
+}
+
+/** Label for an overall score */
+export const seoScoreRating = (score: number): 'good' | 'ok' | 'poor' =>
+  score >= 80 ? 'good' : score >= 50 ? 'ok' : 'poor';
+
+/** Analysis input for a stored post, for bulk audits */
+export const seoInputFromPost = (
+  post: Pick<Post, 'title' | 'metaTitle' | 'metaDescription' | 'contentHtml' | 'slug' | 'tags' | 'category' | 'canonical' | 'focusKeyphrase'>
+): SeoAnalysisInput => ({
+  title: post.title,
+  metaTitle: post.metaTitle,
+  metaDescription: post.metaDescription,
+  contentHtml: post.contentHtml,
+  slug: post.slug,
+  tags: post.tags,
+  category: post.category,
+  canonical: post.canonical,
+  focusKeyphrase: post.focusKeyphrase,
+});
@@ -1,12 +1,27 @@
-// Server-side API calls for sitemap generation
+// Server-side sitemap generation
+//
+// /sitemap.xml is a sitemap index pointing at the files served from
+// /sitemaps/[file]: static pages, posts in shards of POSTS_PER_SITEMAP, a
+// Google News sitemap of the last 48 hours, and categories, authors and
+// founder profiles. Each file is streamed as posts are fetched page by
+// page, so large archives never sit in memory as one string.
 
+import { getPostsApiUrl } from '@/lib/apiConfig';
 import { fetchFoundersForSitemap } from '@/lib/foundersApi';
+import { CATEGORIES } from '@/lib/categories';
+import { authorNameToSlug } from '@/lib/authorUtils';
+import { getImageUrlFromData } from '@/lib/imageHelpers';
+import { parseDate } from '@/lib/dateUtils';
 
 export interface SitemapUrl {
   loc: string;
-  lastmod: string;
-  changefreq: 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never';
-  priority: number;
+  lastmod?: string;
+  changefreq?: 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never';
+  priority?: number;
+  /** image:image entries */
+  images?: string[];
+  /** news:news entry; only in the news sitemap */
+  news?: { title: string; publishedAt: string };
 }
 
 export interface BlogPost {
@@ -16,210 +31,276 @@ export interface BlogPost {
   publishedAt: any;
   updatedAt?: any;
   status: string;
+  featuredImage?: unknown;
 }
 
-/**
- * Generate sitemap data with lastmod and priority for all published posts
- */
+/** Files listed in the sitemap index, besides the post shards */
+export type SitemapFile = 'pages' | 'news' | 'categories' | 'authors' | 'founders' | { posts: number };
+
 const DEFAULT_SITE_URL = 'https://www.techblit.com';
 
-export async function generateSitemap(): Promise<SitemapUrl[]> {
-  const siteUrl = process.env.SITE_URL || DEFAULT_SITE_URL;
-  const urls: SitemapUrl[] = [];
+/** Posts per post sitemap; the protocol allows 50,000 but small files regenerate faster */
+export const POSTS_PER_SITEMAP = 1000;
+/** Google News only accepts articles from the last two days */
+export const NEWS_WINDOW_HOURS = 48;
+/** Google News sitemaps are limited to 1,000 articles */
+const MAX_NEWS_URLS = 1000;
+/** Upper bound on post shards, so a misbehaving API can't loop forever */
+const MAX_POST_SITEMAPS = 200;
+const FETCH_PAGE_SIZE = 100;
+const FETCH_TIMEOUT_MS = 20000;
+const PUBLICATION_NAME = 'TechBlit';
 
-  try {
-    // Add static pages
-    urls.push({
-      loc: siteUrl,
-      lastmod: new Date().toISOString(),
-      changefreq: 'daily',
-      priority: 1.0,
-    });
-
-    urls.push({
-      loc: `${siteUrl}/about`,
-      lastmod: new Date().toISOString(),
-      changefreq: 'monthly',
-      priority: 0.8,
-    });
-
-    urls.push({
-      loc: `${siteUrl}/blog`,
-      lastmod: new Date().toISOString(),
-      changefreq: 'daily',
-      priority: 0.9,
-    });
-
-    urls.push({
-      loc: `${siteUrl}/founders`,
-      lastmod: new Date().toISOString(),
-      changefreq: 'daily',
-      priority: 0.85,
-    });
-
-    urls.push({
-      loc: `${siteUrl}/founders/apply`,
-      lastmod: new Date().toISOString(),
-      changefreq: 'monthly',
-      priority: 0.75,
-    });
-
-    // Fetch published blog posts via API
-    let posts: BlogPost[] = [];
-
-    try {
-      const FUNCTIONS_URL = process.env.NEXT_PUBLIC_FIREBASE_FUNCTIONS_URL || 
-                            'https://techblit-cloud-function-production.up.railway.app';
-      const API_BASE = `${FUNCTIONS_URL}/api/v1`;
-      
-      // Use no-store for sitemap generation since response is >2MB and can't be cached by Next.js
-      // This is only called during sitemap generation, not during page rendering
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 20000); // 20 second timeout
-      
-      try {
-        const response = await fetch(`${API_BASE}/posts?limit=1000`, {
-          cache: 'no-store', // Skip cache - response too large (>2MB) for Next.js cache
-          signal: controller.signal,
-        });
-        
-        clearTimeout(timeoutId);
-        
-        if (response.ok) {
-          const result = await response.json();
-          posts = (result.data || result) as BlogPost[];
-        }
-      } catch (fetchError) {
-        clearTimeout(timeoutId);
-        if (fetchError instanceof Error && fetchError.name === 'AbortError') {
-          console.error('Timeout fetching posts for sitemap (20s)');
-        } else {
-          throw fetchError;
-        }
-      }
-    } catch (error) {
-      console.error('Error fetching posts for sitemap:', error);
-      // Continue with empty posts array - will return static pages only
-    }
+export const getSiteUrl = () => process.env.SITE_URL || DEFAULT_SITE_URL;
 
-    // Add blog post URLs with appropriate priority and lastmod
-    posts.forEach((post) => {
-      // Helper to convert Firestore timestamp to Date
-      const toDate = (timestamp: any): Date => {
-        if (!timestamp) return new Date();
-        if (timestamp.toDate) return timestamp.toDate();
-        if (timestamp.seconds) return new Date(timestamp.seconds * 1000);
-        if (timestamp instanceof Date) return timestamp;
-        return new Date();
-      };
-
-      const publishedDate = toDate(post.publishedAt);
-      const updatedDate = toDate(post.updatedAt);
-      
-      // Use updatedAt if available, otherwise use publishedAt
-      const lastmod = (post.updatedAt ? updatedDate : publishedDate).toISOString();
-      
-      // Calculate priority based on post age and recency
-      const postAge = Date.now() - publishedDate.getTime();
-      const daysSincePublished = postAge / (1000 * 60 * 60 * 24);
-      
-      let priority = 0.7; // Default priority for blog posts
-      
-      // Higher priority for recent posts
-      if (daysSincePublished < 7) {
-        priority = 0.9;
-      } else if (daysSincePublished < 30) {
-        priority = 0.8;
-      } else if (daysSincePublished < 90) {
-        priority = 0.7;
-      } else {
-        priority = 0.6;
-      }
+/** Escape text for XML element content; URLs with query strings contain `&` */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
 
-      urls.push({
-        loc: `${siteUrl}/${post.slug}`,
-        lastmod,
-        changefreq: 'weekly',
-        priority,
-      });
-    });
-
-    try {
-      const founderSlugs = await fetchFoundersForSitemap();
-      founderSlugs.forEach((f) => {
-        urls.push({
-          loc: `${siteUrl}/founders/${f.slug}`,
-          lastmod: f.approved_at || new Date().toISOString(),
-          changefreq: 'weekly',
-          priority: 0.75,
-        });
-      });
-    } catch (e) {
-      console.error('Error fetching founders for sitemap:', e);
-    }
+export const sitemapFileName = (file: SitemapFile) =>
+  typeof file === 'string' ? `${file}.xml` : `posts-${file.posts}.xml`;
 
-    return urls;
-  } catch (error) {
-    console.error('Error generating sitemap:', error);
-    // Return basic sitemap with static pages if there's an error
-    const fallbackUrl = process.env.SITE_URL || DEFAULT_SITE_URL;
-    return [
-      {
-        loc: fallbackUrl,
-        lastmod: new Date().toISOString(),
-        changefreq: 'daily',
-        priority: 1.0,
-      },
-      {
-        loc: `${fallbackUrl}/about`,
-        lastmod: new Date().toISOString(),
-        changefreq: 'monthly',
-        priority: 0.8,
-      },
-      {
-        loc: `${fallbackUrl}/blog`,
-        lastmod: new Date().toISOString(),
-        changefreq: 'daily',
-        priority: 0.9,
-      },
-    ];
+/** Inverse of sitemapFileName; null for names that aren't ours */
+export function parseSitemapFileName(name: string): SitemapFile | null {
+  const posts = name.match(/^posts-([1-9]\d*)\.xml$/);
+  if (posts) return { posts: Number(posts[1]) };
+  const base = name.replace(/\.xml$/, '');
+  return ['pages', 'news', 'categories', 'authors', 'founders'].includes(base) && name.endsWith('.xml')
+    ? (base as SitemapFile)
+    : null;
+}
+
+// ----------------------------------------------------------------------------
+// Data
+// ----------------------------------------------------------------------------
+
+async function fetchPostsPage(offset: number, limit: number): Promise<BlogPost[]> {
+  // Pages of posts with their bodies are too large for the Next.js data cache;
+  // the sitemap responses themselves are cached at the edge instead
+  const response = await fetch(`${getPostsApiUrl()}/posts?limit=${limit}&offset=${offset}`, {
+    cache: 'no-store',
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`Posts API returned ${response.status}`);
+  const result = await response.json();
+  const posts = result.data || result;
+  return Array.isArray(posts) ? posts : [];
+}
+
+/** Published posts from `offset`, newest first, fetched a page at a time */
+async function* publishedPosts(offset: number, count: number): AsyncGenerator<BlogPost> {
+  for (let at = offset; at < offset + count; at += FETCH_PAGE_SIZE) {
+    const page = await fetchPostsPage(at, Math.min(FETCH_PAGE_SIZE, offset + count - at));
+    for (const post of page) {
+      if (post.slug && (!post.status || post.status === 'published')) yield post;
+    }
+    if (page.length < FETCH_PAGE_SIZE) return;
   }
 }
 
 /**
- * Generate XML sitemap string
+ * Number of post shards. The posts API doesn't report a total, so this
+ * probes one post at the start of each following shard.
  */
-export function generateSitemapXML(urls: SitemapUrl[]): string {
-  const xmlHeader = '<?xml version="1.0" encoding="UTF-8"?>';
-  const urlsetOpen = '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">';
-  const urlsetClose = '</urlset>';
-  
-  const urlEntries = urls.map(url => {
-    return `  <url>
-    <loc>${url.loc}</loc>
-    <lastmod>${url.lastmod}</lastmod>
-    <changefreq>${url.changefreq}</changefreq>
-    <priority>${url.priority}</priority>
-  </url>`;
-  }).join('\n');
-
-  return `${xmlHeader}\n${urlsetOpen}\n${urlEntries}\n${urlsetClose}`;
+export async function countPostSitemaps(): Promise<number> {
+  let shards = 1;
+  while (shards < MAX_POST_SITEMAPS && (await fetchPostsPage(shards * POSTS_PER_SITEMAP, 1)).length > 0) {
+    shards++;
+  }
+  return shards;
 }
 
-/**
- * Generate robots.txt content
- */
-export function generateRobotsTxt(siteUrl: string, customRules?: string): string {
-  const defaultRules = `User-agent: *
-Allow: /
-Disallow: /admin/
-Disallow: /api/
-Disallow: /preview/
+async function fetchAuthors(): Promise<Array<{ name: string; slug?: string }>> {
+  const response = await fetch(`${getPostsApiUrl()}/authors`, {
+    next: { revalidate: 3600 },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`Authors API returned ${response.status}`);
+  const result = await response.json();
+  return result.data || [];
+}
+
+// ----------------------------------------------------------------------------
+// Entries
+// ----------------------------------------------------------------------------
+
+/** Recent posts are recrawled more eagerly */
+function postPriority(publishedAt: Date): number {
+  const days = (Date.now() - publishedAt.getTime()) / (1000 * 60 * 60 * 24);
+  if (days < 7) return 0.9;
+  if (days < 30) return 0.8;
+  if (days < 90) return 0.7;
+  return 0.6;
+}
+
+function postUrl(post: BlogPost, siteUrl: string): SitemapUrl {
+  const publishedAt = parseDate(post.publishedAt) ?? new Date();
+  const updatedAt = parseDate(post.updatedAt);
+  const image = getImageUrlFromData(post.featuredImage, { preset: 'cover' });
+  return {
+    loc: `${siteUrl}/${post.slug}`,
+    lastmod: (updatedAt ?? publishedAt).toISOString(),
+    changefreq: 'weekly',
+    priority: postPriority(publishedAt),
+    images: image ? [image] : undefined,
+  };
+}
+
+function staticPageUrls(siteUrl: string): SitemapUrl[] {
+  const now = new Date().toISOString();
+  return [
+    { loc: siteUrl, lastmod: now, changefreq: 'daily', priority: 1.0 },
+    { loc: `${siteUrl}/blog`, lastmod: now, changefreq: 'daily', priority: 0.9 },
+    { loc: `${siteUrl}/about`, changefreq: 'monthly', priority: 0.8 },
+    { loc: `${siteUrl}/authors`, changefreq: 'weekly', priority: 0.7 },
+    { loc: `${siteUrl}/writers`, changefreq: 'weekly', priority: 0.6 },
+    { loc: `${siteUrl}/founders`, lastmod: now, changefreq: 'daily', priority: 0.85 },
+    { loc: `${siteUrl}/founders/apply`, changefreq: 'monthly', priority: 0.75 },
+  ];
+}
+
+async function* newsUrls(siteUrl: string): AsyncGenerator<SitemapUrl> {
+  const cutoff = Date.now() - NEWS_WINDOW_HOURS * 60 * 60 * 1000;
+  let count = 0;
+  for await (const post of publishedPosts(0, MAX_NEWS_URLS)) {
+    const publishedAt = parseDate(post.publishedAt);
+    // Posts come newest first, so the first old one ends the window
+    if (!publishedAt || publishedAt.getTime() < cutoff) return;
+    yield { loc: `${siteUrl}/${post.slug}`, news: { title: post.title, publishedAt: publishedAt.toISOString() } };
+    if (++count >= MAX_NEWS_URLS) return;
+  }
+}
+
+async function* entriesFor(file: SitemapFile, siteUrl: string): AsyncGenerator<SitemapUrl> {
+  if (typeof file === 'object') {
+    for await (const post of publishedPosts((file.posts - 1) * POSTS_PER_SITEMAP, POSTS_PER_SITEMAP)) {
+      yield postUrl(post, siteUrl);
+    }
+    return;
+  }
+  switch (file) {
+    case 'pages':
+      yield* staticPageUrls(siteUrl);
+      return;
+    case 'news':
+      yield* newsUrls(siteUrl);
+      return;
+    case 'categories':
+      for (const category of CATEGORIES) {
+        yield { loc: `${siteUrl}/category/${encodeURIComponent(category.slug)}`, changefreq: 'daily', priority: 0.8 };
+      }
+      return;
+    case 'authors':
+      for (const author of await fetchAuthors()) {
+        const slug = author.slug || authorNameToSlug(author.name);
+        if (slug) yield { loc: `${siteUrl}/authors/${slug}`, changefreq: 'weekly', priority: 0.6 };
+      }
+      return;
+    case 'founders':
+      for (const founder of await fetchFoundersForSitemap()) {
+        yield {
+          loc: `${siteUrl}/founders/${encodeURIComponent(founder.slug)}`,
+          lastmod: founder.approved_at,
+          changefreq: 'weekly',
+          priority: 0.75,
+        };
+      }
+      return;
+  }
+}
 
-Host: ${siteUrl}
+// ----------------------------------------------------------------------------
+// XML
+// ----------------------------------------------------------------------------
 
-Sitemap: ${siteUrl}/sitemap.xml`;
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>\n';
 
-  return customRules || defaultRules;
+function renderUrl(url: SitemapUrl): string {
+  const lines = [`  <url>`, `    <loc>${escapeXml(url.loc)}</loc>`];
+  if (url.lastmod) lines.push(`    <lastmod>${escapeXml(url.lastmod)}</lastmod>`);
+  if (url.changefreq) lines.push(`    <changefreq>${url.changefreq}</changefreq>`);
+  if (url.priority !== undefined) lines.push(`    <priority>${url.priority}</priority>`);
+  for (const image of url.images ?? []) {
+    lines.push(`    <image:image><image:loc>${escapeXml(image)}</image:loc></image:image>`);
+  }
+  if (url.news) {
+    lines.push(
+      '    <news:news>',
+      `      <news:publication><news:name>${PUBLICATION_NAME}</news:name><news:language>en</news:language></news:publication>`,
+      `      <news:publication_date>${escapeXml(url.news.publishedAt)}</news:publication_date>`,
+      `      <news:title>${escapeXml(url.news.title)}</news:title>`,
+      '    </news:news>'
+    );
+  }
+  lines.push('  </url>');
+  return `${lines.join('\n')}\n`;
 }
 
+function streamChunks(chunks: AsyncGenerator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(encoder.encode(value));
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+async function* urlsetChunks(file: SitemapFile, siteUrl: string): AsyncGenerator<string> {
+  yield XML_HEADER;
+  yield '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"' +
+    ' xmlns:image="http://www.google.com/schemas/sitemap-image/1.1"' +
+    ' xmlns:news="http://www.google.com/schemas/sitemap-news/0.9">\n';
+  try {
+    for await (const url of entriesFor(file, siteUrl)) yield renderUrl(url);
+  } catch (error) {
+    // Close the document anyway; crawlers retry truncated files less gracefully
+    console.error(`Error generating sitemap ${sitemapFileName(file)}:`, error);
+  }
+  yield '</urlset>\n';
+}
+
+async function* indexChunks(siteUrl: string): AsyncGenerator<string> {
+  let postShards = 1;
+  try {
+    postShards = await countPostSitemaps();
+  } catch (error) {
+    console.error('Error counting post sitemaps:', error);
+  }
+  const files: SitemapFile[] = [
+    'pages',
+    'news',
+    ...Array.from({ length: postShards }, (_, index) => ({ posts: index + 1 })),
+    'categories',
+    'authors',
+    'founders',
+  ];
+
+  yield XML_HEADER;
+  yield '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n';
+  for (const file of files) {
+    yield `  <sitemap><loc>${escapeXml(`${siteUrl}/sitemaps/${sitemapFileName(file)}`)}</loc></sitemap>\n`;
+  }
+  yield '</sitemapindex>\n';
+}
+
+/** The sitemap index served at /sitemap.xml */
+export const streamSitemapIndex = (siteUrl: string = getSiteUrl()) => streamChunks(indexChunks(siteUrl));
+
+/** One sitemap file from the index */
+export const streamSitemap = (file: SitemapFile, siteUrl: string = getSiteUrl()) =>
+  streamChunks(urlsetChunks(file, siteUrl));
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest'
+import { BlogPostSEO, generateStructuredData } from '@/lib/seo'
+import { renderFundingRoundHtml } from '@/lib/contentBlocks'
+import { JsonLdGraph, JsonLdNode } from '@/lib/structuredData'
+import { STRUCTURED_DATA_RULES, validateStructuredData } from '@/lib/structuredDataValidation'
+
+const basePost: BlogPostSEO = {
+  id: 'post-1',
+  title: 'Paystack expands to Egypt',
+  slug: 'paystack-expands-to-egypt',
+  excerpt: 'The payments company is launching in its fifth market.',
+  category: 'Tech News',
+  tags: ['Paystack', 'Egypt'],
+  author: {
+    uid: 'author-1',
+    name: 'Ada Obi',
+    avatar: 'https://www.techblit.com/avatars/ada.jpg',
+    sameAs: ['https://x.com/adaobi'],
+  },
+  publishedAt: new Date('2026-03-02T09:30:00Z'),
+  updatedAt: new Date('2026-03-02T11:00:00Z'),
+  featuredImage: { url: 'https://www.techblit.com/images/paystack.jpg', alt: 'Paystack office', width: 1200, height: 630 },
+  contentHtml: '<p>Paystack said on Monday it is launching in Egypt.</p><p>Merchants can sign up today.</p>',
+}
+
+const FAQ_HTML =
+  '<h2>FAQ</h2>' +
+  '<h3>Who can use Paystack in Egypt?</h3><p>Registered businesses in Egypt.</p>' +
+  '<h3>Which currencies are supported?</h3><p>Egyptian pounds, with dollars to follow.</p>'
+
+const HOW_TO_HTML =
+  '<h2>How to open a Paystack account</h2>' +
+  '<ol><li><strong>Sign up.</strong> Create an account with your email.</li>' +
+  '<li><strong>Verify.</strong> Upload your business documents.</li>' +
+  '<li><strong>Go live.</strong> Switch on live payments in the dashboard.</li></ol>'
+
+const FUNDING_HTML = renderFundingRoundHtml({
+  company: 'Moniepoint',
+  amount: 110000000,
+  currency: 'USD',
+  round: 'Series C',
+  investors: ['Google for Startups', 'Verod Capital'],
+})
+
+const nodesOfType = (graph: JsonLdGraph, type: string): JsonLdNode[] =>
+  graph['@graph'].filter((node) => node['@type'] === type)
+
+const errorsIn = (graph: JsonLdGraph) =>
+  validateStructuredData(graph).filter((issue) => issue.severity === 'error')
+
+describe('generateStructuredData', () => {
+  it('builds a valid NewsArticle with its author, publisher and site', () => {
+    const graph = generateStructuredData(basePost)
+
+    expect(errorsIn(graph)).toEqual([])
+    const [article] = nodesOfType(graph, 'NewsArticle')
+    expect(article).toMatchObject({ headline: basePost.title, wordCount: 14 })
+    const [person] = nodesOfType(graph, 'Person')
+    expect(person).toMatchObject({ name: 'Ada Obi', sameAs: ['https://x.com/adaobi'] })
+    expect(article.author).toEqual({ '@id': person['@id'] })
+    expect(nodesOfType(graph, 'Organization')).toHaveLength(1)
+    const [website] = nodesOfType(graph, 'WebSite')
+    // There is no search page for a SearchAction to lead to
+    expect(website).not.toHaveProperty('potentialAction')
+  })
+
+  it('describes video posts with a VideoObject', () => {
+    const graph = generateStructuredData({
+      ...basePost,
+      postType: 'video',
+      video: { url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ', duration: 754 },
+    })
+
+    expect(errorsIn(graph)).toEqual([])
+    const [video] = nodesOfType(graph, 'VideoObject')
+    expect(video).toMatchObject({ name: basePost.title, duration: 'PT12M34S' })
+    expect(nodesOfType(graph, 'NewsArticle')[0].video).toEqual({ '@id': video['@id'] })
+  })
+
+  it('adds FAQPage and HowTo nodes for content with those blocks', () => {
+    const graph = generateStructuredData({
+      ...basePost,
+      category: 'Guides',
+      contentHtml: basePost.contentHtml + HOW_TO_HTML + FAQ_HTML,
+    })
+
+    expect(errorsIn(graph)).toEqual([])
+    const [faq] = nodesOfType(graph, 'FAQPage')
+    expect(faq.mainEntity).toHaveLength(2)
+    const [howTo] = nodesOfType(graph, 'HowTo')
+    expect(howTo).toMatchObject({ name: 'How to open a Paystack account' })
+    expect(howTo.step).toHaveLength(3)
+  })
+
+  it('describes funding rounds as InvestmentOrGrant', () => {
+    const graph = generateStructuredData({
+      ...basePost,
+      title: 'Moniepoint raises $110M Series C',
+      slug: 'moniepoint-raises-110m',
+      category: 'Funding',
+      contentHtml: '<p>Moniepoint has raised new funding.</p>' + FUNDING_HTML,
+    })
+
+    expect(errorsIn(graph)).toEqual([])
+    const [grant] = nodesOfType(graph, 'InvestmentOrGrant')
+    expect(grant).toMatchObject({
+      name: 'Moniepoint Series C',
+      amount: { '@type': 'MonetaryAmount', value: 110000000, currency: 'USD' },
+      recipient: { '@type': 'Organization', name: 'Moniepoint' },
+    })
+  })
+
+  it('keeps every emitted type covered by a rule', () => {
+    const graph = generateStructuredData({
+      ...basePost,
+      postType: 'video',
+      video: { url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ' },
+      contentHtml: basePost.contentHtml + HOW_TO_HTML + FAQ_HTML + FUNDING_HTML,
+    })
+
+    const types = new Set(graph['@graph'].flatMap((node) => node['@type']))
+    for (const type of types) {
+      expect(STRUCTURED_DATA_RULES, type).toHaveProperty([type])
+    }
+  })
+})
+
+describe('validateStructuredData', () => {
+  it('reports missing required properties and dangling references', () => {
+    const graph = generateStructuredData(basePost)
+    const [article] = nodesOfType(graph, 'NewsArticle')
+    delete article.datePublished
+    article.publisher = { '@id': 'https://www.techblit.com/#missing' }
+
+    const messages = errorsIn(graph).map((issue) => issue.message)
+    expect(messages).toContain('Missing required property datePublished')
+    expect(messages).toContain('Reference to https://www.techblit.com/#missing has no matching node')
+  })
+})
@@ -0,0 +1,368 @@
+// schema.org structured data
+//
+// Pages emit one JSON-LD document holding a linked @graph: nodes point at
+// each other by @id instead of repeating the publisher or author inline.
+// The Organization and WebSite nodes are shared by every page; article
+// pages add their WebPage, article, authors, image, breadcrumbs and any
+// video, FAQ or how-to found in the body (see generateStructuredData in
+// lib/seo). validateStructuredData in lib/structuredDataValidation checks
+// the result against the properties search engines require.
+
+import { getAuthorUrl } from '@/lib/authorUtils'
+import { htmlToText } from '@/lib/diff'
+import { parseEmbedUrl } from '@/lib/embeds'
+import { ATN_FULL_NAME, ATN_PLAYLIST_URL } from '@/lib/atn'
+import type { VideoItem } from '@/lib/homepageTypes'
+
+export const SCHEMA_SITE_URL = 'https://www.techblit.com'
+
+export const ORGANIZATION_ID = `${SCHEMA_SITE_URL}/#organization`
+export const WEBSITE_ID = `${SCHEMA_SITE_URL}/#website`
+
+export interface JsonLdNode {
+  '@type': string | string[]
+  '@id'?: string
+  [property: string]: unknown
+}
+
+export interface JsonLdGraph {
+  '@context': 'https://schema.org'
+  '@graph': JsonLdNode[]
+}
+
+export const ref = (id: string) => ({ '@id': id })
+
+/** Categories whose posts are reported news rather than commentary or guides */
+export const NEWS_CATEGORIES = ['Tech News', 'Startup', 'Funding', 'Fintech', 'Events']
+
+export const isNewsCategory = (category: string | undefined): boolean =>
+  Boolean(category && NEWS_CATEGORIES.includes(category))
+
+export function structuredDataGraph(nodes: Array<JsonLdNode | null | undefined>): JsonLdGraph {
+  return { '@context': 'https://schema.org', '@graph': nodes.filter((node): node is JsonLdNode => Boolean(node)) }
+}
+
+/**
+ * JSON for a <script type="application/ld+json"> body. `<` is escaped so
+ * text taken from a post can't close the script element.
+ */
+export function serializeJsonLd(data: unknown): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c')
+}
+
+export function organizationNode(): JsonLdNode {
+  return {
+    '@type': 'Organization',
+    '@id': ORGANIZATION_ID,
+    name: 'TechBlit',
+    url: SCHEMA_SITE_URL,
+    description: "Igniting Africa's Tech Conversation",
+    logo: {
+      '@type': 'ImageObject',
+      '@id': `${SCHEMA_SITE_URL}/#logo`,
+      url: `${SCHEMA_SITE_URL}/favicon.png`,
+      contentUrl: `${SCHEMA_SITE_URL}/favicon.png`,
+      caption: 'TechBlit',
+    },
+    sameAs: [
+      'https://twitter.com/techblit',
+      'https://facebook.com/techblit',
+      'https://www.linkedin.com/company/techblit',
+    ],
+    contactPoint: {
+      '@type': 'ContactPoint',
+      contactType: 'Editorial',
+      email: 'hello@techblit.com',
+    },
+  }
+}
+
+export function websiteNode(): JsonLdNode {
+  return {
+    '@type': 'WebSite',
+    '@id': WEBSITE_ID,
+    name: 'TechBlit',
+    description: "Igniting Africa's Tech Conversation",
+    url: SCHEMA_SITE_URL,
+    inLanguage: 'en',
+    publisher: ref(ORGANIZATION_ID),
+    // No SearchAction: the site has no search results page to point it at
+  }
+}
+
+export interface StructuredDataAuthor {
+  name: string
+  /** Profile photo */
+  avatar?: string
+  /** Profiles elsewhere: X, LinkedIn, a personal site */
+  sameAs?: string[]
+}
+
+export const personId = (name: string) => `${SCHEMA_SITE_URL}${getAuthorUrl(name)}#person`
+
+export function personNode(author: StructuredDataAuthor): JsonLdNode {
+  const sameAs = (author.sameAs || []).filter((url) => /^https?:\/\//.test(url))
+  return {
+    '@type': 'Person',
+    '@id': personId(author.name),
+    name: author.name,
+    url: `${SCHEMA_SITE_URL}${getAuthorUrl(author.name)}`,
+    ...(author.avatar ? { image: { '@type': 'ImageObject', url: author.avatar, caption: author.name } } : {}),
+    ...(sameAs.length ? { sameAs } : {}),
+    worksFor: ref(ORGANIZATION_ID),
+  }
+}
+
+/** Words in an HTML body, counting only tokens with a letter or digit */
+export function countWords(html: string | undefined): number {
+  if (!html) return 0
+  return htmlToText(html).split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length
+}
+
+/** ISO 8601 duration for a length in seconds, e.g. 754 → PT12M34S */
+export function isoDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds))
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const secs = total % 60
+  return `PT${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}${secs || total === 0 ? `${secs}S` : ''}`
+}
+
+export interface StructuredDataVideo {
+  '@id': string
+  name: string
+  description?: string
+  /** Watch page or media file */
+  url: string
+  thumbnailUrl: string
+  uploadDate?: string
+  /** Seconds */
+  duration?: number
+  width?: number
+  height?: number
+}
+
+export function videoObjectNode(video: StructuredDataVideo): JsonLdNode {
+  // YouTube links are watch pages: the player goes in embedUrl, not contentUrl
+  const embed = parseEmbedUrl(video.url)
+  const isYoutube = embed?.provider === 'youtube'
+  return {
+    '@type': 'VideoObject',
+    '@id': video['@id'],
+    name: video.name,
+    description: video.description || video.name,
+    thumbnailUrl: [video.thumbnailUrl],
+    ...(video.uploadDate ? { uploadDate: video.uploadDate } : {}),
+    ...(video.duration ? { duration: isoDuration(video.duration) } : {}),
+    ...(isYoutube
+      ? { url: video.url, embedUrl: `https://www.youtube.com/embed/${embed.id}` }
+      : { contentUrl: video.url }),
+    ...(video.width ? { width: video.width } : {}),
+    ...(video.height ? { height: video.height } : {}),
+    publisher: ref(ORGANIZATION_ID),
+  }
+}
+
+export const ATN_SERIES_ID = `${SCHEMA_SITE_URL}/series/101#series`
+
+export function atnSeriesNode(): JsonLdNode {
+  return {
+    '@type': 'CreativeWorkSeries',
+    '@id': ATN_SERIES_ID,
+    name: ATN_FULL_NAME,
+    url: `${SCHEMA_SITE_URL}/series/101`,
+    sameAs: [ATN_PLAYLIST_URL],
+    publisher: ref(ORGANIZATION_ID),
+  }
+}
+
+/** An ATN episode from the YouTube playlist, as part of the ATN series */
+export function atnEpisodeNode(episode: VideoItem): JsonLdNode {
+  return {
+    ...videoObjectNode({
+      '@id': `${SCHEMA_SITE_URL}/series/101#video-${episode.id}`,
+      name: episode.title,
+      description: `${episode.title} — ${ATN_FULL_NAME}`,
+      url: episode.url,
+      thumbnailUrl: episode.thumbnail,
+      uploadDate: episode.publishedAt || undefined,
+    }),
+    partOfSeries: ref(ATN_SERIES_ID),
+  }
+}
+
+// Content detection. Posts have no dedicated FAQ or how-to blocks, so both
+// are read from the shape of the body: an "FAQ" heading followed by
+// questions, <details> disclosures, and numbered lists under "How to" or
+// "Steps" headings.
+
+export interface FaqEntry {
+  question: string
+  answer: string
+}
+
+export interface HowToStep {
+  name?: string
+  text: string
+}
+
+export interface HowToContent {
+  name: string
+  steps: HowToStep[]
+}
+
+interface Section {
+  level: number
+  heading: string
+  body: string
+}
+
+const cleanText = (html: string) => htmlToText(html).replace(/\s+/g, ' ').trim()
+
+/** Body split at headings; text before the first heading has level 0 */
+function splitSections(html: string): Section[] {
+  const sections: Section[] = []
+  const pattern = /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi
+  let last = 0
+  let current: Section = { level: 0, heading: '', body: '' }
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(html)) !== null) {
+    current.body = html.slice(last, match.index)
+    sections.push(current)
+    current = { level: Number(match[1]), heading: cleanText(match[2]), body: '' }
+    last = pattern.lastIndex
+  }
+  current.body = html.slice(last)
+  sections.push(current)
+  return sections
+}
+
+const FAQ_HEADING = /\b(faqs?|frequently asked questions)\b/i
+const BOLD_QUESTION = /<p\b[^>]*>\s*<(strong|b)\b[^>]*>([\s\S]*?\?)\s*<\/\1>\s*<\/p>/gi
+
+/** Bold question paragraphs, each answered by what follows until the next */
+function boldQuestions(html: string): FaqEntry[] {
+  const entries: FaqEntry[] = []
+  const matches = Array.from(html.matchAll(BOLD_QUESTION))
+  matches.forEach((match, index) => {
+    const start = (match.index ?? 0) + match[0].length
+    const end = matches[index + 1]?.index ?? html.length
+    entries.push({ question: cleanText(match[2]), answer: cleanText(html.slice(start, end)) })
+  })
+  return entries
+}
+
+/**
+ * Questions and answers in a post: question headings (or bold question
+ * paragraphs) under an FAQ heading, and <details><summary> pairs anywhere.
+ * Entries without an answer are dropped.
+ */
+export function extractFaq(html: string | undefined): FaqEntry[] {
+  if (!html) return []
+  const entries: FaqEntry[] = []
+
+  const sections = splitSections(html)
+  sections.forEach((section, index) => {
+    if (!section.level || !FAQ_HEADING.test(section.heading)) return
+    entries.push(...boldQuestions(section.body))
+    for (const next of sections.slice(index + 1)) {
+      if (next.level <= section.level) break
+      if (next.heading.endsWith('?')) {
+        entries.push({ question: next.heading, answer: cleanText(next.body) })
+      } else {
+        entries.push(...boldQuestions(next.body))
+      }
+    }
+  })
+
+  for (const match of html.matchAll(/<details\b[^>]*>\s*<summary\b[^>]*>([\s\S]*?)<\/summary>([\s\S]*?)<\/details>/gi)) {
+    entries.push({ question: cleanText(match[1]), answer: cleanText(match[2]) })
+  }
+
+  const seen = new Set<string>()
+  return entries.filter((entry) => {
+    const key = entry.question.toLowerCase()
+    if (!entry.question || !entry.answer || seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+const HOW_TO_HEADING = /^(how to\b|steps?\b|step[- ]by[- ]step\b|instructions\b)/i
+const STEP_HEADING = /^step\s+\d+\s*[:.\-–—]?\s*/i
+
+/** Items of the first ordered list in some HTML */
+function orderedListSteps(html: string): HowToStep[] {
+  const list = html.match(/<ol\b[^>]*>([\s\S]*?)<\/ol>/i)
+  if (!list) return []
+  return Array.from(list[1].matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/gi))
+    .map((item) => {
+      // "<strong>Create an account.</strong> Sign up with…" names the step
+      const lead = item[1].match(/^\s*(?:<p\b[^>]*>\s*)?<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/i)
+      const name = lead ? cleanText(lead[2]).replace(/[:.\s]+$/, '') : ''
+      return { ...(name ? { name } : {}), text: cleanText(item[1]) }
+    })
+    .filter((step) => step.text)
+}
+
+/**
+ * Step-by-step instructions in a post, or null. Steps come from "Step 1: …"
+ * headings, or from the numbered list under a "How to" / "Steps" heading
+ * (or the first numbered list when the title itself starts with "How to").
+ * Fewer than two steps isn't a how-to.
+ */
+export function extractHowTo(html: string | undefined, title: string): HowToContent | null {
+  if (!html) return null
+  const sections = splitSections(html)
+
+  const stepSections = sections.filter((section) => STEP_HEADING.test(section.heading))
+  if (stepSections.length >= 2) {
+    const steps = stepSections
+      .map((section) => ({ name: section.heading.replace(STEP_HEADING, '') || section.heading, text: cleanText(section.body) }))
+      .filter((step) => step.text)
+    if (steps.length >= 2) return { name: title, steps }
+  }
+
+  for (const section of sections) {
+    if (!section.level || !HOW_TO_HEADING.test(section.heading)) continue
+    const steps = orderedListSteps(section.body)
+    if (steps.length >= 2) {
+      return { name: /^how to\b/i.test(section.heading) ? section.heading : title, steps }
+    }
+  }
+
+  if (/^how to\b/i.test(title.trim())) {
+    const steps = orderedListSteps(html)
+    if (steps.length >= 2) return { name: title, steps }
+  }
+  return null
+}
+
+export function faqPageNode(id: string, pageId: string, entries: FaqEntry[]): JsonLdNode {
+  return {
+    '@type': 'FAQPage',
+    '@id': id,
+    isPartOf: ref(pageId),
+    mainEntity: entries.map((entry) => ({
+      '@type': 'Question',
+      name: entry.question,
+      acceptedAnswer: { '@type': 'Answer', text: entry.answer },
+    })),
+  }
+}
+
+export function howToNode(id: string, pageId: string, howTo: HowToContent, imageId?: string): JsonLdNode {
+  return {
+    '@type': 'HowTo',
+    '@id': id,
+    name: howTo.name,
+    isPartOf: ref(pageId),
+    ...(imageId ? { image: ref(imageId) } : {}),
+    step: howTo.steps.map((step, index) => ({
+      '@type': 'HowToStep',
+      position: index + 1,
+      ...(step.name ? { name: step.name } : {}),
+      text: step.text,
+    })),
+  }
+}
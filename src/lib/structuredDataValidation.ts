@@ -0,0 +1,189 @@
+// Structured data validation
+//
+// Checks JSON-LD against the properties search engines need before they
+// show a rich result: required properties are errors, recommended ones are
+// warnings. Nodes nested anywhere in the graph are checked too, and @id
+// references must point at a node in the same document. Article pages log
+// the issues in development; the rules follow Google's structured data
+// documentation for each type.
+
+import type { JsonLdGraph, JsonLdNode } from '@/lib/structuredData'
+
+export type StructuredDataSeverity = 'error' | 'warning'
+
+export interface StructuredDataIssue {
+  severity: StructuredDataSeverity
+  /** Type of the node with the problem */
+  type: string
+  /** @id of the node, or its path in the document */
+  node: string
+  property?: string
+  message: string
+}
+
+interface TypeRule {
+  required?: string[]
+  /** Any one of these satisfies the requirement */
+  requiredOneOf?: string[][]
+  recommended?: string[]
+  check?: (node: JsonLdNode) => string[]
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/
+const ISO_DURATION = /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/
+
+const MAX_HEADLINE_LENGTH = 110
+
+const dateChecks = (...properties: string[]) => (node: JsonLdNode) =>
+  properties
+    .filter((property) => node[property] !== undefined && !ISO_DATE.test(String(node[property])))
+    .map((property) => `${property} must be an ISO 8601 date`)
+
+const articleRule: TypeRule = {
+  required: ['headline', 'image', 'datePublished', 'author', 'publisher'],
+  recommended: ['dateModified', 'mainEntityOfPage', 'description'],
+  check: (node) => [
+    ...dateChecks('datePublished', 'dateModified')(node),
+    ...(typeof node.headline === 'string' && node.headline.length > MAX_HEADLINE_LENGTH
+      ? [`headline is longer than ${MAX_HEADLINE_LENGTH} characters`]
+      : []),
+  ],
+}
+
+export const STRUCTURED_DATA_RULES: Record<string, TypeRule> = {
+  Article: articleRule,
+  NewsArticle: articleRule,
+  // Funders and recipients of a round are named without a site
+  Organization: { required: ['name'], recommended: ['url', 'logo', 'sameAs'] },
+  Person: { required: ['name'], recommended: ['url'] },
+  WebSite: { required: ['name', 'url'] },
+  WebPage: { required: ['url', 'name'], recommended: ['isPartOf'] },
+  ImageObject: { requiredOneOf: [['url', 'contentUrl']] },
+  BreadcrumbList: {
+    required: ['itemListElement'],
+    check: (node) => {
+      const items = (node.itemListElement as Array<Record<string, unknown>>) || []
+      return items.slice(0, -1).some((item) => !item.item) ? ['every breadcrumb but the last needs an item URL'] : []
+    },
+  },
+  ListItem: { required: ['position'] },
+  ItemList: { required: ['itemListElement'] },
+  VideoObject: {
+    required: ['name', 'thumbnailUrl', 'uploadDate'],
+    requiredOneOf: [['contentUrl', 'embedUrl']],
+    recommended: ['description', 'duration'],
+    check: (node) => [
+      ...dateChecks('uploadDate')(node),
+      ...(node.duration !== undefined && !ISO_DURATION.test(String(node.duration))
+        ? ['duration must be an ISO 8601 duration (PT1M30S)']
+        : []),
+    ],
+  },
+  CreativeWorkSeries: { required: ['name'] },
+  FAQPage: { required: ['mainEntity'] },
+  Question: { required: ['name', 'acceptedAnswer'] },
+  Answer: { required: ['text'] },
+  HowTo: {
+    required: ['name', 'step'],
+    check: (node) => (Array.isArray(node.step) && node.step.length < 2 ? ['a how-to needs at least two steps'] : []),
+  },
+  HowToStep: { required: ['text'] },
+  InvestmentOrGrant: { required: ['name'], recommended: ['amount'] },
+  MonetaryAmount: { required: ['value', 'currency'] },
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+
+const isNode = (value: unknown): value is JsonLdNode =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && '@type' in value
+
+const isReference = (value: unknown): value is { '@id': string } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  Object.keys(value).length === 1 && typeof (value as { '@id'?: unknown })['@id'] === 'string'
+
+const nodeTypes = (node: JsonLdNode) => (Array.isArray(node['@type']) ? node['@type'] : [node['@type']])
+
+/** Issues for a single node, against the rules of each of its types */
+function checkNode(node: JsonLdNode, label: string): StructuredDataIssue[] {
+  const issues: StructuredDataIssue[] = []
+  for (const type of nodeTypes(node)) {
+    const rule = STRUCTURED_DATA_RULES[type]
+    if (!rule) continue
+    const issue = (severity: StructuredDataSeverity, message: string, property?: string) =>
+      issues.push({ severity, type, node: label, property, message })
+
+    for (const property of rule.required || []) {
+      if (isEmpty(node[property])) issue('error', `Missing required property ${property}`, property)
+    }
+    for (const group of rule.requiredOneOf || []) {
+      if (group.every((property) => isEmpty(node[property]))) {
+        issue('error', `Needs one of ${group.join(', ')}`, group[0])
+      }
+    }
+    for (const property of rule.recommended || []) {
+      if (isEmpty(node[property])) issue('warning', `Missing recommended property ${property}`, property)
+    }
+    for (const message of rule.check?.(node) || []) issue('error', message)
+  }
+  return issues
+}
+
+/**
+ * Validate a JSON-LD document (a single node, an array of them or an
+ * @graph). Returns every issue found; an empty list means the document
+ * has what rich results need.
+ */
+export function validateStructuredData(data: JsonLdGraph | JsonLdNode | JsonLdNode[]): StructuredDataIssue[] {
+  const graph = !Array.isArray(data) && data['@graph']
+  const roots: unknown[] = Array.isArray(data) ? data : Array.isArray(graph) ? graph : [data]
+  const issues: StructuredDataIssue[] = []
+  const ids = new Set<string>()
+  const references: Array<{ id: string; from: string }> = []
+
+  const visit = (value: unknown, path: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${path}[${index}]`))
+      return
+    }
+    if (typeof value !== 'object' || value === null) return
+    if (isReference(value)) {
+      references.push({ id: value['@id'], from: path })
+      return
+    }
+    let label = path
+    if (isNode(value)) {
+      label = value['@id'] || path
+      if (value['@id']) ids.add(value['@id'])
+      issues.push(...checkNode(value, label))
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (!key.startsWith('@')) visit(child, `${label}.${key}`)
+    }
+  }
+  roots.forEach((root, index) => visit(root, `@graph[${index}]`))
+
+  for (const reference of references) {
+    if (!ids.has(reference.id)) {
+      issues.push({
+        severity: 'error',
+        type: '@id',
+        node: reference.from,
+        message: `Reference to ${reference.id} has no matching node`,
+      })
+    }
+  }
+  return issues
+}
+
+/** Log issues to the server console, for development builds */
+export function reportStructuredDataIssues(data: JsonLdGraph | JsonLdNode | JsonLdNode[], page: string): void {
+  const issues = validateStructuredData(data)
+  if (issues.length === 0) return
+  console.warn(
+    `Structured data issues on ${page}:\n` +
+      issues
+        .map((issue) => `  [${issue.severity}] ${issue.type} ${issue.node}${issue.property ? ` (${issue.property})` : ''}: ${issue.message}`)
+        .join('\n')
+  )
+}
@@ -0,0 +1,228 @@
+/**
+ * Editorial workflow for posts
+ *
+ * Declares which PostStatus transitions are legal, the permission each one
+ * needs, and the fields a post must have before it may enter a state. The
+ * editor and the posts list only offer transitions returned by
+ * `getAvailableTransitions`, and every applied transition appends a
+ * structured entry to `post.history`.
+ */
+
+import {
+  Post,
+  PostHistoryEntry,
+  PostStatus,
+  User,
+  PERMISSIONS,
+  canEditPost,
+  canPublishPost,
+  countApprovals,
+  hasPermission,
+} from '@/types/admin';
+import { extractPublicId } from '@/lib/imageHelpers';
+
+export type WorkflowAction =
+  | 'submit_for_review'
+  | 'request_changes'
+  | 'publish'
+  | 'schedule'
+  | 'unschedule'
+  | 'unpublish'
+  | 'archive'
+  | 'restore';
+
+export interface WorkflowTransition {
+  action: WorkflowAction;
+  label: string;
+  from: readonly PostStatus[];
+  to: PostStatus;
+  /**
+   * Permission required on top of being allowed to edit the post;
+   * `null` means edit access is enough
+   */
+  permission: string | null;
+}
+
+export const WORKFLOW_TRANSITIONS: readonly WorkflowTransition[] = [
+  { action: 'submit_for_review', label: 'Request Review', from: ['draft'], to: 'in_review', permission: null },
+  { action: 'request_changes', label: 'Request Changes', from: ['in_review'], to: 'draft', permission: PERMISSIONS.REVIEW_POST },
+  { action: 'publish', label: 'Publish', from: ['draft', 'in_review', 'scheduled'], to: 'published', permission: PERMISSIONS.PUBLISH_POST },
+  { action: 'schedule', label: 'Schedule', from: ['draft', 'in_review'], to: 'scheduled', permission: PERMISSIONS.PUBLISH_POST },
+  { action: 'unschedule', label: 'Unschedule', from: ['scheduled'], to: 'draft', permission: PERMISSIONS.PUBLISH_POST },
+  { action: 'unpublish', label: 'Unpublish', from: ['published'], to: 'draft', permission: PERMISSIONS.PUBLISH_POST },
+  { action: 'archive', label: 'Archive', from: ['draft', 'published'], to: 'archived', permission: PERMISSIONS.PUBLISH_POST },
+  { action: 'restore', label: 'Restore to Draft', from: ['archived'], to: 'draft', permission: PERMISSIONS.PUBLISH_POST },
+];
+
+interface FieldRequirement {
+  field: keyof Post;
+  message: string;
+  isSatisfied: (post: Partial<Post>, now: Date) => boolean;
+}
+
+const hasText = (field: 'title' | 'excerpt' | 'contentHtml' | 'slug') =>
+  (post: Partial<Post>) => Boolean(post[field]?.trim());
+
+const TITLE: FieldRequirement = { field: 'title', message: 'Title is required', isSatisfied: hasText('title') };
+const SLUG: FieldRequirement = { field: 'slug', message: 'Slug is required', isSatisfied: hasText('slug') };
+const EXCERPT: FieldRequirement = { field: 'excerpt', message: 'Excerpt is required', isSatisfied: hasText('excerpt') };
+const CONTENT: FieldRequirement = { field: 'contentHtml', message: 'Content is required', isSatisfied: hasText('contentHtml') };
+const FEATURED_IMAGE: FieldRequirement = {
+  field: 'featuredImage',
+  message: 'Featured image is required',
+  isSatisfied: (post) => Boolean(extractPublicId(post.featuredImage)),
+};
+const FUTURE_SCHEDULE: FieldRequirement = {
+  field: 'scheduledAt',
+  message: 'A publish date in the future is required to schedule',
+  isSatisfied: (post, now) => Boolean(post.scheduledAt && post.scheduledAt > now),
+};
+
+/**
+ * Fields a post must have to be in each state
+ */
+export const STATUS_REQUIREMENTS: Record<PostStatus, readonly FieldRequirement[]> = {
+  draft: [TITLE],
+  in_review: [TITLE, SLUG, EXCERPT, CONTENT],
+  scheduled: [TITLE, SLUG, EXCERPT, CONTENT, FEATURED_IMAGE, FUTURE_SCHEDULE],
+  published: [TITLE, SLUG, EXCERPT, CONTENT, FEATURED_IMAGE],
+  archived: [],
+};
+
+export class WorkflowError extends Error {
+  readonly action: WorkflowAction;
+  /** One message per problem, suitable for listing in the UI */
+  readonly problems: string[];
+  /** Missing fields keyed by Post field name */
+  readonly fieldErrors: Partial<Record<keyof Post, string>>;
+
+  constructor(action: WorkflowAction, problems: string[], fieldErrors: Partial<Record<keyof Post, string>> = {}) {
+    super(problems.join('. '));
+    this.name = 'WorkflowError';
+    this.action = action;
+    this.problems = problems;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+type WorkflowUser = Pick<User, 'uid' | 'role'>;
+
+export interface WorkflowContext {
+  /** SiteSettings.requiredApprovals; publishing is blocked until reached */
+  requiredApprovals?: number;
+  now?: Date;
+}
+
+export function getTransition(action: WorkflowAction): WorkflowTransition {
+  const transition = WORKFLOW_TRANSITIONS.find((t) => t.action === action);
+  if (!transition) {
+    throw new Error(`Unknown workflow action: ${action}`);
+  }
+  return transition;
+}
+
+function isPermitted(transition: WorkflowTransition, post: Partial<Post>, user: WorkflowUser): boolean {
+  // Posts without an author yet are being created by the current user
+  const authorUid = post.author?.uid ?? user.uid;
+  if (!canEditPost(user.role, authorUid, user.uid)) return false;
+  return transition.permission === null || hasPermission(user.role, transition.permission);
+}
+
+/**
+ * Transitions the user may apply to the post in its current state.
+ * Field requirements are not checked here so the UI can still offer the
+ * action and explain what is missing.
+ */
+export function getAvailableTransitions(post: Partial<Post>, user: WorkflowUser | null | undefined): WorkflowTransition[] {
+  if (!user) return [];
+  const status = post.status ?? 'draft';
+  return WORKFLOW_TRANSITIONS.filter(
+    (transition) => transition.from.includes(status) && isPermitted(transition, post, user)
+  );
+}
+
+/**
+ * Missing fields that would block the post from entering `status`
+ */
+export function getMissingFields(
+  post: Partial<Post>,
+  status: PostStatus,
+  now: Date = new Date()
+): Partial<Record<keyof Post, string>> {
+  const missing: Partial<Record<keyof Post, string>> = {};
+  for (const requirement of STATUS_REQUIREMENTS[status]) {
+    if (!requirement.isSatisfied(post, now)) {
+      missing[requirement.field] = requirement.message;
+    }
+  }
+  return missing;
+}
+
+/**
+ * Check a transition without applying it. Throws WorkflowError listing
+ * every reason the transition is not allowed.
+ */
+export function assertTransition(
+  post: Partial<Post>,
+  action: WorkflowAction,
+  user: WorkflowUser,
+  context: WorkflowContext = {}
+): WorkflowTransition {
+  const { requiredApprovals = 0, now = new Date() } = context;
+  const transition = getTransition(action);
+  const status = post.status ?? 'draft';
+
+  if (!transition.from.includes(status)) {
+    throw new WorkflowError(action, [`Cannot ${transition.label.toLowerCase()} a post that is ${status.replace('_', ' ')}`]);
+  }
+  if (!isPermitted(transition, post, user)) {
+    throw new WorkflowError(action, [`You don't have permission to ${transition.label.toLowerCase()} this post`]);
+  }
+  if (
+    (transition.to === 'published' || transition.to === 'scheduled') &&
+    !canPublishPost(user.role, post, requiredApprovals)
+  ) {
+    const remaining = requiredApprovals - countApprovals(post);
+    throw new WorkflowError(action, [
+      `Needs ${remaining} more reviewer approval${remaining === 1 ? '' : 's'} before it can go live`,
+    ]);
+  }
+
+  const fieldErrors = getMissingFields(post, transition.to, now);
+  const problems = Object.values(fieldErrors).filter((message): message is string => Boolean(message));
+  if (problems.length > 0) {
+    throw new WorkflowError(action, problems, fieldErrors);
+  }
+
+  return transition;
+}
+
+/**
+ * Validate and apply a transition, returning the fields to persist:
+ * the new status, the history with the transition appended, and
+ * `publishedAt` when the post goes live.
+ */
+export function applyTransition(
+  post: Partial<Post>,
+  action: WorkflowAction,
+  user: WorkflowUser,
+  options: WorkflowContext & { note?: string } = {}
+): Pick<Post, 'status' | 'history'> & { publishedAt?: Date } {
+  const now = options.now ?? new Date();
+  const transition = assertTransition(post, action, user, { ...options, now });
+
+  const entry: PostHistoryEntry = {
+    action: `workflow.${action}`,
+    by: user.uid,
+    at: now,
+    from: post.status ?? 'draft',
+    to: transition.to,
+  };
+  if (options.note) entry.note = options.note;
+
+  return {
+    status: transition.to,
+    history: [...(post.history || []), entry],
+    ...(transition.to === 'published' && !post.publishedAt ? { publishedAt: now } : {}),
+  };
+}
@@ -1,5 +1,7 @@
-import type { NextRequest } from 'next/server'
+import type { NextFetchEvent, NextRequest } from 'next/server'
 import { NextResponse } from 'next/server'
+import { blockedUserAgents, fetchCustomRobotsTxt, generateRobotsTxt, parseRobotsTxt } from '@/lib/robots'
+import { RedirectTable, buildRedirectTable, fetchRedirectRules, reportRedirectHits, resolveRedirect } from '@/lib/redirects'
 
 const SPAM_URL_PATTERNS = [
   '/shop/sv888',
@@ -10,69 +12,80 @@ const SPAM_URL_PATTERNS = [
 ]
 const SPAM_PATH_PATTERN = /^\/(shop|article)\/(sv888|kubet|binh888|binh-888)/i
 
-const BOT_USER_AGENTS = [
-  'bot', 'crawler', 'spider', 'scraper', 'curl', 'wget',
-  'googlebot', 'bingbot', 'slurp', 'duckduckbot', 'baiduspider',
-  'yandexbot', 'facebookexternalhit', 'twitterbot', 'linkedinbot',
-  'whatsapp', 'telegram', 'slack', 'discord', 'petalbot',
-  'semrushbot', 'ahrefsbot', 'dotbot', 'mj12bot', 'serpstatbot'
-]
-
-const BLOCKED_BOTS = [
-  'ahrefsbot',
-  'semrushbot',
-  'mj12bot',
-  'dotbot',
-  'blexbot',
-  'dataforseobot',
-  'serpstatbot',
-  'petalbot'
-]
+// Crawlers robots.txt shuts out of the whole site also get a 403 here, so
+// ones that ignore robots.txt are stopped too. The list comes from the
+// same settings as /robots.txt and is refreshed in the background.
+const ROBOTS_REFRESH_MS = 5 * 60 * 1000
+
+// Agents only matter here, not the Host and Sitemap lines
+const DEFAULT_ROBOTS_TXT = generateRobotsTxt('https://www.techblit.com')
+
+let blockedBots = blockedUserAgents(parseRobotsTxt(DEFAULT_ROBOTS_TXT))
+let blockedBotsCheckedAt = 0
+
+async function refreshBlockedBots() {
+  blockedBotsCheckedAt = Date.now()
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), 2000)
+  const custom = await fetchCustomRobotsTxt({ signal: controller.signal })
+  clearTimeout(timeoutId)
+  // Same fallback as /robots.txt when no custom file is set
+  blockedBots = blockedUserAgents(parseRobotsTxt(custom ?? DEFAULT_ROBOTS_TXT))
+}
 
-async function lookupRedirect(path: string): Promise<{ to: string; type: number } | null> {
-  try {
-    const FUNCTIONS_URL = process.env.NEXT_PUBLIC_FIREBASE_FUNCTIONS_URL ||
-      'https://techblit-cloud-function-production.up.railway.app'
-
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 2000)
-
-    const response = await fetch(
-      `${FUNCTIONS_URL}/api/v1/redirects/lookup?path=${encodeURIComponent(path)}`,
-      {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-        signal: controller.signal,
-      }
-    )
-
-    clearTimeout(timeoutId)
-
-    if (!response.ok) return null
-
-    const result = await response.json()
-    if (result.data?.found) {
-      return {
-        to: result.data.to,
-        type: result.data.type || 301,
-      }
-    }
+// Redirect rules live in memory and are reloaded in the background, so
+// requests only wait on the API while the first table loads. Hits are
+// counted here and reported in batches.
+const REDIRECTS_REFRESH_MS = 60 * 1000
+const HIT_FLUSH_COUNT = 50
+
+let redirectTable: RedirectTable | null = null
+let redirectsCheckedAt = 0
+const pendingHits = new Map<string, { count: number; lastHitAt: string }>()
+let pendingHitCount = 0
+
+function recordHit(id: string, count: number, lastHitAt: string) {
+  const hit = pendingHits.get(id)
+  pendingHits.set(id, {
+    count: (hit?.count ?? 0) + count,
+    lastHitAt: hit && hit.lastHitAt > lastHitAt ? hit.lastHitAt : lastHitAt,
+  })
+  pendingHitCount += count
+}
 
-    return null
-  } catch {
-    return null
+async function flushRedirectHits() {
+  const hits = Array.from(pendingHits, ([id, hit]) => ({ id, ...hit }))
+  pendingHits.clear()
+  pendingHitCount = 0
+  if (!(await reportRedirectHits(hits))) {
+    // Kept for the next flush
+    hits.forEach((hit) => recordHit(hit.id, hit.count, hit.lastHitAt))
   }
 }
 
-export async function middleware(request: NextRequest) {
+async function refreshRedirects() {
+  redirectsCheckedAt = Date.now()
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), 2000)
+  const rules = await fetchRedirectRules({ signal: controller.signal })
+  clearTimeout(timeoutId)
+  // The last good table keeps serving while the API is unreachable
+  if (rules) redirectTable = buildRedirectTable(rules)
+}
+
+export async function middleware(request: NextRequest, event: NextFetchEvent) {
   const { pathname } = request.nextUrl
   const userAgent = request.headers.get('user-agent')?.toLowerCase() || ''
 
+  if (Date.now() - blockedBotsCheckedAt > ROBOTS_REFRESH_MS) {
+    event.waitUntil(refreshBlockedBots())
+  }
+
   if (SPAM_URL_PATTERNS.some((pattern) => pathname.includes(pattern)) || SPAM_PATH_PATTERN.test(pathname)) {
     return new NextResponse(null, { status: 410, statusText: 'Gone' })
   }
 
-  if (BLOCKED_BOTS.some((bot) => userAgent.includes(bot))) {
+  if (blockedBots.some((bot) => userAgent.includes(bot))) {
     return new Response('Forbidden - Bot blocked', {
       status: 403,
       headers: { 'X-Robots-Tag': 'noindex, nofollow' },
@@ -84,8 +97,6 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next()
   }
 
-  const isBot = BOT_USER_AGENTS.some((bot) => userAgent.includes(bot))
-
   if (
     pathname.startsWith('/api') ||
     pathname.startsWith('/_next') ||
@@ -108,27 +119,28 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next()
   }
 
-  const normalizedPath = pathname.endsWith('/') && pathname !== '/'
-    ? pathname.slice(0, -1)
-    : pathname
-
-  if (!isBot) {
-    const redirect = await lookupRedirect(normalizedPath)
-    if (redirect) {
-      let redirectUrl = redirect.to
-      if (!redirectUrl.startsWith('http://') && !redirectUrl.startsWith('https://')) {
-        redirectUrl = new URL(redirect.to, request.url).toString()
-      }
-
-      const response = NextResponse.redirect(redirectUrl, {
-        status: redirect.type === 302 ? 302 : 301,
-      })
-      const count = redirectCount ? parseInt(redirectCount, 10) + 1 : 1
-      response.headers.set('x-middleware-redirect-count', count.toString())
-      return response
+  if (Date.now() - redirectsCheckedAt > REDIRECTS_REFRESH_MS) {
+    if (redirectTable) {
+      event.waitUntil(refreshRedirects())
+      event.waitUntil(flushRedirectHits())
+    } else {
+      await refreshRedirects()
     }
   }
 
+  const redirect = redirectTable && resolveRedirect(redirectTable, pathname, request.nextUrl.search)
+  if (redirect) {
+    recordHit(redirect.rule.id, 1, new Date().toISOString())
+    if (pendingHitCount >= HIT_FLUSH_COUNT) event.waitUntil(flushRedirectHits())
+
+    const response = NextResponse.redirect(new URL(redirect.location, request.url), {
+      status: redirect.status,
+    })
+    const count = redirectCount ? parseInt(redirectCount, 10) + 1 : 1
+    response.headers.set('x-middleware-redirect-count', count.toString())
+    return response
+  }
+
   return NextResponse.next()
 }
 
@@ -5,10 +5,20 @@ export type UserRole = 'super_admin' | 'editor' | 'author' | 'reviewer' | 'viewe
 export type PostStatus = 'draft' | 'in_review' | 'scheduled' | 'published' | 'archived';
 export type PostVisibility = 'public' | 'private' | 'members-only';
 export type RedirectType = 301 | 302;
+// exact: one path; pattern: `:param` segments and a `*` tail; regex: a JavaScript regular expression
+export type RedirectMatch = 'exact' | 'pattern' | 'regex';
+
+export const USER_ROLES: readonly UserRole[] = ['super_admin', 'editor', 'author', 'reviewer', 'viewer'];
+export const POST_STATUSES: readonly PostStatus[] = ['draft', 'in_review', 'scheduled', 'published', 'archived'];
+export const POST_VISIBILITIES: readonly PostVisibility[] = ['public', 'private', 'members-only'];
+export const REDIRECT_TYPES: readonly RedirectType[] = [301, 302];
+export const REDIRECT_MATCHES: readonly RedirectMatch[] = ['exact', 'pattern', 'regex'];
 
 // Grok Trends Types
 export type GrokStoryStatus = 'new' | 'draft_created' | 'published' | 'archived';
 
+export const GROK_STORY_STATUSES: readonly GrokStoryStatus[] = ['new', 'draft_created', 'published', 'archived'];
+
 export const GROK_CATEGORIES = [
   'Breaking News',
   'Trending Stories',
@@ -101,6 +111,8 @@ export interface Post {
   metaTitle: string;
   metaDescription: string;
   canonical: string;
+  /** Phrase the post is optimised for; used by the SEO analysis */
+  focusKeyphrase?: string;
   tags: string[];
   category: string;
   
@@ -148,18 +160,98 @@ export interface Post {
   // Visibility
   visibility: PostVisibility;
   
+  // Editorial review (comment threads and reviewer decisions)
+  review?: PostReview;
+
   // Audit Trail
-  history: Array<{
-    action: string;
-    by: string;
-    at: Date;
-    note?: string;
-  }>;
+  history: PostHistoryEntry[];
   
   // Content Tracking
   canonicalSource?: string;
 }
 
+export interface PostHistoryEntry {
+  action: string;
+  by: string;
+  at: Date;
+  note?: string;
+  // Set on workflow transitions (see lib/workflow)
+  from?: PostStatus;
+  to?: PostStatus;
+}
+
+export interface ReviewComment {
+  id: string;
+  authorUid: string;
+  authorName: string;
+  body: string;
+  createdAt: Date;
+}
+
+export interface ReviewThread {
+  id: string;
+  // Text that was selected when the thread was opened; the live anchor is a
+  // reviewComment mark carrying this thread's id in contentHtml
+  quote: string;
+  comments: ReviewComment[];
+  resolved: boolean;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+  createdAt: Date;
+}
+
+export type ReviewDecisionType = 'approved' | 'changes_requested';
+
+export const REVIEW_DECISIONS: readonly ReviewDecisionType[] = ['approved', 'changes_requested'];
+
+export interface ReviewDecision {
+  reviewerUid: string;
+  reviewerName: string;
+  decision: ReviewDecisionType;
+  note?: string;
+  at: Date;
+}
+
+export interface PostReview {
+  threads: ReviewThread[];
+  decisions: ReviewDecision[];
+}
+
+// Fields captured in every revision
+export type RevisionSnapshot = Pick<Post, 'title' | 'excerpt' | 'contentHtml' | 'metaTitle' | 'metaDescription' | 'featuredImage'>;
+
+export type RevisionReason = 'manual' | 'publish' | 'autosave' | 'restore';
+
+export const REVISION_REASONS: readonly RevisionReason[] = ['manual', 'publish', 'autosave', 'restore'];
+
+// Immutable snapshot of a post; restoring creates a new revision
+export interface PostRevision {
+  id: string;
+  postId: string;
+  reason: RevisionReason;
+  // Revision this one was restored from (reason === 'restore')
+  restoredFrom?: string;
+  createdBy: {
+    uid: string;
+    name: string;
+  };
+  createdAt: Date;
+  snapshot: RevisionSnapshot;
+}
+
+// Soft edit lock: tells others who has a post open, without blocking them
+export interface PostLock {
+  postId: string;
+  holder: {
+    uid: string;
+    name: string;
+    avatar?: string;
+  };
+  acquiredAt: Date;
+  // Lapses unless the holder's heartbeat extends it
+  expiresAt: Date;
+}
+
 export interface Media {
   id: string;
   fileName: string;
@@ -170,6 +262,10 @@ export interface Media {
   height: number;
   alt: string;
   caption?: string;
+  credit?: string;
+  license?: string;
+  tags: string[];
+  folder?: string;
   sizes: {
     thumbnail?: string;
     medium?: string;
@@ -180,15 +276,55 @@ export interface Media {
   mimeType: string;
 }
 
+// Values available to filter the media library by
+export interface MediaFilterOptions {
+  folders: string[];
+  tags: string[];
+  uploaders: Array<{ uid: string; name: string }>;
+  mimeTypes: string[];
+}
+
+export type LinkCheckState = 'ok' | 'redirect' | 'broken' | 'error';
+
+export const LINK_CHECK_STATES: readonly LinkCheckState[] = ['ok', 'redirect', 'broken', 'error'];
+
+// Outcome of checking one outbound link
+export interface LinkCheckResult {
+  url: string;
+  state: LinkCheckState;
+  /** Status of the final response; null when no response arrived */
+  status: number | null;
+  /** Each hop that answered with a redirect, in order */
+  redirects: Array<{ url: string; status: number }>;
+  finalUrl: string;
+  error?: string;
+  checkedAt: Date;
+}
+
+// Last link check of a post's body
+export interface PostLinkReport {
+  postId: string;
+  postSlug: string;
+  postTitle: string;
+  links: LinkCheckResult[];
+  checkedAt: Date;
+}
+
 export interface Redirect {
   id: string;
   from: string;
   to: string;
   type: RedirectType;
+  match: RedirectMatch;
+  // Carry the request's query string over to the destination
+  preserveQuery: boolean;
   active: boolean;
   createdBy: string;
   createdAt: Date;
   notes?: string;
+  // Counted by the middleware and reported in batches
+  hits: number;
+  lastHitAt?: Date;
 }
 
 export interface SiteSettings {
@@ -205,6 +341,8 @@ export interface SiteSettings {
   maintenanceMode: boolean;
   customRobotsTxt?: string;
   searchConsoleProperty?: string;
+  // Reviewer approvals a post needs before it can be published (0 = none)
+  requiredApprovals?: number;
   indexingStatus?: {
     lastChecked: Date;
     indexedPages: number;
@@ -232,6 +370,7 @@ export const PERMISSIONS = {
   EDIT_ANY_POST: 'edit_any_post',
   DELETE_POST: 'delete_post',
   PUBLISH_POST: 'publish_post',
+  REVIEW_POST: 'review_post',
   
   // Media permissions
   UPLOAD_MEDIA: 'upload_media',
@@ -262,6 +401,7 @@ export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
     PERMISSIONS.CREATE_POST,
     PERMISSIONS.EDIT_ANY_POST,
     PERMISSIONS.PUBLISH_POST,
+    PERMISSIONS.REVIEW_POST,
     PERMISSIONS.UPLOAD_MEDIA,
     PERMISSIONS.MANAGE_MEDIA,
     PERMISSIONS.VIEW_ANALYTICS,
@@ -275,6 +415,7 @@ export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
   reviewer: [
     PERMISSIONS.EDIT_ANY_POST,
     PERMISSIONS.PUBLISH_POST,
+    PERMISSIONS.REVIEW_POST,
     PERMISSIONS.VIEW_ANALYTICS,
   ],
   viewer: [
@@ -297,8 +438,40 @@ export const canEditPost = (userRole: UserRole, postAuthorUid: string, currentUs
   return false;
 };
 
-export const canPublishPost = (userRole: UserRole): boolean => {
-  return hasPermission(userRole, PERMISSIONS.PUBLISH_POST);
+/**
+ * Whether the role may publish, and — when a post is given — whether the post
+ * has collected the approvals the site requires (see SiteSettings.requiredApprovals)
+ */
+export const canPublishPost = (
+  userRole: UserRole,
+  post?: Partial<Pick<Post, 'review' | 'author'>>,
+  requiredApprovals: number = 0
+): boolean => {
+  if (!hasPermission(userRole, PERMISSIONS.PUBLISH_POST)) {
+    return false;
+  }
+  if (!post || requiredApprovals <= 0) {
+    return true;
+  }
+  return countApprovals(post) >= requiredApprovals;
+};
+
+/**
+ * Distinct reviewers (other than the author) whose latest decision on the
+ * post is an approval. A later "changes requested" withdraws that reviewer's
+ * approval.
+ */
+export const countApprovals = (post: Partial<Pick<Post, 'review' | 'author'>>): number => {
+  const latestByReviewer = new Map<string, ReviewDecision>();
+  for (const decision of post.review?.decisions || []) {
+    const previous = latestByReviewer.get(decision.reviewerUid);
+    if (!previous || decision.at >= previous.at) {
+      latestByReviewer.set(decision.reviewerUid, decision);
+    }
+  }
+  return Array.from(latestByReviewer.values()).filter(
+    (decision) => decision.decision === 'approved' && decision.reviewerUid !== post.author?.uid
+  ).length;
 };
 
 export const canManageUsers = (userRole: UserRole): boolean => {
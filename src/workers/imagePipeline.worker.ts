@@ -0,0 +1,133 @@
+/**
+ * Image pipeline worker
+ *
+ * Decodes an image (applying its EXIF orientation), scales it to fit,
+ * and re-encodes it from a canvas, which drops EXIF/XMP metadata such as
+ * GPS location. Quality is searched so the output lands just under the
+ * target size. Runs one job at a time; see ImageWorkerPool.
+ */
+
+import type {
+  ImagePipelineJob,
+  ImagePipelineMessage,
+  ImageOutputType,
+} from '@/lib/imagePipeline';
+
+// The project compiles against the DOM lib, so type the worker scope by hand
+const scope = self as unknown as {
+  postMessage: (message: ImagePipelineMessage) => void;
+  onmessage: ((event: MessageEvent<ImagePipelineJob>) => void) | null;
+};
+
+const MIN_DIMENSION = 800;
+const QUALITY_SEARCH_STEPS = 6;
+
+const post = (message: ImagePipelineMessage) => scope.postMessage(message);
+
+const scaleToFit = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+/** Output types this browser can encode, in order of preference */
+async function supportedTypes(preferred: ImageOutputType): Promise<ImageOutputType[]> {
+  const candidates = Array.from(new Set<ImageOutputType>([preferred, 'image/webp', 'image/jpeg']));
+  const supported: ImageOutputType[] = [];
+  for (const type of candidates) {
+    // Unsupported types silently fall back to PNG
+    const probe = await new OffscreenCanvas(1, 1).convertToBlob({ type });
+    if (probe.type === type) supported.push(type);
+  }
+  return supported.length > 0 ? supported : ['image/jpeg'];
+}
+
+/**
+ * Highest quality whose output fits `targetBytes`, by binary search.
+ * Returns the smallest attempt when nothing fits.
+ */
+async function encodeForTarget(
+  canvas: OffscreenCanvas,
+  job: ImagePipelineJob,
+  type: ImageOutputType,
+  onStep: (step: number) => void
+): Promise<{ blob: Blob; quality: number }> {
+  const { minQuality, maxQuality, targetBytes } = job.options;
+
+  const first = await canvas.convertToBlob({ type, quality: maxQuality });
+  if (first.size <= targetBytes) return { blob: first, quality: maxQuality };
+
+  let low = minQuality;
+  let high = maxQuality;
+  let best: { blob: Blob; quality: number } | null = null;
+  let smallest = { blob: first, quality: maxQuality };
+
+  for (let step = 1; step <= QUALITY_SEARCH_STEPS; step++) {
+    onStep(step);
+    const quality = Number(((low + high) / 2).toFixed(3));
+    const blob = await canvas.convertToBlob({ type, quality });
+    if (blob.size < smallest.blob.size) smallest = { blob, quality };
+    if (blob.size <= targetBytes) {
+      best = { blob, quality };
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+
+  if (best) return best;
+  const floor = await canvas.convertToBlob({ type, quality: minQuality });
+  return floor.size < smallest.blob.size ? { blob: floor, quality: minQuality } : smallest;
+}
+
+async function run(job: ImagePipelineJob) {
+  const { id, options } = job;
+  post({ type: 'progress', id, stage: 'decoding', progress: 0.05 });
+
+  const bitmap = await createImageBitmap(job.blob, { imageOrientation: 'from-image' });
+  try {
+    let maxDimension = options.maxDimension;
+    let types: ImageOutputType[] | null = null;
+
+    while (maxDimension >= MIN_DIMENSION) {
+      const { width, height } = scaleToFit(bitmap.width, bitmap.height, maxDimension);
+      const canvas = new OffscreenCanvas(width, height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Failed to process image');
+
+      types ??= await supportedTypes(options.type);
+      const type = types[0];
+      if (type === 'image/jpeg') {
+        // JPEG has no alpha; keep transparent areas white rather than black
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(0, 0, width, height);
+      }
+      ctx.drawImage(bitmap, 0, 0, width, height);
+      post({ type: 'progress', id, stage: 'encoding', progress: 0.2 });
+
+      const { blob, quality } = await encodeForTarget(canvas, job, type, (step) =>
+        post({ type: 'progress', id, stage: 'encoding', progress: 0.2 + (0.75 * step) / QUALITY_SEARCH_STEPS })
+      );
+
+      if (blob.size <= options.maxBytes) {
+        post({ type: 'done', id, blob, width, height, mimeType: type, quality });
+        return;
+      }
+      maxDimension = Math.round(maxDimension * 0.8);
+    }
+
+    throw new Error('Image is too large after compression. Try a smaller image.');
+  } finally {
+    bitmap.close();
+  }
+}
+
+scope.onmessage = (event) => {
+  const job = event.data;
+  run(job).catch((error: unknown) => {
+    post({
+      type: 'error',
+      id: job.id,
+      message: error instanceof Error && error.message ? error.message : 'Failed to process image',
+    });
+  });
+};